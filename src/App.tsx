@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { RoleRoute } from "@/components/layout/RoleRoute";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
@@ -20,6 +21,8 @@ import Gamification from "./pages/Gamification";
 import Settings from "./pages/Settings";
 import Favorites from "./pages/Favorites";
 import Notifications from "./pages/Notifications";
+import Admin from "./pages/Admin";
+import Wallet from "./pages/Wallet";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -49,6 +52,15 @@ const App = () => (
             <Route path="/settings" element={<Settings />} />
             <Route path="/favorites" element={<Favorites />} />
             <Route path="/notifications" element={<Notifications />} />
+            <Route path="/wallet" element={<Wallet />} />
+            <Route
+              path="/admin"
+              element={
+                <RoleRoute role="moderator">
+                  <Admin />
+                </RoleRoute>
+              }
+            />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -1,7 +1,6 @@
 import { useState } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
 import {
@@ -32,7 +31,6 @@ export const NegotiationDialog = ({
   quantity,
   notes
 }: NegotiationDialogProps) => {
-  const { user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
@@ -41,39 +39,18 @@ export const NegotiationDialog = ({
 
   const createOrderWithNegotiationMutation = useMutation({
     mutationFn: async () => {
-      // Create the order first
-      const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .insert([{
-          buyer_id: user?.id,
-          seller_id: listing.seller_id,
-          listing_id: listing.id,
-          original_price: listing.price,
-          negotiated_price: offerAmount / quantity,
-          final_amount: offerAmount,
-          quantity,
-          notes,
-          status: 'pending'
-        }])
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      // Create negotiation record
-      const { error: negError } = await supabase
-        .from('order_negotiations')
-        .insert([{
-          order_id: order.id,
-          from_user_id: user?.id,
-          action: 'offer',
-          amount: offerAmount / quantity,
-          message: offerMessage
-        }]);
+      // The order and its opening per-unit offer are created together
+      const { data: orderId, error } = await supabase.rpc('place_order_with_offer', {
+        p_listing_id: listing.id,
+        p_quantity: quantity,
+        p_notes: notes,
+        p_amount: offerAmount / quantity,
+        p_message: offerMessage || undefined
+      });
 
-      if (negError) throw negError;
+      if (error) throw error;
 
-      return order;
+      return orderId;
     },
     onSuccess: () => {
       toast({
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { format } from 'date-fns';
+
+const targetTypes = ['listing', 'user', 'verification', 'category', 'badge', 'badge_metric', 'season', 'dispute', 'message'];
+
+export const AuditLogPanel = () => {
+  const [targetType, setTargetType] = useState('all');
+
+  const { data: actions, isLoading } = useQuery({
+    queryKey: ['moderation-actions', targetType],
+    queryFn: async () => {
+      let query = supabase
+        .from('moderation_actions')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (targetType !== 'all') {
+        query = query.eq('target_type', targetType);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      // moderation_actions references auth.users, so profiles are looked up separately
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('id, name')
+        .in('id', [...new Set(data.map((action) => action.actor_id))]);
+
+      return data.map((action) => ({
+        ...action,
+        actorName: profiles?.find((profile) => profile.id === action.actor_id)?.name ?? 'Unknown'
+      }));
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      <Select value={targetType} onValueChange={setTargetType}>
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All actions</SelectItem>
+          {targetTypes.map((type) => (
+            <SelectItem key={type} value={type} className="capitalize">{type.replace(/_/g, ' ')}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Moderator</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : actions?.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">No moderator actions yet</TableCell>
+                </TableRow>
+              ) : (
+                actions?.map((action) => (
+                  <TableRow key={action.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(action.created_at), 'MMM d, h:mm a')}
+                    </TableCell>
+                    <TableCell>{action.actorName}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{action.action.replace(/_/g, ' ')}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <span className="capitalize">{action.target_type.replace(/_/g, ' ')}</span>{' '}
+                      <span className="text-xs text-muted-foreground font-mono">{action.target_id?.slice(0, 8)}</span>
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate">{action.reason || '—'}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,321 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+
+type BadgeDefinition = Tables<'badges'>;
+
+const rarities = ['common', 'rare', 'epic', 'legendary'];
+
+const emptyForm = {
+  name: '',
+  description: '',
+  icon: 'award',
+  category: 'activity',
+  rarity: 'common',
+  requirementType: '',
+  requirementValue: '1',
+  xpReward: '50'
+};
+
+export const BadgeManager = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<BadgeDefinition | 'new' | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [deleting, setDeleting] = useState<BadgeDefinition | null>(null);
+
+  const { data: badges, isLoading } = useQuery({
+    queryKey: ['badges'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('badges')
+        .select('*')
+        .order('category')
+        .order('requirement_value');
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: metrics } = useQuery({
+    queryKey: ['badge-metrics'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('badge_metrics')
+        .select('requirement_type, description')
+        .order('requirement_type');
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['badges'] });
+    queryClient.invalidateQueries({ queryKey: ['moderation-actions'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('upsert_badge', {
+        p_id: editing && editing !== 'new' ? editing.id : undefined,
+        p_name: form.name,
+        p_description: form.description,
+        p_icon: form.icon,
+        p_category: form.category,
+        p_rarity: form.rarity,
+        p_requirement_type: form.requirementType,
+        p_requirement_value: parseInt(form.requirementValue, 10),
+        p_xp_reward: parseInt(form.xpReward, 10)
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: editing === 'new' ? 'Badge created' : 'Badge updated' });
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save badge', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('delete_badge', { p_id: id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setDeleting(null);
+      toast({ title: 'Badge deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete badge', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const openEditor = (badge: BadgeDefinition | 'new') => {
+    setEditing(badge);
+    setForm(
+      badge === 'new'
+        ? emptyForm
+        : {
+            name: badge.name,
+            description: badge.description,
+            icon: badge.icon,
+            category: badge.category,
+            rarity: badge.rarity,
+            requirementType: badge.requirement_type,
+            requirementValue: String(badge.requirement_value),
+            xpReward: String(badge.xp_reward)
+          }
+    );
+  };
+
+  const isValid =
+    !!form.name.trim() &&
+    !!form.requirementType.trim() &&
+    parseInt(form.requirementValue, 10) >= 0 &&
+    parseInt(form.xpReward, 10) >= 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => openEditor('new')}>
+          <Plus className="h-4 w-4 mr-2" />
+          New badge
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Badge</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Requirement</TableHead>
+                <TableHead>XP</TableHead>
+                <TableHead>Rarity</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : (
+                badges?.map((badge) => (
+                  <TableRow key={badge.id}>
+                    <TableCell>
+                      <p className="font-medium">{badge.name}</p>
+                      <p className="text-xs text-muted-foreground">{badge.description}</p>
+                    </TableCell>
+                    <TableCell>{badge.category}</TableCell>
+                    <TableCell>
+                      {badge.requirement_type} ≥ {badge.requirement_value}
+                    </TableCell>
+                    <TableCell>{badge.xp_reward}</TableCell>
+                    <TableCell><Badge variant="outline">{badge.rarity}</Badge></TableCell>
+                    <TableCell className="text-right">
+                      <Button size="icon" variant="ghost" onClick={() => openEditor(badge)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => setDeleting(badge)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New badge' : 'Edit badge'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4 md:grid-cols-2">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="badge-name">Name</Label>
+              <Input id="badge-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="badge-description">Description</Label>
+              <Textarea
+                id="badge-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="badge-icon">Icon</Label>
+              <Input id="badge-icon" value={form.icon} onChange={(e) => setForm({ ...form, icon: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="badge-category">Category</Label>
+              <Input
+                id="badge-category"
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="badge-requirement-type">Requirement type</Label>
+              <Select
+                value={form.requirementType}
+                onValueChange={(value) => setForm({ ...form, requirementType: value })}
+              >
+                <SelectTrigger id="badge-requirement-type">
+                  <SelectValue placeholder="Pick a metric" />
+                </SelectTrigger>
+                <SelectContent>
+                  {metrics?.map((metric) => (
+                    <SelectItem key={metric.requirement_type} value={metric.requirement_type}>
+                      {metric.description}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="badge-requirement-value">Requirement value</Label>
+              <Input
+                id="badge-requirement-value"
+                type="number"
+                min="0"
+                value={form.requirementValue}
+                onChange={(e) => setForm({ ...form, requirementValue: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="badge-xp">XP reward</Label>
+              <Input
+                id="badge-xp"
+                type="number"
+                min="0"
+                value={form.xpReward}
+                onChange={(e) => setForm({ ...form, xpReward: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Rarity</Label>
+              <Select value={form.rarity} onValueChange={(value) => setForm({ ...form, rarity: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {rarities.map((rarity) => (
+                    <SelectItem key={rarity} value={rarity}>{rarity}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !isValid}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Users who earned this badge lose it. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              disabled={deleteMutation.isPending}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
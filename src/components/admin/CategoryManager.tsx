@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+
+type Category = Tables<'categories'>;
+
+const ROOT = 'root';
+const emptyForm = { name: '', description: '', icon: '', parentId: ROOT };
+
+// Flattens the category tree depth-first so children follow their parent
+const flattenTree = (categories: Category[], parentId: string | null = null, depth = 0): { category: Category; depth: number }[] =>
+  categories
+    .filter((category) => category.parent_id === parentId)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((category) => [{ category, depth }, ...flattenTree(categories, category.id, depth + 1)]);
+
+const descendantIds = (categories: Category[], id: string): string[] =>
+  categories
+    .filter((category) => category.parent_id === id)
+    .flatMap((category) => [category.id, ...descendantIds(categories, category.id)]);
+
+export const CategoryManager = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [deleting, setDeleting] = useState<Category | null>(null);
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ['categories'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('categories').select('*');
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['categories'] });
+    queryClient.invalidateQueries({ queryKey: ['moderation-actions'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('upsert_category', {
+        p_id: editingId ?? undefined,
+        p_name: form.name,
+        p_description: form.description || undefined,
+        p_icon: form.icon || undefined,
+        p_parent_id: form.parentId === ROOT ? undefined : form.parentId
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: editingId ? 'Category updated' : 'Category created' });
+      setEditingId(null);
+      setForm(emptyForm);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save category', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('delete_category', { p_id: id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setDeleting(null);
+      toast({ title: 'Category deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete category', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const startEditing = (category: Category) => {
+    setEditingId(category.id);
+    setForm({
+      name: category.name,
+      description: category.description || '',
+      icon: category.icon || '',
+      parentId: category.parent_id || ROOT
+    });
+  };
+
+  const tree = flattenTree(categories);
+  const excludedParents = editingId ? [editingId, ...descendantIds(categories, editingId)] : [];
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-3">
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle className="text-lg">Category tree</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          {tree.length === 0 && <p className="text-sm text-muted-foreground">No categories yet.</p>}
+          {tree.map(({ category, depth }) => (
+            <div
+              key={category.id}
+              className="flex items-center justify-between rounded-lg p-2 hover:bg-muted"
+              style={{ paddingLeft: `${depth * 1.5 + 0.5}rem` }}
+            >
+              <div className="min-w-0">
+                <p className="font-medium truncate">
+                  {category.icon && <span className="mr-2">{category.icon}</span>}
+                  {category.name}
+                </p>
+                {category.description && (
+                  <p className="text-xs text-muted-foreground truncate">{category.description}</p>
+                )}
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <Button size="icon" variant="ghost" onClick={() => startEditing(category)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" onClick={() => setDeleting(category)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{editingId ? 'Edit category' : 'New category'}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="category-name">Name</Label>
+            <Input
+              id="category-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category-icon">Icon</Label>
+            <Input
+              id="category-icon"
+              value={form.icon}
+              onChange={(e) => setForm({ ...form, icon: e.target.value })}
+              placeholder="e.g. 🔧"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Parent</Label>
+            <Select value={form.parentId} onValueChange={(value) => setForm({ ...form, parentId: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ROOT}>No parent (top level)</SelectItem>
+                {tree
+                  .filter(({ category }) => !excludedParents.includes(category.id))
+                  .map(({ category, depth }) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {'— '.repeat(depth)}{category.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category-description">Description</Label>
+            <Textarea
+              id="category-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+          <div className="flex gap-2">
+            {editingId && (
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => {
+                  setEditingId(null);
+                  setForm(emptyForm);
+                }}
+              >
+                Cancel
+              </Button>
+            )}
+            <Button
+              className="flex-1"
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !form.name.trim()}
+            >
+              {!editingId && <Plus className="h-4 w-4 mr-2" />}
+              {editingId ? 'Save' : 'Add category'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its subcategories and listings move up to the parent category.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              disabled={deleteMutation.isPending}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DisputeReviewCard, DisputeWithOrder } from '@/components/dispute/DisputeReviewCard';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Gavel } from 'lucide-react';
+
+type QueueFilter = 'queue' | 'closed';
+
+export const DisputeQueuePanel = () => {
+  const [filter, setFilter] = useState<QueueFilter>('queue');
+
+  const { data: disputes, isLoading } = useQuery({
+    queryKey: ['moderation-disputes', filter],
+    queryFn: async () => {
+      const statuses = filter === 'queue' ? ['open', 'under_review'] as const : ['resolved', 'dismissed'] as const;
+      const { data, error } = await supabase
+        .from('disputes')
+        .select(`
+          *,
+          dispute_evidence(*),
+          orders(
+            id, buyer_id, seller_id, final_amount, refunded_amount, deposit_amount, deposit_status,
+            listings(title),
+            buyer_profile:profiles!orders_buyer_id_fkey(name),
+            seller_profile:profiles!orders_seller_id_fkey(name)
+          )
+        `)
+        .in('status', [...statuses])
+        .order('created_at', { ascending: filter === 'queue' });
+
+      if (error) throw error;
+      return data as unknown as DisputeWithOrder[];
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={filter} onValueChange={(value) => setFilter(value as QueueFilter)}>
+        <TabsList>
+          <TabsTrigger value="queue">Queue</TabsTrigger>
+          <TabsTrigger value="closed">Closed</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-4">
+                <div className="h-4 bg-muted rounded mb-2" />
+                <div className="h-4 bg-muted rounded w-2/3" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : disputes?.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <Gavel className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">
+              {filter === 'queue' ? 'No open disputes' : 'No closed disputes'}
+            </h3>
+            <p className="text-muted-foreground">
+              {filter === 'queue' ? 'The queue is empty.' : 'Resolved disputes will show up here.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {disputes?.map((dispute) => (
+            <DisputeReviewCard key={dispute.id} dispute={dispute} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ReasonDialog } from '@/components/admin/ReasonDialog';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { Search } from 'lucide-react';
+
+type ModerationAction = 'pause' | 'delete' | 'restore';
+
+const actionCopy: Record<ModerationAction, { title: string; description: string; confirm: string }> = {
+  pause: {
+    title: 'Pause listing',
+    description: 'The listing is hidden from search and the seller cannot reactivate it.',
+    confirm: 'Pause'
+  },
+  delete: {
+    title: 'Remove listing',
+    description: 'The listing is removed and the seller is notified with your reason.',
+    confirm: 'Remove'
+  },
+  restore: {
+    title: 'Restore listing',
+    description: 'The listing goes live again and the seller regains control of it.',
+    confirm: 'Restore'
+  }
+};
+
+export const ListingModerationPanel = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [pending, setPending] = useState<{ id: string; title: string; action: ModerationAction } | null>(null);
+
+  const { data: listings, isLoading } = useQuery({
+    queryKey: ['admin-listings', search],
+    queryFn: async () => {
+      let query = supabase
+        .from('listings')
+        .select('id, title, status, price, created_at, moderation_reason, moderated_at, seller:profiles!listings_seller_id_fkey(name)')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (search.trim()) {
+        query = query.ilike('title', `%${search.trim()}%`);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ id, action, reason }: { id: string; action: ModerationAction; reason: string }) => {
+      const { error } = await supabase.rpc('moderate_listing', {
+        p_listing_id: id,
+        p_action: action,
+        p_reason: reason
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-listings'] });
+      queryClient.invalidateQueries({ queryKey: ['moderation-actions'] });
+      setPending(null);
+      toast({ title: 'Listing updated', description: 'The seller has been notified' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not update listing', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          className="pl-9"
+          placeholder="Search listings by title..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Listing</TableHead>
+                <TableHead>Seller</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : listings?.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">No listings found</TableCell>
+                </TableRow>
+              ) : (
+                listings?.map((listing) => (
+                  <TableRow key={listing.id}>
+                    <TableCell>
+                      <Link to={`/listing/${listing.id}`} className="font-medium hover:underline">
+                        {listing.title}
+                      </Link>
+                      {listing.moderation_reason && (
+                        <p className="text-xs text-muted-foreground">{listing.moderation_reason}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{listing.seller?.name || 'Unknown'}</TableCell>
+                    <TableCell>
+                      <Badge variant={listing.moderated_at ? 'destructive' : 'outline'}>{listing.status}</Badge>
+                    </TableCell>
+                    <TableCell>{listing.created_at && format(new Date(listing.created_at), 'MMM d, yyyy')}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      {listing.moderated_at ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setPending({ id: listing.id, title: listing.title, action: 'restore' })}
+                        >
+                          Restore
+                        </Button>
+                      ) : (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setPending({ id: listing.id, title: listing.title, action: 'pause' })}
+                          >
+                            Pause
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => setPending({ id: listing.id, title: listing.title, action: 'delete' })}
+                          >
+                            Remove
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <ReasonDialog
+        open={!!pending}
+        onOpenChange={(open) => !open && setPending(null)}
+        title={pending ? `${actionCopy[pending.action].title}: ${pending.title}` : ''}
+        description={pending ? actionCopy[pending.action].description : ''}
+        confirmLabel={pending ? actionCopy[pending.action].confirm : ''}
+        destructive={pending?.action === 'delete'}
+        isPending={moderateMutation.isPending}
+        onConfirm={(reason) => pending && moderateMutation.mutate({ id: pending.id, action: pending.action, reason })}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ReasonDialog } from '@/components/admin/ReasonDialog';
+import { MessageAttachments } from '@/components/chat/MessageAttachments';
+import { useToast } from '@/hooks/use-toast';
+import { messageReportReasonLabels } from '@/lib/messages';
+import { formatDistanceToNow } from 'date-fns';
+
+type Review = { reportId: string; actioned: boolean };
+
+export const MessageReportsPanel = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reviewing, setReviewing] = useState<Review | null>(null);
+
+  const { data: reports, isLoading } = useQuery({
+    queryKey: ['message-reports'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('message_reports')
+        .select(`
+          *,
+          reporter:profiles!message_reports_reporter_id_fkey(name),
+          reported_user:profiles!message_reports_reported_user_id_fkey(name, email)
+        `)
+        .eq('status', 'open')
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ reportId, actioned, note }: Review & { note: string }) => {
+      const { error } = await supabase.rpc('review_message_report', {
+        p_report_id: reportId,
+        p_actioned: actioned,
+        p_note: note
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { actioned }) => {
+      queryClient.invalidateQueries({ queryKey: ['message-reports'] });
+      queryClient.invalidateQueries({ queryKey: ['moderation-actions'] });
+      setReviewing(null);
+      toast({ title: actioned ? 'Report closed as actioned' : 'Report dismissed' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not review report', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  return (
+    <Card>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Reported user</TableHead>
+              <TableHead>Message</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Reported by</TableHead>
+              <TableHead>Reported</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">Loading...</TableCell>
+              </TableRow>
+            ) : reports?.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No open message reports
+                </TableCell>
+              </TableRow>
+            ) : (
+              reports?.map((report) => (
+                <TableRow key={report.id}>
+                  <TableCell>
+                    <Link to={`/profile/${report.reported_user_id}`} className="font-medium hover:underline">
+                      {report.reported_user?.name || 'Unnamed user'}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">{report.reported_user?.email}</p>
+                  </TableCell>
+                  <TableCell className="max-w-sm space-y-2">
+                    {report.message_text && <p className="text-sm whitespace-pre-wrap">{report.message_text}</p>}
+                    {report.attachments && report.attachments.length > 0 && (
+                      <MessageAttachments paths={report.attachments} />
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{messageReportReasonLabels[report.reason]}</Badge>
+                    {report.details && <p className="text-xs text-muted-foreground mt-1">{report.details}</p>}
+                  </TableCell>
+                  <TableCell>{report.reporter?.name || 'Unnamed user'}</TableCell>
+                  <TableCell>{formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="sm" onClick={() => setReviewing({ reportId: report.id, actioned: true })}>
+                      Action taken
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setReviewing({ reportId: report.id, actioned: false })}
+                    >
+                      Dismiss
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <ReasonDialog
+        open={!!reviewing}
+        onOpenChange={(open) => !open && setReviewing(null)}
+        title={reviewing?.actioned ? 'Close report as actioned' : 'Dismiss report'}
+        description={
+          reviewing?.actioned
+            ? 'Record what you did, for example suspending the user from the Users tab. The reporter is told action was taken.'
+            : 'The reporter is told the message was reviewed and no violation was found.'
+        }
+        confirmLabel={reviewing?.actioned ? 'Close report' : 'Dismiss'}
+        destructive={!reviewing?.actioned}
+        isPending={reviewMutation.isPending}
+        onConfirm={(note) => reviewing && reviewMutation.mutate({ ...reviewing, note })}
+      />
+    </Card>
+  );
+};
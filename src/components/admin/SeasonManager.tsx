@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Plus } from 'lucide-react';
+
+const emptyForm = {
+  name: '',
+  description: '',
+  startsAt: '',
+  endsAt: '',
+  prizePlaces: '3',
+  prizeXp: '500'
+};
+
+export const SeasonManager = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [creating, setCreating] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: seasons, isLoading } = useQuery({
+    queryKey: ['seasons', 'admin'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('seasons')
+        .select('*, prize_badge:badges(name)')
+        .order('starts_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('create_season', {
+        p_name: form.name,
+        p_description: form.description || undefined,
+        p_starts_at: new Date(form.startsAt).toISOString(),
+        p_ends_at: new Date(form.endsAt).toISOString(),
+        p_prize_places: parseInt(form.prizePlaces, 10),
+        p_prize_xp: parseInt(form.prizeXp, 10)
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['seasons'] });
+      queryClient.invalidateQueries({ queryKey: ['badges'] });
+      queryClient.invalidateQueries({ queryKey: ['moderation-actions'] });
+      toast({ title: 'Season scheduled' });
+      setCreating(false);
+      setForm(emptyForm);
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Could not create season',
+        // seasons_no_overlap
+        description: error.code === '23P01' ? 'It overlaps another season.' : error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const statusOf = (season: NonNullable<typeof seasons>[number]) => {
+    const now = new Date();
+    if (season.finalized_at) return 'Finished';
+    if (new Date(season.ends_at) <= now) return 'Finalizing';
+    if (new Date(season.starts_at) <= now) return 'Running';
+    return 'Scheduled';
+  };
+
+  const isValid =
+    !!form.name.trim() &&
+    !!form.startsAt &&
+    !!form.endsAt &&
+    new Date(form.endsAt) > new Date(form.startsAt) &&
+    parseInt(form.prizePlaces, 10) >= 1 &&
+    parseInt(form.prizeXp, 10) >= 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => setCreating(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New season
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Season</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Prize</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : !seasons?.length ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">No seasons yet</TableCell>
+                </TableRow>
+              ) : (
+                seasons.map((season) => (
+                  <TableRow key={season.id}>
+                    <TableCell>
+                      <p className="font-medium">{season.name}</p>
+                      {season.description && (
+                        <p className="text-xs text-muted-foreground">{season.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {format(new Date(season.starts_at), 'MMM d, yyyy')} – {format(new Date(season.ends_at), 'MMM d, yyyy')}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {season.prize_badge?.name ?? '—'} (top {season.prize_places})
+                    </TableCell>
+                    <TableCell><Badge variant="outline">{statusOf(season)}</Badge></TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New season</DialogTitle>
+            <DialogDescription>
+              Members race for the most XP earned between the start and end. The top finishers win a
+              badge created for this season.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4 md:grid-cols-2">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="season-name">Name</Label>
+              <Input id="season-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="season-description">Description</Label>
+              <Textarea
+                id="season-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="season-starts">Starts</Label>
+              <Input
+                id="season-starts"
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="season-ends">Ends</Label>
+              <Input
+                id="season-ends"
+                type="datetime-local"
+                value={form.endsAt}
+                onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="season-places">Prize places</Label>
+              <Input
+                id="season-places"
+                type="number"
+                min="1"
+                value={form.prizePlaces}
+                onChange={(e) => setForm({ ...form, prizePlaces: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="season-xp">Prize badge XP</Label>
+              <Input
+                id="season-xp"
+                type="number"
+                min="0"
+                value={form.prizeXp}
+                onChange={(e) => setForm({ ...form, prizeXp: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreating(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending || !isValid}>
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { OrderStatusBadge } from '@/components/order/OrderStatusBadge';
+import { ReasonDialog } from '@/components/admin/ReasonDialog';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { Search } from 'lucide-react';
+
+type UserResult = Database['public']['Functions']['search_users']['Returns'][number];
+
+export const UserLookupPanel = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [submittedSearch, setSubmittedSearch] = useState('');
+  const [selected, setSelected] = useState<UserResult | null>(null);
+  const [showVerifyDialog, setShowVerifyDialog] = useState(false);
+
+  const { data: users, isFetching } = useQuery({
+    queryKey: ['admin-users', submittedSearch],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('search_users', { p_query: submittedSearch });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!submittedSearch
+  });
+
+  const { data: orders } = useQuery({
+    queryKey: ['admin-user-orders', selected?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('id, status, final_amount, created_at, buyer_id, seller_id, listings(title)')
+        .or(`buyer_id.eq.${selected?.id},seller_id.eq.${selected?.id}`)
+        .order('created_at', { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!selected?.id
+  });
+
+  const setVerifiedMutation = useMutation({
+    mutationFn: async ({ userId, verified, reason }: { userId: string; verified: boolean; reason: string }) => {
+      const { error } = await supabase.rpc('set_user_verified', {
+        p_user_id: userId,
+        p_verified: verified,
+        p_reason: reason
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { verified }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-users'] });
+      queryClient.invalidateQueries({ queryKey: ['moderation-actions'] });
+      setSelected((current) => current && { ...current, is_verified: verified });
+      setShowVerifyDialog(false);
+      toast({ title: verified ? 'User verified' : 'Verification revoked' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not change verification', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="flex gap-2 max-w-md"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSubmittedSearch(search.trim());
+        }}
+      >
+        <Input
+          placeholder="Name, email or user id..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <Button type="submit" disabled={!search.trim() || isFetching}>
+          <Search className="h-4 w-4 mr-2" />
+          Search
+        </Button>
+      </form>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="text-lg">Results</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {!submittedSearch ? (
+              <p className="text-sm text-muted-foreground">Search for a user to see their details.</p>
+            ) : users?.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No users found.</p>
+            ) : (
+              users?.map((result) => (
+                <button
+                  key={result.id}
+                  type="button"
+                  onClick={() => setSelected(result)}
+                  className={`w-full flex items-center gap-3 p-2 rounded-lg text-left hover:bg-muted ${
+                    selected?.id === result.id ? 'bg-muted' : ''
+                  }`}
+                >
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={result.avatar_url || undefined} />
+                    <AvatarFallback>{result.name?.[0] || 'U'}</AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{result.name || 'Unnamed user'}</p>
+                    <p className="text-xs text-muted-foreground truncate">{result.email}</p>
+                  </div>
+                </button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          {selected ? (
+            <>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+                <div>
+                  <CardTitle className="text-lg">
+                    <Link to={`/profile/${selected.id}`} className="hover:underline">
+                      {selected.name || 'Unnamed user'}
+                    </Link>
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">{selected.email}</p>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {selected.is_verified && <Badge variant="outline">Verified</Badge>}
+                    {selected.roles.map((role) => (
+                      <Badge key={role} variant="secondary">{role}</Badge>
+                    ))}
+                    <Badge variant="outline">Trust {selected.trust_score}</Badge>
+                    <Badge variant="outline">Joined {format(new Date(selected.created_at), 'MMM yyyy')}</Badge>
+                  </div>
+                </div>
+                <Button
+                  variant={selected.is_verified ? 'outline' : 'default'}
+                  size="sm"
+                  onClick={() => setShowVerifyDialog(true)}
+                >
+                  {selected.is_verified ? 'Revoke verification' : 'Verify user'}
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Order</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Date</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {orders?.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-muted-foreground">No orders yet</TableCell>
+                      </TableRow>
+                    ) : (
+                      orders?.map((order) => (
+                        <TableRow key={order.id}>
+                          <TableCell>
+                            <Link to={`/orders/${order.id}`} className="hover:underline">
+                              {order.listings?.title || order.id.slice(0, 8)}
+                            </Link>
+                          </TableCell>
+                          <TableCell>{order.seller_id === selected.id ? 'Lender' : 'Borrower'}</TableCell>
+                          <TableCell><OrderStatusBadge status={order.status} /></TableCell>
+                          <TableCell>${Number(order.final_amount ?? 0).toFixed(2)}</TableCell>
+                          <TableCell>{order.created_at && format(new Date(order.created_at), 'MMM d, yyyy')}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </>
+          ) : (
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Select a user to see their order history.
+            </CardContent>
+          )}
+        </Card>
+      </div>
+
+      <ReasonDialog
+        open={showVerifyDialog}
+        onOpenChange={setShowVerifyDialog}
+        title={selected?.is_verified ? 'Revoke verification' : 'Verify user'}
+        description={
+          selected?.is_verified
+            ? 'The verified badge is removed from this profile.'
+            : 'The verified badge is shown on this profile and its listings.'
+        }
+        confirmLabel={selected?.is_verified ? 'Revoke' : 'Verify'}
+        destructive={selected?.is_verified}
+        isPending={setVerifiedMutation.isPending}
+        onConfirm={(reason) =>
+          selected && setVerifiedMutation.mutate({ userId: selected.id, verified: !selected.is_verified, reason })
+        }
+      />
+    </div>
+  );
+};
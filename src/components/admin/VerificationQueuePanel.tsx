@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ReasonDialog } from '@/components/admin/ReasonDialog';
+import { useToast } from '@/hooks/use-toast';
+import { getVerificationDocumentUrls } from '@/lib/verification';
+import { formatDistanceToNow } from 'date-fns';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+const CheckMark = ({ ok, label }: { ok: boolean; label: string }) => (
+  <span className="flex items-center gap-1 text-xs">
+    {ok ? <CheckCircle2 className="h-3 w-3 text-green-600" /> : <XCircle className="h-3 w-3 text-destructive" />}
+    {label}
+  </span>
+);
+
+export const VerificationQueuePanel = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rejecting, setRejecting] = useState<string | null>(null);
+
+  const { data: requests, isLoading } = useQuery({
+    queryKey: ['verification-requests'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('verification_requests')
+        .select('*')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+
+      // verification_requests references auth.users, so profiles are looked up separately
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('id, name, email, trust_score, created_at')
+        .in('id', data.map((request) => request.user_id));
+
+      return data.map((request) => ({
+        ...request,
+        profile: profiles?.find((profile) => profile.id === request.user_id) ?? null
+      }));
+    }
+  });
+
+  const documentPaths = (requests ?? []).flatMap((request) =>
+    [request.id_document_path, request.selfie_path].filter((path): path is string => !!path)
+  );
+
+  const { data: documentUrls = {} } = useQuery({
+    queryKey: ['verification-document-urls', documentPaths],
+    queryFn: () => getVerificationDocumentUrls(documentPaths),
+    enabled: documentPaths.length > 0,
+    staleTime: 5 * 60 * 1000
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ requestId, approve, note }: { requestId: string; approve: boolean; note?: string }) => {
+      const { error } = await supabase.rpc('review_verification_request', {
+        p_request_id: requestId,
+        p_approve: approve,
+        p_note: note
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: ['verification-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['moderation-actions'] });
+      setRejecting(null);
+      toast({ title: approve ? 'User verified' : 'Request rejected' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not review request', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  return (
+    <Card>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Documents</TableHead>
+              <TableHead>Contact</TableHead>
+              <TableHead>Trust score</TableHead>
+              <TableHead>Member since</TableHead>
+              <TableHead>Requested</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">Loading...</TableCell>
+              </TableRow>
+            ) : requests?.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No pending verification requests
+                </TableCell>
+              </TableRow>
+            ) : (
+              requests?.map((request) => (
+                <TableRow key={request.id}>
+                  <TableCell>
+                    <Link to={`/profile/${request.user_id}`} className="font-medium hover:underline">
+                      {request.profile?.name || 'Unnamed user'}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">{request.profile?.email}</p>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      {[
+                        { path: request.id_document_path, label: 'ID' },
+                        { path: request.selfie_path, label: 'Selfie' }
+                      ].map(({ path, label }) =>
+                        path && documentUrls[path] ? (
+                          <a
+                            key={label}
+                            href={documentUrls[path]}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="block h-12 w-12 overflow-hidden rounded-md bg-muted text-xs"
+                            title={label}
+                          >
+                            {path.endsWith('.pdf') ? (
+                              <span className="flex h-full items-center justify-center">PDF</span>
+                            ) : (
+                              <img src={documentUrls[path]} alt={label} className="h-full w-full object-cover" />
+                            )}
+                          </a>
+                        ) : (
+                          <span key={label} className="text-xs text-muted-foreground">
+                            {path ? label : `No ${label.toLowerCase()}`}
+                          </span>
+                        )
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="space-y-1">
+                    <CheckMark ok={!!request.email_confirmed_at} label="Email confirmed" />
+                    <CheckMark ok={!!request.phone_verified_at} label={request.phone ?? 'No phone'} />
+                  </TableCell>
+                  <TableCell>{request.profile?.trust_score ?? '—'}</TableCell>
+                  <TableCell>
+                    {request.profile?.created_at &&
+                      formatDistanceToNow(new Date(request.profile.created_at), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell>{formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      size="sm"
+                      onClick={() => reviewMutation.mutate({ requestId: request.id, approve: true })}
+                      disabled={reviewMutation.isPending}
+                    >
+                      Approve
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setRejecting(request.id)}>
+                      Reject
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <ReasonDialog
+        open={!!rejecting}
+        onOpenChange={(open) => !open && setRejecting(null)}
+        title="Reject verification"
+        description="The user is notified with your reason and can request again later."
+        confirmLabel="Reject"
+        destructive
+        isPending={reviewMutation.isPending}
+        onConfirm={(note) => rejecting && reviewMutation.mutate({ requestId: rejecting, approve: false, note })}
+      />
+    </Card>
+  );
+};
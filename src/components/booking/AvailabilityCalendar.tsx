@@ -0,0 +1,208 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { DateRange } from 'react-day-picker';
+import {
+  addDays,
+  addHours,
+  eachDayOfInterval,
+  format,
+  setHours,
+  startOfDay,
+  startOfHour
+} from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+export interface BookingPeriod {
+  starts_at: Date;
+  ends_at: Date;
+}
+
+interface AvailabilityCalendarProps {
+  listingId: string;
+  priceType: 'per_day' | 'hourly';
+  onChange: (period: BookingPeriod | null) => void;
+}
+
+const overlaps = (period: BookingPeriod, bookings: BookingPeriod[]) =>
+  bookings.some((b) => period.starts_at < b.ends_at && b.starts_at < period.ends_at);
+
+export const AvailabilityCalendar = ({ listingId, priceType, onChange }: AvailabilityCalendarProps) => {
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [day, setDay] = useState<Date | undefined>();
+  const [startHour, setStartHour] = useState<string>('');
+  const [duration, setDuration] = useState(1);
+
+  const { data: bookings = [] } = useQuery({
+    queryKey: ['listing-availability', listingId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_listing_availability', {
+        p_listing_id: listingId
+      });
+      if (error) throw error;
+      return (data || []).map((b) => ({
+        starts_at: new Date(b.starts_at),
+        ends_at: new Date(b.ends_at)
+      }));
+    }
+  });
+
+  // Every calendar day touched by an existing booking (ends are exclusive)
+  const bookedDays = useMemo(
+    () =>
+      bookings.flatMap((b) =>
+        eachDayOfInterval({ start: b.starts_at, end: new Date(b.ends_at.getTime() - 1) })
+      ),
+    [bookings]
+  );
+
+  const today = startOfDay(new Date());
+
+  const handleRangeSelect = (next: DateRange | undefined) => {
+    if (!next?.from) {
+      setRange(undefined);
+      onChange(null);
+      return;
+    }
+
+    const period = {
+      starts_at: startOfDay(next.from),
+      ends_at: addDays(startOfDay(next.to ?? next.from), 1)
+    };
+
+    // Ranges can't straddle someone else's booking; start over from the clicked day
+    if (overlaps(period, bookings)) {
+      setRange({ from: next.to ?? next.from });
+      onChange(null);
+      return;
+    }
+
+    setRange(next);
+    onChange(period);
+  };
+
+  const updateHourly = (nextDay: Date | undefined, nextHour: string, nextDuration: number) => {
+    if (!nextDay || nextHour === '' || nextDuration < 1) {
+      onChange(null);
+      return;
+    }
+    const starts_at = setHours(startOfDay(nextDay), parseInt(nextHour));
+    const period = { starts_at, ends_at: addHours(starts_at, nextDuration) };
+    onChange(overlaps(period, bookings) ? null : period);
+  };
+
+  const takenSlots = day
+    ? bookings.filter((b) => b.starts_at < addDays(startOfDay(day), 1) && b.ends_at > startOfDay(day))
+    : [];
+
+  const isHourTaken = (hour: number) => {
+    if (!day) return false;
+    const starts_at = setHours(startOfDay(day), hour);
+    return starts_at < startOfHour(new Date()) || overlaps({ starts_at, ends_at: addHours(starts_at, 1) }, bookings);
+  };
+
+  const selectedStart = day && startHour !== '' ? setHours(startOfDay(day), parseInt(startHour)) : null;
+  const selectedHourlyPeriod = selectedStart
+    ? { starts_at: selectedStart, ends_at: addHours(selectedStart, duration) }
+    : null;
+
+  if (priceType === 'per_day') {
+    return (
+      <div className="space-y-2">
+        <Label>Rental dates</Label>
+        <Calendar
+          mode="range"
+          selected={range}
+          onSelect={handleRangeSelect}
+          disabled={[{ before: today }, ...bookedDays]}
+          modifiers={{ booked: bookedDays }}
+          modifiersClassNames={{ booked: 'line-through' }}
+          className="rounded-md border"
+        />
+        <p className="text-xs text-muted-foreground">
+          {range?.from
+            ? `${format(range.from, 'MMM d')} – ${format(range.to ?? range.from, 'MMM d')}`
+            : 'Select your pickup and return days. Crossed-out days are already booked.'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Date</Label>
+        <Calendar
+          mode="single"
+          selected={day}
+          onSelect={(next) => {
+            setDay(next);
+            setStartHour('');
+            updateHourly(next, '', duration);
+          }}
+          disabled={{ before: today }}
+          className="rounded-md border"
+        />
+      </div>
+
+      {day && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Start time</Label>
+            <Select
+              value={startHour}
+              onValueChange={(value) => {
+                setStartHour(value);
+                updateHourly(day, value, duration);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Pick a time" />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <SelectItem key={hour} value={String(hour)} disabled={isHourTaken(hour)}>
+                    {format(setHours(startOfDay(day), hour), 'h:mm a')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="booking-hours">Hours</Label>
+            <Input
+              id="booking-hours"
+              type="number"
+              min="1"
+              max="24"
+              value={duration}
+              onChange={(e) => {
+                const next = parseInt(e.target.value) || 1;
+                setDuration(next);
+                updateHourly(day, startHour, next);
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {selectedHourlyPeriod && overlaps(selectedHourlyPeriod, bookings) && (
+        <p className="text-sm text-destructive">That time overlaps an existing booking.</p>
+      )}
+
+      {takenSlots.length > 0 && (
+        <div className="text-xs text-muted-foreground space-y-1">
+          <p>Already booked this day:</p>
+          {takenSlots.map((b) => (
+            <p key={b.starts_at.toISOString()}>
+              {format(b.starts_at, 'MMM d, h:mm a')} – {format(b.ends_at, 'MMM d, h:mm a')}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
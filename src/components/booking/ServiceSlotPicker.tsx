@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { addHours, differenceInMinutes, format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { BookingPeriod } from '@/components/booking/AvailabilityCalendar';
+
+export interface ServiceAppointment extends BookingPeriod {
+  slot_id: string;
+}
+
+interface ServiceSlotPickerProps {
+  serviceId: string;
+  onChange: (appointment: ServiceAppointment | null) => void;
+}
+
+const overlaps = (period: BookingPeriod, bookings: BookingPeriod[]) =>
+  bookings.some((b) => period.starts_at < b.ends_at && b.starts_at < period.ends_at);
+
+export const ServiceSlotPicker = ({ serviceId, onChange }: ServiceSlotPickerProps) => {
+  const [slotId, setSlotId] = useState('');
+  const [start, setStart] = useState('');
+  const [hours, setHours] = useState('1');
+
+  const { data: slots = [] } = useQuery({
+    queryKey: ['service-slots', serviceId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('service_slots')
+        .select('*')
+        .eq('service_id', serviceId)
+        .gt('ends_at', new Date().toISOString())
+        .order('starts_at');
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  // Confirmed appointments; requests the provider hasn't answered don't block a time
+  const { data: bookings = [] } = useQuery({
+    queryKey: ['listing-availability', serviceId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_listing_availability', {
+        p_listing_id: serviceId
+      });
+      if (error) throw error;
+      return (data || []).map((b) => ({
+        starts_at: new Date(b.starts_at),
+        ends_at: new Date(b.ends_at)
+      }));
+    }
+  });
+
+  const slot = slots.find((s) => s.id === slotId);
+  const slotStart = slot ? new Date(slot.starts_at) : null;
+  const slotEnd = slot ? new Date(slot.ends_at) : null;
+
+  // Appointments start on the hour from the beginning of the slot
+  const startTimes = slotStart && slotEnd
+    ? Array.from({ length: Math.floor(differenceInMinutes(slotEnd, slotStart) / 60) }, (_, i) => addHours(slotStart, i))
+        .filter((time) => time > new Date())
+    : [];
+
+  const selectedStart = start ? new Date(start) : null;
+  const maxHours = selectedStart && slotEnd ? Math.floor(differenceInMinutes(slotEnd, selectedStart) / 60) : 0;
+
+  const update = (nextSlotId: string, nextStart: string, nextHours: string) => {
+    if (!nextSlotId || !nextStart) {
+      onChange(null);
+      return;
+    }
+    const starts_at = new Date(nextStart);
+    const period = { starts_at, ends_at: addHours(starts_at, parseInt(nextHours)) };
+    onChange(overlaps(period, bookings) ? null : { slot_id: nextSlotId, ...period });
+  };
+
+  if (!slots.length) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        The provider hasn't published any available times yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Available times</Label>
+        <Select
+          value={slotId}
+          onValueChange={(value) => {
+            setSlotId(value);
+            setStart('');
+            setHours('1');
+            update(value, '', '1');
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Pick a day" />
+          </SelectTrigger>
+          <SelectContent>
+            {slots.map((s) => (
+              <SelectItem key={s.id} value={s.id}>
+                {format(new Date(s.starts_at), 'EEE, MMM d, h:mm a')} – {format(new Date(s.ends_at), 'h:mm a')}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {slot && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Start time</Label>
+            <Select
+              value={start}
+              onValueChange={(value) => {
+                setStart(value);
+                setHours('1');
+                update(slotId, value, '1');
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Pick a time" />
+              </SelectTrigger>
+              <SelectContent>
+                {startTimes.map((time) => (
+                  <SelectItem
+                    key={time.toISOString()}
+                    value={time.toISOString()}
+                    disabled={overlaps({ starts_at: time, ends_at: addHours(time, 1) }, bookings)}
+                  >
+                    {format(time, 'h:mm a')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Hours</Label>
+            <Select
+              value={hours}
+              onValueChange={(value) => {
+                setHours(value);
+                update(slotId, start, value);
+              }}
+              disabled={!selectedStart}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: Math.max(maxHours, 1) }, (_, i) => String(i + 1)).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value} hour{value !== '1' ? 's' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {selectedStart && overlaps({ starts_at: selectedStart, ends_at: addHours(selectedStart, parseInt(hours)) }, bookings) && (
+        <p className="text-sm text-destructive">That time overlaps an existing appointment.</p>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        You're billed per started hour between the service start and end scans, up to the hours you book.
+      </p>
+    </div>
+  );
+};
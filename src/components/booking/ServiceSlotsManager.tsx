@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CalendarClock, Plus, Trash2 } from 'lucide-react';
+
+interface ServiceSlotsManagerProps {
+  serviceId: string;
+}
+
+// Lets a provider publish the windows in which borrowers can book their service
+export const ServiceSlotsManager = ({ serviceId }: ServiceSlotsManagerProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [date, setDate] = useState('');
+  const [from, setFrom] = useState('09:00');
+  const [to, setTo] = useState('17:00');
+
+  const { data: slots = [] } = useQuery({
+    queryKey: ['service-slots', serviceId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('service_slots')
+        .select('*')
+        .eq('service_id', serviceId)
+        .gt('ends_at', new Date().toISOString())
+        .order('starts_at');
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const addSlotMutation = useMutation({
+    mutationFn: async () => {
+      const starts_at = new Date(`${date}T${from}`);
+      const ends_at = new Date(`${date}T${to}`);
+      if (ends_at <= starts_at) throw new Error('The end time must be after the start time');
+      if (starts_at < new Date()) throw new Error('Time slots cannot start in the past');
+
+      const { error } = await supabase.from('service_slots').insert({
+        service_id: serviceId,
+        provider_id: user?.id,
+        starts_at: starts_at.toISOString(),
+        ends_at: ends_at.toISOString()
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['service-slots', serviceId] });
+      toast({ title: 'Time slot added' });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Could not add time slot',
+        // service_slots_no_overlap
+        description: error.code === '23P01' ? 'It overlaps one of your existing time slots.' : error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const removeSlotMutation = useMutation({
+    mutationFn: async (slotId: string) => {
+      const { error } = await supabase.from('service_slots').delete().eq('id', slotId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['service-slots', serviceId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not remove time slot', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-primary" />
+          Availability
+        </CardTitle>
+        <CardDescription>
+          Borrowers can request appointments inside these times. Removing a slot keeps existing bookings.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="slot-date">Date</Label>
+            <Input id="slot-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="slot-from">From</Label>
+            <Input id="slot-from" type="time" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="slot-to">To</Label>
+            <Input id="slot-to" type="time" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => addSlotMutation.mutate()}
+          disabled={!date || addSlotMutation.isPending}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add time slot
+        </Button>
+
+        {slots.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center">No upcoming time slots</p>
+        ) : (
+          <div className="space-y-2">
+            {slots.map((slot) => (
+              <div key={slot.id} className="flex items-center justify-between text-sm">
+                <span>
+                  {format(new Date(slot.starts_at), 'EEE, MMM d, h:mm a')} – {format(new Date(slot.ends_at), 'h:mm a')}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeSlotMutation.mutate(slot.id)}
+                  disabled={removeSlotMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious
+} from '@/components/ui/carousel';
+import { attachmentThumbnailPath, getAttachmentUrls } from '@/lib/messages';
+
+interface MessageAttachmentsProps {
+  paths: string[];
+}
+
+// Photo thumbnails in a chat bubble; clicking one opens the full photos in a lightbox
+export const MessageAttachments = ({ paths }: MessageAttachmentsProps) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const allPaths = [...paths, ...paths.map(attachmentThumbnailPath)];
+
+  const { data: urls = {} } = useQuery({
+    queryKey: ['chat-attachment-urls', paths],
+    queryFn: () => getAttachmentUrls(allPaths),
+    enabled: paths.length > 0,
+    staleTime: 30 * 60 * 1000
+  });
+
+  if (paths.length === 0) return null;
+
+  return (
+    <>
+      <div className={`grid gap-1 ${paths.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+        {paths.map((path, index) => (
+          <button
+            key={path}
+            type="button"
+            onClick={() => setOpenIndex(index)}
+            className="block aspect-square w-32 overflow-hidden rounded-md bg-muted"
+          >
+            {(urls[attachmentThumbnailPath(path)] || urls[path]) && (
+              <img
+                src={urls[attachmentThumbnailPath(path)] || urls[path]}
+                alt="Photo attachment"
+                className="h-full w-full object-cover"
+              />
+            )}
+          </button>
+        ))}
+      </div>
+
+      <Dialog open={openIndex !== null} onOpenChange={(open) => !open && setOpenIndex(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogTitle className="sr-only">Photos</DialogTitle>
+          <Carousel opts={{ startIndex: openIndex ?? 0 }} className="mx-12">
+            <CarouselContent>
+              {paths.map((path) => (
+                <CarouselItem key={path} className="flex items-center justify-center">
+                  {urls[path] && (
+                    <img src={urls[path]} alt="Photo attachment" className="max-h-[70vh] rounded-md object-contain" />
+                  )}
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+            {paths.length > 1 && (
+              <>
+                <CarouselPrevious />
+                <CarouselNext />
+              </>
+            )}
+          </Carousel>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { messageReportReasonLabels, type MessageReportReason } from '@/lib/messages';
+
+interface ReportMessageDialogProps {
+  messageId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Sends a message the user received to the moderator queue
+export const ReportMessageDialog = ({ messageId, onOpenChange }: ReportMessageDialogProps) => {
+  const { toast } = useToast();
+  const [reason, setReason] = useState<MessageReportReason | ''>('');
+  const [details, setDetails] = useState('');
+
+  useEffect(() => {
+    if (messageId) {
+      setReason('');
+      setDetails('');
+    }
+  }, [messageId]);
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('report_message', {
+        p_message_id: messageId ?? '',
+        p_reason: reason as MessageReportReason,
+        p_details: details || undefined
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      onOpenChange(false);
+      toast({ title: 'Message reported', description: 'A moderator will review it. You can also block this user.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not report message', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  return (
+    <Dialog open={!!messageId} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report message</DialogTitle>
+          <DialogDescription>
+            Moderators will see this message and your note. The sender is not told who reported them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as MessageReportReason)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(messageReportReasonLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="Anything that helps us understand what happened"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => reportMutation.mutate()}
+            disabled={!reason || reportMutation.isPending}
+          >
+            Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,5 +1,6 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
+import { OrderStatusBadge } from '@/components/order/OrderStatusBadge';
+import { isReturnOverdue } from '@/lib/orders';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
@@ -28,16 +29,6 @@ export const RecentActivity = () => {
     enabled: !!user?.id
   });
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending': return 'default';
-      case 'accepted': return 'secondary';
-      case 'completed': return 'default';
-      case 'cancelled': return 'destructive';
-      default: return 'default';
-    }
-  };
-
   return (
     <Card>
       <CardHeader>
@@ -63,9 +54,7 @@ export const RecentActivity = () => {
                     {formatDistanceToNow(new Date(order.created_at))} ago
                   </p>
                 </div>
-                <Badge variant={getStatusColor(order.status)}>
-                  {order.status}
-                </Badge>
+                <OrderStatusBadge status={order.status} overdue={isReturnOverdue(order)} />
               </div>
             ))
           )}
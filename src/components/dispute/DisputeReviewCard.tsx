@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EvidenceGallery } from '@/components/dispute/EvidenceGallery';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DisputeOutcome,
+  disputeOutcomeLabels,
+  disputeReasonLabels,
+  disputeStatusLabels
+} from '@/lib/disputes';
+import { formatDistanceToNow } from 'date-fns';
+
+export type DisputeWithOrder = Tables<'disputes'> & {
+  dispute_evidence: Tables<'dispute_evidence'>[];
+  orders: Pick<
+    Tables<'orders'>,
+    'id' | 'buyer_id' | 'seller_id' | 'final_amount' | 'refunded_amount' | 'deposit_amount' | 'deposit_status'
+  > & {
+    listings: { title: string } | null;
+    buyer_profile: { name: string | null } | null;
+    seller_profile: { name: string | null } | null;
+  };
+};
+
+interface DisputeReviewCardProps {
+  dispute: DisputeWithOrder;
+}
+
+export const DisputeReviewCard = ({ dispute }: DisputeReviewCardProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [outcome, setOutcome] = useState<DisputeOutcome | ''>('');
+  const [amount, setAmount] = useState('');
+  const [atFault, setAtFault] = useState<'none' | 'lender' | 'borrower'>('none');
+  const [note, setNote] = useState('');
+
+  const order = dispute.orders;
+  const isOpen = dispute.status === 'open' || dispute.status === 'under_review';
+  const maxAmount =
+    outcome === 'refund'
+      ? Number(order.final_amount) - Number(order.refunded_amount)
+      : Number(order.deposit_amount);
+
+  const claimMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('claim_dispute', { p_dispute_id: dispute.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['moderation-disputes'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not claim dispute', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async () => {
+      if (!outcome) return;
+
+      const { error } = await supabase.rpc('resolve_dispute', {
+        p_dispute_id: dispute.id,
+        p_outcome: outcome,
+        p_amount: outcome === 'dismissal' ? undefined : parseFloat(amount),
+        p_note: note || undefined,
+        p_at_fault_user_id:
+          atFault === 'lender' ? order.seller_id : atFault === 'borrower' ? order.buyer_id : undefined
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['moderation-disputes'] });
+      toast({ title: 'Dispute resolved', description: 'Both parties have been notified' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not resolve dispute', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const parsedAmount = parseFloat(amount);
+  const canResolve =
+    !!outcome &&
+    (outcome === 'dismissal' || (!isNaN(parsedAmount) && parsedAmount > 0 && parsedAmount <= maxAmount));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div>
+          <CardTitle className="text-lg">
+            <Link to={`/orders/${order.id}`} className="hover:underline">
+              {order.listings?.title || 'Order'}
+            </Link>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {disputeReasonLabels[dispute.reason]} • reported{' '}
+            {formatDistanceToNow(new Date(dispute.created_at), { addSuffix: true })}
+          </p>
+        </div>
+        <Badge variant={isOpen ? 'destructive' : 'outline'}>{disputeStatusLabels[dispute.status]}</Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2 text-sm">
+          <div>
+            <p className="font-medium mb-1">Lender: {order.seller_profile?.name || 'Unknown'}</p>
+            <p className="text-muted-foreground whitespace-pre-wrap">
+              {dispute.lender_statement || 'No statement yet.'}
+            </p>
+          </div>
+          <div>
+            <p className="font-medium mb-1">Borrower: {order.buyer_profile?.name || 'Unknown'}</p>
+            <p className="text-muted-foreground whitespace-pre-wrap">
+              {dispute.borrower_statement || 'No statement yet.'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+          <span>Paid: ${Number(order.final_amount).toFixed(2)}</span>
+          <span>Refunded: ${Number(order.refunded_amount).toFixed(2)}</span>
+          <span>Deposit: ${Number(order.deposit_amount).toFixed(2)} ({order.deposit_status})</span>
+        </div>
+
+        <EvidenceGallery evidence={dispute.dispute_evidence} />
+
+        {dispute.outcome && (
+          <div className="p-3 bg-muted rounded-lg text-sm">
+            <p className="font-medium">
+              {disputeOutcomeLabels[dispute.outcome]}
+              {dispute.outcome_amount ? `: $${Number(dispute.outcome_amount).toFixed(2)}` : ''}
+            </p>
+            {dispute.resolution_note && <p className="text-muted-foreground">{dispute.resolution_note}</p>}
+          </div>
+        )}
+
+        {dispute.status === 'open' && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => claimMutation.mutate()}
+            disabled={claimMutation.isPending}
+          >
+            Start Review
+          </Button>
+        )}
+
+        {dispute.status === 'under_review' && (
+          <>
+            <Separator />
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Outcome</Label>
+                <Select value={outcome} onValueChange={(value) => setOutcome(value as DisputeOutcome)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose outcome" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(disputeOutcomeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {outcome && outcome !== 'dismissal' && (
+                <div className="space-y-2">
+                  <Label htmlFor={`amount-${dispute.id}`}>Amount</Label>
+                  <Input
+                    id={`amount-${dispute.id}`}
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max={maxAmount}
+                    placeholder={`Up to $${maxAmount.toFixed(2)}`}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>At fault</Label>
+                <Select value={atFault} onValueChange={(value) => setAtFault(value as typeof atFault)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Nobody</SelectItem>
+                    <SelectItem value="lender">Lender</SelectItem>
+                    <SelectItem value="borrower">Borrower</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`note-${dispute.id}`}>Note to both parties</Label>
+              <Textarea
+                id={`note-${dispute.id}`}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Explain the decision..."
+              />
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => resolveMutation.mutate()}
+              disabled={!canResolve || resolveMutation.isPending}
+            >
+              Resolve Dispute
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,44 @@
+import { useQuery } from '@tanstack/react-query';
+import { getEvidenceUrls } from '@/lib/disputes';
+import type { Tables } from '@/integrations/supabase/types';
+
+interface EvidenceGalleryProps {
+  evidence: Tables<'dispute_evidence'>[];
+}
+
+export const EvidenceGallery = ({ evidence }: EvidenceGalleryProps) => {
+  const paths = evidence.map((item) => item.storage_path);
+
+  const { data: urls = {} } = useQuery({
+    queryKey: ['dispute-evidence-urls', paths],
+    queryFn: () => getEvidenceUrls(paths),
+    enabled: paths.length > 0,
+    staleTime: 30 * 60 * 1000
+  });
+
+  if (evidence.length === 0) {
+    return <p className="text-sm text-muted-foreground">No photos added.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {evidence.map((item) => (
+        <a
+          key={item.id}
+          href={urls[item.storage_path]}
+          target="_blank"
+          rel="noreferrer"
+          className="block aspect-square overflow-hidden rounded-md bg-muted"
+        >
+          {urls[item.storage_path] && (
+            <img
+              src={urls[item.storage_path]}
+              alt={item.caption || 'Dispute evidence'}
+              className="h-full w-full object-cover"
+            />
+          )}
+        </a>
+      ))}
+    </div>
+  );
+};
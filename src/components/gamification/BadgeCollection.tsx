@@ -28,6 +28,7 @@ interface BadgeItem {
 interface BadgeCollectionProps {
   badges: BadgeItem[];
   earnedBadgeIds: string[];
+  newBadgeIds?: string[];
 }
 
 const rarityColors = {
@@ -37,12 +38,13 @@ const rarityColors = {
   legendary: 'border-amber-500/50 bg-amber-500/5',
 };
 
-export const BadgeCollection = ({ badges, earnedBadgeIds }: BadgeCollectionProps) => {
+export const BadgeCollection = ({ badges, earnedBadgeIds, newBadgeIds = [] }: BadgeCollectionProps) => {
   return (
     <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
       {badges.map((badge) => {
         const Icon = iconMap[badge.icon] || Trophy;
         const isEarned = earnedBadgeIds.includes(badge.id);
+        const isNew = isEarned && newBadgeIds.includes(badge.id);
         
         return (
           <Card
@@ -51,7 +53,8 @@ export const BadgeCollection = ({ badges, earnedBadgeIds }: BadgeCollectionProps
               'p-4 border-2 transition-all duration-200',
               isEarned 
                 ? rarityColors[badge.rarity as keyof typeof rarityColors] || rarityColors.common
-                : 'border-border bg-background opacity-50 grayscale'
+                : 'border-border bg-background opacity-50 grayscale',
+              isNew && 'ring-2 ring-primary ring-offset-2'
             )}
           >
             <div className="flex flex-col items-center text-center space-y-2">
@@ -69,8 +72,8 @@ export const BadgeCollection = ({ badges, earnedBadgeIds }: BadgeCollectionProps
                 <p className="text-xs text-muted-foreground mt-1">{badge.description}</p>
               </div>
               {isEarned && (
-                <Badge variant="secondary" className="text-xs">
-                  Earned
+                <Badge variant={isNew ? 'default' : 'secondary'} className="text-xs">
+                  {isNew ? 'New!' : 'Earned'}
                 </Badge>
               )}
             </div>
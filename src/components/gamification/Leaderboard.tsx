@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Card } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { profileColorClass, profileFrameClass } from '@/lib/perks';
+import {
+  formatLeaderboardScore,
+  leaderboardMetricLabels,
+  leaderboardPeriodLabels,
+  type LeaderboardMetric,
+  type LeaderboardPeriod
+} from '@/lib/leaderboards';
+import { Crown, MapPin, Medal, Timer } from 'lucide-react';
+
+const rankStyles: Record<number, string> = {
+  1: 'text-yellow-500',
+  2: 'text-slate-400',
+  3: 'text-amber-700'
+};
+
+export const Leaderboard = () => {
+  const { user } = useAuth();
+  const [metric, setMetric] = useState<LeaderboardMetric>('xp');
+  const [period, setPeriod] = useState<LeaderboardPeriod>('week');
+  const [nearby, setNearby] = useState(false);
+
+  const { data: seasons = [] } = useQuery({
+    queryKey: ['seasons'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('seasons')
+        .select('*, prize_badge:badges(name)')
+        .order('starts_at', { ascending: false })
+        .limit(10);
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const now = new Date();
+  const currentSeason = seasons.find((s) => new Date(s.starts_at) <= now && now < new Date(s.ends_at));
+  const lastSeason = seasons.find((s) => s.finalized_at);
+
+  const { data: podium = [] } = useQuery({
+    queryKey: ['season-podium', lastSeason?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('season_results')
+        .select('rank, xp, user_id, profile:profiles(name)')
+        .eq('season_id', lastSeason?.id ?? '')
+        .eq('podium', true)
+        .order('rank');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!lastSeason
+  });
+
+  // Seasons only rank XP
+  const activePeriod = period === 'season' && (!currentSeason || metric !== 'xp') ? 'week' : period;
+
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ['leaderboard', metric, activePeriod, nearby],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_leaderboard', {
+        p_metric: metric,
+        p_period: activePeriod,
+        p_neighborhood: nearby
+      });
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const periods = (Object.keys(leaderboardPeriodLabels) as LeaderboardPeriod[]).filter(
+    (p) => p !== 'season' || (currentSeason && metric === 'xp')
+  );
+  const refreshedAt = entries[0]?.refreshed_at;
+
+  return (
+    <div className="space-y-4">
+      {currentSeason && (
+        <Card className="p-6 bg-gradient-to-r from-primary/10 to-transparent">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-2">
+                <Crown className="h-5 w-5 text-primary" />
+                <h3 className="text-lg font-semibold">{currentSeason.name}</h3>
+              </div>
+              {currentSeason.description && (
+                <p className="text-sm text-muted-foreground mt-1">{currentSeason.description}</p>
+              )}
+              <p className="text-sm mt-2">
+                Earn the most XP to win{' '}
+                <span className="font-medium">{currentSeason.prize_badge?.name ?? 'the season badge'}</span>
+                {' '}— the top {currentSeason.prize_places} take it home.
+              </p>
+            </div>
+            <Badge variant="secondary" className="flex items-center gap-1 shrink-0">
+              <Timer className="h-3 w-3" />
+              Ends {formatDistanceToNow(new Date(currentSeason.ends_at), { addSuffix: true })}
+            </Badge>
+          </div>
+        </Card>
+      )}
+
+      {lastSeason && podium.length > 0 && (
+        <Card className="p-4">
+          <p className="text-sm font-medium mb-2">{lastSeason.name} winners</p>
+          <div className="flex flex-wrap gap-4 text-sm">
+            {podium.map((result) => (
+              <span key={result.user_id} className="flex items-center gap-1">
+                <Medal className={cn('h-4 w-4', rankStyles[result.rank])} />
+                {result.profile?.name || 'Anonymous'} · {result.xp.toLocaleString()} XP
+              </span>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      <Card className="p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <ToggleGroup
+            type="single"
+            value={metric}
+            onValueChange={(value) => value && setMetric(value as LeaderboardMetric)}
+          >
+            {(Object.keys(leaderboardMetricLabels) as LeaderboardMetric[]).map((m) => (
+              <ToggleGroupItem key={m} value={m}>
+                {leaderboardMetricLabels[m]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
+          <div className="flex items-center gap-4">
+            <Select value={activePeriod} onValueChange={(value) => setPeriod(value as LeaderboardPeriod)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {periods.map((p) => (
+                  <SelectItem key={p} value={p}>
+                    {leaderboardPeriodLabels[p]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Switch id="leaderboard-nearby" checked={nearby} onCheckedChange={setNearby} />
+              <Label htmlFor="leaderboard-nearby" className="flex items-center gap-1">
+                <MapPin className="h-4 w-4" />
+                Near me
+              </Label>
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {nearby
+              ? 'Nobody near you is ranked yet. Your neighborhood comes from the city on your latest listing.'
+              : 'Nobody is ranked yet for this period.'}
+          </p>
+        ) : (
+          <div className="divide-y">
+            {entries.map((entry) => (
+              <div
+                key={entry.user_id}
+                className={cn(
+                  'flex items-center gap-3 py-3 px-2 rounded-md',
+                  entry.user_id === user?.id && 'bg-primary/5'
+                )}
+              >
+                <span className={cn('w-8 text-center font-bold', rankStyles[entry.rank] ?? 'text-muted-foreground')}>
+                  {entry.rank}
+                </span>
+                <Avatar className={cn('h-9 w-9', profileFrameClass(entry.profile_frame))}>
+                  <AvatarImage src={entry.avatar_url ?? undefined} />
+                  <AvatarFallback>{entry.name?.[0] || 'U'}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <div className={cn('font-medium truncate', profileColorClass(entry.profile_color))}>
+                    {entry.name || 'Anonymous'}
+                    {entry.user_id === user?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Level {entry.level}
+                    {entry.neighborhood && ` · ${entry.neighborhood}`}
+                  </div>
+                </div>
+                <span className="font-semibold text-primary">{formatLeaderboardScore(metric, entry.score)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          {refreshedAt && `Updated ${formatDistanceToNow(new Date(refreshedAt), { addSuffix: true })}. `}
+          Don't want to be listed? Opt out in <Link to="/settings" className="underline">privacy settings</Link>.
+        </p>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  parseLevelPerks,
+  perkTypeLabels,
+  profileColorClass,
+  profileFrameClass,
+  type PerkType
+} from '@/lib/perks';
+import type { Tables } from '@/integrations/supabase/types';
+
+interface LevelPerksProps {
+  levels: Tables<'level_definitions'>[];
+  currentLevel: number;
+  equipped: Partial<Record<PerkType, string | null>>;
+  onEquip: (perk: PerkType, value: string | null) => void;
+  disabled?: boolean;
+}
+
+const PerkPreview = ({ perk, value }: { perk: PerkType; value: string | null }) =>
+  perk === 'profile_frame' ? (
+    <div className={cn('h-10 w-10 rounded-full bg-muted', profileFrameClass(value))} />
+  ) : (
+    <span className={cn('text-lg font-bold', profileColorClass(value))}>Aa</span>
+  );
+
+// Cosmetics unlocked by levelling up; locked ones show the level they need
+export const LevelPerks = ({ levels, currentLevel, equipped, onEquip, disabled }: LevelPerksProps) => {
+  const perkTypes = Object.keys(perkTypeLabels) as PerkType[];
+
+  return (
+    <div className="space-y-6">
+      {perkTypes.map((perk) => {
+        const options = levels.flatMap((level) => {
+          const value = parseLevelPerks(level.perks)[perk];
+          return value ? [{ value, level: level.level }] : [];
+        });
+        const current = equipped[perk] ?? null;
+
+        return (
+          <div key={perk} className="space-y-3">
+            <h4 className="font-medium">{perkTypeLabels[perk]}</h4>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+              <div className="flex flex-col items-center gap-2 p-3 border rounded-lg">
+                <PerkPreview perk={perk} value={null} />
+                <span className="text-sm">Default</span>
+                <Button
+                  size="sm"
+                  variant={current === null ? 'secondary' : 'outline'}
+                  disabled={disabled || current === null}
+                  onClick={() => onEquip(perk, null)}
+                >
+                  {current === null ? 'In use' : 'Use'}
+                </Button>
+              </div>
+              {options.map(({ value, level }) => {
+                const unlocked = level <= currentLevel;
+                const inUse = current === value;
+                return (
+                  <div
+                    key={value}
+                    className={cn('flex flex-col items-center gap-2 p-3 border rounded-lg', !unlocked && 'opacity-60')}
+                  >
+                    <PerkPreview perk={perk} value={value} />
+                    <span className="text-sm capitalize">{value}</span>
+                    {unlocked ? (
+                      <Button
+                        size="sm"
+                        variant={inUse ? 'secondary' : 'outline'}
+                        disabled={disabled || inUse}
+                        onClick={() => onEquip(perk, value)}
+                      >
+                        {inUse ? 'In use' : 'Use'}
+                      </Button>
+                    ) : (
+                      <span className="flex items-center gap-1 text-xs text-muted-foreground h-9">
+                        <Lock className="h-3 w-3" />
+                        Level {level}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -26,20 +26,24 @@ export const ReferralDashboard = () => {
     enabled: !!user?.id,
   });
 
-  const { data: referralCount = 0 } = useQuery({
-    queryKey: ['referral-count', user?.id],
+  const { data: referrals = [] } = useQuery({
+    queryKey: ['referral-stats', user?.id],
     queryFn: async () => {
-      if (!user?.id) return 0;
-      const { count } = await supabase
+      if (!user?.id) return [];
+      const { data } = await supabase
         .from('referrals')
-        .select('*', { count: 'exact', head: true })
-        .eq('referrer_id', user.id)
-        .eq('status', 'completed');
-      return count || 0;
+        .select('status, xp_awarded')
+        .eq('referrer_id', user.id);
+      return data || [];
     },
     enabled: !!user?.id,
   });
 
+  const completed = referrals.filter((r) => r.status === 'completed');
+  const referralCount = completed.length;
+  const pendingCount = referrals.filter((r) => r.status === 'pending').length;
+  const xpEarned = completed.reduce((sum, r) => sum + r.xp_awarded, 0);
+
   const referralLink = profile?.referral_code 
     ? `${window.location.origin}/?ref=${profile.referral_code}`
     : '';
@@ -62,11 +66,13 @@ export const ReferralDashboard = () => {
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="p-4 bg-primary/5 rounded-lg border border-primary/20">
             <div className="text-2xl font-bold text-primary">{referralCount}</div>
-            <div className="text-sm text-muted-foreground">Successful Referrals</div>
+            <div className="text-sm text-muted-foreground">
+              Successful Referrals{pendingCount > 0 && ` (${pendingCount} pending)`}
+            </div>
           </div>
           
           <div className="p-4 bg-primary/5 rounded-lg border border-primary/20">
-            <div className="text-2xl font-bold text-primary">{referralCount * 100} XP</div>
+            <div className="text-2xl font-bold text-primary">{xpEarned} XP</div>
             <div className="text-sm text-muted-foreground">XP Earned from Referrals</div>
           </div>
         </div>
@@ -98,7 +104,7 @@ export const ReferralDashboard = () => {
         <div className="pt-4 border-t space-y-2">
           <h4 className="font-semibold text-sm">Referral Rewards</h4>
           <ul className="text-sm text-muted-foreground space-y-1">
-            <li>• Both you and your friend get 100 XP instantly</li>
+            <li>• Both you and your friend get 100 XP after their first completed order</li>
             <li>• Earn badges for referring 1, 5, 10, 20, and 50 users</li>
             <li>• Increase your trust score with each referral</li>
             <li>• Unlock exclusive features at higher referral tiers</li>
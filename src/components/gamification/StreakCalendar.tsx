@@ -0,0 +1,121 @@
+import { addDays, format, startOfWeek, subWeeks } from 'date-fns';
+import { Flame, Snowflake, Trophy } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Tables } from '@/integrations/supabase/types';
+
+const WEEKS = 26;
+
+const ACTION_LABELS: Record<string, string> = {
+  login: 'visit',
+  listing_created: 'listing',
+  message_sent: 'message',
+  order_completed: 'completed order'
+};
+
+interface StreakCalendarProps {
+  days: Tables<'activity_days'>[];
+  streakDays: number;
+  longestStreak: number;
+  streakFreezes: number;
+  maxStreakFreezes: number;
+}
+
+const describeDay = (date: Date, day?: Tables<'activity_days'>) => {
+  const label = format(date, 'EEE, MMM d');
+  if (!day) return `${label}: no activity`;
+  if (day.freeze_used && !day.action_count) return `${label}: streak freeze used`;
+
+  const actions = Object.entries(day.actions as Record<string, number>)
+    .map(([action, count]) => `${count} ${ACTION_LABELS[action] ?? action}${count !== 1 ? 's' : ''}`)
+    .join(', ');
+  return `${label}: ${actions}`;
+};
+
+const intensity = (day?: Tables<'activity_days'>) => {
+  if (!day) return 'bg-muted';
+  if (day.freeze_used && !day.action_count) return 'bg-sky-300 dark:bg-sky-700';
+  if (day.action_count >= 10) return 'bg-primary';
+  if (day.action_count >= 5) return 'bg-primary/75';
+  if (day.action_count >= 2) return 'bg-primary/50';
+  return 'bg-primary/25';
+};
+
+// Heatmap of the last six months of activity, one column per week
+export const StreakCalendar = ({
+  days,
+  streakDays,
+  longestStreak,
+  streakFreezes,
+  maxStreakFreezes
+}: StreakCalendarProps) => {
+  const byDate = new Map(days.map((day) => [day.activity_date, day]));
+  const today = new Date();
+  const firstWeek = startOfWeek(subWeeks(today, WEEKS - 1));
+  const weeks = Array.from({ length: WEEKS }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => addDays(firstWeek, w * 7 + d))
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div className="flex items-center gap-2">
+          <Flame className="h-5 w-5 text-orange-500" />
+          <div>
+            <div className="text-2xl font-bold">{streakDays}</div>
+            <div className="text-xs text-muted-foreground">Current streak</div>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Trophy className="h-5 w-5 text-primary" />
+          <div>
+            <div className="text-2xl font-bold">{longestStreak}</div>
+            <div className="text-xs text-muted-foreground">Longest streak</div>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Snowflake className="h-5 w-5 text-sky-500" />
+          <div>
+            <div className="text-2xl font-bold">
+              {streakFreezes}/{maxStreakFreezes}
+            </div>
+            <div className="text-xs text-muted-foreground">Streak freezes</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-1 overflow-x-auto pb-1">
+        {weeks.map((week) => (
+          <div key={week[0].toISOString()} className="flex flex-col gap-1">
+            {week.map((date) => {
+              const key = format(date, 'yyyy-MM-dd');
+              const day = byDate.get(key);
+              return (
+                <div
+                  key={key}
+                  title={describeDay(date, day)}
+                  className={cn('h-3 w-3 rounded-sm', date > today ? 'invisible' : intensity(day))}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm bg-sky-300 dark:bg-sky-700" />
+          Freeze used
+        </span>
+        <span className="flex items-center gap-1">
+          Less
+          <span className="h-3 w-3 rounded-sm bg-muted" />
+          <span className="h-3 w-3 rounded-sm bg-primary/25" />
+          <span className="h-3 w-3 rounded-sm bg-primary/50" />
+          <span className="h-3 w-3 rounded-sm bg-primary/75" />
+          <span className="h-3 w-3 rounded-sm bg-primary" />
+          More
+        </span>
+      </div>
+    </div>
+  );
+};
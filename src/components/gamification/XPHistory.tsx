@@ -0,0 +1,57 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Award, CheckCircle, Clock, MessageSquare, Sparkles, Users } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type XPEvent = Tables<'xp_events'> & {
+  rule: Pick<Tables<'xp_event_rules'>, 'description'> | null;
+};
+
+const EVENT_ICONS: Record<string, typeof Sparkles> = {
+  order_completed: CheckCircle,
+  on_time_return: Clock,
+  review_left: MessageSquare,
+  referral_completed: Users,
+  badge_unlocked: Award
+};
+
+interface XPHistoryProps {
+  events: XPEvent[];
+}
+
+export const XPHistory = ({ events }: XPHistoryProps) => {
+  if (!events.length) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Complete orders, return rentals on time, leave reviews and invite friends to earn XP.
+      </p>
+    );
+  }
+
+  return (
+    <div className="divide-y">
+      {events.map((event) => {
+        const Icon = EVENT_ICONS[event.event_type] ?? Sparkles;
+        const capped = event.xp < event.requested_xp;
+        return (
+          <div key={event.id} className="flex items-center justify-between py-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-primary/10 rounded-full">
+                <Icon className="h-4 w-4 text-primary" />
+              </div>
+              <div>
+                <div className="font-medium">{event.rule?.description ?? event.event_type}</div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(event.created_at), { addSuffix: true })}
+                  {capped && ' · daily limit reached'}
+                </div>
+              </div>
+            </div>
+            <div className={capped && !event.xp ? 'text-muted-foreground' : 'text-primary font-semibold'}>
+              +{event.xp} XP
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -10,9 +10,13 @@ import {
   ShoppingBag,
   Heart,
   Bell,
-  Trophy
+  Trophy,
+  ShieldCheck,
+  Wallet
 } from "lucide-react";
 import logo from "@/assets/borrowpal-logo.png";
+import { useHasRole } from "@/hooks/useHasRole";
+import { useChatRealtime } from "@/hooks/useChatRealtime";
 import {
   Sidebar,
   SidebarContent,
@@ -20,6 +24,7 @@ import {
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarMenu,
+  SidebarMenuBadge,
   SidebarMenuButton,
   SidebarMenuItem,
   useSidebar,
@@ -30,6 +35,7 @@ const mainItems = [
   { title: "Browse", url: "/browse", icon: Search },
   { title: "My Listings", url: "/my-listings", icon: Package },
   { title: "Orders", url: "/orders", icon: ShoppingBag },
+  { title: "Wallet", url: "/wallet", icon: Wallet },
   { title: "Messages", url: "/messages", icon: MessageSquare },
   { title: "Achievements", url: "/gamification", icon: Trophy },
   { title: "Favorites", url: "/favorites", icon: Heart },
@@ -45,6 +51,8 @@ export function AppSidebar() {
   const { state } = useSidebar();
   const location = useLocation();
   const collapsed = state === "collapsed";
+  const { hasRole: isModerator } = useHasRole("moderator");
+  const { unreadCount } = useChatRealtime();
 
   const isActive = (path: string) => location.pathname === path;
   const getNavCls = ({ isActive }: { isActive: boolean }) =>
@@ -77,6 +85,11 @@ export function AppSidebar() {
                       {!collapsed && <span>{item.title}</span>}
                     </NavLink>
                   </SidebarMenuButton>
+                  {item.url === "/messages" && unreadCount > 0 && (
+                    <SidebarMenuBadge className="bg-primary text-primary-foreground">
+                      {unreadCount > 99 ? "99+" : unreadCount}
+                    </SidebarMenuBadge>
+                  )}
                 </SidebarMenuItem>
               ))}
             </SidebarMenu>
@@ -101,6 +114,24 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
 
+        {isModerator && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Moderation</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild>
+                    <NavLink to="/admin" className={getNavCls}>
+                      <ShieldCheck className="h-4 w-4" />
+                      {!collapsed && <span>Admin</span>}
+                    </NavLink>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+
         <div className="mt-auto p-4">
           <SidebarMenuButton asChild>
             <NavLink 
@@ -0,0 +1,32 @@
+import { ReactNode } from 'react';
+import { Navigate } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { useAuth } from '@/hooks/useAuth';
+import { AppRole, useHasRole } from '@/hooks/useHasRole';
+import { Loader2 } from 'lucide-react';
+
+interface RoleRouteProps {
+  role: AppRole;
+  children: ReactNode;
+}
+
+// Renders its children only for signed-in users with the given role
+export const RoleRoute = ({ role, children }: RoleRouteProps) => {
+  const { user, loading } = useAuth();
+  const { hasRole, isLoading } = useHasRole(role);
+
+  if (loading || isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-96">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!user) return <Navigate to="/auth" replace />;
+  if (!hasRole) return <Navigate to="/dashboard" replace />;
+
+  return <>{children}</>;
+};
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/hooks/use-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { ShieldCheck, AlertTriangle } from 'lucide-react';
+
+type DepositStatus = Tables<'orders'>['deposit_status'];
+
+const statusLabels: Record<DepositStatus, { label: string; description: string }> = {
+  none: { label: 'No deposit', description: '' },
+  pending: { label: 'Awaiting payment', description: 'The hold is placed on the borrower\'s card right after payment.' },
+  held: { label: 'Held', description: 'The deposit is held on the borrower\'s card until the item is returned.' },
+  release_pending: { label: 'Releasing', description: 'The item was returned. The hold is released once the claim window closes.' },
+  capture_pending: { label: 'Claim filed', description: 'A damage claim was filed and is being charged from the hold.' },
+  released: { label: 'Released', description: 'The hold was released in full.' },
+  captured: { label: 'Charged', description: 'The full deposit was charged for damage.' },
+  partially_captured: { label: 'Partially charged', description: 'Part of the deposit was charged for damage and the rest released.' },
+  failed: { label: 'Failed', description: 'The deposit could not be held or charged on the borrower\'s card.' },
+};
+
+interface DepositCardProps {
+  order: Tables<'orders'>;
+  isSeller: boolean;
+}
+
+export const DepositCard = ({ order, isSeller }: DepositCardProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [claimAmount, setClaimAmount] = useState('');
+  const [claimReason, setClaimReason] = useState('');
+
+  const fileClaimMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('file_damage_claim', {
+        p_order_id: order.id,
+        p_amount: parseFloat(claimAmount),
+        p_reason: claimReason
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['order', order.id] });
+      setClaimAmount('');
+      setClaimReason('');
+      toast({ title: 'Damage claim filed', description: 'The borrower has been notified' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not file claim', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  if (order.deposit_status === 'none') return null;
+
+  const { label, description } = statusLabels[order.deposit_status];
+  const claimWindowOpen =
+    order.deposit_status === 'held' ||
+    (order.deposit_status === 'release_pending' &&
+      !!order.deposit_release_after &&
+      new Date(order.deposit_release_after) > new Date());
+  const amount = parseFloat(claimAmount);
+  const canSubmitClaim =
+    !isNaN(amount) && amount > 0 && amount <= order.deposit_amount && claimReason.trim().length > 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Security Deposit
+        </CardTitle>
+        <Badge variant={order.deposit_status === 'failed' ? 'destructive' : 'outline'}>{label}</Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Deposit:</span>
+            <span className="font-medium">${Number(order.deposit_amount).toFixed(2)}</span>
+          </div>
+          {order.deposit_captured_amount > 0 && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Charged for damage:</span>
+              <span className="font-medium text-destructive">
+                ${Number(order.deposit_captured_amount).toFixed(2)}
+              </span>
+            </div>
+          )}
+          {order.deposit_status === 'release_pending' && order.deposit_release_after && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Releases:</span>
+              <span>{formatDistanceToNow(new Date(order.deposit_release_after), { addSuffix: true })}</span>
+            </div>
+          )}
+          <p className="text-muted-foreground">{description}</p>
+          {order.deposit_status === 'failed' && order.deposit_failure_reason && (
+            <p className="text-destructive">{order.deposit_failure_reason}</p>
+          )}
+        </div>
+
+        {order.deposit_claim_reason && (
+          <div className="flex gap-2 p-3 bg-muted rounded-lg text-sm">
+            <AlertTriangle className="h-4 w-4 mt-0.5 text-destructive shrink-0" />
+            <div>
+              <p className="font-medium">Damage claim: ${Number(order.deposit_claim_amount).toFixed(2)}</p>
+              <p className="text-muted-foreground">{order.deposit_claim_reason}</p>
+            </div>
+          </div>
+        )}
+
+        {isSeller && claimWindowOpen && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <p className="text-sm font-medium">Report damage</p>
+              <div className="space-y-2">
+                <Label htmlFor="claim-amount">Amount to charge</Label>
+                <Input
+                  id="claim-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max={order.deposit_amount}
+                  placeholder={`Up to $${Number(order.deposit_amount).toFixed(2)}`}
+                  value={claimAmount}
+                  onChange={(e) => setClaimAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="claim-reason">What was damaged?</Label>
+                <Textarea
+                  id="claim-reason"
+                  placeholder="Describe the damage and how you arrived at the amount..."
+                  value={claimReason}
+                  onChange={(e) => setClaimReason(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="destructive"
+                className="w-full"
+                onClick={() => fileClaimMutation.mutate()}
+                disabled={!canSubmitClaim || fileClaimMutation.isPending}
+              >
+                File Damage Claim
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EvidenceGallery } from '@/components/dispute/EvidenceGallery';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DisputeReason,
+  disputeOutcomeLabels,
+  disputeReasonLabels,
+  disputeStatusLabels,
+  uploadDisputeEvidence
+} from '@/lib/disputes';
+import { formatDistanceToNow, subDays } from 'date-fns';
+import { AlertOctagon } from 'lucide-react';
+
+interface DisputeCardProps {
+  order: Tables<'orders'>;
+  isSeller: boolean;
+}
+
+export const DisputeCard = ({ order, isSeller }: DisputeCardProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [reason, setReason] = useState<DisputeReason | ''>('');
+  const [statement, setStatement] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+
+  const { data: dispute } = useQuery({
+    queryKey: ['dispute', order.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('disputes')
+        .select('*, dispute_evidence(*)')
+        .eq('order_id', order.id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['dispute', order.id] });
+    queryClient.invalidateQueries({ queryKey: ['order', order.id] });
+  };
+
+  const openDisputeMutation = useMutation({
+    mutationFn: async () => {
+      if (!user || !reason) return;
+
+      const { data: disputeId, error } = await supabase.rpc('open_dispute', {
+        p_order_id: order.id,
+        p_reason: reason,
+        p_statement: statement
+      });
+      if (error) throw error;
+
+      await uploadDisputeEvidence(disputeId, user.id, files);
+    },
+    onSuccess: () => {
+      invalidate();
+      setShowForm(false);
+      setReason('');
+      setStatement('');
+      setFiles([]);
+      toast({ title: 'Problem reported', description: 'A moderator will review it shortly' });
+    },
+    onError: (error: Error) => {
+      invalidate();
+      toast({ title: 'Could not report problem', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async () => {
+      if (!user || !dispute) return;
+
+      if (statement.trim()) {
+        const { error } = await supabase.rpc('submit_dispute_statement', {
+          p_dispute_id: dispute.id,
+          p_statement: statement
+        });
+        if (error) throw error;
+      }
+
+      await uploadDisputeEvidence(dispute.id, user.id, files);
+    },
+    onSuccess: () => {
+      invalidate();
+      setStatement('');
+      setFiles([]);
+      toast({ title: 'Your response was added' });
+    },
+    onError: (error: Error) => {
+      invalidate();
+      toast({ title: 'Could not add response', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const completedAt = order.return_scanned_at || order.service_end_scan || order.updated_at;
+  const canReport =
+    !order.has_open_dispute &&
+    (['paid', 'shipped', 'in_progress'].includes(order.status ?? '') ||
+      (order.status === 'completed' && !!completedAt && new Date(completedAt) > subDays(new Date(), 14)));
+
+  const isOpen = dispute?.status === 'open' || dispute?.status === 'under_review';
+
+  if (!isOpen && !dispute && !canReport) return null;
+
+  const fileInput = (
+    <div className="space-y-2">
+      <Label htmlFor="dispute-photos">Photos</Label>
+      <Input
+        id="dispute-photos"
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={(e) => setFiles(Array.from(e.target.files || []))}
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <AlertOctagon className="h-5 w-5 text-destructive" />
+          {dispute ? 'Dispute' : 'Problem with this order?'}
+        </CardTitle>
+        {dispute && (
+          <Badge variant={isOpen ? 'destructive' : 'outline'}>{disputeStatusLabels[dispute.status]}</Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {dispute && (
+          <>
+            <div className="text-sm space-y-1">
+              <p className="font-medium">{disputeReasonLabels[dispute.reason]}</p>
+              <p className="text-muted-foreground">
+                Reported {formatDistanceToNow(new Date(dispute.created_at), { addSuffix: true })}
+              </p>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2 text-sm">
+              <div>
+                <p className="font-medium mb-1">Lender's statement</p>
+                <p className="text-muted-foreground whitespace-pre-wrap">
+                  {dispute.lender_statement || 'No statement yet.'}
+                </p>
+              </div>
+              <div>
+                <p className="font-medium mb-1">Borrower's statement</p>
+                <p className="text-muted-foreground whitespace-pre-wrap">
+                  {dispute.borrower_statement || 'No statement yet.'}
+                </p>
+              </div>
+            </div>
+
+            <EvidenceGallery evidence={dispute.dispute_evidence} />
+
+            {dispute.outcome && (
+              <div className="p-3 bg-muted rounded-lg text-sm">
+                <p className="font-medium">
+                  {disputeOutcomeLabels[dispute.outcome]}
+                  {dispute.outcome_amount ? `: $${Number(dispute.outcome_amount).toFixed(2)}` : ''}
+                </p>
+                {dispute.resolution_note && (
+                  <p className="text-muted-foreground">{dispute.resolution_note}</p>
+                )}
+              </div>
+            )}
+
+            {isOpen && (
+              <>
+                <Separator />
+                <div className="space-y-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="dispute-statement">
+                      {(isSeller ? dispute.lender_statement : dispute.borrower_statement)
+                        ? 'Update your statement'
+                        : 'Your side of the story'}
+                    </Label>
+                    <Textarea
+                      id="dispute-statement"
+                      value={statement}
+                      onChange={(e) => setStatement(e.target.value)}
+                      placeholder="Describe what happened..."
+                    />
+                  </div>
+                  {fileInput}
+                  <Button
+                    className="w-full"
+                    onClick={() => respondMutation.mutate()}
+                    disabled={respondMutation.isPending || (!statement.trim() && files.length === 0)}
+                  >
+                    Submit
+                  </Button>
+                </div>
+              </>
+            )}
+          </>
+        )}
+
+        {!isOpen && canReport && !showForm && (
+          <Button variant="outline" className="w-full" onClick={() => setShowForm(true)}>
+            Report a problem
+          </Button>
+        )}
+
+        {!isOpen && canReport && showForm && (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label>What went wrong?</Label>
+              <Select value={reason} onValueChange={(value) => setReason(value as DisputeReason)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(disputeReasonLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dispute-statement">Details</Label>
+              <Textarea
+                id="dispute-statement"
+                value={statement}
+                onChange={(e) => setStatement(e.target.value)}
+                placeholder="Describe what happened and what you'd like to happen..."
+              />
+            </div>
+            {fileInput}
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => setShowForm(false)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                className="flex-1"
+                onClick={() => openDisputeMutation.mutate()}
+                disabled={openDisputeMutation.isPending || !reason || !statement.trim()}
+              >
+                Report Problem
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
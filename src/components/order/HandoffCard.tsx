@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { QRCodeDisplay } from '@/components/qr/QRCodeDisplay';
+import { QRScanner } from '@/components/qr/QRScanner';
+import { useToast } from '@/hooks/use-toast';
+import { HandoffScanType, encodeHandoffPayload } from '@/lib/orders';
+import { format } from 'date-fns';
+import { QrCode, ScanLine, CheckCircle2, Circle } from 'lucide-react';
+
+interface HandoffCardProps {
+  order: Tables<'orders'>;
+  isSeller: boolean;
+  isBuyer: boolean;
+  isService: boolean;
+}
+
+export const HandoffCard = ({ order, isSeller, isBuyer, isService }: HandoffCardProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [qrCode, setQrCode] = useState<{ value: string; expiresAt: string } | null>(null);
+  const [showScanner, setShowScanner] = useState(false);
+
+  // Pickup: the lender shows the code and the borrower scans it. Return: the reverse.
+  const isPickup = order.status === 'paid' || order.status === 'shipped';
+  const isReturn = order.status === 'in_progress';
+  const scanType: HandoffScanType | null = isPickup
+    ? isService ? 'service_start' : 'delivery'
+    : isReturn
+      ? isService ? 'service_end' : 'return'
+      : null;
+  const showsCode = (isPickup && isSeller) || (isReturn && isBuyer);
+  const scansCode = (isPickup && isBuyer) || (isReturn && isSeller);
+
+  // A shown code is for the current step only; drop it once the other party has scanned it
+  useEffect(() => {
+    setQrCode(null);
+    setShowScanner(false);
+  }, [scanType]);
+
+  // While a code is on screen, watch for the other party's scan
+  useEffect(() => {
+    if (!qrCode) return;
+    const interval = setInterval(() => {
+      queryClient.invalidateQueries({ queryKey: ['order', order.id] });
+    }, 5000);
+    return () => clearInterval(interval);
+  }, [qrCode, order.id, queryClient]);
+
+  const generateCodeMutation = useMutation({
+    mutationFn: async (type: HandoffScanType) => {
+      const { data, error } = await supabase.rpc('generate_order_qr_code', {
+        p_order_id: order.id,
+        p_scan_type: type
+      });
+      if (error) throw error;
+      return data as { nonce: string; signature: string; expires_at: string };
+    },
+    onSuccess: (data, type) => {
+      setQrCode({
+        value: encodeHandoffPayload({ order_id: order.id, scan_type: type, nonce: data.nonce, signature: data.signature }),
+        expiresAt: data.expires_at
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not create code', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const handleVerified = () => {
+    queryClient.invalidateQueries({ queryKey: ['order', order.id] });
+    queryClient.invalidateQueries({ queryKey: ['orders'] });
+    setShowScanner(false);
+    toast({ title: isPickup ? 'Handoff confirmed' : 'Return confirmed' });
+  };
+
+  const timeline = [
+    { label: 'Paid', at: order.paid_at },
+    {
+      label: isService ? 'Service started' : 'Picked up',
+      at: isService ? order.service_start_scan : order.delivery_scanned_at
+    },
+    {
+      label: isService ? 'Service finished' : 'Returned',
+      at: isService ? order.service_end_scan : order.return_scanned_at
+    }
+  ];
+
+  if (!order.paid_at && !scanType) return null;
+
+  const stepName = isPickup
+    ? isService ? 'service start' : 'pickup'
+    : isService ? 'service end' : 'return';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <QrCode className="h-5 w-5 text-primary" />
+          Handoff
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ol className="space-y-3">
+          {timeline.map((step) => (
+            <li key={step.label} className="flex items-center gap-3 text-sm">
+              {step.at ? (
+                <CheckCircle2 className="h-4 w-4 text-primary shrink-0" />
+              ) : (
+                <Circle className="h-4 w-4 text-muted-foreground shrink-0" />
+              )}
+              <span className={step.at ? 'font-medium' : 'text-muted-foreground'}>{step.label}</span>
+              {step.at && (
+                <span className="ml-auto text-muted-foreground">
+                  {format(new Date(step.at), 'MMM d, h:mm a')}
+                </span>
+              )}
+            </li>
+          ))}
+        </ol>
+
+        {scanType && showsCode && (
+          <>
+            <Separator />
+            {qrCode ? (
+              <QRCodeDisplay
+                value={qrCode.value}
+                expiresAt={qrCode.expiresAt}
+                onRefresh={() => generateCodeMutation.mutate(scanType)}
+                title={`Your ${stepName} code`}
+                description="Ask the other party to scan this code to confirm the handoff. It can only be used once."
+              />
+            ) : (
+              <Button
+                className="w-full"
+                onClick={() => generateCodeMutation.mutate(scanType)}
+                disabled={generateCodeMutation.isPending}
+              >
+                <QrCode className="h-4 w-4 mr-2" />
+                Show {stepName} code
+              </Button>
+            )}
+          </>
+        )}
+
+        {scanType && scansCode && (
+          <>
+            <Separator />
+            {showScanner ? (
+              <QRScanner
+                orderId={order.id}
+                scanType={scanType}
+                onVerified={handleVerified}
+                title={`Scan the ${stepName} code`}
+                description="Point your camera at the code on the other party's screen."
+              />
+            ) : (
+              <Button className="w-full" onClick={() => setShowScanner(true)}>
+                <ScanLine className="h-4 w-4 mr-2" />
+                Scan {stepName} code
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,52 @@
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useOrderTransition, OrderEvent } from '@/hooks/useOrderTransition';
+import { Check, X } from 'lucide-react';
+
+interface OrderActionsProps {
+  orderId: string;
+  onActionComplete?: () => void;
+}
+
+export const OrderActions = ({ orderId, onActionComplete }: OrderActionsProps) => {
+  const { toast } = useToast();
+  const transitionMutation = useOrderTransition(orderId);
+
+  const handleAction = async (event: OrderEvent) => {
+    try {
+      await transitionMutation.mutateAsync({ event });
+      toast({ title: event === 'accept' ? 'Order accepted!' : 'Order declined' });
+      onActionComplete?.();
+    } catch (error) {
+      toast({
+        title: 'Action failed',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button
+        size="sm"
+        className="flex-1"
+        onClick={() => handleAction('accept')}
+        disabled={transitionMutation.isPending}
+      >
+        <Check className="h-4 w-4 mr-2" />
+        Accept
+      </Button>
+      <Button
+        size="sm"
+        variant="destructive"
+        className="flex-1"
+        onClick={() => handleAction('decline')}
+        disabled={transitionMutation.isPending}
+      >
+        <X className="h-4 w-4 mr-2" />
+        Decline
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import { Badge } from '@/components/ui/badge';
+import type { OrderStatus } from '@/lib/orders';
+
+const statusStyles: Record<OrderStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  pending: { label: 'Pending', variant: 'outline' },
+  negotiating: { label: 'Negotiating', variant: 'outline' },
+  accepted: { label: 'Accepted', variant: 'secondary' },
+  paid: { label: 'Paid', variant: 'default' },
+  shipped: { label: 'Shipped', variant: 'default' },
+  in_progress: { label: 'Active rental', variant: 'default' },
+  completed: { label: 'Completed', variant: 'secondary' },
+  cancelled: { label: 'Cancelled', variant: 'destructive' },
+  rejected: { label: 'Declined', variant: 'destructive' },
+  refunded: { label: 'Refunded', variant: 'destructive' },
+};
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus | null;
+  overdue?: boolean;
+}
+
+export const OrderStatusBadge = ({ status, overdue }: OrderStatusBadgeProps) => {
+  if (overdue) {
+    return <Badge variant="destructive">Return overdue</Badge>;
+  }
+
+  const { label, variant } = statusStyles[status ?? 'pending'] ?? { label: status, variant: 'outline' };
+  return <Badge variant={variant}>{label}</Badge>;
+};
@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { CreditCard } from 'lucide-react';
+
+interface PaymentButtonProps {
+  orderId: string;
+  amount: number;
+}
+
+export const PaymentButton = ({ orderId, amount }: PaymentButtonProps) => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+
+  const handlePayment = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('create-payment', {
+        body: { order_id: orderId }
+      });
+
+      if (error) throw error;
+
+      if (data?.url) {
+        window.open(data.url, '_blank');
+      }
+    } catch (error) {
+      toast({
+        title: 'Payment failed',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Button size="sm" onClick={handlePayment} disabled={loading}>
+      <CreditCard className="h-4 w-4 mr-2" />
+      Pay ${amount.toFixed(2)}
+    </Button>
+  );
+};
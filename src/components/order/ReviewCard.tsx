@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, isPast } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { StarRating } from '@/components/review/StarRating';
+import { ReviewList } from '@/components/review/ReviewList';
+import { reviewDeadline, subRatingLabels, subRatings, type SubRating } from '@/lib/reviews';
+import { EyeOff, Star } from 'lucide-react';
+
+interface ReviewCardProps {
+  order: Tables<'orders'>;
+  isSeller: boolean;
+}
+
+const emptyForm = {
+  rating: 0,
+  comment: '',
+  communication_rating: 0,
+  condition_rating: 0,
+  punctuality_rating: 0
+};
+
+// Review prompt and double-blind review status for a completed order
+export const ReviewCard = ({ order, isSeller }: ReviewCardProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: reviews = [] } = useQuery({
+    queryKey: ['reviews', 'order', order.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('reviews')
+        .select('*')
+        .eq('order_id', order.id);
+      if (error) throw error;
+      return data;
+    },
+    enabled: order.status === 'completed'
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('submit_review', {
+        p_order_id: order.id,
+        p_rating: form.rating,
+        p_comment: form.comment || undefined,
+        p_communication_rating: form.communication_rating || undefined,
+        p_condition_rating: form.condition_rating || undefined,
+        p_punctuality_rating: form.punctuality_rating || undefined
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reviews'] });
+      setForm(emptyForm);
+      toast({ title: 'Review submitted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not submit review', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  if (order.status !== 'completed' || !order.completed_at) return null;
+
+  const deadline = reviewDeadline(order.completed_at);
+  const myReview = reviews.find((review) => review.reviewer_id === user?.id);
+  const revealed = reviews.filter((review) => review.revealed_at);
+  const otherParty = isSeller ? 'the borrower' : 'the lender';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Star className="h-5 w-5 text-primary" />
+          Reviews
+        </CardTitle>
+        <CardDescription>
+          Reviews stay hidden until you both submit one, or until {format(deadline, 'MMM d')}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!myReview && !isPast(deadline) && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>How was {otherParty}?</Label>
+              <StarRating value={form.rating} onChange={(rating) => setForm({ ...form, rating })} size="md" />
+            </div>
+            <div className="grid gap-2 sm:grid-cols-3">
+              {subRatings.map((key: SubRating) => (
+                <div key={key} className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">{subRatingLabels[key]}</Label>
+                  <StarRating value={form[key]} onChange={(value) => setForm({ ...form, [key]: value })} />
+                </div>
+              ))}
+            </div>
+            <Textarea
+              value={form.comment}
+              onChange={(e) => setForm({ ...form, comment: e.target.value })}
+              placeholder={`Tell others what it was like dealing with ${otherParty}`}
+              rows={3}
+            />
+            <Button onClick={() => submitMutation.mutate()} disabled={!form.rating || submitMutation.isPending}>
+              Submit review
+            </Button>
+          </div>
+        )}
+
+        {!myReview && isPast(deadline) && (
+          <p className="text-sm text-muted-foreground">The review period for this order has ended.</p>
+        )}
+
+        {myReview && !myReview.revealed_at && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <EyeOff className="h-4 w-4" />
+            Thanks! Your review is published when {otherParty} reviews you or on {format(deadline, 'MMM d')}.
+          </div>
+        )}
+
+        {revealed.length > 0 && <ReviewList reviews={revealed} canReply={isSeller} />}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,90 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Check, X } from 'lucide-react';
+
+interface ServiceOrderActionsProps {
+  serviceOrderId: string;
+  isProvider: boolean;
+  onActionComplete?: () => void;
+}
+
+type ServiceOrderAction = 'confirm' | 'decline' | 'cancel';
+
+const actionMessages: Record<ServiceOrderAction, string> = {
+  confirm: 'Booking confirmed!',
+  decline: 'Booking declined',
+  cancel: 'Booking request withdrawn',
+};
+
+// Provider confirm/decline and borrower withdraw for a requested appointment
+export const ServiceOrderActions = ({ serviceOrderId, isProvider, onActionComplete }: ServiceOrderActionsProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: ServiceOrderAction) => {
+      const { error } = action === 'confirm'
+        ? await supabase.rpc('confirm_service_order', { p_service_order_id: serviceOrderId })
+        : action === 'decline'
+          ? await supabase.rpc('decline_service_order', { p_service_order_id: serviceOrderId })
+          : await supabase.rpc('cancel_service_order', { p_service_order_id: serviceOrderId });
+      if (error) throw error;
+    },
+    onSuccess: (_, action) => {
+      queryClient.invalidateQueries({ queryKey: ['borrowed-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['lent-orders'] });
+      toast({ title: actionMessages[action] });
+      onActionComplete?.();
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Action failed',
+        // service_orders_no_overlap / orders_no_overlapping_bookings
+        description: error.code === '23P01'
+          ? 'You already have a confirmed appointment at that time.'
+          : error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  if (!isProvider) {
+    return (
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => actionMutation.mutate('cancel')}
+        disabled={actionMutation.isPending}
+      >
+        <X className="h-4 w-4 mr-2" />
+        Withdraw request
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Button
+        size="sm"
+        className="flex-1"
+        onClick={() => actionMutation.mutate('confirm')}
+        disabled={actionMutation.isPending}
+      >
+        <Check className="h-4 w-4 mr-2" />
+        Confirm
+      </Button>
+      <Button
+        size="sm"
+        variant="destructive"
+        className="flex-1"
+        onClick={() => actionMutation.mutate('decline')}
+        disabled={actionMutation.isPending}
+      >
+        <X className="h-4 w-4 mr-2" />
+        Decline
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import { Badge } from '@/components/ui/badge';
+import type { ServiceOrderStatus } from '@/lib/services';
+
+const statusStyles: Record<ServiceOrderStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  requested: { label: 'Awaiting confirmation', variant: 'outline' },
+  confirmed: { label: 'Confirmed', variant: 'secondary' },
+  declined: { label: 'Declined', variant: 'destructive' },
+  cancelled: { label: 'Cancelled', variant: 'destructive' },
+  in_progress: { label: 'In progress', variant: 'default' },
+  completed: { label: 'Completed', variant: 'secondary' },
+};
+
+interface ServiceOrderStatusBadgeProps {
+  status: ServiceOrderStatus;
+}
+
+export const ServiceOrderStatusBadge = ({ status }: ServiceOrderStatusBadgeProps) => {
+  const { label, variant } = statusStyles[status] ?? { label: status, variant: 'outline' };
+  return <Badge variant={variant}>{label}</Badge>;
+};
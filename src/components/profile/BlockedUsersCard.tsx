@@ -0,0 +1,87 @@
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+
+// People the user blocked from messaging or ordering, with a way to unblock them
+export const BlockedUsersCard = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: blocks = [] } = useQuery({
+    queryKey: ['user-blocks', user?.id, 'profiles'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_blocks')
+        .select('blocked_id, created_at, profiles!user_blocks_blocked_id_fkey(name, avatar_url)')
+        .eq('blocker_id', user?.id ?? '')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id
+  });
+
+  const unblockMutation = useMutation({
+    mutationFn: async (blockedId: string) => {
+      const { error } = await supabase
+        .from('user_blocks')
+        .delete()
+        .eq('blocker_id', user?.id ?? '')
+        .eq('blocked_id', blockedId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-blocks'] });
+      toast({ title: 'User unblocked' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not unblock user', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Blocked Users</CardTitle>
+        <CardDescription>Blocked users can't message you or order from you, and you can't do either with them</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {blocks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You haven't blocked anyone.</p>
+        ) : (
+          blocks.map((block) => (
+            <div key={block.blocked_id} className="flex items-center justify-between gap-3">
+              <Link to={`/profile/${block.blocked_id}`} className="flex items-center gap-3 min-w-0">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={block.profiles?.avatar_url ?? undefined} />
+                  <AvatarFallback>{block.profiles?.name?.[0] || 'U'}</AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{block.profiles?.name || 'Unknown User'}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Blocked {formatDistanceToNow(new Date(block.created_at))} ago
+                  </p>
+                </div>
+              </Link>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => unblockMutation.mutate(block.blocked_id)}
+                disabled={unblockMutation.isPending}
+              >
+                Unblock
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,80 @@
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { ShieldCheck } from 'lucide-react';
+
+interface TrustScoreCardProps {
+  userId: string;
+}
+
+interface TrustScoreItem {
+  key: string;
+  label: string;
+  points: number;
+  detail: string;
+}
+
+// The user's trust score and the signals behind it
+export const TrustScoreCard = ({ userId }: TrustScoreCardProps) => {
+  const { data: trust } = useQuery({
+    queryKey: ['trust-score-breakdown', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('trust_scores')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  if (!trust) return null;
+
+  const items = (trust.breakdown as unknown as TrustScoreItem[]) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Trust Score
+        </CardTitle>
+        <CardDescription>
+          Lenders can require a minimum score. Updated {formatDistanceToNow(new Date(trust.computed_at), { addSuffix: true })}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-4">
+          <span className="text-4xl font-bold">{trust.score}</span>
+          <Progress value={trust.score} className="h-3 flex-1" />
+        </div>
+        <div className="divide-y">
+          {items.map((item) => (
+            <div key={item.key} className="flex items-center justify-between py-2 text-sm">
+              <div>
+                <p className="font-medium">{item.label}</p>
+                <p className="text-xs text-muted-foreground">{item.detail}</p>
+              </div>
+              <span
+                className={cn(
+                  'font-semibold',
+                  item.key === 'base' ? 'text-muted-foreground' : item.points > 0 ? 'text-green-600' : item.points < 0 && 'text-destructive'
+                )}
+              >
+                {item.key !== 'base' && item.points > 0 ? '+' : ''}
+                {item.points}
+              </span>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Scores stay between 0 and 100. Complete orders, return on time and get verified to raise yours.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,256 @@
+import { useState, type ReactNode } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import {
+  PHONE_CODE_LENGTH,
+  PHONE_PATTERN,
+  sendPhoneCode,
+  uploadVerificationDocument
+} from '@/lib/verification';
+import { BadgeCheck, CheckCircle2, Circle } from 'lucide-react';
+
+interface VerificationCardProps {
+  isVerified: boolean;
+}
+
+const Step = ({ done, title, children }: { done: boolean; title: string; children?: ReactNode }) => (
+  <div className="flex gap-3">
+    {done ? (
+      <CheckCircle2 className="h-5 w-5 text-green-600 shrink-0 mt-0.5" />
+    ) : (
+      <Circle className="h-5 w-5 text-muted-foreground shrink-0 mt-0.5" />
+    )}
+    <div className="flex-1 space-y-2">
+      <p className="font-medium">{title}</p>
+      {!done && children}
+    </div>
+  </div>
+);
+
+// Email, phone and document checks that make up a verification request
+export const VerificationCard = ({ isVerified }: VerificationCardProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [idDocument, setIdDocument] = useState<File | null>(null);
+  const [selfie, setSelfie] = useState<File | null>(null);
+
+  const { data: verificationRequest } = useQuery({
+    queryKey: ['verification-request', user?.id],
+    queryFn: async () => {
+      const { data } = await supabase
+        .from('verification_requests')
+        .select('*')
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      return data;
+    },
+    enabled: !!user?.id
+  });
+
+  const { data: phoneVerification } = useQuery({
+    queryKey: ['phone-verification', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_phone_verification');
+      if (error) throw error;
+      return data[0] ?? null;
+    },
+    enabled: !!user?.id
+  });
+
+  const emailConfirmed = !!user?.email_confirmed_at;
+  const phoneVerified = !!phoneVerification?.verified_at;
+  const codeSent = !!phoneVerification && !phoneVerified && new Date(phoneVerification.expires_at) > new Date();
+
+  const resendEmailMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.auth.resend({ type: 'signup', email: user?.email ?? '' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({ title: 'Confirmation email sent', description: `Check ${user?.email} for the link` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not send email', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const sendCodeMutation = useMutation({
+    mutationFn: () => sendPhoneCode(phone),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['phone-verification'] });
+      setCode('');
+      toast({ title: 'Code sent', description: `Enter the code texted to ${phone}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not send code', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const confirmCodeMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const { data, error } = await supabase.rpc('confirm_phone_verification', { p_code: value });
+      if (error) throw error;
+      if (!data) throw new Error('That code is not right');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['phone-verification'] });
+      queryClient.invalidateQueries({ queryKey: ['profile'] });
+      toast({ title: 'Phone number confirmed' });
+    },
+    onError: (error: Error) => {
+      setCode('');
+      toast({ title: 'Could not confirm phone', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const requestVerificationMutation = useMutation({
+    mutationFn: async () => {
+      if (!user || !idDocument || !selfie) throw new Error('Add an ID document and a selfie');
+      const idDocumentPath = await uploadVerificationDocument(user.id, 'id-document', idDocument);
+      const selfiePath = await uploadVerificationDocument(user.id, 'selfie', selfie);
+      const { error } = await supabase.rpc('request_verification', {
+        p_id_document_path: idDocumentPath,
+        p_selfie_path: selfiePath
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['verification-request'] });
+      setIdDocument(null);
+      setSelfie(null);
+      toast({ title: 'Verification requested', description: 'A moderator will review your documents' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not request verification', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const handleCodeChange = (value: string) => {
+    setCode(value);
+    if (value.length === PHONE_CODE_LENGTH) confirmCodeMutation.mutate(value);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BadgeCheck className="h-5 w-5 text-primary" />
+          Verification
+        </CardTitle>
+        <CardDescription>Verified members get a badge on their profile and listings</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isVerified ? (
+          <p className="text-sm">Your profile is verified.</p>
+        ) : verificationRequest?.status === 'pending' ? (
+          <p className="text-sm text-muted-foreground">Your request is waiting for a moderator.</p>
+        ) : (
+          <>
+            {verificationRequest?.status === 'rejected' && (
+              <p className="text-sm text-muted-foreground">
+                Your last request was declined{verificationRequest.note ? `: ${verificationRequest.note}` : '.'}
+              </p>
+            )}
+
+            <Step done={emailConfirmed} title="Confirm your email">
+              <p className="text-sm text-muted-foreground">
+                Follow the link we sent to {user?.email}, then sign in again.
+              </p>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => resendEmailMutation.mutate()}
+                disabled={resendEmailMutation.isPending}
+              >
+                Resend email
+              </Button>
+            </Step>
+
+            <Step done={phoneVerified} title="Confirm your phone number">
+              <div className="flex gap-2">
+                <Input
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value.replace(/[\s()-]/g, ''))}
+                  placeholder="+15551234567"
+                  className="max-w-xs"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => sendCodeMutation.mutate()}
+                  disabled={!PHONE_PATTERN.test(phone) || sendCodeMutation.isPending}
+                >
+                  {codeSent ? 'Resend code' : 'Send code'}
+                </Button>
+              </div>
+              {codeSent && (
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">Enter the code sent to {phoneVerification?.phone}</p>
+                  <InputOTP
+                    maxLength={PHONE_CODE_LENGTH}
+                    value={code}
+                    onChange={handleCodeChange}
+                    disabled={confirmCodeMutation.isPending}
+                  >
+                    <InputOTPGroup>
+                      {Array.from({ length: PHONE_CODE_LENGTH }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
+            </Step>
+
+            <Step done={false} title="Upload your documents">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="id-document">Government ID</Label>
+                  <Input
+                    id="id-document"
+                    type="file"
+                    accept="image/*,application/pdf"
+                    onChange={(e) => setIdDocument(e.target.files?.[0] ?? null)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="selfie">Selfie holding your ID</Label>
+                  <Input
+                    id="selfie"
+                    type="file"
+                    accept="image/*"
+                    capture="user"
+                    onChange={(e) => setSelfie(e.target.files?.[0] ?? null)}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Only moderators can see these files. Photos or PDFs up to 10 MB.
+              </p>
+            </Step>
+
+            <Button
+              onClick={() => requestVerificationMutation.mutate()}
+              disabled={
+                !emailConfirmed || !phoneVerified || !idDocument || !selfie || requestVerificationMutation.isPending
+              }
+            >
+              Request Verification
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
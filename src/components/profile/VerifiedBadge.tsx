@@ -0,0 +1,20 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { BadgeCheck } from 'lucide-react';
+
+interface VerifiedBadgeProps {
+  // Shows just the check mark, for tight spots like search results
+  compact?: boolean;
+  className?: string;
+}
+
+// Shown next to members whose identity a moderator has checked
+export const VerifiedBadge = ({ compact, className }: VerifiedBadgeProps) =>
+  compact ? (
+    <BadgeCheck className={cn('h-4 w-4 text-primary', className)} aria-label="Verified" />
+  ) : (
+    <Badge variant="outline" className={cn('gap-1 border-primary/40 text-primary', className)}>
+      <BadgeCheck className="h-3 w-3" />
+      Verified
+    </Badge>
+  );
@@ -1,6 +1,7 @@
+import { useEffect, useRef, useState } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Download } from 'lucide-react';
+import { Download, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 interface QRCodeDisplayProps {
@@ -8,9 +9,34 @@ interface QRCodeDisplayProps {
   title: string;
   description?: string;
   size?: number;
+  // Short-lived codes: onRefresh is called shortly before expiresAt so a new value can be swapped in
+  expiresAt?: string;
+  onRefresh?: () => void;
 }
 
-export const QRCodeDisplay = ({ value, title, description, size = 256 }: QRCodeDisplayProps) => {
+// Ask for a new code this long before the current one expires
+const REFRESH_MARGIN_MS = 15_000;
+
+export const QRCodeDisplay = ({ value, title, description, size = 256, expiresAt, onRefresh }: QRCodeDisplayProps) => {
+  const [now, setNow] = useState(Date.now());
+  const refreshedValue = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!expiresAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [expiresAt]);
+
+  const msLeft = expiresAt ? new Date(expiresAt).getTime() - now : null;
+
+  useEffect(() => {
+    if (msLeft === null || !onRefresh) return;
+    if (msLeft <= REFRESH_MARGIN_MS && refreshedValue.current !== value) {
+      refreshedValue.current = value;
+      onRefresh();
+    }
+  }, [msLeft, onRefresh, value]);
+
   const downloadQR = () => {
     const canvas = document.createElement('canvas');
     const svg = document.getElementById('qr-code-svg') as any;
@@ -50,10 +76,19 @@ export const QRCodeDisplay = ({ value, title, description, size = 256 }: QRCodeD
             includeMargin
           />
         </div>
-        <Button variant="outline" onClick={downloadQR} className="w-full">
-          <Download className="h-4 w-4 mr-2" />
-          Download QR Code
-        </Button>
+        {msLeft === null ? (
+          <Button variant="outline" onClick={downloadQR} className="w-full">
+            <Download className="h-4 w-4 mr-2" />
+            Download QR Code
+          </Button>
+        ) : (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <RefreshCw className="h-4 w-4" />
+            {msLeft > REFRESH_MARGIN_MS
+              ? `New code in ${Math.ceil((msLeft - REFRESH_MARGIN_MS) / 1000)}s`
+              : 'Refreshing code...'}
+          </p>
+        )}
       </CardContent>
     </Card>
   );
@@ -2,18 +2,23 @@ import { useEffect, useRef, useState } from 'react';
 import { Html5Qrcode } from 'html5-qrcode';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Camera, X, CheckCircle2, XCircle } from 'lucide-react';
+import { Camera, X, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { supabase } from '@/integrations/supabase/client';
+import { HandoffScanType, parseHandoffPayload } from '@/lib/orders';
 
 interface QRScannerProps {
-  onScan: (data: string) => void;
+  orderId: string;
+  scanType: HandoffScanType;
+  onVerified?: () => void;
   onError?: (error: string) => void;
   title: string;
   description?: string;
 }
 
-export const QRScanner = ({ onScan, onError, title, description }: QRScannerProps) => {
+export const QRScanner = ({ orderId, scanType, onVerified, onError, title, description }: QRScannerProps) => {
   const [isScanning, setIsScanning] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
   const [scanResult, setScanResult] = useState<{ success: boolean; message: string } | null>(null);
   const scannerRef = useRef<Html5Qrcode | null>(null);
   const [cameraPermission, setCameraPermission] = useState<'granted' | 'denied' | 'prompt'>('prompt');
@@ -35,24 +40,63 @@ export const QRScanner = ({ onScan, onError, title, description }: QRScannerProp
           qrbox: { width: 250, height: 250 }
         },
         (decodedText) => {
-          setScanResult({ success: true, message: 'QR Code scanned successfully!' });
-          onScan(decodedText);
           stopScanning();
+          verifyScan(decodedText);
         },
-        (errorMessage) => {
+        () => {
           // Ignore errors, they happen frequently during scanning
         }
       );
 
+      setScanResult(null);
       setIsScanning(true);
-    } catch (err: any) {
+    } catch (err) {
       console.error('Scanner error:', err);
       setCameraPermission('denied');
       setScanResult({ success: false, message: 'Camera permission denied' });
-      if (onError) onError(err.message);
+      if (onError) onError((err as Error).message);
     }
   };
 
+  const verifyScan = async (decodedText: string) => {
+    const payload = parseHandoffPayload(decodedText);
+
+    if (!payload) {
+      setScanResult({ success: false, message: 'This is not a BorrowPal handoff code.' });
+      return;
+    }
+    if (payload.order_id !== orderId) {
+      setScanResult({ success: false, message: 'This code belongs to a different order.' });
+      return;
+    }
+    if (payload.scan_type !== scanType) {
+      setScanResult({ success: false, message: 'This code is for a different step of the handoff.' });
+      return;
+    }
+
+    setIsVerifying(true);
+    const { data, error } = await supabase.rpc('verify_qr_scan', {
+      p_order_id: payload.order_id,
+      p_scan_type: payload.scan_type,
+      p_nonce: payload.nonce,
+      p_signature: payload.signature
+    });
+    setIsVerifying(false);
+
+    if (error) {
+      setScanResult({ success: false, message: error.message });
+      if (onError) onError(error.message);
+      return;
+    }
+    if (!data) {
+      setScanResult({ success: false, message: 'This code has expired or was already used. Ask for the current one.' });
+      return;
+    }
+
+    setScanResult({ success: true, message: 'Handoff confirmed!' });
+    onVerified?.();
+  };
+
   const stopScanning = async () => {
     if (scannerRef.current) {
       try {
@@ -79,6 +123,13 @@ export const QRScanner = ({ onScan, onError, title, description }: QRScannerProp
         {description && <CardDescription>{description}</CardDescription>}
       </CardHeader>
       <CardContent className="space-y-4">
+        {isVerifying && (
+          <Alert>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <AlertDescription>Verifying code...</AlertDescription>
+          </Alert>
+        )}
+
         {scanResult && (
           <Alert variant={scanResult.success ? 'default' : 'destructive'}>
             {scanResult.success ? (
@@ -113,7 +164,7 @@ export const QRScanner = ({ onScan, onError, title, description }: QRScannerProp
 
         <div className="flex gap-2">
           {!isScanning ? (
-            <Button onClick={startScanning} className="w-full">
+            <Button onClick={startScanning} className="w-full" disabled={isVerifying}>
               <Camera className="h-4 w-4 mr-2" />
               Start Scanning
             </Button>
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { StarRating } from '@/components/review/StarRating';
+import { useToast } from '@/hooks/use-toast';
+import { subRatingLabels, subRatings } from '@/lib/reviews';
+
+type Review = Tables<'reviews'> & { listings?: { title: string } | null };
+
+interface ReviewListProps {
+  reviews: Review[];
+  // Lets the reviewed seller answer buyers' reviews
+  canReply?: boolean;
+  emptyMessage?: string;
+}
+
+export const ReviewList = ({ reviews, canReply, emptyMessage = 'No reviews yet.' }: ReviewListProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+
+  const reviewerIds = [...new Set(reviews.map((review) => review.reviewer_id))];
+
+  // reviews references auth.users, so reviewer profiles are looked up separately
+  const { data: reviewers = [] } = useQuery({
+    queryKey: ['reviewer-profiles', reviewerIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, name, avatar_url')
+        .in('id', reviewerIds);
+      if (error) throw error;
+      return data;
+    },
+    enabled: reviewerIds.length > 0
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async (reviewId: string) => {
+      const { error } = await supabase.rpc('reply_to_review', { p_review_id: reviewId, p_reply: reply });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-reviews'] });
+      queryClient.invalidateQueries({ queryKey: ['reviews'] });
+      setReplyingTo(null);
+      setReply('');
+      toast({ title: 'Reply posted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not post reply', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  if (reviews.length === 0) {
+    return <p className="text-muted-foreground text-center py-8">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {reviews.map((review) => {
+        const reviewer = reviewers.find((profile) => profile.id === review.reviewer_id);
+        const details = subRatings.filter((key) => review[key]);
+
+        return (
+          <div key={review.id} className="border-b border-border pb-4 last:border-0 space-y-2">
+            <div className="flex items-start justify-between">
+              <div className="flex items-center gap-2">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={reviewer?.avatar_url ?? undefined} />
+                  <AvatarFallback>{reviewer?.name?.[0] || 'U'}</AvatarFallback>
+                </Avatar>
+                <div>
+                  <p className="font-medium">
+                    {reviewer?.name || 'Reviewer'}
+                    <span className="text-xs text-muted-foreground font-normal">
+                      {' '}· {review.reviewer_role === 'seller' ? 'as lender' : 'as borrower'}
+                    </span>
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {review.listings?.title}
+                    {review.created_at && ` · ${formatDistanceToNow(new Date(review.created_at), { addSuffix: true })}`}
+                  </p>
+                </div>
+              </div>
+              <StarRating value={review.rating} />
+            </div>
+
+            {details.length > 0 && (
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                {details.map((key) => (
+                  <span key={key}>
+                    {subRatingLabels[key]}: {review[key]}/5
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {review.comment && <p className="text-muted-foreground">{review.comment}</p>}
+
+            {review.reply ? (
+              <div className="ml-6 border-l-2 pl-3 text-sm">
+                <p className="font-medium">Seller's reply</p>
+                <p className="text-muted-foreground">{review.reply}</p>
+              </div>
+            ) : (
+              canReply &&
+              review.reviewer_role === 'buyer' &&
+              (replyingTo === review.id ? (
+                <div className="ml-6 space-y-2">
+                  <Textarea
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    maxLength={1000}
+                    placeholder="Thank the borrower or add context. Replies are public and can't be edited."
+                    rows={3}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => replyMutation.mutate(review.id)}
+                      disabled={!reply.trim() || replyMutation.isPending}
+                    >
+                      Post reply
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setReplyingTo(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="ml-4"
+                  onClick={() => {
+                    setReplyingTo(review.id);
+                    setReply('');
+                  }}
+                >
+                  Reply
+                </Button>
+              ))
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import { cn } from '@/lib/utils';
+import { Star } from 'lucide-react';
+
+interface StarRatingProps {
+  value: number;
+  // Makes the stars clickable
+  onChange?: (value: number) => void;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+export const StarRating = ({ value, onChange, size = 'sm', className }: StarRatingProps) => (
+  <div className={cn('flex items-center', className)}>
+    {[1, 2, 3, 4, 5].map((star) => {
+      const icon = (
+        <Star
+          className={cn(
+            size === 'sm' ? 'h-4 w-4' : 'h-6 w-6',
+            star <= value ? 'fill-current text-yellow-400' : 'text-gray-300'
+          )}
+        />
+      );
+
+      return onChange ? (
+        <button
+          key={star}
+          type="button"
+          onClick={() => onChange(star)}
+          className="p-0.5"
+          aria-label={`${star} star${star === 1 ? '' : 's'}`}
+        >
+          {icon}
+        </button>
+      ) : (
+        <span key={star}>{icon}</span>
+      );
+    })}
+  </div>
+);
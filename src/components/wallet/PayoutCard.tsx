@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatMoney, payoutStatusLabels } from '@/lib/wallet';
+import { format } from 'date-fns';
+import { Landmark } from 'lucide-react';
+
+interface PayoutCardProps {
+  availableBalance: number;
+}
+
+export const PayoutCard = ({ availableBalance }: PayoutCardProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showDialog, setShowDialog] = useState(false);
+  const [amount, setAmount] = useState('');
+
+  const { data: account } = useQuery({
+    queryKey: ['payout-account', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('payout_accounts')
+        .select('*')
+        .eq('user_id', user?.id)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id
+  });
+
+  const { data: payouts } = useQuery({
+    queryKey: ['payouts', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('payouts')
+        .select('*')
+        .eq('user_id', user?.id)
+        .order('requested_at', { ascending: false })
+        .limit(10);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('payout-account');
+      if (error) throw error;
+      return data as { payouts_enabled: boolean; onboarding_url: string | null };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['payout-account'] });
+      if (data.onboarding_url) {
+        window.location.href = data.onboarding_url;
+      } else {
+        toast({ title: 'Payouts are set up' });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not set up payouts', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const payoutMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('request_payout', { p_amount: parseFloat(amount) });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payouts'] });
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
+      queryClient.invalidateQueries({ queryKey: ['profile'] });
+      setShowDialog(false);
+      setAmount('');
+      toast({ title: 'Payout requested', description: 'It will be sent within the next few minutes' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not request payout', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const parsedAmount = parseFloat(amount);
+  const canRequest = !isNaN(parsedAmount) && parsedAmount >= 1 && parsedAmount <= availableBalance;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Landmark className="h-5 w-5 text-primary" />
+          Payouts
+        </CardTitle>
+        <CardDescription>Withdraw your available balance to your bank account</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {account?.payouts_enabled ? (
+          <Button className="w-full" onClick={() => setShowDialog(true)} disabled={availableBalance < 1}>
+            Withdraw
+          </Button>
+        ) : (
+          <Button
+            className="w-full"
+            onClick={() => setupMutation.mutate()}
+            disabled={setupMutation.isPending}
+          >
+            {account ? 'Finish payout setup' : 'Set up payouts'}
+          </Button>
+        )}
+
+        {!!payouts?.length && (
+          <div className="space-y-2">
+            {payouts.map((payout) => (
+              <div key={payout.id} className="flex items-center justify-between text-sm">
+                <div>
+                  <p className="font-medium">{formatMoney(payout.amount)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(payout.requested_at), 'MMM d, yyyy')}
+                    {payout.failure_reason && ` • ${payout.failure_reason}`}
+                  </p>
+                </div>
+                <Badge variant={payout.status === 'failed' ? 'destructive' : payout.status === 'paid' ? 'secondary' : 'outline'}>
+                  {payoutStatusLabels[payout.status]}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Withdraw funds</DialogTitle>
+            <DialogDescription>
+              You can withdraw up to {formatMoney(availableBalance)}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 py-4">
+            <Label htmlFor="payout-amount">Amount</Label>
+            <Input
+              id="payout-amount"
+              type="number"
+              step="0.01"
+              min="1"
+              max={availableBalance}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+            <Button variant="link" className="px-0 h-auto" onClick={() => setAmount(availableBalance.toFixed(2))}>
+              Withdraw everything
+            </Button>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => payoutMutation.mutate()} disabled={!canRequest || payoutMutation.isPending}>
+              Withdraw
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { clearReferralCode, getReferralCode } from '@/lib/referrals';
 
 interface AuthContextType {
   user: User | null;
@@ -46,17 +47,33 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Opening the app counts toward the daily streak, in the browser's timezone
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    supabase
+      .rpc('record_login_activity', { p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone })
+      .then(({ error }) => {
+        if (error) console.error('Could not record activity:', error);
+      });
+  }, [userId]);
+
   const signUp = async (email: string, password: string, name: string) => {
     const redirectUrl = `${window.location.origin}/`;
+    const referralCode = getReferralCode();
     
     const { error } = await supabase.auth.signUp({
       email,
       password,
       options: {
         emailRedirectTo: redirectUrl,
-        data: { name }
+        // Picked up by the record_referral_signup trigger
+        data: referralCode ? { name, referral_code: referralCode } : { name }
       }
     });
+    if (!error) {
+      clearReferralCode();
+    }
     return { error };
   };
 
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+const TYPING_TIMEOUT_MS = 3000;
+const TYPING_THROTTLE_MS = 1500;
+
+// Presence and typing indicators for an open thread, shared over a broadcast
+// channel that both participants join. Nothing here is stored.
+export const useChatPresence = (threadKey: string | null, otherUserId: string | null) => {
+  const { user } = useAuth();
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastTypingSentRef = useRef(0);
+  const [otherOnline, setOtherOnline] = useState(false);
+  const [otherTyping, setOtherTyping] = useState(false);
+
+  useEffect(() => {
+    setOtherOnline(false);
+    setOtherTyping(false);
+    if (!threadKey || !otherUserId || !user?.id) return;
+
+    let typingTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const channel = supabase.channel(`chat:${threadKey}`, {
+      config: { presence: { key: user.id } }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setOtherOnline(otherUserId in channel.presenceState());
+      })
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        if (payload?.user_id !== otherUserId) return;
+        setOtherTyping(true);
+        clearTimeout(typingTimer);
+        typingTimer = setTimeout(() => setOtherTyping(false), TYPING_TIMEOUT_MS);
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          channel.track({ online_at: new Date().toISOString() });
+        }
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      clearTimeout(typingTimer);
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [threadKey, otherUserId, user?.id]);
+
+  // Call on every keystroke; broadcasts are throttled
+  const sendTyping = useCallback(() => {
+    const now = Date.now();
+    if (!channelRef.current || !user?.id || now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+    lastTypingSentRef.current = now;
+    channelRef.current.send({ type: 'broadcast', event: 'typing', payload: { user_id: user.id } });
+  }, [user?.id]);
+
+  return { otherOnline, otherTyping, sendTyping };
+};
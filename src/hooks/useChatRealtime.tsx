@@ -0,0 +1,58 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+// Keeps chat queries live for the signed-in user and returns their unread
+// message count, leaving out muted conversations. Mounted once through the
+// sidebar, so every page receives new messages and read receipts.
+export const useChatRealtime = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: ['unread-messages', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_unread_message_count');
+      if (error) throw error;
+      return data ?? 0;
+    },
+    enabled: !!user?.id
+  });
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const refresh = () => {
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      queryClient.invalidateQueries({ queryKey: ['messages'] });
+      queryClient.invalidateQueries({ queryKey: ['unread-messages'] });
+    };
+
+    // Inserts cover new messages either way; updates to sent messages are read receipts
+    const channel = supabase
+      .channel(`chat-messages:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'chat_messages', filter: `to_user_id=eq.${user.id}` },
+        refresh
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'chat_messages', filter: `from_user_id=eq.${user.id}` },
+        refresh
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'chat_messages', filter: `from_user_id=eq.${user.id}` },
+        refresh
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id, queryClient]);
+
+  return { unreadCount };
+};
@@ -2,6 +2,12 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
+import { format, subWeeks } from 'date-fns';
+import type { PerkType } from '@/lib/perks';
+
+// Mirror streak_freeze_xp() and max_streak_freezes() in the database
+export const STREAK_FREEZE_XP = 500;
+export const MAX_STREAK_FREEZES = 3;
 
 export const useGamification = () => {
   const { user } = useAuth();
@@ -25,6 +31,20 @@ export const useGamification = () => {
     enabled: !!user?.id,
   });
 
+  // Level thresholds, titles and perks, shared with award_xp
+  const { data: levelDefinitions = [] } = useQuery({
+    queryKey: ['level-definitions'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('level_definitions')
+        .select('*')
+        .order('level', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
   // Fetch user badges
   const { data: userBadges = [], isLoading: badgesLoading } = useQuery({
     queryKey: ['user-badges', user?.id],
@@ -78,36 +98,169 @@ export const useGamification = () => {
     enabled: !!user?.id,
   });
 
-  // Award XP mutation
-  const awardXP = useMutation({
-    mutationFn: async (xpAmount: number) => {
+  // Fetch unlocked achievements, newest first
+  const { data: achievements = [] } = useQuery({
+    queryKey: ['achievements', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('achievements')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id,
+  });
+
+  // Current and longest streak plus saved-up freezes
+  const { data: streak } = useQuery({
+    queryKey: ['streak', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return null;
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('streak_days, longest_streak, streak_freezes, last_activity_date')
+        .eq('id', user.id)
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id,
+  });
+
+  // Perks the user currently shows on their profile
+  const { data: cosmetics } = useQuery({
+    queryKey: ['cosmetics', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return null;
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('profile_frame, profile_color')
+        .eq('id', user.id)
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id,
+  });
+
+  // Show an unlocked perk (or clear it with null); locked ones are rejected server-side
+  const equipPerk = useMutation({
+    mutationFn: async ({ perk, value }: { perk: PerkType; value: string | null }) => {
       if (!user?.id) throw new Error('Not authenticated');
-      
-      const { error } = await supabase.rpc('award_xp', {
-        p_user_id: user.id,
-        p_xp: xpAmount,
-      });
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ [perk]: value })
+        .eq('id', user.id);
 
       if (error) throw error;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['user-level', user?.id] });
-      toast.success('XP Earned!');
+      queryClient.invalidateQueries({ queryKey: ['cosmetics', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['profile', user?.id] });
+      toast.success('Profile updated');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
     },
   });
 
-  // Calculate progress to next level
-  const getNextLevelXP = (currentLevel: number) => {
-    return Math.ceil(Math.pow((currentLevel + 1), 1/0.7) * 100);
-  };
+  // Active days for the streak calendar
+  const { data: activityDays = [] } = useQuery({
+    queryKey: ['activity-days', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return [];
 
-  const getCurrentLevelXP = (currentLevel: number) => {
-    return Math.ceil(Math.pow(currentLevel, 1/0.7) * 100);
-  };
+      const { data, error } = await supabase
+        .from('activity_days')
+        .select('*')
+        .eq('user_id', user.id)
+        .gte('activity_date', format(subWeeks(new Date(), 27), 'yyyy-MM-dd'))
+        .order('activity_date');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id,
+  });
+
+  // Recent XP grants with what earned them
+  const { data: xpEvents = [] } = useQuery({
+    queryKey: ['xp-events', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('xp_events')
+        .select('*, rule:xp_event_rules(description)')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(30);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id,
+  });
+
+  // Badges unlocked since the user last looked, from unread "badge unlocked" notifications
+  const { data: badgeNotifications = [] } = useQuery({
+    queryKey: ['badge-notifications', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('id, data')
+        .eq('user_id', user.id)
+        .eq('read', false)
+        .eq('data->>kind', 'badge_unlocked');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id,
+  });
+
+  const newBadgeIds = badgeNotifications
+    .map((n) => (n.data as { badge_id?: string } | null)?.badge_id)
+    .filter((id): id is string => !!id);
+
+  // Keeps the badge-notifications cache so the "New" markers stay for this visit
+  const markBadgesSeen = useMutation({
+    mutationFn: async () => {
+      if (!badgeNotifications.length) return;
+
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read: true })
+        .in('id', badgeNotifications.map((n) => n.id));
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+
+  // Progress between the thresholds in level_definitions; full at the top level
+  const currentLevelDef = levelDefinitions.find((d) => d.level === userLevel?.level);
+  const nextLevelDef = levelDefinitions.find((d) => d.level === (userLevel?.level ?? 0) + 1);
 
-  const progressToNextLevel = userLevel 
-    ? ((userLevel.xp - getCurrentLevelXP(userLevel.level)) / 
-       (getNextLevelXP(userLevel.level) - getCurrentLevelXP(userLevel.level))) * 100
+  const progressToNextLevel = userLevel && currentLevelDef
+    ? nextLevelDef
+      ? Math.min(((userLevel.xp - currentLevelDef.min_xp) / (nextLevelDef.min_xp - currentLevelDef.min_xp)) * 100, 100)
+      : 100
     : 0;
 
   return {
@@ -115,10 +268,19 @@ export const useGamification = () => {
     userBadges,
     allBadges,
     referrals,
+    achievements,
+    streak,
+    activityDays,
+    xpEvents,
+    newBadgeIds,
+    markBadgesSeen: markBadgesSeen.mutate,
     levelLoading,
     badgesLoading,
-    awardXP: awardXP.mutate,
     progressToNextLevel,
-    nextLevelXP: userLevel ? getNextLevelXP(userLevel.level) : 0,
+    nextLevelXP: nextLevelDef?.min_xp ?? currentLevelDef?.min_xp ?? 0,
+    levelDefinitions,
+    cosmetics,
+    equipPerk: equipPerk.mutate,
+    equippingPerk: equipPerk.isPending,
   };
 };
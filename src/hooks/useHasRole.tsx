@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { Database } from '@/integrations/supabase/types';
+
+export type AppRole = Database['public']['Enums']['app_role'];
+
+// Checks the signed-in user's role through the has_role database function
+export const useHasRole = (role: AppRole) => {
+  const { user, loading: authLoading } = useAuth();
+
+  const { data: hasRole = false, isLoading } = useQuery({
+    queryKey: ['has-role', user?.id, role],
+    queryFn: async () => {
+      if (!user?.id) return false;
+
+      const { data, error } = await supabase.rpc('has_role', {
+        _user_id: user.id,
+        _role: role
+      });
+
+      if (error) throw error;
+      return !!data;
+    },
+    enabled: !!user?.id
+  });
+
+  return { hasRole, isLoading: authLoading || (!!user && isLoading) };
+};
@@ -0,0 +1,37 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+
+export type OrderEvent = Database['public']['Enums']['order_event'];
+
+interface TransitionVariables {
+  event: OrderEvent;
+  payload?: Json;
+}
+
+// Fires an event on an order through the transition_order state machine
+export const useOrderTransition = (orderId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ event, payload = {} }: TransitionVariables) => {
+      if (!orderId) throw new Error('Order not found');
+
+      const { data, error } = await supabase.rpc('transition_order', {
+        p_order_id: orderId,
+        p_event: event,
+        p_payload: payload
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['order', orderId] });
+      queryClient.invalidateQueries({ queryKey: ['negotiations', orderId] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['borrowed-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['lent-orders'] });
+    }
+  });
+};
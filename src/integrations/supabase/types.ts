@@ -41,6 +41,77 @@ export type Database = {
         }
         Relationships: []
       }
+      activity_days: {
+        Row: {
+          action_count: number
+          actions: Json
+          activity_date: string
+          created_at: string
+          freeze_used: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          action_count?: number
+          actions?: Json
+          activity_date: string
+          created_at?: string
+          freeze_used?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          action_count?: number
+          actions?: Json
+          activity_date?: string
+          created_at?: string
+          freeze_used?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "activity_days_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      badge_metrics: {
+        Row: {
+          aggregate: string
+          created_at: string
+          description: string
+          filters: Json
+          requirement_type: string
+          source_table: string
+          user_column: string
+          value_column: string | null
+        }
+        Insert: {
+          aggregate?: string
+          created_at?: string
+          description: string
+          filters?: Json
+          requirement_type: string
+          source_table: string
+          user_column: string
+          value_column?: string | null
+        }
+        Update: {
+          aggregate?: string
+          created_at?: string
+          description?: string
+          filters?: Json
+          requirement_type?: string
+          source_table?: string
+          user_column?: string
+          value_column?: string | null
+        }
+        Relationships: []
+      }
       badges: {
         Row: {
           category: string
@@ -78,7 +149,15 @@ export type Database = {
           requirement_value?: number
           xp_reward?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "badges_requirement_type_fkey"
+            columns: ["requirement_type"]
+            isOneToOne: false
+            referencedRelation: "badge_metrics"
+            referencedColumns: ["requirement_type"]
+          },
+        ]
       }
       categories: {
         Row: {
@@ -118,6 +197,8 @@ export type Database = {
       chat_messages: {
         Row: {
           attachments: string[] | null
+          contact_redacted: boolean
+          conversation_id: string | null
           created_at: string | null
           from_user_id: string
           id: string
@@ -130,6 +211,8 @@ export type Database = {
         }
         Insert: {
           attachments?: string[] | null
+          contact_redacted?: boolean
+          conversation_id?: string | null
           created_at?: string | null
           from_user_id: string
           id?: string
@@ -142,6 +225,8 @@ export type Database = {
         }
         Update: {
           attachments?: string[] | null
+          contact_redacted?: boolean
+          conversation_id?: string | null
           created_at?: string | null
           from_user_id?: string
           id?: string
@@ -153,6 +238,13 @@ export type Database = {
           to_user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "chat_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "chat_messages_listing_id_fkey"
             columns: ["listing_id"]
@@ -169,6 +261,361 @@ export type Database = {
           },
         ]
       }
+      conversation_participants: {
+        Row: {
+          archived_at: string | null
+          conversation_id: string
+          muted_at: string | null
+          user_id: string
+        }
+        Insert: {
+          archived_at?: string | null
+          conversation_id: string
+          muted_at?: string | null
+          user_id: string
+        }
+        Update: {
+          archived_at?: string | null
+          conversation_id?: string
+          muted_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_participants_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_participants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string
+          id: string
+          last_message_at: string | null
+          last_message_text: string | null
+          listing_id: string | null
+          order_id: string | null
+          subject_key: string
+          user_a: string
+          user_b: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_message_at?: string | null
+          last_message_text?: string | null
+          listing_id?: string | null
+          order_id?: string | null
+          subject_key: string
+          user_a: string
+          user_b: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_message_at?: string | null
+          last_message_text?: string | null
+          listing_id?: string | null
+          order_id?: string | null
+          subject_key?: string
+          user_a?: string
+          user_b?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_listing_id_fkey"
+            columns: ["listing_id"]
+            isOneToOne: false
+            referencedRelation: "listings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_user_a_fkey"
+            columns: ["user_a"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_user_b_fkey"
+            columns: ["user_b"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dispute_evidence: {
+        Row: {
+          caption: string | null
+          created_at: string
+          dispute_id: string
+          id: string
+          storage_path: string
+          uploaded_by: string
+        }
+        Insert: {
+          caption?: string | null
+          created_at?: string
+          dispute_id: string
+          id?: string
+          storage_path: string
+          uploaded_by: string
+        }
+        Update: {
+          caption?: string | null
+          created_at?: string
+          dispute_id?: string
+          id?: string
+          storage_path?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dispute_evidence_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: false
+            referencedRelation: "disputes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      disputes: {
+        Row: {
+          at_fault_user_id: string | null
+          borrower_statement: string | null
+          borrower_trust_delta: number
+          created_at: string
+          id: string
+          lender_statement: string | null
+          lender_trust_delta: number
+          opened_by: string
+          order_id: string
+          outcome: Database["public"]["Enums"]["dispute_outcome"] | null
+          outcome_amount: number | null
+          reason: Database["public"]["Enums"]["dispute_reason"]
+          refund_pending: boolean
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: Database["public"]["Enums"]["dispute_status"]
+          stripe_refund_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          at_fault_user_id?: string | null
+          borrower_statement?: string | null
+          borrower_trust_delta?: number
+          created_at?: string
+          id?: string
+          lender_statement?: string | null
+          lender_trust_delta?: number
+          opened_by: string
+          order_id: string
+          outcome?: Database["public"]["Enums"]["dispute_outcome"] | null
+          outcome_amount?: number | null
+          reason: Database["public"]["Enums"]["dispute_reason"]
+          refund_pending?: boolean
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: Database["public"]["Enums"]["dispute_status"]
+          stripe_refund_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          at_fault_user_id?: string | null
+          borrower_statement?: string | null
+          borrower_trust_delta?: number
+          created_at?: string
+          id?: string
+          lender_statement?: string | null
+          lender_trust_delta?: number
+          opened_by?: string
+          order_id?: string
+          outcome?: Database["public"]["Enums"]["dispute_outcome"] | null
+          outcome_amount?: number | null
+          reason?: Database["public"]["Enums"]["dispute_reason"]
+          refund_pending?: boolean
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: Database["public"]["Enums"]["dispute_status"]
+          stripe_refund_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "disputes_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      handoff_tokens: {
+        Row: {
+          consumed_at: string | null
+          consumed_by: string | null
+          expires_at: string
+          issued_at: string
+          issued_by: string
+          nonce: string
+          order_id: string
+          scan_type: string
+        }
+        Insert: {
+          consumed_at?: string | null
+          consumed_by?: string | null
+          expires_at: string
+          issued_at?: string
+          issued_by: string
+          nonce: string
+          order_id: string
+          scan_type: string
+        }
+        Update: {
+          consumed_at?: string | null
+          consumed_by?: string | null
+          expires_at?: string
+          issued_at?: string
+          issued_by?: string
+          nonce?: string
+          order_id?: string
+          scan_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "handoff_tokens_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_entries: {
+        Row: {
+          account: Database["public"]["Enums"]["ledger_account"]
+          amount: number
+          created_at: string
+          id: string
+          transaction_id: string
+          user_id: string | null
+        }
+        Insert: {
+          account: Database["public"]["Enums"]["ledger_account"]
+          amount: number
+          created_at?: string
+          id?: string
+          transaction_id: string
+          user_id?: string | null
+        }
+        Update: {
+          account?: Database["public"]["Enums"]["ledger_account"]
+          amount?: number
+          created_at?: string
+          id?: string
+          transaction_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_entries_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_transactions: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          idempotency_key: string | null
+          kind: Database["public"]["Enums"]["ledger_kind"]
+          order_id: string | null
+          payout_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          id?: string
+          idempotency_key?: string | null
+          kind: Database["public"]["Enums"]["ledger_kind"]
+          order_id?: string | null
+          payout_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          idempotency_key?: string | null
+          kind?: Database["public"]["Enums"]["ledger_kind"]
+          order_id?: string | null
+          payout_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_transactions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_transactions_payout_id_fkey"
+            columns: ["payout_id"]
+            isOneToOne: false
+            referencedRelation: "payouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      level_definitions: {
+        Row: {
+          created_at: string
+          level: number
+          min_xp: number
+          perks: Json
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          level: number
+          min_xp: number
+          perks?: Json
+          title: string
+        }
+        Update: {
+          created_at?: string
+          level?: number
+          min_xp?: number
+          perks?: Json
+          title?: string
+        }
+        Relationships: []
+      }
       listings: {
         Row: {
           category_id: string | null
@@ -178,14 +625,21 @@ export type Database = {
           delivery_options:
             | Database["public"]["Enums"]["delivery_option"][]
             | null
+          deposit_amount: number
           description: string
           favorites_count: number | null
           featured: boolean | null
           id: string
           images: string[] | null
           location: Json | null
+          min_trust_score: number | null
+          moderated_at: string | null
+          moderated_by: string | null
+          moderation_reason: string | null
           price: number
           price_type: Database["public"]["Enums"]["price_type"] | null
+          rating_average: number | null
+          rating_count: number
           seller_id: string
           status: Database["public"]["Enums"]["listing_status"] | null
           title: string
@@ -201,14 +655,21 @@ export type Database = {
           delivery_options?:
             | Database["public"]["Enums"]["delivery_option"][]
             | null
+          deposit_amount?: number
           description: string
           favorites_count?: number | null
           featured?: boolean | null
           id?: string
           images?: string[] | null
           location?: Json | null
+          min_trust_score?: number | null
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
           price: number
           price_type?: Database["public"]["Enums"]["price_type"] | null
+          rating_average?: number | null
+          rating_count?: number
           seller_id: string
           status?: Database["public"]["Enums"]["listing_status"] | null
           title: string
@@ -224,14 +685,21 @@ export type Database = {
           delivery_options?:
             | Database["public"]["Enums"]["delivery_option"][]
             | null
+          deposit_amount?: number
           description?: string
           favorites_count?: number | null
           featured?: boolean | null
           id?: string
           images?: string[] | null
           location?: Json | null
+          min_trust_score?: number | null
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
           price?: number
           price_type?: Database["public"]["Enums"]["price_type"] | null
+          rating_average?: number | null
+          rating_count?: number
           seller_id?: string
           status?: Database["public"]["Enums"]["listing_status"] | null
           title?: string
@@ -247,52 +715,227 @@ export type Database = {
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "listings_seller_id_fkey"
+            columns: ["seller_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      notifications: {
+      message_reports: {
         Row: {
-          action_label: string | null
-          action_url: string | null
-          body: string
-          created_at: string | null
-          data: Json | null
-          expires_at: string | null
+          attachments: string[] | null
+          conversation_id: string | null
+          created_at: string
+          details: string | null
           id: string
-          priority: string | null
-          read: boolean | null
-          title: string
-          type: Database["public"]["Enums"]["notification_type"]
-          user_id: string
+          message_id: string | null
+          message_text: string
+          reason: Database["public"]["Enums"]["message_report_reason"]
+          reported_user_id: string
+          reporter_id: string
+          resolution_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["message_report_status"]
         }
         Insert: {
-          action_label?: string | null
-          action_url?: string | null
-          body: string
-          created_at?: string | null
-          data?: Json | null
-          expires_at?: string | null
+          attachments?: string[] | null
+          conversation_id?: string | null
+          created_at?: string
+          details?: string | null
           id?: string
-          priority?: string | null
-          read?: boolean | null
-          title: string
-          type: Database["public"]["Enums"]["notification_type"]
-          user_id: string
+          message_id?: string | null
+          message_text: string
+          reason: Database["public"]["Enums"]["message_report_reason"]
+          reported_user_id: string
+          reporter_id: string
+          resolution_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["message_report_status"]
         }
         Update: {
-          action_label?: string | null
-          action_url?: string | null
-          body?: string
-          created_at?: string | null
-          data?: Json | null
-          expires_at?: string | null
+          attachments?: string[] | null
+          conversation_id?: string | null
+          created_at?: string
+          details?: string | null
           id?: string
-          priority?: string | null
-          read?: boolean | null
-          title?: string
-          type?: Database["public"]["Enums"]["notification_type"]
-          user_id?: string
+          message_id?: string | null
+          message_text?: string
+          reason?: Database["public"]["Enums"]["message_report_reason"]
+          reported_user_id?: string
+          reporter_id?: string
+          resolution_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["message_report_status"]
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "message_reports_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reports_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reports_reported_user_id_fkey"
+            columns: ["reported_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reports_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_actions: {
+        Row: {
+          action: string
+          actor_id: string
+          created_at: string
+          details: Json
+          id: string
+          reason: string | null
+          target_id: string | null
+          target_type: string
+        }
+        Insert: {
+          action: string
+          actor_id: string
+          created_at?: string
+          details?: Json
+          id?: string
+          reason?: string | null
+          target_id?: string | null
+          target_type: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string
+          created_at?: string
+          details?: Json
+          id?: string
+          reason?: string | null
+          target_id?: string | null
+          target_type?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          action_label: string | null
+          action_url: string | null
+          body: string
+          created_at: string | null
+          data: Json | null
+          expires_at: string | null
+          id: string
+          priority: string | null
+          read: boolean | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          action_label?: string | null
+          action_url?: string | null
+          body: string
+          created_at?: string | null
+          data?: Json | null
+          expires_at?: string | null
+          id?: string
+          priority?: string | null
+          read?: boolean | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Update: {
+          action_label?: string | null
+          action_url?: string | null
+          body?: string
+          created_at?: string | null
+          data?: Json | null
+          expires_at?: string | null
+          id?: string
+          priority?: string | null
+          read?: boolean | null
+          title?: string
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      order_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          event: Database["public"]["Enums"]["order_event"]
+          from_status: Database["public"]["Enums"]["order_status"] | null
+          id: string
+          order_id: string
+          payload: Json
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          event: Database["public"]["Enums"]["order_event"]
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          order_id: string
+          payload?: Json
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          event?: Database["public"]["Enums"]["order_event"]
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          order_id?: string
+          payload?: Json
+          to_status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       order_negotiations: {
         Row: {
@@ -335,72 +978,123 @@ export type Database = {
       orders: {
         Row: {
           buyer_id: string
+          completed_at: string | null
           created_at: string | null
           currency: string | null
           delivery_address: Json | null
           delivery_scanned_at: string | null
           delivery_scanned_by: string | null
+          deposit_amount: number
+          deposit_captured_amount: number
+          deposit_claim_amount: number | null
+          deposit_claim_reason: string | null
+          deposit_failure_reason: string | null
+          deposit_held_at: string | null
+          deposit_payment_intent_id: string | null
+          deposit_release_after: string | null
+          deposit_settled_at: string | null
+          deposit_status: Database["public"]["Enums"]["deposit_status"]
+          ends_at: string | null
           final_amount: number
+          has_open_dispute: boolean
           id: string
           listing_id: string
           negotiated_price: number | null
           notes: string | null
           original_price: number
+          paid_at: string | null
           qr_code_data: Json | null
           quantity: number | null
+          refunded_amount: number
+          return_overdue_at: string | null
           return_scanned_at: string | null
           return_scanned_by: string | null
           seller_id: string
           service_end_scan: string | null
           service_start_scan: string | null
+          starts_at: string | null
           status: Database["public"]["Enums"]["order_status"] | null
           stripe_payment_intent_id: string | null
           updated_at: string | null
         }
         Insert: {
           buyer_id: string
+          completed_at?: string | null
           created_at?: string | null
           currency?: string | null
           delivery_address?: Json | null
           delivery_scanned_at?: string | null
           delivery_scanned_by?: string | null
+          deposit_amount?: number
+          deposit_captured_amount?: number
+          deposit_claim_amount?: number | null
+          deposit_claim_reason?: string | null
+          deposit_failure_reason?: string | null
+          deposit_held_at?: string | null
+          deposit_payment_intent_id?: string | null
+          deposit_release_after?: string | null
+          deposit_settled_at?: string | null
+          deposit_status?: Database["public"]["Enums"]["deposit_status"]
+          ends_at?: string | null
           final_amount: number
+          has_open_dispute?: boolean
           id?: string
           listing_id: string
           negotiated_price?: number | null
           notes?: string | null
           original_price: number
+          paid_at?: string | null
           qr_code_data?: Json | null
           quantity?: number | null
+          refunded_amount?: number
+          return_overdue_at?: string | null
           return_scanned_at?: string | null
           return_scanned_by?: string | null
           seller_id: string
           service_end_scan?: string | null
           service_start_scan?: string | null
+          starts_at?: string | null
           status?: Database["public"]["Enums"]["order_status"] | null
           stripe_payment_intent_id?: string | null
           updated_at?: string | null
         }
         Update: {
           buyer_id?: string
+          completed_at?: string | null
           created_at?: string | null
           currency?: string | null
           delivery_address?: Json | null
           delivery_scanned_at?: string | null
           delivery_scanned_by?: string | null
+          deposit_amount?: number
+          deposit_captured_amount?: number
+          deposit_claim_amount?: number | null
+          deposit_claim_reason?: string | null
+          deposit_failure_reason?: string | null
+          deposit_held_at?: string | null
+          deposit_payment_intent_id?: string | null
+          deposit_release_after?: string | null
+          deposit_settled_at?: string | null
+          deposit_status?: Database["public"]["Enums"]["deposit_status"]
+          ends_at?: string | null
           final_amount?: number
+          has_open_dispute?: boolean
           id?: string
           listing_id?: string
           negotiated_price?: number | null
           notes?: string | null
           original_price?: number
+          paid_at?: string | null
           qr_code_data?: Json | null
           quantity?: number | null
+          refunded_amount?: number
+          return_overdue_at?: string | null
           return_scanned_at?: string | null
           return_scanned_by?: string | null
           seller_id?: string
           service_end_scan?: string | null
           service_start_scan?: string | null
+          starts_at?: string | null
           status?: Database["public"]["Enums"]["order_status"] | null
           stripe_payment_intent_id?: string | null
           updated_at?: string | null
@@ -415,6 +1109,123 @@ export type Database = {
           },
         ]
       }
+      payout_accounts: {
+        Row: {
+          created_at: string
+          payouts_enabled: boolean
+          provider: string
+          provider_account_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          payouts_enabled?: boolean
+          provider: string
+          provider_account_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          payouts_enabled?: boolean
+          provider?: string
+          provider_account_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      payouts: {
+        Row: {
+          amount: number
+          currency: string
+          failure_reason: string | null
+          id: string
+          processed_at: string | null
+          provider: string | null
+          provider_payout_id: string | null
+          requested_at: string
+          status: Database["public"]["Enums"]["payout_status"]
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          processed_at?: string | null
+          provider?: string | null
+          provider_payout_id?: string | null
+          requested_at?: string
+          status?: Database["public"]["Enums"]["payout_status"]
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          processed_at?: string | null
+          provider?: string | null
+          provider_payout_id?: string | null
+          requested_at?: string
+          status?: Database["public"]["Enums"]["payout_status"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      phone_otp_sends: {
+        Row: {
+          id: string
+          phone: string
+          sent_at: string
+          user_id: string | null
+        }
+        Insert: {
+          id?: string
+          phone: string
+          sent_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          id?: string
+          phone?: string
+          sent_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      phone_verifications: {
+        Row: {
+          attempts: number
+          code_hash: string
+          expires_at: string
+          phone: string
+          sent_at: string
+          user_id: string
+          verified_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          expires_at: string
+          phone: string
+          sent_at?: string
+          user_id: string
+          verified_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          expires_at?: string
+          phone?: string
+          sent_at?: string
+          user_id?: string
+          verified_at?: string | null
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -425,13 +1236,19 @@ export type Database = {
           id: string
           is_verified: boolean | null
           last_activity_date: string | null
+          leaderboard_opt_out: boolean
+          longest_streak: number
           name: string | null
           pending_balance: number | null
           phone: string | null
           profile_color: string | null
           profile_frame: string | null
+          rating_average: number | null
+          rating_count: number
           referral_code: string | null
           streak_days: number
+          streak_freezes: number
+          timezone: string
           trust_score: number
           updated_at: string | null
           wallet_balance: number | null
@@ -445,13 +1262,19 @@ export type Database = {
           id: string
           is_verified?: boolean | null
           last_activity_date?: string | null
+          leaderboard_opt_out?: boolean
+          longest_streak?: number
           name?: string | null
           pending_balance?: number | null
           phone?: string | null
           profile_color?: string | null
           profile_frame?: string | null
+          rating_average?: number | null
+          rating_count?: number
           referral_code?: string | null
           streak_days?: number
+          streak_freezes?: number
+          timezone?: string
           trust_score?: number
           updated_at?: string | null
           wallet_balance?: number | null
@@ -465,13 +1288,19 @@ export type Database = {
           id?: string
           is_verified?: boolean | null
           last_activity_date?: string | null
+          leaderboard_opt_out?: boolean
+          longest_streak?: number
           name?: string | null
           pending_balance?: number | null
           phone?: string | null
           profile_color?: string | null
           profile_frame?: string | null
+          rating_average?: number | null
+          rating_count?: number
           referral_code?: string | null
           streak_days?: number
+          streak_freezes?: number
+          timezone?: string
           trust_score?: number
           updated_at?: string | null
           wallet_balance?: number | null
@@ -486,6 +1315,7 @@ export type Database = {
           referral_code: string
           referred_id: string
           referrer_id: string
+          rejection_reason: string | null
           status: string
           xp_awarded: number
         }
@@ -496,6 +1326,7 @@ export type Database = {
           referral_code: string
           referred_id: string
           referrer_id: string
+          rejection_reason?: string | null
           status?: string
           xp_awarded?: number
         }
@@ -506,6 +1337,7 @@ export type Database = {
           referral_code?: string
           referred_id?: string
           referrer_id?: string
+          rejection_reason?: string | null
           status?: string
           xp_awarded?: number
         }
@@ -514,33 +1346,54 @@ export type Database = {
       reviews: {
         Row: {
           comment: string | null
+          communication_rating: number | null
+          condition_rating: number | null
           created_at: string | null
           id: string
           listing_id: string
           order_id: string
+          punctuality_rating: number | null
           rating: number
+          replied_at: string | null
+          reply: string | null
+          revealed_at: string | null
           reviewed_user_id: string
           reviewer_id: string
+          reviewer_role: string | null
         }
         Insert: {
           comment?: string | null
+          communication_rating?: number | null
+          condition_rating?: number | null
           created_at?: string | null
           id?: string
           listing_id: string
           order_id: string
+          punctuality_rating?: number | null
           rating: number
+          replied_at?: string | null
+          reply?: string | null
+          revealed_at?: string | null
           reviewed_user_id: string
           reviewer_id: string
+          reviewer_role?: string | null
         }
         Update: {
           comment?: string | null
+          communication_rating?: number | null
+          condition_rating?: number | null
           created_at?: string | null
           id?: string
           listing_id?: string
           order_id?: string
+          punctuality_rating?: number | null
           rating?: number
+          replied_at?: string | null
+          reply?: string | null
+          revealed_at?: string | null
           reviewed_user_id?: string
           reviewer_id?: string
+          reviewer_role?: string | null
         }
         Relationships: [
           {
@@ -553,119 +1406,465 @@ export type Database = {
           {
             foreignKeyName: "reviews_order_id_fkey"
             columns: ["order_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "orders"
             referencedColumns: ["id"]
           },
         ]
       }
-      user_addresses: {
+      season_results: {
         Row: {
-          city: string
-          country: string
-          created_at: string | null
-          id: string
-          is_default: boolean | null
-          label: string
-          line1: string
-          line2: string | null
-          postcode: string
-          state: string
+          created_at: string
+          podium: boolean
+          rank: number
+          season_id: string
           user_id: string
+          xp: number
         }
         Insert: {
-          city: string
-          country?: string
-          created_at?: string | null
-          id?: string
-          is_default?: boolean | null
-          label: string
-          line1: string
-          line2?: string | null
-          postcode: string
-          state: string
+          created_at?: string
+          podium?: boolean
+          rank: number
+          season_id: string
           user_id: string
+          xp: number
         }
         Update: {
-          city?: string
-          country?: string
-          created_at?: string | null
-          id?: string
-          is_default?: boolean | null
-          label?: string
-          line1?: string
-          line2?: string | null
-          postcode?: string
-          state?: string
+          created_at?: string
+          podium?: boolean
+          rank?: number
+          season_id?: string
           user_id?: string
+          xp?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "season_results_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "season_results_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      user_badges: {
+      seasons: {
         Row: {
-          badge_id: string
-          earned_at: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          ends_at: string
+          finalized_at: string | null
           id: string
-          user_id: string
+          name: string
+          prize_badge_id: string | null
+          prize_places: number
+          starts_at: string
         }
         Insert: {
-          badge_id: string
-          earned_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          ends_at: string
+          finalized_at?: string | null
           id?: string
-          user_id: string
+          name: string
+          prize_badge_id?: string | null
+          prize_places?: number
+          starts_at: string
         }
         Update: {
-          badge_id?: string
-          earned_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          ends_at?: string
+          finalized_at?: string | null
           id?: string
-          user_id?: string
+          name?: string
+          prize_badge_id?: string | null
+          prize_places?: number
+          starts_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "user_badges_badge_id_fkey"
-            columns: ["badge_id"]
+            foreignKeyName: "seasons_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seasons_prize_badge_id_fkey"
+            columns: ["prize_badge_id"]
             isOneToOne: false
             referencedRelation: "badges"
             referencedColumns: ["id"]
           },
         ]
       }
-      user_favorites: {
+      service_orders: {
         Row: {
-          created_at: string | null
+          billed_hours: number | null
+          buyer_id: string
+          confirmed_at: string | null
+          created_at: string
+          decline_reason: string | null
+          ends_at: string
+          estimated_amount: number
+          final_amount: number | null
+          hourly_rate: number
           id: string
-          listing_id: string
-          user_id: string
+          notes: string | null
+          order_id: string | null
+          provider_id: string
+          refund_amount: number
+          refund_pending: boolean
+          service_id: string
+          slot_id: string | null
+          starts_at: string
+          status: Database["public"]["Enums"]["service_order_status"]
+          stripe_refund_id: string | null
+          updated_at: string
         }
         Insert: {
-          created_at?: string | null
+          billed_hours?: number | null
+          buyer_id: string
+          confirmed_at?: string | null
+          created_at?: string
+          decline_reason?: string | null
+          ends_at: string
+          estimated_amount: number
+          final_amount?: number | null
+          hourly_rate: number
           id?: string
-          listing_id: string
-          user_id: string
+          notes?: string | null
+          order_id?: string | null
+          provider_id: string
+          refund_amount?: number
+          refund_pending?: boolean
+          service_id: string
+          slot_id?: string | null
+          starts_at: string
+          status?: Database["public"]["Enums"]["service_order_status"]
+          stripe_refund_id?: string | null
+          updated_at?: string
         }
         Update: {
-          created_at?: string | null
+          billed_hours?: number | null
+          buyer_id?: string
+          confirmed_at?: string | null
+          created_at?: string
+          decline_reason?: string | null
+          ends_at?: string
+          estimated_amount?: number
+          final_amount?: number | null
+          hourly_rate?: number
           id?: string
-          listing_id?: string
-          user_id?: string
+          notes?: string | null
+          order_id?: string | null
+          provider_id?: string
+          refund_amount?: number
+          refund_pending?: boolean
+          service_id?: string
+          slot_id?: string | null
+          starts_at?: string
+          status?: Database["public"]["Enums"]["service_order_status"]
+          stripe_refund_id?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "user_favorites_listing_id_fkey"
-            columns: ["listing_id"]
+            foreignKeyName: "service_orders_buyer_id_fkey"
+            columns: ["buyer_id"]
             isOneToOne: false
-            referencedRelation: "listings"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
-        ]
-      }
-      user_levels: {
-        Row: {
-          created_at: string | null
-          id: string
-          level: number
-          title: string
-          updated_at: string | null
+          {
+            foreignKeyName: "service_orders_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_orders_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_orders_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "listings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_orders_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "service_slots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      service_slots: {
+        Row: {
+          created_at: string
+          ends_at: string
+          id: string
+          provider_id: string
+          service_id: string
+          starts_at: string
+        }
+        Insert: {
+          created_at?: string
+          ends_at: string
+          id?: string
+          provider_id: string
+          service_id: string
+          starts_at: string
+        }
+        Update: {
+          created_at?: string
+          ends_at?: string
+          id?: string
+          provider_id?: string
+          service_id?: string
+          starts_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_slots_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_slots_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "listings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stripe_events: {
+        Row: {
+          error: string | null
+          id: string
+          order_id: string | null
+          payload: Json
+          processed_at: string | null
+          received_at: string
+          type: string
+        }
+        Insert: {
+          error?: string | null
+          id: string
+          order_id?: string | null
+          payload: Json
+          processed_at?: string | null
+          received_at?: string
+          type: string
+        }
+        Update: {
+          error?: string | null
+          id?: string
+          order_id?: string | null
+          payload?: Json
+          processed_at?: string | null
+          received_at?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stripe_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trust_scores: {
+        Row: {
+          breakdown: Json
+          computed_at: string
+          score: number
+          user_id: string
+        }
+        Insert: {
+          breakdown?: Json
+          computed_at?: string
+          score: number
+          user_id: string
+        }
+        Update: {
+          breakdown?: Json
+          computed_at?: string
+          score?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trust_scores_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_addresses: {
+        Row: {
+          city: string
+          country: string
+          created_at: string | null
+          id: string
+          is_default: boolean | null
+          label: string
+          line1: string
+          line2: string | null
+          postcode: string
+          state: string
+          user_id: string
+        }
+        Insert: {
+          city: string
+          country?: string
+          created_at?: string | null
+          id?: string
+          is_default?: boolean | null
+          label: string
+          line1: string
+          line2?: string | null
+          postcode: string
+          state: string
+          user_id: string
+        }
+        Update: {
+          city?: string
+          country?: string
+          created_at?: string | null
+          id?: string
+          is_default?: boolean | null
+          label?: string
+          line1?: string
+          line2?: string | null
+          postcode?: string
+          state?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_badges: {
+        Row: {
+          badge_id: string
+          earned_at: string | null
+          id: string
+          user_id: string
+        }
+        Insert: {
+          badge_id: string
+          earned_at?: string | null
+          id?: string
+          user_id: string
+        }
+        Update: {
+          badge_id?: string
+          earned_at?: string | null
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_badges_badge_id_fkey"
+            columns: ["badge_id"]
+            isOneToOne: false
+            referencedRelation: "badges"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_blocks_blocked_id_fkey"
+            columns: ["blocked_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_blocks_blocker_id_fkey"
+            columns: ["blocker_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_favorites: {
+        Row: {
+          created_at: string | null
+          id: string
+          listing_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          listing_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          listing_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_favorites_listing_id_fkey"
+            columns: ["listing_id"]
+            isOneToOne: false
+            referencedRelation: "listings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_levels: {
+        Row: {
+          created_at: string | null
+          id: string
+          level: number
+          title: string
+          updated_at: string | null
           user_id: string
           xp: number
         }
@@ -740,15 +1939,209 @@ export type Database = {
         }
         Relationships: []
       }
+      verification_requests: {
+        Row: {
+          created_at: string
+          email_confirmed_at: string | null
+          id: string
+          id_document_path: string | null
+          note: string | null
+          phone: string | null
+          phone_verified_at: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          selfie_path: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email_confirmed_at?: string | null
+          id?: string
+          id_document_path?: string | null
+          note?: string | null
+          phone?: string | null
+          phone_verified_at?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          selfie_path?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email_confirmed_at?: string | null
+          id?: string
+          id_document_path?: string | null
+          note?: string | null
+          phone?: string | null
+          phone_verified_at?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          selfie_path?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      xp_event_rules: {
+        Row: {
+          created_at: string
+          daily_cap: number | null
+          description: string
+          event_type: string
+          xp: number
+        }
+        Insert: {
+          created_at?: string
+          daily_cap?: number | null
+          description: string
+          event_type: string
+          xp: number
+        }
+        Update: {
+          created_at?: string
+          daily_cap?: number | null
+          description?: string
+          event_type?: string
+          xp?: number
+        }
+        Relationships: []
+      }
+      xp_events: {
+        Row: {
+          created_at: string
+          event_date: string
+          event_type: string
+          id: string
+          idempotency_key: string
+          requested_xp: number
+          source_id: string
+          source_type: string
+          user_id: string
+          xp: number
+        }
+        Insert: {
+          created_at?: string
+          event_date: string
+          event_type: string
+          id?: string
+          idempotency_key: string
+          requested_xp: number
+          source_id: string
+          source_type: string
+          user_id: string
+          xp: number
+        }
+        Update: {
+          created_at?: string
+          event_date?: string
+          event_type?: string
+          id?: string
+          idempotency_key?: string
+          requested_xp?: number
+          source_id?: string
+          source_type?: string
+          user_id?: string
+          xp?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "xp_events_event_type_fkey"
+            columns: ["event_type"]
+            isOneToOne: false
+            referencedRelation: "xp_event_rules"
+            referencedColumns: ["event_type"]
+          },
+          {
+            foreignKeyName: "xp_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      leaderboard_entries: {
+        Row: {
+          metric: string | null
+          neighborhood: string | null
+          period: string | null
+          refreshed_at: string | null
+          score: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      apply_streak_freezes: {
+        Args: { p_today: string; p_user_id: string }
+        Returns: number
+      }
+      assert_min_trust_score: {
+        Args: { p_buyer_id: string; p_listing_id: string }
+        Returns: undefined
+      }
       award_xp: {
         Args: { p_user_id: string; p_xp: number }
         Returns: undefined
       }
+      badge_metric_value: {
+        Args: { p_requirement_type: string; p_user_id: string }
+        Returns: number
+      }
+      book_service: {
+        Args: {
+          p_ends_at: string
+          p_notes?: string
+          p_slot_id: string
+          p_starts_at: string
+        }
+        Returns: string
+      }
+      booking_units: {
+        Args: {
+          p_ends_at: string
+          p_price_type: Database["public"]["Enums"]["price_type"]
+          p_starts_at: string
+        }
+        Returns: number
+      }
+      cancel_service_order: {
+        Args: { p_service_order_id: string }
+        Returns: undefined
+      }
+      claim_dispute: {
+        Args: { p_dispute_id: string }
+        Returns: undefined
+      }
+      complete_referral: {
+        Args: { p_order_id: string; p_referred_id: string }
+        Returns: boolean
+      }
+      compute_all_trust_scores: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      compute_trust_score: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
+      confirm_phone_verification: {
+        Args: { p_code: string }
+        Returns: boolean
+      }
+      confirm_service_order: {
+        Args: { p_service_order_id: string }
+        Returns: string
+      }
+      conversation_subject_key: {
+        Args: { p_listing_id: string; p_order_id: string }
+        Returns: string
+      }
       create_notification: {
         Args: {
           p_action_label?: string
@@ -762,14 +2155,114 @@ export type Database = {
         }
         Returns: string
       }
+      create_season: {
+        Args: {
+          p_description?: string
+          p_ends_at: string
+          p_name: string
+          p_prize_places?: number
+          p_prize_xp?: number
+          p_starts_at: string
+        }
+        Returns: string
+      }
+      decline_service_order: {
+        Args: { p_reason?: string; p_service_order_id: string }
+        Returns: undefined
+      }
+      delete_badge: {
+        Args: { p_id: string }
+        Returns: undefined
+      }
+      delete_category: {
+        Args: { p_id: string }
+        Returns: undefined
+      }
+      ensure_conversation: {
+        Args: {
+          p_listing_id?: string
+          p_order_id?: string
+          p_other_user_id: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      evaluate_all_badges: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      evaluate_badges: {
+        Args: { p_requirement_type?: string; p_user_id: string }
+        Returns: number
+      }
+      evaluate_referral_badges: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      file_damage_claim: {
+        Args: { p_amount: number; p_order_id: string; p_reason: string }
+        Returns: undefined
+      }
+      finalize_seasons: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      flag_overdue_returns: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
       generate_order_qr_code: {
-        Args: { p_order_id: string }
+        Args: { p_order_id: string; p_scan_type: string }
         Returns: Json
       }
       get_current_user_id: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_leaderboard: {
+        Args: {
+          p_limit?: number
+          p_metric: string
+          p_neighborhood?: boolean
+          p_period: string
+        }
+        Returns: {
+          rank: number
+          user_id: string
+          name: string
+          avatar_url: string
+          profile_frame: string
+          profile_color: string
+          level: number
+          neighborhood: string
+          score: number
+          refreshed_at: string
+        }[]
+      }
+      get_listing_availability: {
+        Args: { p_from?: string; p_listing_id: string; p_to?: string }
+        Returns: {
+          ends_at: string
+          starts_at: string
+        }[]
+      }
+      get_phone_verification: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          phone: string
+          sent_at: string
+          expires_at: string
+          verified_at: string
+        }[]
+      }
+      get_unread_message_count: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      has_level_perk: {
+        Args: { p_perk: string; p_user_id: string; p_value: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -777,17 +2270,437 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_blocked_between: {
+        Args: { p_other_user_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_conversation_participant: {
+        Args: { p_conversation_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_dispute_participant: {
+        Args: { p_dispute_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      ledger_balance: {
+        Args: {
+          p_account: Database["public"]["Enums"]["ledger_account"]
+          p_order_id?: string
+          p_user_id?: string
+        }
+        Returns: number
+      }
+      list_conversations: {
+        Args: { p_archived?: boolean; p_before?: string; p_limit?: number }
+        Returns: {
+          id: string
+          other_user_id: string
+          other_user_name: string
+          other_user_avatar_url: string
+          listing_id: string
+          listing_title: string
+          order_id: string
+          last_message_at: string
+          last_message_text: string
+          unread_count: number
+          archived: boolean
+          muted: boolean
+        }[]
+      }
+      local_today: {
+        Args: { p_timezone: string }
+        Returns: string
+      }
+      mark_conversation_read: {
+        Args: { p_conversation_id: string }
+        Returns: number
+      }
+      mark_order_paid: {
+        Args: { p_order_id: string; p_payment_intent_id: string }
+        Returns: boolean
+      }
+      mark_order_payment_failed: {
+        Args: { p_order_id: string; p_payment_intent_id: string; p_reason?: string }
+        Returns: boolean
+      }
+      mark_order_refunded: {
+        Args: {
+          p_amount_refunded: number
+          p_fully_refunded: boolean
+          p_order_id: string
+        }
+        Returns: boolean
+      }
+      max_chat_attachments: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      max_phone_code_attempts: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      max_streak_freezes: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      moderate_listing: {
+        Args: { p_action: string; p_listing_id: string; p_reason: string }
+        Returns: undefined
+      }
+      normalize_email: {
+        Args: { p_email: string }
+        Returns: string
+      }
+      open_dispute: {
+        Args: {
+          p_order_id: string
+          p_reason: Database["public"]["Enums"]["dispute_reason"]
+          p_statement: string
+        }
+        Returns: string
+      }
+      place_order_with_offer: {
+        Args: {
+          p_amount: number
+          p_listing_id: string
+          p_message?: string
+          p_notes: string
+          p_quantity: number
+        }
+        Returns: string
+      }
+      platform_fee_rate: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      post_hold_release: {
+        Args: { p_order_id: string }
+        Returns: number
+      }
+      post_ledger_transaction: {
+        Args: {
+          p_description: string
+          p_entries: Json
+          p_idempotency_key?: string
+          p_kind: Database["public"]["Enums"]["ledger_kind"]
+          p_order_id?: string
+          p_payout_id?: string
+        }
+        Returns: string
+      }
+      post_order_payment: {
+        Args: { p_fee_rate?: number; p_order_id: string }
+        Returns: undefined
+      }
+      post_order_refund: {
+        Args: {
+          p_amount: number
+          p_idempotency_key: string
+          p_order_id: string
+        }
+        Returns: undefined
+      }
+      post_order_system_message: {
+        Args: { p_actor_id: string; p_order_id: string; p_text: string }
+        Returns: undefined
+      }
+      record_activity: {
+        Args: { p_action: string; p_user_id: string }
+        Returns: undefined
+      }
+      record_deposit_capture_failure: {
+        Args: { p_failure_reason: string; p_order_id: string }
+        Returns: boolean
+      }
+      record_deposit_hold: {
+        Args: {
+          p_failure_reason?: string
+          p_held: boolean
+          p_order_id: string
+          p_payment_intent_id: string
+        }
+        Returns: boolean
+      }
+      record_dispute_refund: {
+        Args: { p_dispute_id: string; p_refund_id: string }
+        Returns: undefined
+      }
+      record_login_activity: {
+        Args: { p_timezone?: string }
+        Returns: undefined
+      }
+      record_payout_result: {
+        Args: {
+          p_failure_reason?: string
+          p_payout_id: string
+          p_provider_payout_id?: string
+          p_succeeded: boolean
+        }
+        Returns: boolean
+      }
+      record_service_refund: {
+        Args: { p_refund_id: string; p_service_order_id: string }
+        Returns: undefined
+      }
+      record_xp_event: {
+        Args: {
+          p_event_type: string
+          p_idempotency_key: string
+          p_source_id: string
+          p_source_type: string
+          p_user_id: string
+          p_xp?: number
+        }
+        Returns: number
+      }
+      redact_contact_details: {
+        Args: { p_text: string }
+        Returns: string
+      }
+      redact_contact_details_before_payment: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      referral_xp_reward: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      refresh_leaderboards: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      refresh_rating_aggregates: {
+        Args: { p_listing_id: string; p_user_id: string }
+        Returns: undefined
+      }
+      release_held_funds: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      reply_to_review: {
+        Args: { p_reply: string; p_review_id: string }
+        Returns: undefined
+      }
+      report_message: {
+        Args: {
+          p_details?: string
+          p_message_id: string
+          p_reason: Database["public"]["Enums"]["message_report_reason"]
+        }
+        Returns: string
+      }
+      request_payout: {
+        Args: { p_amount: number }
+        Returns: string
+      }
+      request_verification: {
+        Args: { p_id_document_path: string; p_selfie_path: string }
+        Returns: string
+      }
+      resolve_dispute: {
+        Args: {
+          p_amount?: number
+          p_at_fault_user_id?: string
+          p_dispute_id: string
+          p_note?: string
+          p_outcome: Database["public"]["Enums"]["dispute_outcome"]
+        }
+        Returns: undefined
+      }
+      reveal_due_reviews: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      review_message_report: {
+        Args: { p_actioned: boolean; p_note: string; p_report_id: string }
+        Returns: undefined
+      }
+      review_verification_request: {
+        Args: { p_approve: boolean; p_note?: string; p_request_id: string }
+        Returns: undefined
+      }
+      review_window_days: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      search_users: {
+        Args: { p_query: string }
+        Returns: {
+          avatar_url: string
+          created_at: string
+          email: string
+          id: string
+          is_verified: boolean
+          name: string
+          roles: Database["public"]["Enums"]["app_role"][]
+          trust_score: number
+        }[]
+      }
+      set_user_verified: {
+        Args: { p_reason: string; p_user_id: string; p_verified: boolean }
+        Returns: undefined
+      }
+      settle_deposit: {
+        Args: { p_captured_amount: number; p_order_id: string }
+        Returns: boolean
+      }
+      settle_streaks: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      sign_handoff_token: {
+        Args: { p_nonce: string; p_order_id: string; p_scan_type: string }
+        Returns: string
+      }
+      start_conversation: {
+        Args: {
+          p_listing_id?: string
+          p_order_id?: string
+          p_other_user_id?: string
+        }
+        Returns: string
+      }
+      streak_freeze_xp: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      streak_milestones: {
+        Args: Record<PropertyKey, never>
+        Returns: number[]
+      }
+      submit_dispute_statement: {
+        Args: { p_dispute_id: string; p_statement: string }
+        Returns: undefined
+      }
+      submit_review: {
+        Args: {
+          p_comment?: string
+          p_communication_rating?: number
+          p_condition_rating?: number
+          p_order_id: string
+          p_punctuality_rating?: number
+          p_rating: number
+        }
+        Returns: string
+      }
+      transition_order: {
+        Args: {
+          p_event: Database["public"]["Enums"]["order_event"]
+          p_order_id: string
+          p_payload?: Json
+        }
+        Returns: Database["public"]["Enums"]["order_status"]
+      }
+      update_conversation_settings: {
+        Args: {
+          p_archived?: boolean
+          p_conversation_id: string
+          p_muted?: boolean
+        }
+        Returns: undefined
+      }
+      upsert_badge: {
+        Args: {
+          p_category: string
+          p_description: string
+          p_icon: string
+          p_id?: string
+          p_name: string
+          p_rarity: string
+          p_requirement_type: string
+          p_requirement_value: number
+          p_xp_reward: number
+        }
+        Returns: string
+      }
+      upsert_badge_metric: {
+        Args: {
+          p_aggregate?: string
+          p_description: string
+          p_filters?: Json
+          p_requirement_type: string
+          p_source_table: string
+          p_user_column: string
+          p_value_column?: string
+        }
+        Returns: undefined
+      }
+      upsert_category: {
+        Args: {
+          p_description?: string
+          p_icon?: string
+          p_id?: string
+          p_name: string
+          p_parent_id?: string
+        }
+        Returns: string
+      }
+      user_neighborhood: {
+        Args: { p_user_id: string }
+        Returns: string
+      }
       verify_qr_scan: {
-        Args: { p_order_id: string; p_qr_secret: string; p_scan_type: string }
+        Args: {
+          p_nonce: string
+          p_order_id: string
+          p_scan_type: string
+          p_signature: string
+        }
         Returns: boolean
       }
+      wallet_hold_period: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
       delivery_option: "pickup" | "delivery" | "both"
+      deposit_status:
+        | "none"
+        | "pending"
+        | "held"
+        | "release_pending"
+        | "capture_pending"
+        | "released"
+        | "captured"
+        | "partially_captured"
+        | "failed"
+      dispute_reason:
+        | "damaged"
+        | "not_returned"
+        | "late_return"
+        | "not_as_described"
+        | "missing_parts"
+        | "no_show"
+        | "other"
+      dispute_outcome: "refund" | "partial_deposit_capture" | "dismissal"
+      dispute_status: "open" | "under_review" | "resolved" | "dismissed"
+      ledger_kind:
+        | "charge"
+        | "platform_fee"
+        | "seller_credit"
+        | "hold_release"
+        | "refund"
+        | "payout"
+      ledger_account:
+        | "external"
+        | "escrow"
+        | "platform_revenue"
+        | "seller_pending"
+        | "seller_available"
+        | "payouts_in_transit"
       listing_condition: "new" | "like_new" | "good" | "fair" | "poor"
       listing_status: "active" | "paused" | "sold" | "deleted"
       listing_type: "item" | "service"
+      message_report_reason:
+        | "harassment"
+        | "spam"
+        | "scam"
+        | "off_platform_payment"
+        | "inappropriate"
+        | "other"
+      message_report_status: "open" | "actioned" | "dismissed"
       negotiation_action: "offer" | "accept" | "counter" | "reject"
       notification_type: "order" | "message" | "payment" | "listing" | "system"
       order_status:
@@ -796,10 +2709,32 @@ export type Database = {
         | "accepted"
         | "paid"
         | "shipped"
+        | "in_progress"
         | "completed"
         | "cancelled"
         | "rejected"
+        | "refunded"
+      order_event:
+        | "offer"
+        | "counter"
+        | "accept"
+        | "decline"
+        | "cancel"
+        | "ship"
+        | "complete"
+        | "hand_over"
+        | "return"
+        | "dispute"
+        | "resolve_dispute"
+      payout_status: "requested" | "processing" | "paid" | "failed"
       price_type: "fixed" | "hourly" | "per_day" | "negotiable"
+      service_order_status:
+        | "requested"
+        | "confirmed"
+        | "declined"
+        | "cancelled"
+        | "in_progress"
+        | "completed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -929,22 +2864,93 @@ export const Constants = {
     Enums: {
       app_role: ["admin", "moderator", "user"],
       delivery_option: ["pickup", "delivery", "both"],
+      deposit_status: [
+        "none",
+        "pending",
+        "held",
+        "release_pending",
+        "capture_pending",
+        "released",
+        "captured",
+        "partially_captured",
+        "failed",
+      ],
+      dispute_outcome: ["refund", "partial_deposit_capture", "dismissal"],
+      dispute_reason: [
+        "damaged",
+        "not_returned",
+        "late_return",
+        "not_as_described",
+        "missing_parts",
+        "no_show",
+        "other",
+      ],
+      dispute_status: ["open", "under_review", "resolved", "dismissed"],
+      ledger_account: [
+        "external",
+        "escrow",
+        "platform_revenue",
+        "seller_pending",
+        "seller_available",
+        "payouts_in_transit",
+      ],
+      ledger_kind: [
+        "charge",
+        "platform_fee",
+        "seller_credit",
+        "hold_release",
+        "refund",
+        "payout",
+      ],
       listing_condition: ["new", "like_new", "good", "fair", "poor"],
       listing_status: ["active", "paused", "sold", "deleted"],
       listing_type: ["item", "service"],
+      message_report_reason: [
+        "harassment",
+        "spam",
+        "scam",
+        "off_platform_payment",
+        "inappropriate",
+        "other",
+      ],
+      message_report_status: ["open", "actioned", "dismissed"],
       negotiation_action: ["offer", "accept", "counter", "reject"],
       notification_type: ["order", "message", "payment", "listing", "system"],
+      order_event: [
+        "offer",
+        "counter",
+        "accept",
+        "decline",
+        "cancel",
+        "ship",
+        "complete",
+        "hand_over",
+        "return",
+        "dispute",
+        "resolve_dispute",
+      ],
       order_status: [
         "pending",
         "negotiating",
         "accepted",
         "paid",
         "shipped",
+        "in_progress",
         "completed",
         "cancelled",
         "rejected",
+        "refunded",
       ],
+      payout_status: ["requested", "processing", "paid", "failed"],
       price_type: ["fixed", "hourly", "per_day", "negotiable"],
+      service_order_status: [
+        "requested",
+        "confirmed",
+        "declined",
+        "cancelled",
+        "in_progress",
+        "completed",
+      ],
     },
   },
 } as const
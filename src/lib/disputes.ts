@@ -0,0 +1,64 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type DisputeReason = Database['public']['Enums']['dispute_reason'];
+export type DisputeStatus = Database['public']['Enums']['dispute_status'];
+export type DisputeOutcome = Database['public']['Enums']['dispute_outcome'];
+
+export const disputeReasonLabels: Record<DisputeReason, string> = {
+  damaged: 'Item was damaged',
+  not_returned: 'Item was not returned',
+  late_return: 'Item was returned late',
+  not_as_described: 'Not as described',
+  missing_parts: 'Missing parts or accessories',
+  no_show: 'Other party did not show up',
+  other: 'Something else',
+};
+
+export const disputeStatusLabels: Record<DisputeStatus, string> = {
+  open: 'Open',
+  under_review: 'Under review',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed',
+};
+
+export const disputeOutcomeLabels: Record<DisputeOutcome, string> = {
+  refund: 'Refund to borrower',
+  partial_deposit_capture: 'Charge from deposit',
+  dismissal: 'Dismiss',
+};
+
+const MAX_EVIDENCE_SIZE = 10 * 1024 * 1024;
+
+// Uploads photos to the private evidence bucket and attaches them to the dispute
+export const uploadDisputeEvidence = async (disputeId: string, userId: string, files: File[]) => {
+  for (const file of files) {
+    if (!file.type.startsWith('image/')) throw new Error(`${file.name} is not an image`);
+    if (file.size > MAX_EVIDENCE_SIZE) throw new Error(`${file.name} is larger than 10 MB`);
+
+    const fileExt = file.name.split('.').pop();
+    const path = `${disputeId}/${userId}/${Date.now()}-${Math.random().toString(36).slice(2)}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('dispute-evidence')
+      .upload(path, file);
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase
+      .from('dispute_evidence')
+      .insert({ dispute_id: disputeId, uploaded_by: userId, storage_path: path });
+    if (error) throw error;
+  }
+};
+
+// Evidence is private; signed URLs are valid for an hour
+export const getEvidenceUrls = async (paths: string[]) => {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from('dispute-evidence')
+    .createSignedUrls(paths, 60 * 60);
+  if (error) throw error;
+
+  return Object.fromEntries((data || []).map((item) => [item.path, item.signedUrl]));
+};
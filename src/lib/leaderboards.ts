@@ -0,0 +1,24 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type LeaderboardMetric = 'xp' | 'lends' | 'referrals';
+export type LeaderboardPeriod = 'week' | 'month' | 'all_time' | 'season';
+export type LeaderboardEntry = Database['public']['Functions']['get_leaderboard']['Returns'][number];
+
+export const leaderboardMetricLabels: Record<LeaderboardMetric, string> = {
+  xp: 'XP',
+  lends: 'Lends',
+  referrals: 'Referrals',
+};
+
+export const leaderboardPeriodLabels: Record<LeaderboardPeriod, string> = {
+  week: 'This week',
+  month: 'This month',
+  all_time: 'All time',
+  season: 'Season',
+};
+
+export const formatLeaderboardScore = (metric: LeaderboardMetric, score: number) => {
+  if (metric === 'xp') return `${score.toLocaleString()} XP`;
+  if (metric === 'lends') return `${score} lend${score !== 1 ? 's' : ''}`;
+  return `${score} referral${score !== 1 ? 's' : ''}`;
+};
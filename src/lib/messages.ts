@@ -0,0 +1,126 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type MessageReportReason = Database['public']['Enums']['message_report_reason'];
+export type MessageReportStatus = Database['public']['Enums']['message_report_status'];
+
+export const CONVERSATION_PAGE_SIZE = 30;
+export const MESSAGE_PAGE_SIZE = 30;
+
+interface ConversationSubject {
+  listing_id: string | null;
+  listing_title?: string | null;
+  order_id: string | null;
+}
+
+// What a conversation is about, for headers and the conversation list
+export const conversationSubjectLabel = (conversation: ConversationSubject) => {
+  if (conversation.order_id) {
+    return `Order #${conversation.order_id.slice(0, 8)}${conversation.listing_title ? ` · ${conversation.listing_title}` : ''}`;
+  }
+  if (conversation.listing_id) return conversation.listing_title || 'Listing';
+  return 'Direct message';
+};
+
+export const conversationSubjectUrl = (conversation: ConversationSubject) => {
+  if (conversation.order_id) return `/orders/${conversation.order_id}`;
+  if (conversation.listing_id) return `/listing/${conversation.listing_id}`;
+  return null;
+};
+
+export const MAX_ATTACHMENTS = 6;
+export const ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const MAX_ATTACHMENT_SIZE = 15 * 1024 * 1024;
+const PHOTO_MAX_DIMENSION = 1600;
+const THUMBNAIL_MAX_DIMENSION = 320;
+
+// Attachments are stored as <name>.jpg with a <name>-thumb.jpg preview beside it
+export const attachmentThumbnailPath = (path: string) => path.replace(/\.jpg$/, '-thumb.jpg');
+
+export const validateAttachments = (files: File[], alreadySelected = 0) => {
+  if (files.length + alreadySelected > MAX_ATTACHMENTS) {
+    throw new Error(`You can send up to ${MAX_ATTACHMENTS} photos at once`);
+  }
+  for (const file of files) {
+    if (!ATTACHMENT_TYPES.includes(file.type)) throw new Error(`${file.name} must be a JPEG, PNG or WebP photo`);
+    if (file.size > MAX_ATTACHMENT_SIZE) throw new Error(`${file.name} is larger than 15 MB`);
+  }
+};
+
+// Scales a photo down to fit maxDimension and re-encodes it as JPEG
+const resizeImage = async (file: Blob, maxDimension: number, quality: number) => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not process photo');
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not process photo'))),
+      'image/jpeg',
+      quality
+    );
+  });
+};
+
+// Compresses photos in the browser and uploads each with its thumbnail to the
+// private chat bucket. Returns the paths to store on the message.
+export const uploadChatAttachments = async (conversationId: string, userId: string, files: File[]) => {
+  validateAttachments(files);
+
+  const paths: string[] = [];
+  for (const file of files) {
+    const [photo, thumbnail] = await Promise.all([
+      resizeImage(file, PHOTO_MAX_DIMENSION, 0.82),
+      resizeImage(file, THUMBNAIL_MAX_DIMENSION, 0.7)
+    ]);
+    const path = `${conversationId}/${userId}/${Date.now()}-${Math.random().toString(36).slice(2)}.jpg`;
+
+    const { error: photoError } = await supabase.storage
+      .from('chat-attachments')
+      .upload(path, photo, { contentType: 'image/jpeg' });
+    if (photoError) throw photoError;
+
+    const { error: thumbnailError } = await supabase.storage
+      .from('chat-attachments')
+      .upload(attachmentThumbnailPath(path), thumbnail, { contentType: 'image/jpeg' });
+    if (thumbnailError) throw thumbnailError;
+
+    paths.push(path);
+  }
+
+  return paths;
+};
+
+// Attachments are private; signed URLs are valid for an hour
+export const getAttachmentUrls = async (paths: string[]) => {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from('chat-attachments')
+    .createSignedUrls(paths, 60 * 60);
+  if (error) throw error;
+
+  return Object.fromEntries((data || []).map((item) => [item.path, item.signedUrl]));
+};
+
+export const messageReportReasonLabels: Record<MessageReportReason, string> = {
+  harassment: 'Harassment or threats',
+  spam: 'Spam',
+  scam: 'Scam or fraud',
+  off_platform_payment: 'Asking to pay outside BorrowPal',
+  inappropriate: 'Inappropriate content',
+  other: 'Something else',
+};
+
+export const messageReportStatusLabels: Record<MessageReportStatus, string> = {
+  open: 'Open',
+  actioned: 'Action taken',
+  dismissed: 'Dismissed',
+};
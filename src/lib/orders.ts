@@ -0,0 +1,37 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type OrderStatus = Database['public']['Enums']['order_status'];
+
+// Active rentals the overdue-return detector has flagged
+export const isReturnOverdue = (order: { status: OrderStatus | null; return_overdue_at: string | null }) =>
+  order.status === 'in_progress' && !!order.return_overdue_at;
+
+export type HandoffScanType = 'delivery' | 'return' | 'service_start' | 'service_end';
+
+export interface HandoffPayload {
+  order_id: string;
+  scan_type: HandoffScanType;
+  nonce: string;
+  signature: string;
+}
+
+// Encoded into the handoff QR code shown by one party and scanned by the other
+export const encodeHandoffPayload = (payload: HandoffPayload) =>
+  JSON.stringify({ app: 'borrowpal', ...payload });
+
+export const parseHandoffPayload = (text: string): HandoffPayload | null => {
+  try {
+    const data = JSON.parse(text);
+    if (
+      data?.app !== 'borrowpal' ||
+      typeof data.order_id !== 'string' ||
+      typeof data.nonce !== 'string' ||
+      typeof data.signature !== 'string'
+    ) {
+      return null;
+    }
+    return { order_id: data.order_id, scan_type: data.scan_type, nonce: data.nonce, signature: data.signature };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,36 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// Profile columns a level can unlock values for
+export type PerkType = 'profile_frame' | 'profile_color';
+
+export type LevelPerks = Partial<Record<PerkType, string>>;
+
+export const perkTypeLabels: Record<PerkType, string> = {
+  profile_frame: 'Profile frame',
+  profile_color: 'Name color',
+};
+
+const frameClasses: Record<string, string> = {
+  bronze: 'ring-4 ring-amber-700',
+  silver: 'ring-4 ring-slate-400',
+  gold: 'ring-4 ring-yellow-400',
+  platinum: 'ring-4 ring-cyan-300',
+  diamond: 'ring-4 ring-sky-400 ring-offset-2',
+};
+
+const colorClasses: Record<string, string> = {
+  sky: 'text-sky-600',
+  emerald: 'text-emerald-600',
+  violet: 'text-violet-600',
+  amber: 'text-amber-600',
+  rose: 'text-rose-600',
+  indigo: 'text-indigo-600',
+  teal: 'text-teal-600',
+};
+
+export const profileFrameClass = (frame: string | null | undefined) => (frame && frameClasses[frame]) || '';
+
+export const profileColorClass = (color: string | null | undefined) => (color && colorClasses[color]) || '';
+
+export const parseLevelPerks = (perks: Json): LevelPerks =>
+  perks && typeof perks === 'object' && !Array.isArray(perks) ? (perks as LevelPerks) : {};
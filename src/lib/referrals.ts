@@ -0,0 +1,15 @@
+const STORAGE_KEY = 'borrowpal_referral_code';
+
+// Remembers the ?ref= code from an invite link until the visitor signs up,
+// even if they browse around first. At signup it is sent in the user
+// metadata, so it survives the email confirmation round trip server-side.
+export const captureReferralCode = (params: URLSearchParams) => {
+  const code = params.get('ref')?.trim();
+  if (code) {
+    localStorage.setItem(STORAGE_KEY, code.toUpperCase());
+  }
+};
+
+export const getReferralCode = () => localStorage.getItem(STORAGE_KEY);
+
+export const clearReferralCode = () => localStorage.removeItem(STORAGE_KEY);
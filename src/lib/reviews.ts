@@ -0,0 +1,17 @@
+import { addDays } from 'date-fns';
+
+// Mirrors review_window_days() in the database
+export const REVIEW_WINDOW_DAYS = 14;
+
+export type SubRating = 'communication_rating' | 'condition_rating' | 'punctuality_rating';
+
+export const subRatingLabels: Record<SubRating, string> = {
+  communication_rating: 'Communication',
+  condition_rating: 'Item condition',
+  punctuality_rating: 'Punctuality',
+};
+
+export const subRatings = Object.keys(subRatingLabels) as SubRating[];
+
+// When a completed order stops taking reviews and hidden ones are published
+export const reviewDeadline = (completedAt: string) => addDays(new Date(completedAt), REVIEW_WINDOW_DAYS);
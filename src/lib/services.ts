@@ -0,0 +1,7 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type ServiceOrderStatus = Database['public']['Enums']['service_order_status'];
+
+// Hourly services are booked by appointment from the provider's time slots
+export const isAppointmentService = (listing: { type: string; price_type: string | null }) =>
+  listing.type === 'service' && listing.price_type === 'hourly';
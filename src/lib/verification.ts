@@ -0,0 +1,46 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type VerificationDocumentKind = 'id-document' | 'selfie';
+
+export const PHONE_PATTERN = /^\+[1-9]\d{7,14}$/;
+export const PHONE_CODE_LENGTH = 6;
+
+const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+const DOCUMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'];
+
+// Uploads an ID document or selfie to the private verification bucket and returns its path
+export const uploadVerificationDocument = async (userId: string, kind: VerificationDocumentKind, file: File) => {
+  if (!DOCUMENT_TYPES.includes(file.type)) throw new Error(`${file.name} must be a photo or PDF`);
+  if (kind === 'selfie' && !file.type.startsWith('image/')) throw new Error('Your selfie must be a photo');
+  if (file.size > MAX_DOCUMENT_SIZE) throw new Error(`${file.name} is larger than 10 MB`);
+
+  const fileExt = file.name.split('.').pop();
+  const path = `${userId}/${kind}-${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from('verification-documents')
+    .upload(path, file);
+  if (error) throw error;
+
+  return path;
+};
+
+// Documents are private; moderators get signed URLs valid for ten minutes
+export const getVerificationDocumentUrls = async (paths: string[]) => {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from('verification-documents')
+    .createSignedUrls(paths, 10 * 60);
+  if (error) throw error;
+
+  return Object.fromEntries((data || []).map((item) => [item.path, item.signedUrl]));
+};
+
+// Texts a code through the send-phone-otp edge function
+export const sendPhoneCode = async (phone: string) => {
+  const { data, error } = await supabase.functions.invoke('send-phone-otp', { body: { phone } });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as { expires_at: string };
+};
@@ -0,0 +1,29 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type LedgerKind = Database['public']['Enums']['ledger_kind'];
+export type LedgerAccount = Database['public']['Enums']['ledger_account'];
+export type PayoutStatus = Database['public']['Enums']['payout_status'];
+
+export const ledgerKindLabels: Record<LedgerKind, string> = {
+  charge: 'Charge',
+  platform_fee: 'Platform fee',
+  seller_credit: 'Earnings',
+  hold_release: 'Released',
+  refund: 'Refund',
+  payout: 'Payout',
+};
+
+export const ledgerAccountLabels: Partial<Record<LedgerAccount, string>> = {
+  seller_pending: 'Pending',
+  seller_available: 'Available',
+};
+
+export const payoutStatusLabels: Record<PayoutStatus, string> = {
+  requested: 'Requested',
+  processing: 'Processing',
+  paid: 'Paid',
+  failed: 'Failed',
+};
+
+export const formatMoney = (amount: number | null | undefined) =>
+  `${Number(amount ?? 0) < 0 ? '-' : ''}$${Math.abs(Number(amount ?? 0)).toFixed(2)}`;
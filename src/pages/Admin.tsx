@@ -0,0 +1,100 @@
+import { useSearchParams } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ListingModerationPanel } from '@/components/admin/ListingModerationPanel';
+import { UserLookupPanel } from '@/components/admin/UserLookupPanel';
+import { VerificationQueuePanel } from '@/components/admin/VerificationQueuePanel';
+import { CategoryManager } from '@/components/admin/CategoryManager';
+import { BadgeManager } from '@/components/admin/BadgeManager';
+import { SeasonManager } from '@/components/admin/SeasonManager';
+import { DisputeQueuePanel } from '@/components/admin/DisputeQueuePanel';
+import { MessageReportsPanel } from '@/components/admin/MessageReportsPanel';
+import { AuditLogPanel } from '@/components/admin/AuditLogPanel';
+import { Award, BadgeCheck, Crown, Flag, FolderTree, Gavel, History, Package, Users } from 'lucide-react';
+
+const Admin = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab = searchParams.get('tab') || 'listings';
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Moderation</h1>
+          <p className="text-muted-foreground">Keep the marketplace safe. Every action here is logged.</p>
+        </div>
+
+        <Tabs value={tab} onValueChange={(value) => setSearchParams({ tab: value })} className="w-full">
+          <TabsList className="flex-wrap h-auto">
+            <TabsTrigger value="listings">
+              <Package className="h-4 w-4 mr-2" />
+              Listings
+            </TabsTrigger>
+            <TabsTrigger value="users">
+              <Users className="h-4 w-4 mr-2" />
+              Users
+            </TabsTrigger>
+            <TabsTrigger value="verification">
+              <BadgeCheck className="h-4 w-4 mr-2" />
+              Verification
+            </TabsTrigger>
+            <TabsTrigger value="disputes">
+              <Gavel className="h-4 w-4 mr-2" />
+              Disputes
+            </TabsTrigger>
+            <TabsTrigger value="reports">
+              <Flag className="h-4 w-4 mr-2" />
+              Reports
+            </TabsTrigger>
+            <TabsTrigger value="categories">
+              <FolderTree className="h-4 w-4 mr-2" />
+              Categories
+            </TabsTrigger>
+            <TabsTrigger value="badges">
+              <Award className="h-4 w-4 mr-2" />
+              Badges
+            </TabsTrigger>
+            <TabsTrigger value="seasons">
+              <Crown className="h-4 w-4 mr-2" />
+              Seasons
+            </TabsTrigger>
+            <TabsTrigger value="audit">
+              <History className="h-4 w-4 mr-2" />
+              Audit log
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="listings">
+            <ListingModerationPanel />
+          </TabsContent>
+          <TabsContent value="users">
+            <UserLookupPanel />
+          </TabsContent>
+          <TabsContent value="verification">
+            <VerificationQueuePanel />
+          </TabsContent>
+          <TabsContent value="disputes">
+            <DisputeQueuePanel />
+          </TabsContent>
+          <TabsContent value="reports">
+            <MessageReportsPanel />
+          </TabsContent>
+          <TabsContent value="categories">
+            <CategoryManager />
+          </TabsContent>
+          <TabsContent value="badges">
+            <BadgeManager />
+          </TabsContent>
+          <TabsContent value="seasons">
+            <SeasonManager />
+          </TabsContent>
+          <TabsContent value="audit">
+            <AuditLogPanel />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Admin;
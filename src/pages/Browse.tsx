@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { VerifiedBadge } from '@/components/profile/VerifiedBadge';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Search, Filter, Heart, MapPin } from 'lucide-react';
@@ -30,7 +31,8 @@ const Browse = () => {
         .from('listings')
         .select(`
           *,
-          categories (name)
+          categories (name),
+          profiles!listings_seller_id_fkey (name, is_verified)
         `)
         .eq('status', 'active');
 
@@ -151,6 +153,12 @@ const Browse = () => {
                     {listing.categories?.name && (
                       <span>{listing.categories.name}</span>
                     )}
+                    {listing.profiles?.name && (
+                      <span className="flex items-center gap-1">
+                        {listing.profiles.name}
+                        {listing.profiles.is_verified && <VerifiedBadge compact />}
+                      </span>
+                    )}
                   </div>
                 </CardHeader>
                 
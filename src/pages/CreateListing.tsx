@@ -91,7 +91,9 @@ const CreateListing = () => {
       type: formData.get('type') as 'item' | 'service',
       seller_id: user.id,
       images: uploadedImages,
-      delivery_options: [formData.get('delivery_option') as 'pickup' | 'delivery' | 'both']
+      delivery_options: [formData.get('delivery_option') as 'pickup' | 'delivery' | 'both'],
+      deposit_amount: parseFloat(formData.get('deposit_amount') as string) || 0,
+      min_trust_score: parseInt(formData.get('min_trust_score') as string) || null
     };
 
     const { error } = await supabase.from('listings').insert([listing]);
@@ -225,6 +227,36 @@ const CreateListing = () => {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="deposit_amount">Security Deposit (Optional)</Label>
+                <Input
+                  id="deposit_amount"
+                  name="deposit_amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Held on the borrower's card and released after the item is returned
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="min_trust_score">Minimum Trust Score (Optional)</Label>
+                <Input
+                  id="min_trust_score"
+                  name="min_trust_score"
+                  type="number"
+                  min="0"
+                  max="100"
+                  placeholder="Anyone can order"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Borrowers below this score can't order. New members start at 50.
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="delivery_option">Delivery Option</Label>
                 <Select name="delivery_option" defaultValue="pickup">
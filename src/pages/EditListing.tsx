@@ -112,6 +112,8 @@ const EditListing = () => {
         type: formData.get('type') as any,
         images: uploadedImages,
         delivery_options: [formData.get('delivery_option')] as any,
+        deposit_amount: parseFloat(formData.get('deposit_amount') as string) || 0,
+        min_trust_score: parseInt(formData.get('min_trust_score') as string) || null,
         status: formData.get('status') as any
       };
 
@@ -290,6 +292,37 @@ const EditListing = () => {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="deposit_amount">Security Deposit (Optional)</Label>
+                <Input
+                  id="deposit_amount"
+                  name="deposit_amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  defaultValue={listing.deposit_amount || ''}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Held on the borrower's card and released after the item is returned
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="min_trust_score">Minimum Trust Score (Optional)</Label>
+                <Input
+                  id="min_trust_score"
+                  name="min_trust_score"
+                  type="number"
+                  min="0"
+                  max="100"
+                  placeholder="Anyone can order"
+                  defaultValue={listing.min_trust_score ?? ''}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Borrowers below this score can't order. New members start at 50.
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="delivery_option">Delivery Option</Label>
                 <Select name="delivery_option" defaultValue={listing.delivery_options?.[0]}>
@@ -1,17 +1,44 @@
+import { useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { Navigate } from 'react-router-dom';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { useGamification } from '@/hooks/useGamification';
+import { MAX_STREAK_FREEZES, STREAK_FREEZE_XP, useGamification } from '@/hooks/useGamification';
 import { XPProgressBar } from '@/components/gamification/XPProgressBar';
 import { BadgeCollection } from '@/components/gamification/BadgeCollection';
 import { ReferralDashboard } from '@/components/gamification/ReferralDashboard';
-import { Trophy, Award, Users } from 'lucide-react';
+import { StreakCalendar } from '@/components/gamification/StreakCalendar';
+import { XPHistory } from '@/components/gamification/XPHistory';
+import { LevelPerks } from '@/components/gamification/LevelPerks';
+import { Leaderboard } from '@/components/gamification/Leaderboard';
+import { Trophy, Award, Users, Sparkles, Palette, BarChart3 } from 'lucide-react';
 
 const Gamification = () => {
   const { user, loading } = useAuth();
-  const { userLevel, userBadges, allBadges, levelLoading, progressToNextLevel, nextLevelXP } = useGamification();
+  const {
+    userLevel,
+    userBadges,
+    allBadges,
+    achievements,
+    streak,
+    activityDays,
+    xpEvents,
+    levelDefinitions,
+    cosmetics,
+    equipPerk,
+    equippingPerk,
+    newBadgeIds,
+    markBadgesSeen,
+    levelLoading,
+    progressToNextLevel,
+    nextLevelXP
+  } = useGamification();
+
+  const hasNewBadges = newBadgeIds.length > 0;
+  useEffect(() => {
+    if (hasNewBadges) markBadgesSeen();
+  }, [hasNewBadges, markBadgesSeen]);
 
   if (loading || levelLoading) {
     return (
@@ -47,8 +74,29 @@ const Gamification = () => {
           </Card>
         )}
 
+        {streak && (
+          <Card className="p-6">
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-lg font-semibold">Daily Streak</h3>
+                <p className="text-sm text-muted-foreground">
+                  Log in, list, message or complete an order each day to keep your streak going.
+                  Every {STREAK_FREEZE_XP} XP earns a freeze that covers a missed day.
+                </p>
+              </div>
+              <StreakCalendar
+                days={activityDays}
+                streakDays={streak.streak_days}
+                longestStreak={streak.longest_streak}
+                streakFreezes={streak.streak_freezes}
+                maxStreakFreezes={MAX_STREAK_FREEZES}
+              />
+            </div>
+          </Card>
+        )}
+
         <Tabs defaultValue="badges" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-3 md:grid-cols-6 h-auto">
             <TabsTrigger value="badges" className="flex items-center gap-2">
               <Trophy className="h-4 w-4" />
               Badges
@@ -57,6 +105,18 @@ const Gamification = () => {
               <Award className="h-4 w-4" />
               Achievements
             </TabsTrigger>
+            <TabsTrigger value="xp" className="flex items-center gap-2">
+              <Sparkles className="h-4 w-4" />
+              XP History
+            </TabsTrigger>
+            <TabsTrigger value="perks" className="flex items-center gap-2">
+              <Palette className="h-4 w-4" />
+              Perks
+            </TabsTrigger>
+            <TabsTrigger value="leaderboard" className="flex items-center gap-2">
+              <BarChart3 className="h-4 w-4" />
+              Leaderboard
+            </TabsTrigger>
             <TabsTrigger value="referrals" className="flex items-center gap-2">
               <Users className="h-4 w-4" />
               Referrals
@@ -70,9 +130,10 @@ const Gamification = () => {
                   <h3 className="text-lg font-semibold">Badge Collection</h3>
                   <p className="text-sm text-muted-foreground">
                     You've earned {earnedBadgeIds.length} of {allBadges.length} badges
+                    {hasNewBadges && ` — ${newBadgeIds.length} new!`}
                   </p>
                 </div>
-                <BadgeCollection badges={allBadges} earnedBadgeIds={earnedBadgeIds} />
+                <BadgeCollection badges={allBadges} earnedBadgeIds={earnedBadgeIds} newBadgeIds={newBadgeIds} />
               </div>
             </Card>
           </TabsContent>
@@ -85,27 +146,65 @@ const Gamification = () => {
                   Complete actions to earn XP and unlock achievements!
                 </div>
                 <div className="grid gap-4 mt-4">
-                  {userBadges.slice(0, 5).map((badge: any) => (
-                    <div key={badge.id} className="flex items-center justify-between p-4 border rounded-lg">
-                      <div className="flex items-center gap-3">
-                        <div className="p-2 bg-primary/10 rounded-full">
-                          <Trophy className="h-5 w-5 text-primary" />
-                        </div>
-                        <div>
-                          <div className="font-semibold">{badge.badges?.name}</div>
-                          <div className="text-sm text-muted-foreground">
-                            Earned {new Date(badge.earned_at).toLocaleDateString()}
+                  {achievements.map((achievement) => {
+                    const details = achievement.metadata as { badge_name?: string; xp_reward?: number } | null;
+                    return (
+                      <div key={achievement.id} className="flex items-center justify-between p-4 border rounded-lg">
+                        <div className="flex items-center gap-3">
+                          <div className="p-2 bg-primary/10 rounded-full">
+                            <Trophy className="h-5 w-5 text-primary" />
+                          </div>
+                          <div>
+                            <div className="font-semibold">{details?.badge_name ?? achievement.achievement_type}</div>
+                            <div className="text-sm text-muted-foreground">
+                              Unlocked {new Date(achievement.created_at ?? '').toLocaleDateString()}
+                            </div>
                           </div>
                         </div>
+                        {!!details?.xp_reward && (
+                          <div className="text-primary font-semibold">+{details.xp_reward} XP</div>
+                        )}
                       </div>
-                      <div className="text-primary font-semibold">+{badge.badges?.xp_reward} XP</div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
             </Card>
           </TabsContent>
 
+          <TabsContent value="xp" className="space-y-4">
+            <Card className="p-6">
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold">XP History</h3>
+                <XPHistory events={xpEvents} />
+              </div>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="perks" className="space-y-4">
+            <Card className="p-6">
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-lg font-semibold">Level Perks</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Level up to unlock frames and name colors for your profile
+                  </p>
+                </div>
+                <LevelPerks
+                  levels={levelDefinitions}
+                  currentLevel={userLevel?.level ?? 1}
+                  equipped={cosmetics ?? {}}
+                  onEquip={(perk, value) => equipPerk({ perk, value })}
+                  disabled={equippingPerk}
+                />
+              </div>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="leaderboard">
+            <Leaderboard />
+          </TabsContent>
+
           <TabsContent value="referrals">
             <ReferralDashboard />
           </TabsContent>
@@ -2,10 +2,18 @@ import { Navigation } from "@/components/Navigation";
 import { HeroSection } from "@/components/HeroSection";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Link } from "react-router-dom";
+import { useEffect } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { captureReferralCode } from "@/lib/referrals";
 import { Package, MessageSquare, Shield, Sparkles, QrCode, Repeat } from "lucide-react";
 
 const Index = () => {
+  const [searchParams] = useSearchParams();
+
+  useEffect(() => {
+    captureReferralCode(searchParams);
+  }, [searchParams]);
+
   const features = [
     {
       icon: Package,
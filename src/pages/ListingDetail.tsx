@@ -12,8 +12,16 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useToast } from '@/hooks/use-toast';
-import { Heart, MapPin, Star, MessageSquare, Calendar, Package } from 'lucide-react';
+import { Heart, MapPin, Star, MessageSquare, Calendar, Package, ShieldCheck } from 'lucide-react';
 import { NegotiationDialog } from '@/components/NegotiationDialog';
+import { AvailabilityCalendar, BookingPeriod } from '@/components/booking/AvailabilityCalendar';
+import { ServiceSlotPicker, ServiceAppointment } from '@/components/booking/ServiceSlotPicker';
+import { ServiceSlotsManager } from '@/components/booking/ServiceSlotsManager';
+import { VerifiedBadge } from '@/components/profile/VerifiedBadge';
+import { StarRating } from '@/components/review/StarRating';
+import { ReviewList } from '@/components/review/ReviewList';
+import { isAppointmentService } from '@/lib/services';
+import { differenceInCalendarDays, differenceInHours, format } from 'date-fns';
 
 const ListingDetail = () => {
   const { id } = useParams();
@@ -25,6 +33,8 @@ const ListingDetail = () => {
   const [quantity, setQuantity] = useState(1);
   const [notes, setNotes] = useState('');
   const [showNegotiation, setShowNegotiation] = useState(false);
+  const [bookingPeriod, setBookingPeriod] = useState<BookingPeriod | null>(null);
+  const [appointment, setAppointment] = useState<ServiceAppointment | null>(null);
 
   const { data: listing, isLoading } = useQuery({
     queryKey: ['listing', id],
@@ -34,7 +44,7 @@ const ListingDetail = () => {
         .select(`
           *,
           categories(name),
-          profiles!listings_seller_id_fkey(name, avatar_url, bio)
+          profiles!listings_seller_id_fkey(name, avatar_url, bio, is_verified, rating_average, rating_count)
         `)
         .eq('id', id)
         .single();
@@ -44,17 +54,34 @@ const ListingDetail = () => {
     }
   });
 
-  const { data: reviews } = useQuery({
-    queryKey: ['reviews', listing?.seller_id],
+  const { data: myTrustScore } = useQuery({
+    queryKey: ['trust-score', user?.id],
     queryFn: async () => {
-      if (!listing?.seller_id) return [];
-      const { data } = await supabase
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('trust_score')
+        .eq('id', user?.id)
+        .single();
+      if (error) throw error;
+      return data.trust_score;
+    },
+    enabled: !!user?.id && listing?.min_trust_score != null
+  });
+
+  const { data: reviews = [] } = useQuery({
+    queryKey: ['reviews', 'listing', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
         .from('reviews')
         .select('*')
-        .eq('reviewed_user_id', listing.seller_id);
-      return data || [];
+        .eq('listing_id', id)
+        .eq('reviewer_role', 'buyer')
+        .not('revealed_at', 'is', null)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
     },
-    enabled: !!listing?.seller_id
+    enabled: !!id
   });
 
   const createOrderMutation = useMutation({
@@ -74,14 +101,44 @@ const ListingDetail = () => {
       navigate(`/orders`);
     },
     onError: (error: any) => {
+      // orders_no_overlapping_bookings: someone booked the same period first
+      if (error.code === '23P01') {
+        queryClient.invalidateQueries({ queryKey: ['listing-availability', id] });
+        setBookingPeriod(null);
+      }
       toast({
         title: 'Order failed',
-        description: error.message,
+        description: error.code === '23P01'
+          ? 'Those dates were just booked by someone else. Please pick another period.'
+          : error.message,
         variant: 'destructive'
       });
     }
   });
 
+  const bookServiceMutation = useMutation({
+    mutationFn: async (booking: ServiceAppointment) => {
+      const { data, error } = await supabase.rpc('book_service', {
+        p_slot_id: booking.slot_id,
+        p_starts_at: booking.starts_at.toISOString(),
+        p_ends_at: booking.ends_at.toISOString(),
+        p_notes: notes
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      toast({ title: 'Booking requested!', description: 'Waiting for the provider to confirm' });
+      queryClient.invalidateQueries({ queryKey: ['borrowed-orders'] });
+      navigate('/orders');
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['listing-availability', id] });
+      toast({ title: 'Booking failed', description: error.message, variant: 'destructive' });
+    }
+  });
+
   const toggleFavoriteMutation = useMutation({
     mutationFn: async () => {
       const { data: existing } = await supabase
@@ -105,6 +162,14 @@ const ListingDetail = () => {
     }
   });
 
+  const selectedPeriod = appointment ?? bookingPeriod;
+  // Same units as booking_units: hours rounded up, or calendar days so DST days still count as one
+  const bookingUnits = selectedPeriod
+    ? listing?.price_type === 'hourly'
+      ? Math.max(1, Math.ceil(differenceInHours(selectedPeriod.ends_at, selectedPeriod.starts_at)))
+      : Math.max(1, differenceInCalendarDays(selectedPeriod.ends_at, selectedPeriod.starts_at))
+    : 0;
+
   const handleOrder = () => {
     if (!user) {
       toast({ title: 'Please sign in', description: 'You need to be logged in to place an order' });
@@ -112,20 +177,37 @@ const ListingDetail = () => {
       return;
     }
 
+    if (isAppointmentService(listing)) {
+      if (!appointment) {
+        toast({ title: 'Pick a time', description: 'Choose when you want your appointment' });
+        return;
+      }
+      bookServiceMutation.mutate(appointment);
+      return;
+    }
+
     if (listing.price_type === 'negotiable') {
       setShowNegotiation(true);
       return;
     }
 
+    if (isBooking && !bookingPeriod) {
+      toast({ title: 'Pick your dates', description: 'Choose when you want to book this listing' });
+      return;
+    }
+
+    // For bookings the server prices the order from the chosen period
     const orderData = {
       buyer_id: user.id,
       seller_id: listing.seller_id,
       listing_id: listing.id,
       original_price: listing.price,
-      final_amount: listing.price * quantity,
-      quantity,
+      final_amount: listing.price * (isBooking ? bookingUnits : quantity),
+      quantity: isBooking ? 1 : quantity,
       notes,
-      status: 'pending'
+      status: 'pending',
+      starts_at: bookingPeriod?.starts_at.toISOString(),
+      ends_at: bookingPeriod?.ends_at.toISOString()
     };
 
     createOrderMutation.mutate(orderData);
@@ -152,8 +234,14 @@ const ListingDetail = () => {
     );
   }
 
-  const avgRating = reviews?.length ? reviews.reduce((sum, r) => sum + r.rating, 0) / reviews.length : 0;
+  const sellerRating = listing.profiles?.rating_average ?? 0;
   const isOwner = user?.id === listing.seller_id;
+  const belowTrustScore =
+    listing.min_trust_score != null && myTrustScore != null && myTrustScore < listing.min_trust_score;
+  const isAppointment = isAppointmentService(listing);
+  const isBooking = listing.price_type === 'per_day' || listing.price_type === 'hourly';
+  const unitLabel = listing.price_type === 'hourly' ? 'hour' : 'day';
+  const orderTotal = listing.price * (isBooking ? bookingUnits : quantity);
 
   return (
     <DashboardLayout>
@@ -222,6 +310,16 @@ const ListingDetail = () => {
               <span className="text-lg text-muted-foreground">/ {listing.price_type}</span>
             </div>
 
+            {listing.rating_count > 0 && (
+              <div className="flex items-center gap-2 text-sm">
+                <StarRating value={Math.round(listing.rating_average ?? 0)} />
+                <span className="font-medium">{listing.rating_average?.toFixed(1)}</span>
+                <span className="text-muted-foreground">
+                  ({listing.rating_count} review{listing.rating_count === 1 ? '' : 's'})
+                </span>
+              </div>
+            )}
+
             <div className="space-y-2">
               <h3 className="font-semibold">Description</h3>
               <p className="text-muted-foreground whitespace-pre-wrap">{listing.description}</p>
@@ -246,19 +344,30 @@ const ListingDetail = () => {
                     <AvatarFallback>{(listing as any).profiles?.name?.[0] || 'U'}</AvatarFallback>
                   </Avatar>
                   <div className="flex-1">
-                    <p className="font-medium">{(listing as any).profiles?.name}</p>
-                    {avgRating > 0 && (
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">{(listing as any).profiles?.name}</p>
+                      {listing.profiles?.is_verified && <VerifiedBadge />}
+                    </div>
+                    {sellerRating > 0 && (
                       <div className="flex items-center gap-1 text-sm">
                         <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
-                        <span>{avgRating.toFixed(1)}</span>
-                        <span className="text-muted-foreground">({reviews?.length} reviews)</span>
+                        <span>{sellerRating.toFixed(1)}</span>
+                        <span className="text-muted-foreground">({listing.profiles?.rating_count} reviews)</span>
                       </div>
                     )}
                   </div>
                   {!isOwner && (
-                    <Link to={`/profile/${listing.seller_id}`}>
-                      <Button variant="outline" size="sm">View Profile</Button>
-                    </Link>
+                    <div className="flex gap-2">
+                      <Link to={`/messages?listing=${listing.id}`}>
+                        <Button variant="outline" size="sm">
+                          <MessageSquare className="h-4 w-4 mr-2" />
+                          Message seller
+                        </Button>
+                      </Link>
+                      <Link to={`/profile/${listing.seller_id}`}>
+                        <Button variant="outline" size="sm">View Profile</Button>
+                      </Link>
+                    </div>
                   )}
                 </div>
               </CardContent>
@@ -271,16 +380,26 @@ const ListingDetail = () => {
                   <CardTitle>Place Order</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <div>
-                    <Label htmlFor="quantity">Quantity</Label>
-                    <Input
-                      id="quantity"
-                      type="number"
-                      min="1"
-                      value={quantity}
-                      onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
+                  {isAppointment ? (
+                    <ServiceSlotPicker serviceId={listing.id} onChange={setAppointment} />
+                  ) : isBooking ? (
+                    <AvailabilityCalendar
+                      listingId={listing.id}
+                      priceType={listing.price_type as 'per_day' | 'hourly'}
+                      onChange={setBookingPeriod}
                     />
-                  </div>
+                  ) : (
+                    <div>
+                      <Label htmlFor="quantity">Quantity</Label>
+                      <Input
+                        id="quantity"
+                        type="number"
+                        min="1"
+                        value={quantity}
+                        onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
+                      />
+                    </div>
+                  )}
                   <div>
                     <Label htmlFor="notes">Notes (Optional)</Label>
                     <Textarea
@@ -290,29 +409,76 @@ const ListingDetail = () => {
                       onChange={(e) => setNotes(e.target.value)}
                     />
                   </div>
+                  {isBooking && selectedPeriod && (
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>
+                        {format(selectedPeriod.starts_at, 'MMM d, h:mm a')} – {format(selectedPeriod.ends_at, 'MMM d, h:mm a')}
+                      </span>
+                      <span>
+                        {bookingUnits} {unitLabel}{bookingUnits !== 1 ? 's' : ''} × ${listing.price}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex items-center justify-between py-4 border-t">
                     <span className="text-lg font-medium">Total:</span>
                     <span className="text-2xl font-bold text-primary">
-                      ${(listing.price * quantity).toFixed(2)}
+                      ${orderTotal.toFixed(2)}
                     </span>
                   </div>
+                  {listing.deposit_amount > 0 && (
+                    <p className="text-sm text-muted-foreground -mt-2">
+                      Plus a refundable ${Number(listing.deposit_amount).toFixed(2)} deposit hold, released after return
+                    </p>
+                  )}
+                  {listing.min_trust_score != null && (
+                    <div
+                      className={`flex items-center gap-2 text-sm ${belowTrustScore ? 'text-destructive' : 'text-muted-foreground'}`}
+                    >
+                      <ShieldCheck className="h-4 w-4" />
+                      <span>
+                        Requires a trust score of {listing.min_trust_score}
+                        {myTrustScore != null && ` — yours is ${myTrustScore}`}
+                      </span>
+                    </div>
+                  )}
                   <Button
                     className="w-full"
                     size="lg"
                     onClick={handleOrder}
-                    disabled={createOrderMutation.isPending}
+                    disabled={
+                      createOrderMutation.isPending ||
+                      bookServiceMutation.isPending ||
+                      (isBooking && !selectedPeriod) ||
+                      belowTrustScore
+                    }
                   >
-                    {listing.price_type === 'negotiable' ? 'Make Offer' : 'Place Order'}
+                    {listing.price_type === 'negotiable' ? 'Make Offer' : isBooking ? 'Request Booking' : 'Place Order'}
                   </Button>
                 </CardContent>
               </Card>
             ) : (
-              <Link to={`/edit-listing/${listing.id}`}>
-                <Button className="w-full" size="lg">Edit Listing</Button>
-              </Link>
+              <div className="space-y-6">
+                <Link to={`/edit-listing/${listing.id}`}>
+                  <Button className="w-full" size="lg">Edit Listing</Button>
+                </Link>
+                {isAppointment && <ServiceSlotsManager serviceId={listing.id} />}
+              </div>
             )}
           </div>
         </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Reviews</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ReviewList
+              reviews={reviews}
+              canReply={isOwner}
+              emptyMessage="No reviews for this listing yet."
+            />
+          </CardContent>
+        </Card>
       </div>
 
       {listing && (
@@ -1,97 +1,299 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { useQuery } from '@tanstack/react-query';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useChatPresence } from '@/hooks/useChatPresence';
+import {
+  CONVERSATION_PAGE_SIZE,
+  MESSAGE_PAGE_SIZE,
+  ATTACHMENT_TYPES,
+  conversationSubjectLabel,
+  conversationSubjectUrl,
+  uploadChatAttachments,
+  validateAttachments
+} from '@/lib/messages';
+import { MessageAttachments } from '@/components/chat/MessageAttachments';
+import { ReportMessageDialog } from '@/components/chat/ReportMessageDialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { formatDistanceToNow } from 'date-fns';
-import { Send, MessageSquare } from 'lucide-react';
+import { Send, MessageSquare, MoreVertical, Archive, ArchiveRestore, BellOff, Bell, Paperclip, X, Info, Flag, Ban, ShieldAlert } from 'lucide-react';
 
 const Messages = () => {
   const { user } = useAuth();
-  const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [showArchived, setShowArchived] = useState(false);
   const [newMessage, setNewMessage] = useState('');
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [sending, setSending] = useState(false);
+  const [reportingMessageId, setReportingMessageId] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selectedConversation = searchParams.get('c');
+  const startListingId = searchParams.get('listing');
+  const startOrderId = searchParams.get('order');
 
-  // Get all conversations for the user
-  const { data: conversations } = useQuery({
-    queryKey: ['conversations', user?.id],
-    queryFn: async () => {
-      if (!user?.id) return [];
+  const selectConversation = (conversationId: string | null) => {
+    setSearchParams(conversationId ? { c: conversationId } : {}, { replace: true });
+  };
 
-      const { data } = await supabase
-        .from('chat_messages')
-        .select(`
-          *,
-          from_profile:profiles!chat_messages_from_user_id_fkey(name, avatar_url),
-          to_profile:profiles!chat_messages_to_user_id_fkey(name, avatar_url),
-          listings(title)
-        `)
-        .or(`from_user_id.eq.${user.id},to_user_id.eq.${user.id}`)
-        .order('created_at', { ascending: false });
-
-      // Group messages by conversation (unique combination of users)
-      const conversationMap = new Map();
-      data?.forEach(message => {
-        const otherUserId = message.from_user_id === user.id 
-          ? message.to_user_id 
-          : message.from_user_id;
-        
-        if (!conversationMap.has(otherUserId) || 
-            new Date(message.created_at) > new Date(conversationMap.get(otherUserId).created_at)) {
-          conversationMap.set(otherUserId, {
-            ...message,
-            otherUserId,
-            otherUser: message.from_user_id === user.id 
-              ? message.to_profile 
-              : message.from_profile
-          });
+  // "Message seller" links arrive with a listing or order; open its conversation
+  useEffect(() => {
+    if (!user?.id || (!startListingId && !startOrderId)) return;
+
+    supabase
+      .rpc('start_conversation', {
+        p_listing_id: startListingId ?? undefined,
+        p_order_id: startOrderId ?? undefined
+      })
+      .then(({ data, error }) => {
+        if (error) {
+          toast({ title: 'Could not open conversation', description: error.message, variant: 'destructive' });
+          setSearchParams({}, { replace: true });
+          return;
         }
+        queryClient.invalidateQueries({ queryKey: ['conversations'] });
+        setSearchParams({ c: data }, { replace: true });
       });
+  }, [user?.id, startListingId, startOrderId, setSearchParams, queryClient, toast]);
 
-      return Array.from(conversationMap.values());
+  const {
+    data: conversationPages,
+    fetchNextPage: fetchMoreConversations,
+    hasNextPage: hasMoreConversations,
+    isFetchingNextPage: loadingMoreConversations
+  } = useInfiniteQuery({
+    queryKey: ['conversations', user?.id, showArchived],
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await supabase.rpc('list_conversations', {
+        p_archived: showArchived,
+        p_limit: CONVERSATION_PAGE_SIZE,
+        p_before: pageParam
+      });
+      if (error) throw error;
+      return data;
     },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) =>
+      lastPage.length === CONVERSATION_PAGE_SIZE ? lastPage[lastPage.length - 1].last_message_at : undefined,
     enabled: !!user?.id
   });
 
-  // Get messages for selected conversation
-  const { data: messages } = useQuery({
-    queryKey: ['messages', selectedConversation, user?.id],
-    queryFn: async () => {
-      if (!selectedConversation || !user?.id) return [];
+  const conversations = conversationPages?.pages.flat() ?? [];
 
-      const { data } = await supabase
-        .from('chat_messages')
+  const { data: activeConversation } = useQuery({
+    queryKey: ['conversation', selectedConversation],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('conversations')
         .select(`
           *,
-          from_profile:profiles!chat_messages_from_user_id_fkey(name, avatar_url)
+          listings(title),
+          conversation_participants(archived_at, muted_at),
+          user_a_profile:profiles!conversations_user_a_fkey(name, avatar_url),
+          user_b_profile:profiles!conversations_user_b_fkey(name, avatar_url)
         `)
-        .or(`and(from_user_id.eq.${user.id},to_user_id.eq.${selectedConversation}),and(from_user_id.eq.${selectedConversation},to_user_id.eq.${user.id})`)
-        .order('created_at', { ascending: true });
+        .eq('id', selectedConversation ?? '')
+        .single();
+      if (error) throw error;
+
+      const isUserA = data.user_a === user?.id;
+      return {
+        ...data,
+        otherUserId: isUserA ? data.user_b : data.user_a,
+        otherUser: isUserA ? data.user_b_profile : data.user_a_profile,
+        settings: data.conversation_participants[0]
+      };
+    },
+    enabled: !!selectedConversation && !!user?.id
+  });
+
+  // Newest page first; each page is fetched newest first and shown oldest first
+  const {
+    data: messagePages,
+    fetchNextPage: fetchEarlierMessages,
+    hasNextPage: hasEarlierMessages,
+    isFetchingNextPage: loadingEarlierMessages
+  } = useInfiniteQuery({
+    queryKey: ['messages', selectedConversation],
+    queryFn: async ({ pageParam }) => {
+      let query = supabase
+        .from('chat_messages')
+        .select('*')
+        .eq('conversation_id', selectedConversation ?? '')
+        .order('created_at', { ascending: false })
+        .limit(MESSAGE_PAGE_SIZE);
 
-      return data || [];
+      if (pageParam) query = query.lt('created_at', pageParam);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
     },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) =>
+      lastPage.length === MESSAGE_PAGE_SIZE ? lastPage[lastPage.length - 1].created_at ?? undefined : undefined,
     enabled: !!selectedConversation && !!user?.id
   });
 
+  const messages = messagePages?.pages.flat().reverse() ?? [];
+  const { otherOnline, otherTyping, sendTyping } = useChatPresence(
+    selectedConversation,
+    activeConversation?.otherUserId ?? null
+  );
+  const hasUnread = messages.some((m) => m.to_user_id === user?.id && !m.read_at);
+  const lastOwnMessage = messages.filter((m) => m.from_user_id === user?.id && !m.is_system_message).at(-1);
+  const latestMessageId = messages.at(-1)?.id;
+  const subjectUrl = activeConversation && conversationSubjectUrl(activeConversation);
+
+  // Viewing a thread marks what the other user sent as read
+  useEffect(() => {
+    if (!selectedConversation || !hasUnread) return;
+
+    supabase.rpc('mark_conversation_read', { p_conversation_id: selectedConversation }).then(({ error }) => {
+      if (error) return;
+      queryClient.invalidateQueries({ queryKey: ['unread-messages'] });
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      queryClient.invalidateQueries({ queryKey: ['messages', selectedConversation] });
+    });
+  }, [selectedConversation, hasUnread, queryClient]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [latestMessageId, otherTyping]);
+
+  const settingsMutation = useMutation({
+    mutationFn: async (settings: { archived?: boolean; muted?: boolean }) => {
+      const { error } = await supabase.rpc('update_conversation_settings', {
+        p_conversation_id: selectedConversation ?? '',
+        p_archived: settings.archived,
+        p_muted: settings.muted
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, settings) => {
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      queryClient.invalidateQueries({ queryKey: ['conversation', selectedConversation] });
+      queryClient.invalidateQueries({ queryKey: ['unread-messages'] });
+      if (settings.archived !== undefined) {
+        toast({ title: settings.archived ? 'Conversation archived' : 'Conversation moved to inbox' });
+        selectConversation(null);
+      } else {
+        toast({ title: settings.muted ? 'Conversation muted' : 'Conversation unmuted' });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not update conversation', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const { data: blockedUserIds = [] } = useQuery({
+    queryKey: ['user-blocks', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_blocks')
+        .select('blocked_id')
+        .eq('blocker_id', user?.id ?? '');
+      if (error) throw error;
+      return data.map((block) => block.blocked_id);
+    },
+    enabled: !!user?.id
+  });
+
+  const isBlocked = !!activeConversation && blockedUserIds.includes(activeConversation.otherUserId);
+  const hasRedactedMessages = messages.some((m) => m.contact_redacted);
+
+  const blockMutation = useMutation({
+    mutationFn: async (block: boolean) => {
+      if (!user?.id || !activeConversation) return;
+      const { error } = block
+        ? await supabase
+            .from('user_blocks')
+            .insert({ blocker_id: user.id, blocked_id: activeConversation.otherUserId })
+        : await supabase
+            .from('user_blocks')
+            .delete()
+            .eq('blocker_id', user.id)
+            .eq('blocked_id', activeConversation.otherUserId);
+      if (error) throw error;
+    },
+    onSuccess: (_, block) => {
+      queryClient.invalidateQueries({ queryKey: ['user-blocks'] });
+      toast({
+        title: block ? 'User blocked' : 'User unblocked',
+        description: block ? 'Neither of you can message or order from the other.' : undefined
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not update block list', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  // Photos picked for the next message are previewed before sending
+  const previews = useMemo(() => pendingFiles.map((file) => URL.createObjectURL(file)), [pendingFiles]);
+
+  useEffect(() => () => previews.forEach((url) => URL.revokeObjectURL(url)), [previews]);
+
+  useEffect(() => {
+    setPendingFiles([]);
+  }, [selectedConversation]);
+
+  const addFiles = (files: File[]) => {
+    try {
+      validateAttachments(files, pendingFiles.length);
+      setPendingFiles([...pendingFiles, ...files]);
+    } catch (error) {
+      toast({ title: 'Could not attach photo', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
   const sendMessage = async () => {
-    if (!newMessage.trim() || !selectedConversation || !user?.id) return;
-
-    const { error } = await supabase
-      .from('chat_messages')
-      .insert([{
-        from_user_id: user.id,
-        to_user_id: selectedConversation,
-        message_text: newMessage.trim()
-      }]);
-
-    if (!error) {
-      setNewMessage('');
-      // Refetch messages
+    if ((!newMessage.trim() && pendingFiles.length === 0) || !activeConversation || !user?.id || sending) return;
+
+    setSending(true);
+    try {
+      const attachments = pendingFiles.length > 0
+        ? await uploadChatAttachments(activeConversation.id, user.id, pendingFiles)
+        : null;
+
+      const { error } = await supabase
+        .from('chat_messages')
+        .insert([{
+          conversation_id: activeConversation.id,
+          from_user_id: user.id,
+          to_user_id: activeConversation.otherUserId,
+          message_text: newMessage.trim(),
+          attachments
+        }]);
+      if (error) throw error;
+    } catch (error) {
+      toast({ title: 'Message not sent', description: (error as Error).message, variant: 'destructive' });
+      return;
+    } finally {
+      setSending(false);
     }
+
+    setNewMessage('');
+    setPendingFiles([]);
+    queryClient.invalidateQueries({ queryKey: ['messages', selectedConversation] });
+    queryClient.invalidateQueries({ queryKey: ['conversations'] });
   };
 
   return (
@@ -99,49 +301,82 @@ const Messages = () => {
       <div className="h-[calc(100vh-200px)] flex gap-4">
         {/* Conversations List */}
         <Card className="w-80 flex flex-col">
-          <CardHeader>
+          <CardHeader className="space-y-3">
             <CardTitle>Conversations</CardTitle>
+            <Tabs value={showArchived ? 'archived' : 'inbox'} onValueChange={(value) => setShowArchived(value === 'archived')}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="inbox">Inbox</TabsTrigger>
+                <TabsTrigger value="archived">Archived</TabsTrigger>
+              </TabsList>
+            </Tabs>
           </CardHeader>
-          <CardContent className="flex-1 p-0">
+          <CardContent className="flex-1 p-0 min-h-0">
             <ScrollArea className="h-full">
-              {conversations?.length === 0 ? (
+              {conversations.length === 0 ? (
                 <div className="p-6 text-center">
                   <MessageSquare className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-                  <p className="text-muted-foreground">No conversations yet</p>
+                  <p className="text-muted-foreground">
+                    {showArchived ? 'No archived conversations' : 'No conversations yet'}
+                  </p>
                 </div>
               ) : (
                 <div className="space-y-1 p-2">
-                  {conversations?.map((conversation) => (
+                  {conversations.map((conversation) => (
                     <button
-                      key={conversation.otherUserId}
-                      onClick={() => setSelectedConversation(conversation.otherUserId)}
+                      key={conversation.id}
+                      onClick={() => selectConversation(conversation.id)}
                       className={`w-full p-3 rounded-lg text-left transition-colors ${
-                        selectedConversation === conversation.otherUserId
+                        selectedConversation === conversation.id
                           ? 'bg-accent'
                           : 'hover:bg-accent/50'
                       }`}
                     >
                       <div className="flex items-center gap-3">
                         <Avatar>
-                          <AvatarImage src={conversation.otherUser?.avatar_url} />
+                          <AvatarImage src={conversation.other_user_avatar_url ?? undefined} />
                           <AvatarFallback>
-                            {conversation.otherUser?.name?.[0] || 'U'}
+                            {conversation.other_user_name?.[0] || 'U'}
                           </AvatarFallback>
                         </Avatar>
                         <div className="flex-1 min-w-0">
-                          <p className="font-medium truncate">
-                            {conversation.otherUser?.name || 'Unknown User'}
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="font-medium truncate">
+                              {conversation.other_user_name || 'Unknown User'}
+                            </p>
+                            {conversation.muted && <BellOff className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                            {conversation.unread_count > 0 && (
+                              <Badge
+                                variant={conversation.muted ? 'secondary' : 'default'}
+                                className="h-5 min-w-5 justify-center px-1.5"
+                              >
+                                {conversation.unread_count}
+                              </Badge>
+                            )}
+                          </div>
+                          <p className="text-xs text-primary truncate">
+                            {conversationSubjectLabel(conversation)}
                           </p>
                           <p className="text-sm text-muted-foreground truncate">
-                            {conversation.message_text}
+                            {conversation.last_message_text || 'No messages yet'}
                           </p>
                           <p className="text-xs text-muted-foreground">
-                            {formatDistanceToNow(new Date(conversation.created_at))} ago
+                            {formatDistanceToNow(new Date(conversation.last_message_at))} ago
                           </p>
                         </div>
                       </div>
                     </button>
                   ))}
+                  {hasMoreConversations && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => fetchMoreConversations()}
+                      disabled={loadingMoreConversations}
+                    >
+                      Load more
+                    </Button>
+                  )}
                 </div>
               )}
             </ScrollArea>
@@ -150,15 +385,110 @@ const Messages = () => {
 
         {/* Chat Area */}
         <Card className="flex-1 flex flex-col">
-          {selectedConversation ? (
+          {selectedConversation && activeConversation ? (
             <>
-              <CardContent className="flex-1 p-0">
+              <CardHeader className="border-b py-3">
+                <div className="flex items-center gap-3">
+                  <Avatar className="h-9 w-9">
+                    <AvatarImage src={activeConversation.otherUser?.avatar_url ?? undefined} />
+                    <AvatarFallback>{activeConversation.otherUser?.name?.[0] || 'U'}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium">{activeConversation.otherUser?.name || 'Unknown User'}</p>
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <span className={`h-2 w-2 rounded-full ${otherOnline ? 'bg-green-500' : 'bg-muted-foreground/40'}`} />
+                      {otherTyping ? 'typing…' : otherOnline ? 'Online' : 'Offline'}
+                      {' · '}
+                      {subjectUrl ? (
+                        <Link to={subjectUrl} className="text-primary hover:underline truncate">
+                          {conversationSubjectLabel({ ...activeConversation, listing_title: activeConversation.listings?.title })}
+                        </Link>
+                      ) : (
+                        conversationSubjectLabel(activeConversation)
+                      )}
+                    </p>
+                  </div>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon">
+                        <MoreVertical className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem
+                        onClick={() => settingsMutation.mutate({ muted: !activeConversation.settings?.muted_at })}
+                      >
+                        {activeConversation.settings?.muted_at ? (
+                          <><Bell className="h-4 w-4 mr-2" />Unmute</>
+                        ) : (
+                          <><BellOff className="h-4 w-4 mr-2" />Mute</>
+                        )}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => settingsMutation.mutate({ archived: !activeConversation.settings?.archived_at })}
+                      >
+                        {activeConversation.settings?.archived_at ? (
+                          <><ArchiveRestore className="h-4 w-4 mr-2" />Move to inbox</>
+                        ) : (
+                          <><Archive className="h-4 w-4 mr-2" />Archive</>
+                        )}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => blockMutation.mutate(!isBlocked)}>
+                        <Ban className="h-4 w-4 mr-2" />
+                        {isBlocked ? 'Unblock user' : 'Block user'}
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              </CardHeader>
+              <CardContent className="flex-1 p-0 min-h-0">
                 <ScrollArea className="h-full p-4">
                   <div className="space-y-4">
-                    {messages?.map((message) => (
+                    {hasRedactedMessages && (
+                      <Alert>
+                        <ShieldAlert className="h-4 w-4" />
+                        <AlertDescription>
+                          Phone numbers, emails and payment handles are hidden until the order is paid.
+                          Keep payments on BorrowPal so your deposit and dispute protection apply.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    {hasEarlierMessages && (
+                      <div className="text-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => fetchEarlierMessages()}
+                          disabled={loadingEarlierMessages}
+                        >
+                          Load earlier messages
+                        </Button>
+                      </div>
+                    )}
+                    {messages.map((message) => message.is_system_message ? (
+                      <div key={message.id} className="flex justify-center">
+                        <div className="flex max-w-md items-start gap-2 rounded-md border border-dashed bg-muted/40 px-3 py-2 text-xs text-muted-foreground">
+                          <Info className="h-4 w-4 shrink-0" />
+                          <div>
+                            <p>{message.message_text}</p>
+                            <p className="mt-1">
+                              {message.created_at && `${formatDistanceToNow(new Date(message.created_at))} ago`}
+                              {message.order_id && (
+                                <>
+                                  {' · '}
+                                  <Link to={`/orders/${message.order_id}`} className="text-primary hover:underline">
+                                    View order
+                                  </Link>
+                                </>
+                              )}
+                            </p>
+                          </div>
+                        </div>
+                      </div>
+                    ) : (
                       <div
                         key={message.id}
-                        className={`flex ${
+                        className={`group flex items-center gap-1 ${
                           message.from_user_id === user?.id ? 'justify-end' : 'justify-start'
                         }`}
                       >
@@ -169,33 +499,104 @@ const Messages = () => {
                               : 'bg-muted'
                           }`}
                         >
-                          <p>{message.message_text}</p>
+                          {message.attachments && message.attachments.length > 0 && (
+                            <div className={message.message_text ? 'mb-2' : undefined}>
+                              <MessageAttachments paths={message.attachments} />
+                            </div>
+                          )}
+                          {message.message_text && <p>{message.message_text}</p>}
                           <p className={`text-xs mt-1 ${
                             message.from_user_id === user?.id
                               ? 'text-primary-foreground/70'
                               : 'text-muted-foreground'
                           }`}>
-                            {formatDistanceToNow(new Date(message.created_at))} ago
+                            {message.created_at && `${formatDistanceToNow(new Date(message.created_at))} ago`}
+                            {message.id === lastOwnMessage?.id && message.read_at && ' · Seen'}
+                            {message.contact_redacted && ' · Contact details hidden'}
                           </p>
                         </div>
+                        {message.to_user_id === user?.id && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                            onClick={() => setReportingMessageId(message.id)}
+                            title="Report message"
+                          >
+                            <Flag className="h-3 w-3" />
+                          </Button>
+                        )}
                       </div>
                     ))}
+                    {otherTyping && (
+                      <p className="text-xs text-muted-foreground">
+                        {activeConversation.otherUser?.name || 'They'} is typing…
+                      </p>
+                    )}
+                    <div ref={bottomRef} />
                   </div>
                 </ScrollArea>
               </CardContent>
-              <div className="p-4 border-t">
-                <div className="flex gap-2">
-                  <Input
-                    value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
-                    placeholder="Type a message..."
-                    onKeyPress={(e) => e.key === 'Enter' && sendMessage()}
-                  />
-                  <Button onClick={sendMessage} disabled={!newMessage.trim()}>
-                    <Send className="h-4 w-4" />
+              {isBlocked ? (
+                <div className="p-4 border-t flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                  <span>You blocked this user. Unblock them to send messages.</span>
+                  <Button variant="outline" size="sm" onClick={() => blockMutation.mutate(false)}>
+                    Unblock
                   </Button>
                 </div>
-              </div>
+              ) : (
+                <div className="p-4 border-t space-y-2">
+                  {pendingFiles.length > 0 && (
+                    <div className="flex gap-2 flex-wrap">
+                      {previews.map((url, index) => (
+                        <div key={url} className="relative h-16 w-16 overflow-hidden rounded-md bg-muted">
+                          <img src={url} alt={pendingFiles[index].name} className="h-full w-full object-cover" />
+                          <button
+                            type="button"
+                            onClick={() => setPendingFiles(pendingFiles.filter((_, i) => i !== index))}
+                            className="absolute right-0.5 top-0.5 rounded-full bg-background/80 p-0.5"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept={ATTACHMENT_TYPES.join(',')}
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        addFiles(Array.from(e.target.files ?? []));
+                        e.target.value = '';
+                      }}
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={sending}
+                    >
+                      <Paperclip className="h-4 w-4" />
+                    </Button>
+                    <Input
+                      value={newMessage}
+                      onChange={(e) => {
+                        setNewMessage(e.target.value);
+                        sendTyping();
+                      }}
+                      placeholder="Type a message..."
+                      onKeyPress={(e) => e.key === 'Enter' && sendMessage()}
+                    />
+                    <Button onClick={sendMessage} disabled={sending || (!newMessage.trim() && pendingFiles.length === 0)}>
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
             </>
           ) : (
             <CardContent className="flex-1 flex items-center justify-center">
@@ -207,8 +608,13 @@ const Messages = () => {
           )}
         </Card>
       </div>
+
+      <ReportMessageDialog
+        messageId={reportingMessageId}
+        onOpenChange={(open) => !open && setReportingMessageId(null)}
+      />
     </DashboardLayout>
   );
 };
 
-export default Messages;
\ No newline at end of file
+export default Messages;
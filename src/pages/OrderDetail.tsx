@@ -1,26 +1,34 @@
 import { useState } from 'react';
-import { useParams, useNavigate, Link } from 'react-router-dom';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { formatDistanceToNow } from 'date-fns';
-import { Check, X, MessageSquare, Package, CreditCard } from 'lucide-react';
+import { DepositCard } from '@/components/order/DepositCard';
+import { HandoffCard } from '@/components/order/HandoffCard';
+import { DisputeCard } from '@/components/order/DisputeCard';
+import { ReviewCard } from '@/components/order/ReviewCard';
+import { OrderStatusBadge } from '@/components/order/OrderStatusBadge';
+import { isReturnOverdue } from '@/lib/orders';
+import { useOrderTransition, OrderEvent } from '@/hooks/useOrderTransition';
+import type { Json } from '@/integrations/supabase/types';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Check, X, MessageSquare, Package, CreditCard, Loader2, Truck, CheckCircle, AlertTriangle } from 'lucide-react';
 
 const OrderDetail = () => {
   const { id } = useParams();
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const queryClient = useQueryClient();
   const [counterOffer, setCounterOffer] = useState('');
+  const [searchParams] = useSearchParams();
+  const returnedFromCheckout = searchParams.get('payment') === 'success';
 
   const { data: order, isLoading } = useQuery({
     queryKey: ['order', id],
@@ -38,7 +46,10 @@ const OrderDetail = () => {
 
       if (error) throw error;
       return data;
-    }
+    },
+    // The Stripe webhook marks the order paid shortly after checkout returns
+    refetchInterval: (query) =>
+      returnedFromCheckout && query.state.data?.status === 'accepted' ? 3000 : false
   });
 
   const { data: negotiations } = useQuery({
@@ -54,67 +65,46 @@ const OrderDetail = () => {
     enabled: !!id
   });
 
-  const updateOrderMutation = useMutation({
-    mutationFn: async (updates: any) => {
-      const { error } = await supabase
-        .from('orders')
-        .update(updates)
-        .eq('id', id);
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['order', id] });
-      queryClient.invalidateQueries({ queryKey: ['orders'] });
-    }
-  });
+  const transitionMutation = useOrderTransition(id);
 
-  const sendNegotiationMutation = useMutation({
-    mutationFn: async (data: any) => {
-      const { error } = await supabase
-        .from('order_negotiations')
-        .insert([{ ...data, order_id: id, from_user_id: user?.id }]);
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['negotiations', id] });
-      setCounterOffer('');
+  const fireEvent = async (event: OrderEvent, payload: Json, title: string, description?: string) => {
+    try {
+      await transitionMutation.mutateAsync({ event, payload });
+      toast({ title, description });
+    } catch (error) {
+      toast({
+        title: 'Action failed',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
     }
-  });
-
-  const handleAcceptOrder = async () => {
-    await updateOrderMutation.mutateAsync({ status: 'accepted' });
-    toast({ title: 'Order accepted!', description: 'You can now chat with the buyer' });
   };
 
-  const handleDeclineOrder = async () => {
-    await updateOrderMutation.mutateAsync({ status: 'cancelled' });
-    toast({ title: 'Order declined' });
-  };
+  const handleAcceptOrder = () =>
+    fireEvent('accept', {}, 'Order accepted!', 'You can now chat with the buyer');
 
-  const handleAcceptOffer = async (amount: number) => {
-    await updateOrderMutation.mutateAsync({
-      status: 'accepted',
-      final_amount: amount * (order?.quantity || 1)
-    });
-    await sendNegotiationMutation.mutateAsync({
-      action: 'accept',
-      amount
-    });
-    toast({ title: 'Offer accepted!', description: 'Proceeding to payment' });
-  };
+  const handleDeclineOrder = () => fireEvent('decline', {}, 'Order declined');
+
+  const handleAcceptOffer = () =>
+    fireEvent('accept', {}, 'Offer accepted!', isBuyer ? 'Proceeding to payment' : 'The buyer can now pay');
+
+  const handleDeclineOffer = () => fireEvent('decline', {}, 'Offer declined');
 
   const handleCounterOffer = async () => {
     const amount = parseFloat(counterOffer);
     if (isNaN(amount) || amount <= 0) return;
 
-    await sendNegotiationMutation.mutateAsync({
-      action: 'counter_offer',
-      amount,
-      message: `Counter offer: $${amount} per unit`
-    });
-    toast({ title: 'Counter offer sent!' });
+    await fireEvent('counter', { amount, message: `Counter offer: $${amount} per unit` }, 'Counter offer sent!');
+    setCounterOffer('');
   };
 
+  const handleCancelOrder = () => fireEvent('cancel', {}, 'Order cancelled');
+
+  const handleShipOrder = () => fireEvent('ship', {}, 'Order marked as shipped');
+
+  const handleCompleteOrder = () =>
+    fireEvent('complete', {}, 'Order completed', 'Thanks for using BorrowPal!');
+
   const initiatePayment = async () => {
     try {
       const { data, error } = await supabase.functions.invoke('create-payment', {
@@ -157,7 +147,13 @@ const OrderDetail = () => {
 
   const isSeller = user?.id === order.seller_id;
   const isBuyer = user?.id === order.buyer_id;
-  const canChat = order.status === 'accepted';
+  const canChat = ['accepted', 'paid', 'shipped', 'in_progress'].includes(order.status ?? '');
+  const lastNegotiation = negotiations?.[negotiations.length - 1];
+  const isNegotiating = order.status === 'pending' || order.status === 'negotiating';
+  const awaitingMyResponse = isNegotiating && !!lastNegotiation && lastNegotiation.from_user_id !== user?.id;
+  const canCancel =
+    (isBuyer && (isNegotiating || order.status === 'accepted')) ||
+    (isSeller && order.status === 'accepted');
 
   return (
     <DashboardLayout>
@@ -169,17 +165,24 @@ const OrderDetail = () => {
               Placed {formatDistanceToNow(new Date(order.created_at))} ago
             </p>
           </div>
-          <Badge
-            variant={
-              order.status === 'accepted' ? 'default' :
-              order.status === 'completed' ? 'secondary' :
-              order.status === 'cancelled' ? 'destructive' : 'outline'
-            }
-          >
-            {order.status}
-          </Badge>
+          <OrderStatusBadge status={order.status} overdue={isReturnOverdue(order)} />
         </div>
 
+        {isReturnOverdue(order) && order.ends_at && (
+          <Card className="border-destructive">
+            <CardContent className="flex items-center gap-3 py-4">
+              <AlertTriangle className="h-5 w-5 text-destructive shrink-0" />
+              <p className="text-sm">
+                {isBuyer
+                  ? 'This rental was due back '
+                  : 'The borrower has not returned this item. It was due back '}
+                {formatDistanceToNow(new Date(order.ends_at), { addSuffix: true })}.
+                Meet up and scan the return code to close the rental.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="grid md:grid-cols-2 gap-6">
           {/* Order Info */}
           <Card>
@@ -209,10 +212,23 @@ const OrderDetail = () => {
                     <span className="text-primary">${order.negotiated_price}</span>
                   </div>
                 )}
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Quantity:</span>
-                  <span>{order.quantity}</span>
-                </div>
+                {order.starts_at && order.ends_at ? (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">From:</span>
+                      <span>{format(new Date(order.starts_at), 'EEE, MMM d yyyy h:mm a')}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Until:</span>
+                      <span>{format(new Date(order.ends_at), 'EEE, MMM d yyyy h:mm a')}</span>
+                    </div>
+                  </>
+                ) : (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Quantity:</span>
+                    <span>{order.quantity}</span>
+                  </div>
+                )}
                 <Separator />
                 <div className="flex justify-between font-bold text-lg">
                   <span>Total:</span>
@@ -262,7 +278,7 @@ const OrderDetail = () => {
                   <Link to={`/messages?order=${id}`} className="w-full">
                     <Button className="w-full" variant="outline">
                       <MessageSquare className="h-4 w-4 mr-2" />
-                      Open Chat
+                      {isSeller ? 'Message borrower' : 'Message seller'}
                     </Button>
                   </Link>
                 </>
@@ -271,6 +287,19 @@ const OrderDetail = () => {
           </Card>
         </div>
 
+        <HandoffCard
+          order={order}
+          isSeller={isSeller}
+          isBuyer={isBuyer}
+          isService={order.listings?.type === 'service'}
+        />
+
+        <DepositCard order={order} isSeller={isSeller} />
+
+        <DisputeCard order={order} isSeller={isSeller} />
+
+        <ReviewCard order={order} isSeller={isSeller} />
+
         {/* Negotiations */}
         {negotiations && negotiations.length > 0 && (
           <Card>
@@ -303,7 +332,7 @@ const OrderDetail = () => {
                 ))}
               </div>
 
-              {isSeller && order.status === 'pending' && negotiations.length > 0 && (
+              {awaitingMyResponse && (
                 <div className="mt-4 space-y-2">
                   <div className="flex gap-2">
                     <Input
@@ -313,26 +342,42 @@ const OrderDetail = () => {
                       value={counterOffer}
                       onChange={(e) => setCounterOffer(e.target.value)}
                     />
-                    <Button onClick={handleCounterOffer}>Send</Button>
+                    <Button onClick={handleCounterOffer} disabled={transitionMutation.isPending}>Send</Button>
                   </div>
                   <div className="flex gap-2">
                     <Button
                       className="flex-1"
                       variant="outline"
-                      onClick={() => handleAcceptOffer(negotiations[negotiations.length - 1].amount)}
+                      onClick={handleAcceptOffer}
+                      disabled={transitionMutation.isPending}
                     >
                       <Check className="h-4 w-4 mr-2" />
                       Accept Offer
                     </Button>
+                    <Button
+                      className="flex-1"
+                      variant="outline"
+                      onClick={handleDeclineOffer}
+                      disabled={transitionMutation.isPending}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Decline
+                    </Button>
                   </div>
                 </div>
               )}
+
+              {isNegotiating && lastNegotiation && !awaitingMyResponse && (
+                <p className="mt-4 text-sm text-muted-foreground">
+                  Waiting for the other party to respond to your offer.
+                </p>
+              )}
             </CardContent>
           </Card>
         )}
 
         {/* Actions */}
-        {isSeller && order.status === 'pending' && negotiations.length === 0 && (
+        {isSeller && order.status === 'pending' && negotiations?.length === 0 && (
           <Card>
             <CardHeader>
               <CardTitle>Actions</CardTitle>
@@ -341,7 +386,7 @@ const OrderDetail = () => {
               <Button
                 className="flex-1"
                 onClick={handleAcceptOrder}
-                disabled={updateOrderMutation.isPending}
+                disabled={transitionMutation.isPending}
               >
                 <Check className="h-4 w-4 mr-2" />
                 Accept Order
@@ -350,7 +395,7 @@ const OrderDetail = () => {
                 className="flex-1"
                 variant="destructive"
                 onClick={handleDeclineOrder}
-                disabled={updateOrderMutation.isPending}
+                disabled={transitionMutation.isPending}
               >
                 <X className="h-4 w-4 mr-2" />
                 Decline Order
@@ -359,6 +404,46 @@ const OrderDetail = () => {
           </Card>
         )}
 
+        {((isSeller && order.status === 'paid') ||
+          (isBuyer && (order.status === 'paid' || order.status === 'shipped'))) && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Fulfilment</CardTitle>
+            </CardHeader>
+            <CardContent className="flex gap-4">
+              {isSeller && order.status === 'paid' && (
+                <Button
+                  className="flex-1"
+                  onClick={handleShipOrder}
+                  disabled={transitionMutation.isPending}
+                >
+                  <Truck className="h-4 w-4 mr-2" />
+                  Mark as Shipped
+                </Button>
+              )}
+              {isBuyer && (
+                <Button
+                  className="flex-1"
+                  onClick={handleCompleteOrder}
+                  disabled={transitionMutation.isPending}
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Mark as Received
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {isBuyer && returnedFromCheckout && order.status === 'accepted' && (
+          <Card>
+            <CardContent className="flex items-center gap-3 py-6 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              Confirming your payment with Stripe...
+            </CardContent>
+          </Card>
+        )}
+
         {isBuyer && order.status === 'accepted' && !order.stripe_payment_intent_id && (
           <Card>
             <CardHeader>
@@ -376,6 +461,19 @@ const OrderDetail = () => {
             </CardContent>
           </Card>
         )}
+
+        {canCancel && (
+          <div className="flex justify-end">
+            <Button
+              variant="ghost"
+              className="text-destructive"
+              onClick={handleCancelOrder}
+              disabled={transitionMutation.isPending}
+            >
+              Cancel Order
+            </Button>
+          </div>
+        )}
       </div>
     </DashboardLayout>
   );
@@ -1,20 +1,55 @@
 import { useState, useEffect } from 'react';
-import { AppLayout } from '@/components/layout/AppLayout';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card, CardContent } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { formatDistanceToNow } from 'date-fns';
-import { ShoppingBag, Package, MessageCircle } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ShoppingBag, Package, MessageCircle, CalendarClock } from 'lucide-react';
 import { Link, useNavigate } from 'react-router-dom';
 import { OrderActions } from '@/components/order/OrderActions';
 import { PaymentButton } from '@/components/order/PaymentButton';
+import { OrderStatusBadge } from '@/components/order/OrderStatusBadge';
+import { ServiceOrderStatusBadge } from '@/components/order/ServiceOrderStatusBadge';
+import { ServiceOrderActions } from '@/components/order/ServiceOrderActions';
+import { OrderStatus, isReturnOverdue } from '@/lib/orders';
+import type { ServiceOrderStatus } from '@/lib/services';
+import type { Tables } from '@/integrations/supabase/types';
+
+type StatusFilter = 'all' | 'open' | 'active' | 'closed';
+
+// Item orders and service bookings share one timeline and one set of filters
+const statusFilters: Record<StatusFilter, (OrderStatus | ServiceOrderStatus)[] | null> = {
+  all: null,
+  open: ['pending', 'negotiating', 'accepted', 'paid', 'shipped', 'requested', 'confirmed'],
+  active: ['in_progress'],
+  closed: ['completed', 'cancelled', 'rejected', 'refunded', 'declined'],
+};
+
+type ServiceBooking = Tables<'service_orders'> & {
+  listing: { title: string; images: string[] | null } | null;
+  otherUser: { name: string | null } | null;
+  order: { status: OrderStatus | null } | null;
+};
+
+const byNewest = (a: { created_at: string }, b: { created_at: string }) =>
+  new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+// Confirmed bookings are backed by an order; show them once, as the booking
+const mergeTimeline = <T extends { id: string; created_at: string }>(
+  items: T[],
+  services: (T & { order_id: string | null })[]
+) => {
+  const bookedOrderIds = new Set(services.map((s) => s.order_id).filter(Boolean));
+  return [...items.filter((o) => !bookedOrderIds.has(o.id)), ...services].sort(byNewest);
+};
 
 const Orders = () => {
   const navigate = useNavigate();
   const [user, setUser] = useState<any>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
 
   useEffect(() => {
     checkAuth();
@@ -51,7 +86,8 @@ const Orders = () => {
             .select(`
               *,
               services:listings!service_orders_service_id_fkey(title, images, type),
-              provider:profiles!service_orders_provider_id_fkey(name, avatar_url)
+              provider:profiles!service_orders_provider_id_fkey(name, avatar_url),
+              order:orders!service_orders_order_id_fkey(status)
             `)
             .eq('buyer_id', user.id)
             .order('created_at', { ascending: false })
@@ -74,7 +110,7 @@ const Orders = () => {
           otherUser: o.provider
         }));
 
-        return [...items, ...services];
+        return mergeTimeline(items, services);
       } catch (err) {
         console.error('Borrowed orders fetch failed:', err);
         return [];
@@ -105,7 +141,8 @@ const Orders = () => {
             .select(`
               *,
               services:listings!service_orders_service_id_fkey(title, images, type),
-              buyer:profiles!service_orders_buyer_id_fkey(name, avatar_url)
+              buyer:profiles!service_orders_buyer_id_fkey(name, avatar_url),
+              order:orders!service_orders_order_id_fkey(status)
             `)
             .eq('provider_id', user.id)
             .order('created_at', { ascending: false })
@@ -128,7 +165,7 @@ const Orders = () => {
           otherUser: o.buyer
         }));
 
-        return [...items, ...services];
+        return mergeTimeline(items, services);
       } catch (err) {
         console.error('Lent orders fetch failed:', err);
         return [];
@@ -137,28 +174,136 @@ const Orders = () => {
     enabled: !!user?.id
   });
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending': return 'default';
-      case 'accepted': return 'secondary';
-      case 'paid': return 'default';
-      case 'active': return 'default';
-      case 'completed': return 'outline';
-      case 'cancelled': return 'destructive';
-      default: return 'default';
-    }
-  };
+  const filterOrders = <T extends { status: string | null }>(orders: T[] | undefined) =>
+    (orders || []).filter((order) => {
+      const statuses = statusFilters[statusFilter];
+      return !statuses || statuses.includes(order.status as OrderStatus | ServiceOrderStatus);
+    });
 
   const handleOrderUpdate = () => {
     refetchBorrowed();
     refetchLent();
   };
 
+  const ServiceOrderCard = ({ order, viewType }: { order: ServiceBooking, viewType: 'borrowed' | 'lent' }) => {
+    const isProvider = viewType === 'lent';
+    const canPay = !isProvider && order.status === 'confirmed' && order.order?.status === 'accepted';
+    const canChat = !!order.order_id && ['confirmed', 'in_progress', 'completed'].includes(order.status);
+
+    return (
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex-1 min-w-0">
+              <h3 className="font-semibold text-foreground truncate">
+                {order.listing?.title || 'Untitled'}
+              </h3>
+              <p className="text-sm text-muted-foreground">
+                {viewType === 'borrowed'
+                  ? `Provider: ${order.otherUser?.name || 'Unknown'}`
+                  : `Booked by: ${order.otherUser?.name || 'Unknown'}`
+                }
+              </p>
+            </div>
+            <ServiceOrderStatusBadge status={order.status} />
+          </div>
+
+          {order.listing?.images?.[0] && (
+            <img
+              src={order.listing.images[0]}
+              alt={order.listing.title}
+              className="w-full h-32 object-cover rounded-lg"
+            />
+          )}
+
+          <div className="space-y-2 text-sm">
+            <div className="flex items-center gap-2">
+              <CalendarClock className="h-4 w-4 text-muted-foreground" />
+              <span>
+                {format(new Date(order.starts_at), 'EEE, MMM d, h:mm a')} – {format(new Date(order.ends_at), 'h:mm a')}
+              </span>
+            </div>
+            {order.final_amount !== null ? (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Billed ({order.billed_hours}h):</span>
+                <span className="font-medium">${Number(order.final_amount).toFixed(2)}</span>
+              </div>
+            ) : (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Estimate:</span>
+                <span className="font-medium">${Number(order.estimated_amount).toFixed(2)}</span>
+              </div>
+            )}
+            {order.refund_amount > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Unused hours refunded:</span>
+                <span>${Number(order.refund_amount).toFixed(2)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Requested:</span>
+              <span>{formatDistanceToNow(new Date(order.created_at), { addSuffix: true })}</span>
+            </div>
+          </div>
+
+          {(order.notes || order.decline_reason) && (
+            <div className="pt-2 border-t">
+              <p className="text-xs text-muted-foreground mb-1">{order.decline_reason ? 'Declined:' : 'Notes:'}</p>
+              <p className="text-sm">{order.decline_reason || order.notes}</p>
+            </div>
+          )}
+
+          <div className="flex flex-col gap-2 pt-2">
+            {order.status === 'requested' && (
+              <ServiceOrderActions
+                serviceOrderId={order.id}
+                isProvider={isProvider}
+                onActionComplete={handleOrderUpdate}
+              />
+            )}
+
+            {canPay && (
+              <PaymentButton
+                orderId={order.order_id}
+                amount={Number(order.estimated_amount)}
+              />
+            )}
+
+            {order.order_id && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate(`/orders/${order.order_id}`)}
+              >
+                View details
+              </Button>
+            )}
+
+            {canChat && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate(`/chat?order=${order.order_id}`)}
+              >
+                <MessageCircle className="h-4 w-4 mr-2" />
+                Message
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
   const OrderCard = ({ order, viewType }: { order: any, viewType: 'borrowed' | 'lent' }) => {
+    if (order.type === 'service') {
+      return <ServiceOrderCard order={order} viewType={viewType} />;
+    }
+
     const isOwner = viewType === 'lent';
     const canAcceptDeny = isOwner && order.status === 'pending';
     const canPay = !isOwner && order.status === 'accepted';
-    const canChat = ['accepted', 'paid', 'active', 'completed'].includes(order.status);
+    const canChat = ['accepted', 'paid', 'shipped', 'in_progress', 'completed'].includes(order.status);
 
     return (
       <Card>
@@ -175,9 +320,7 @@ const Orders = () => {
                 }
               </p>
             </div>
-            <Badge variant={getStatusColor(order.status)}>
-              {order.status}
-            </Badge>
+            <OrderStatusBadge status={order.status} overdue={isReturnOverdue(order)} />
           </div>
 
           {order.listing?.images?.[0] && (
@@ -218,7 +361,6 @@ const Orders = () => {
             {canAcceptDeny && (
               <OrderActions
                 orderId={order.id}
-                orderType={order.type}
                 onActionComplete={handleOrderUpdate}
               />
             )}
@@ -226,7 +368,6 @@ const Orders = () => {
             {canPay && (
               <PaymentButton
                 orderId={order.id}
-                orderType={order.type}
                 amount={Number(order.final_amount)}
               />
             )}
@@ -248,7 +389,7 @@ const Orders = () => {
   };
 
   return (
-    <AppLayout>
+    <DashboardLayout>
       <div className="space-y-6">
         <div className="bg-gradient-primary px-6 py-6 text-white">
           <h1 className="text-2xl font-bold">My Orders</h1>
@@ -268,11 +409,25 @@ const Orders = () => {
               </TabsTrigger>
             </TabsList>
 
+            <div className="flex justify-end mt-4">
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All orders</SelectItem>
+                  <SelectItem value="open">Open</SelectItem>
+                  <SelectItem value="active">Active rentals</SelectItem>
+                  <SelectItem value="closed">Closed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
             <TabsContent value="borrowed" className="space-y-4 mt-4">
-              {borrowedOrders?.length ? (
+              {filterOrders(borrowedOrders).length ? (
                 <div className="grid gap-4 md:grid-cols-2">
-                  {borrowedOrders.map((order: any) => (
-                    <OrderCard key={order.id} order={order} viewType="borrowed" />
+                  {filterOrders(borrowedOrders).map((order: any) => (
+                    <OrderCard key={`${order.type}-${order.id}`} order={order} viewType="borrowed" />
                   ))}
                 </div>
               ) : (
@@ -290,10 +445,10 @@ const Orders = () => {
             </TabsContent>
 
             <TabsContent value="lent" className="space-y-4 mt-4">
-              {lentOrders?.length ? (
+              {filterOrders(lentOrders).length ? (
                 <div className="grid gap-4 md:grid-cols-2">
-                  {lentOrders.map((order: any) => (
-                    <OrderCard key={order.id} order={order} viewType="lent" />
+                  {filterOrders(lentOrders).map((order: any) => (
+                    <OrderCard key={`${order.type}-${order.id}`} order={order} viewType="lent" />
                   ))}
                 </div>
               ) : (
@@ -312,7 +467,7 @@ const Orders = () => {
           </Tabs>
         </div>
       </div>
-    </AppLayout>
+    </DashboardLayout>
   );
 };
 
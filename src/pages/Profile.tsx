@@ -6,12 +6,16 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Badge } from '@/components/ui/badge';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { Star, MapPin, Phone, Mail, Camera, Edit } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { profileColorClass, profileFrameClass } from '@/lib/perks';
+import { TrustScoreCard } from '@/components/profile/TrustScoreCard';
+import { VerifiedBadge } from '@/components/profile/VerifiedBadge';
+import { ReviewList } from '@/components/review/ReviewList';
 
 const Profile = () => {
   const { user } = useAuth();
@@ -86,14 +90,11 @@ const Profile = () => {
     updateProfileMutation.mutate({
       name: formData.get('name'),
       bio: formData.get('bio'),
-      phone: formData.get('phone'),
       email: formData.get('email')
     });
   };
 
-  const averageRating = reviews && reviews.length > 0
-    ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length
-    : 0;
+  const averageRating = profile?.rating_average ?? 0;
 
   return (
     <DashboardLayout>
@@ -104,7 +105,7 @@ const Profile = () => {
             <div className="flex flex-col md:flex-row gap-6">
               <div className="flex flex-col items-center md:items-start">
                 <div className="relative">
-                  <Avatar className="h-24 w-24">
+                  <Avatar className={cn('h-24 w-24', profileFrameClass(profile?.profile_frame))}>
                     <AvatarImage src={profile?.avatar_url} />
                     <AvatarFallback className="text-2xl">
                       {profile?.name?.[0] || user?.email?.[0] || 'U'}
@@ -118,11 +119,7 @@ const Profile = () => {
                     <Camera className="h-4 w-4" />
                   </Button>
                 </div>
-                {profile?.is_verified && (
-                  <Badge variant="outline" className="mt-2">
-                    Verified
-                  </Badge>
-                )}
+                {profile?.is_verified && <VerifiedBadge className="mt-2" />}
               </div>
 
               <div className="flex-1">
@@ -150,9 +147,11 @@ const Profile = () => {
                         <Label htmlFor="phone">Phone</Label>
                         <Input 
                           id="phone" 
-                          name="phone" 
-                          defaultValue={profile?.phone || ''} 
+                          value={profile?.phone || ''} 
+                          placeholder="Not verified yet"
+                          disabled
                         />
+                        <p className="text-xs text-muted-foreground mt-1">Set by confirming your number in Settings</p>
                       </div>
                     </div>
                     <div>
@@ -180,7 +179,7 @@ const Profile = () => {
                 ) : (
                   <div className="space-y-4">
                     <div className="flex items-center justify-between">
-                      <h1 className="text-3xl font-bold">
+                      <h1 className={cn('text-3xl font-bold', profileColorClass(profile?.profile_color))}>
                         {profile?.name || 'Anonymous User'}
                       </h1>
                       <Button onClick={() => setIsEditing(true)} variant="outline">
@@ -213,7 +212,7 @@ const Profile = () => {
                           </span>
                         </div>
                         <span className="text-muted-foreground">
-                          ({reviews?.length} review{reviews?.length !== 1 ? 's' : ''})
+                          ({profile?.rating_count} review{profile?.rating_count !== 1 ? 's' : ''})
                         </span>
                       </div>
                     )}
@@ -232,7 +231,7 @@ const Profile = () => {
                         <div className="text-sm text-muted-foreground">Pending</div>
                       </div>
                       <div className="text-center">
-                        <div className="text-2xl font-bold">{reviews?.length || 0}</div>
+                        <div className="text-2xl font-bold">{profile?.rating_count || 0}</div>
                         <div className="text-sm text-muted-foreground">Reviews</div>
                       </div>
                     </div>
@@ -243,52 +242,19 @@ const Profile = () => {
           </CardContent>
         </Card>
 
+        {user && <TrustScoreCard userId={user.id} />}
+
         {/* Reviews */}
         <Card>
           <CardHeader>
             <CardTitle>Reviews & Feedback</CardTitle>
           </CardHeader>
           <CardContent>
-            {reviews?.length === 0 ? (
-              <p className="text-muted-foreground text-center py-8">
-                No reviews yet. Complete some transactions to get feedback!
-              </p>
-            ) : (
-              <div className="space-y-4">
-                {reviews?.map((review) => (
-                  <div key={review.id} className="border-b border-border pb-4 last:border-0">
-                    <div className="flex items-start justify-between mb-2">
-                      <div className="flex items-center gap-2">
-                        <Avatar className="h-8 w-8">
-                          <AvatarFallback>U</AvatarFallback>
-                        </Avatar>
-                        <div>
-                          <p className="font-medium">Reviewer</p>
-                          <p className="text-sm text-muted-foreground">
-                            {review.listings?.title}
-                          </p>
-                        </div>
-                      </div>
-                      <div className="flex items-center">
-                        {[...Array(5)].map((_, i) => (
-                          <Star
-                            key={i}
-                            className={`h-4 w-4 ${
-                              i < review.rating
-                                ? 'fill-current text-yellow-400'
-                                : 'text-gray-300'
-                            }`}
-                          />
-                        ))}
-                      </div>
-                    </div>
-                    {review.comment && (
-                      <p className="text-muted-foreground">{review.comment}</p>
-                    )}
-                  </div>
-                ))}
-              </div>
-            )}
+            <ReviewList
+              reviews={reviews ?? []}
+              canReply
+              emptyMessage="No reviews yet. Complete some transactions to get feedback!"
+            />
           </CardContent>
         </Card>
       </div>
@@ -11,6 +11,8 @@ import { useAuth } from '@/hooks/useAuth';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { VerificationCard } from '@/components/profile/VerificationCard';
+import { BlockedUsersCard } from '@/components/profile/BlockedUsersCard';
 import { User, Bell, Lock, Shield } from 'lucide-react';
 
 const Settings = () => {
@@ -34,7 +36,6 @@ const Settings = () => {
   const [formData, setFormData] = useState({
     name: profile?.name || '',
     email: profile?.email || '',
-    phone: profile?.phone || '',
     bio: profile?.bio || ''
   });
 
@@ -117,10 +118,11 @@ const Settings = () => {
                   <Label htmlFor="phone">Phone Number</Label>
                   <Input
                     id="phone"
-                    value={formData.phone}
-                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
-                    placeholder="Enter your phone number"
+                    value={profile?.phone || ''}
+                    placeholder="Not verified yet"
+                    disabled
                   />
+                  <p className="text-sm text-muted-foreground">Set by confirming your number in the Security tab</p>
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="bio">Bio</Label>
@@ -172,6 +174,8 @@ const Settings = () => {
           </TabsContent>
 
           <TabsContent value="security" className="space-y-4">
+            <VerificationCard isVerified={!!profile?.is_verified} />
+
             <Card>
               <CardHeader>
                 <CardTitle>Security Settings</CardTitle>
@@ -216,9 +220,22 @@ const Settings = () => {
                   </div>
                   <Switch defaultChecked />
                 </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">Show Me on Leaderboards</p>
+                    <p className="text-sm text-muted-foreground">Appear in rankings and season results</p>
+                  </div>
+                  <Switch
+                    checked={!profile?.leaderboard_opt_out}
+                    onCheckedChange={(checked) => updateProfileMutation.mutate({ leaderboard_opt_out: !checked })}
+                    disabled={!profile || updateProfileMutation.isPending}
+                  />
+                </div>
                 <Button variant="destructive">Delete Account</Button>
               </CardContent>
             </Card>
+
+            <BlockedUsersCard />
           </TabsContent>
         </Tabs>
       </div>
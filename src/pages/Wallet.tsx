@@ -0,0 +1,146 @@
+import { Link } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PayoutCard } from '@/components/wallet/PayoutCard';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { formatMoney, ledgerAccountLabels, ledgerKindLabels } from '@/lib/wallet';
+import { format } from 'date-fns';
+import { Clock, Wallet as WalletIcon } from 'lucide-react';
+
+const Wallet = () => {
+  const { user } = useAuth();
+
+  const { data: profile } = useQuery({
+    queryKey: ['profile', user?.id],
+    queryFn: async () => {
+      const { data } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('id', user?.id)
+        .single();
+      return data;
+    },
+    enabled: !!user?.id
+  });
+
+  const { data: entries, isLoading } = useQuery({
+    queryKey: ['wallet', 'entries', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ledger_entries')
+        .select('*, ledger_transactions(kind, description, order_id)')
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: false })
+        .limit(100);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id
+  });
+
+  const available = Number(profile?.wallet_balance ?? 0);
+  const pending = Number(profile?.pending_balance ?? 0);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Wallet</h1>
+          <p className="text-muted-foreground">Your earnings from lending and your payouts</p>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Available</CardTitle>
+              <WalletIcon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(available)}</div>
+              <p className="text-xs text-muted-foreground">Ready to withdraw</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Pending</CardTitle>
+              <Clock className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(pending)}</div>
+              <p className="text-xs text-muted-foreground">Available 3 days after the item is returned</p>
+            </CardContent>
+          </Card>
+          <PayoutCard availableBalance={available} />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Transactions</CardTitle>
+            <CardDescription>Every change to your pending and available balances</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Balance</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : entries?.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No transactions yet. Earnings show up here once a borrower pays.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries?.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(entry.created_at), 'MMM d, yyyy')}
+                      </TableCell>
+                      <TableCell>
+                        {entry.ledger_transactions?.order_id ? (
+                          <Link to={`/orders/${entry.ledger_transactions.order_id}`} className="hover:underline">
+                            {entry.ledger_transactions.description}
+                          </Link>
+                        ) : (
+                          entry.ledger_transactions?.description
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {entry.ledger_transactions && (
+                          <Badge variant="outline">{ledgerKindLabels[entry.ledger_transactions.kind]}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{ledgerAccountLabels[entry.account]}</TableCell>
+                      <TableCell
+                        className={`text-right font-medium ${entry.amount < 0 ? 'text-destructive' : 'text-green-600'}`}
+                      >
+                        {entry.amount > 0 && '+'}
+                        {formatMoney(entry.amount)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Wallet;
@@ -0,0 +1,45 @@
+// Text message provider for phone verification codes.
+// OTP_PROVIDER selects the implementation: "twilio" or "console" (the default).
+
+export interface OtpProvider {
+  name: string;
+  sendCode(phone: string, message: string): Promise<void>;
+}
+
+const twilioProvider = (): OtpProvider => {
+  const accountSid = Deno.env.get("TWILIO_ACCOUNT_SID") ?? "";
+  const authToken = Deno.env.get("TWILIO_AUTH_TOKEN") ?? "";
+  const from = Deno.env.get("TWILIO_FROM_NUMBER") ?? "";
+
+  return {
+    name: "twilio",
+    async sendCode(phone, message) {
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: new URLSearchParams({ To: phone, From: from, Body: message }),
+        }
+      );
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message ?? `Twilio responded with ${response.status}`);
+      }
+    },
+  };
+};
+
+// Local stand-in: the message is written to the function logs instead of sent
+const consoleProvider = (): OtpProvider => ({
+  name: "console",
+  async sendCode(phone, message) {
+    console.log(`[otp] to ${phone}: ${message}`);
+  },
+});
+
+export const getOtpProvider = (): OtpProvider =>
+  Deno.env.get("OTP_PROVIDER") === "twilio" ? twilioProvider() : consoleProvider();
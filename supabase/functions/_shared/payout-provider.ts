@@ -0,0 +1,105 @@
+import Stripe from "https://esm.sh/stripe@18.5.0";
+
+// Connect-style payout provider. Sellers get a connected account, finish the
+// provider's onboarding, and payouts are transferred to that account.
+// PAYOUT_PROVIDER selects the implementation: "stripe" or "mock" (the default).
+
+// Thrown when the provider definitely refused a payout. Any other error may be
+// transient, and the payout is retried with the same idempotency key.
+export class PayoutRejectedError extends Error {}
+
+export interface PayoutAccount {
+  accountId: string;
+  payoutsEnabled: boolean;
+}
+
+export interface PayoutProvider {
+  name: string;
+  createAccount(userId: string, email: string): Promise<PayoutAccount>;
+  getAccount(accountId: string): Promise<PayoutAccount>;
+  // Returns null when the account needs no further onboarding
+  onboardingUrl(accountId: string, returnUrl: string): Promise<string | null>;
+  sendPayout(payout: {
+    id: string;
+    accountId: string;
+    amount: number;
+    currency: string;
+  }): Promise<{ providerPayoutId: string }>;
+}
+
+const stripeProvider = (): PayoutProvider => {
+  const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+    apiVersion: "2025-08-27.basil",
+  });
+
+  return {
+    name: "stripe",
+    async createAccount(userId, email) {
+      const account = await stripe.accounts.create(
+        {
+          type: "express",
+          email,
+          capabilities: { transfers: { requested: true } },
+          metadata: { user_id: userId },
+        },
+        { idempotencyKey: `payout-account-${userId}` }
+      );
+      return { accountId: account.id, payoutsEnabled: account.payouts_enabled };
+    },
+    async getAccount(accountId) {
+      const account = await stripe.accounts.retrieve(accountId);
+      return { accountId: account.id, payoutsEnabled: account.payouts_enabled };
+    },
+    async onboardingUrl(accountId, returnUrl) {
+      const link = await stripe.accountLinks.create({
+        account: accountId,
+        refresh_url: returnUrl,
+        return_url: returnUrl,
+        type: "account_onboarding",
+      });
+      return link.url;
+    },
+    async sendPayout({ id, accountId, amount, currency }) {
+      try {
+        const transfer = await stripe.transfers.create(
+          {
+            amount: Math.round(amount * 100),
+            currency,
+            destination: accountId,
+            metadata: { payout_id: id },
+          },
+          { idempotencyKey: `payout-${id}` }
+        );
+        return { providerPayoutId: transfer.id };
+      } catch (err) {
+        if (err.type === "StripeInvalidRequestError" || err.type === "StripePermissionError") {
+          throw new PayoutRejectedError(err.message);
+        }
+        throw err;
+      }
+    },
+  };
+};
+
+// Local stand-in: accounts are ready straight away and payouts succeed unless
+// PAYOUT_MOCK_FAIL is set, which makes every payout fail with that message.
+const mockProvider = (): PayoutProvider => ({
+  name: "mock",
+  async createAccount(userId) {
+    return { accountId: `acct_mock_${userId.replace(/-/g, "").slice(0, 16)}`, payoutsEnabled: true };
+  },
+  async getAccount(accountId) {
+    return { accountId, payoutsEnabled: true };
+  },
+  async onboardingUrl() {
+    return null;
+  },
+  async sendPayout({ id }) {
+    const failure = Deno.env.get("PAYOUT_MOCK_FAIL");
+    if (failure) throw new PayoutRejectedError(failure);
+    return { providerPayoutId: `po_mock_${id.replace(/-/g, "").slice(0, 16)}` };
+  },
+});
+
+export const getPayoutProvider = (): PayoutProvider =>
+  Deno.env.get("PAYOUT_PROVIDER") === "stripe" ? stripeProvider() : mockProvider();
@@ -12,9 +12,11 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // Orders are read-only to clients, so the payment intent is stored with the service role
   const supabaseClient = createClient(
     Deno.env.get("SUPABASE_URL") ?? "",
-    Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
   );
 
   try {
@@ -38,6 +40,7 @@ serve(async (req) => {
 
     if (orderError || !order) throw new Error("Order not found");
     if (order.buyer_id !== user.id) throw new Error("Unauthorized");
+    if (order.status !== "accepted") throw new Error("Order is not awaiting payment");
 
     const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
       apiVersion: "2025-08-27.basil",
@@ -78,7 +81,9 @@ serve(async (req) => {
             currency: order.currency || "usd",
             product_data: {
               name: order.listings?.title || "BorrowPal Order",
-              description: `Order for ${order.quantity} unit(s)`,
+              description: order.deposit_amount > 0
+                ? `Order for ${order.quantity} unit(s). A refundable $${order.deposit_amount} deposit hold is placed after payment.`
+                : `Order for ${order.quantity} unit(s)`,
             },
             unit_amount: Math.round((order.final_amount / order.quantity) * 100),
           },
@@ -88,10 +93,15 @@ serve(async (req) => {
       mode: "payment",
       success_url: `${req.headers.get("origin")}/orders/${order_id}?payment=success`,
       cancel_url: `${req.headers.get("origin")}/orders/${order_id}?payment=cancelled`,
+      metadata: {
+        order_id: order.id,
+      },
       payment_intent_data: {
         metadata: {
           order_id: order.id,
         },
+        // Save the card so the webhook can place the deposit hold off-session
+        ...(order.deposit_amount > 0 && { setup_future_usage: "off_session" as const }),
       },
     });
 
@@ -0,0 +1,72 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { getPayoutProvider } from "../_shared/payout-provider.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Creates the caller's connected payout account on first use, refreshes its
+// status, and returns the provider's onboarding link while setup is unfinished.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Payout accounts are read-only to clients, so they are stored with the service role
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const authHeader = req.headers.get("Authorization")!;
+    const token = authHeader.replace("Bearer ", "");
+    const { data } = await supabaseClient.auth.getUser(token);
+    const user = data.user;
+    if (!user?.email) throw new Error("User not authenticated");
+
+    const provider = getPayoutProvider();
+
+    const { data: existing } = await supabaseClient
+      .from("payout_accounts")
+      .select("*")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    const account = existing && existing.provider === provider.name
+      ? await provider.getAccount(existing.provider_account_id)
+      : await provider.createAccount(user.id, user.email);
+
+    const { error } = await supabaseClient
+      .from("payout_accounts")
+      .upsert({
+        user_id: user.id,
+        provider: provider.name,
+        provider_account_id: account.accountId,
+        payouts_enabled: account.payoutsEnabled,
+        updated_at: new Date().toISOString(),
+      });
+    if (error) throw error;
+
+    const onboardingUrl = account.payoutsEnabled
+      ? null
+      : await provider.onboardingUrl(account.accountId, `${req.headers.get("origin")}/wallet`);
+
+    return new Response(
+      JSON.stringify({ payouts_enabled: account.payoutsEnabled, onboarding_url: onboardingUrl }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error("Payout account error:", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
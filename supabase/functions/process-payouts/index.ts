@@ -0,0 +1,88 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { PayoutRejectedError, getPayoutProvider } from "../_shared/payout-provider.ts";
+
+// Sends payouts requested from the wallet to the sellers' connected accounts.
+// Invoked every 15 minutes by pg_cron.
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (!serviceRoleKey || token !== serviceRoleKey) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    serviceRoleKey,
+    { auth: { persistSession: false } }
+  );
+
+  const provider = getPayoutProvider();
+
+  const { data: payouts, error } = await supabaseClient
+    .from("payouts")
+    .select("id, user_id, amount, currency")
+    .in("status", ["requested", "processing"])
+    .order("requested_at")
+    .limit(100);
+
+  if (error) {
+    console.error("Failed to load payouts:", error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+
+  const results: { payout_id: string; outcome: string }[] = [];
+
+  for (const payout of payouts ?? []) {
+    try {
+      await supabaseClient.from("payouts").update({ status: "processing" }).eq("id", payout.id);
+
+      const { data: account } = await supabaseClient
+        .from("payout_accounts")
+        .select("provider_account_id, payouts_enabled")
+        .eq("user_id", payout.user_id)
+        .maybeSingle();
+
+      if (!account?.payouts_enabled) {
+        throw new PayoutRejectedError("Your payout account is not ready to receive payouts.");
+      }
+
+      const { providerPayoutId } = await provider.sendPayout({
+        id: payout.id,
+        accountId: account.provider_account_id,
+        amount: payout.amount,
+        currency: payout.currency,
+      });
+
+      await supabaseClient.rpc("record_payout_result", {
+        p_payout_id: payout.id,
+        p_succeeded: true,
+        p_provider_payout_id: providerPayoutId,
+      });
+      results.push({ payout_id: payout.id, outcome: `sent ${providerPayoutId}` });
+    } catch (err) {
+      if (err instanceof PayoutRejectedError) {
+        await supabaseClient.rpc("record_payout_result", {
+          p_payout_id: payout.id,
+          p_succeeded: false,
+          p_failure_reason: err.message,
+        });
+        results.push({ payout_id: payout.id, outcome: `rejected: ${err.message}` });
+        continue;
+      }
+
+      // Leave the payout queued; the next run retries it with the same idempotency key
+      console.error(`Failed to send payout ${payout.id}:`, err.message);
+      results.push({ payout_id: payout.id, outcome: `error: ${err.message}` });
+    }
+  }
+
+  return jsonResponse({ processed: results.length, results }, 200);
+});
@@ -0,0 +1,68 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@18.5.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+// Refunds the unused hours of completed service appointments. The
+// charge.refunded webhook then updates the order. Invoked every 15 minutes by pg_cron.
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (!serviceRoleKey || token !== serviceRoleKey) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    serviceRoleKey,
+    { auth: { persistSession: false } }
+  );
+
+  const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+    apiVersion: "2025-08-27.basil",
+  });
+
+  const { data: bookings, error } = await supabaseClient
+    .from("service_orders")
+    .select("id, order_id, refund_amount, orders(stripe_payment_intent_id)")
+    .eq("refund_pending", true)
+    .limit(100);
+
+  if (error) {
+    console.error("Failed to load service refunds:", error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+
+  const results: { service_order_id: string; outcome: string }[] = [];
+
+  for (const booking of bookings ?? []) {
+    try {
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: booking.orders.stripe_payment_intent_id,
+          amount: Math.round(booking.refund_amount * 100),
+          metadata: { order_id: booking.order_id, service_order_id: booking.id },
+        },
+        { idempotencyKey: `service-refund-${booking.id}` }
+      );
+
+      await supabaseClient.rpc("record_service_refund", {
+        p_service_order_id: booking.id,
+        p_refund_id: refund.id,
+      });
+      results.push({ service_order_id: booking.id, outcome: `refunded ${refund.amount / 100}` });
+    } catch (err) {
+      // Leave the refund queued; the next run retries it
+      console.error(`Failed to refund service order ${booking.id}:`, err.message);
+      results.push({ service_order_id: booking.id, outcome: `error: ${err.message}` });
+    }
+  }
+
+  return jsonResponse({ processed: results.length, results }, 200);
+});
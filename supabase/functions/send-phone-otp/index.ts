@@ -0,0 +1,111 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { getOtpProvider } from "../_shared/otp-provider.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PHONE_PATTERN = /^\+[1-9]\d{7,14}$/;
+const CODE_TTL_MS = 10 * 60 * 1000;
+const RESEND_AFTER_MS = 60 * 1000;
+// Caps texts to one number across all accounts
+const MAX_SENDS_PER_PHONE = 5;
+const PHONE_WINDOW_MS = 60 * 60 * 1000;
+
+const sha256Hex = async (value: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+// Texts a six-digit code to the caller's phone. Only the hash is stored, and
+// confirm_phone_verification checks the code the user types back.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Phone codes are hidden from clients, so they are stored with the service role
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const authHeader = req.headers.get("Authorization")!;
+    const token = authHeader.replace("Bearer ", "");
+    const { data } = await supabaseClient.auth.getUser(token);
+    const user = data.user;
+    if (!user) throw new Error("User not authenticated");
+
+    const { phone } = await req.json();
+    if (typeof phone !== "string" || !PHONE_PATTERN.test(phone)) {
+      throw new Error("Enter your phone number in international format, e.g. +15551234567");
+    }
+
+    const { data: existing } = await supabaseClient
+      .from("phone_verifications")
+      .select("sent_at")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (existing && Date.now() - new Date(existing.sent_at).getTime() < RESEND_AFTER_MS) {
+      return new Response(JSON.stringify({ error: "Wait a minute before asking for another code" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 429,
+      });
+    }
+
+    const { count: recentSends, error: countError } = await supabaseClient
+      .from("phone_otp_sends")
+      .select("id", { count: "exact", head: true })
+      .eq("phone", phone)
+      .gte("sent_at", new Date(Date.now() - PHONE_WINDOW_MS).toISOString());
+    if (countError) throw countError;
+
+    if ((recentSends ?? 0) >= MAX_SENDS_PER_PHONE) {
+      return new Response(JSON.stringify({ error: "Too many codes were sent to this number. Try again later." }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 429,
+      });
+    }
+
+    const code = (crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000).toString().padStart(6, "0");
+    const expiresAt = new Date(Date.now() + CODE_TTL_MS).toISOString();
+
+    const { error } = await supabaseClient
+      .from("phone_verifications")
+      .upsert({
+        user_id: user.id,
+        phone,
+        code_hash: await sha256Hex(`${user.id}:${code}`),
+        sent_at: new Date().toISOString(),
+        expires_at: expiresAt,
+        attempts: 0,
+        verified_at: null,
+      });
+    if (error) throw error;
+
+    const { error: logError } = await supabaseClient
+      .from("phone_otp_sends")
+      .insert({ phone, user_id: user.id });
+    if (logError) throw logError;
+
+    await getOtpProvider().sendCode(phone, `Your BorrowPal verification code is ${code}. It expires in 10 minutes.`);
+
+    return new Response(JSON.stringify({ expires_at: expiresAt }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+  } catch (error) {
+    console.error("Phone OTP error:", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
@@ -0,0 +1,105 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@18.5.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+// Releases or captures deposit holds queued by the database (return scans,
+// cancellations and damage claims). Invoked every 15 minutes by pg_cron.
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (!serviceRoleKey || token !== serviceRoleKey) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    serviceRoleKey,
+    { auth: { persistSession: false } }
+  );
+
+  const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+    apiVersion: "2025-08-27.basil",
+  });
+
+  const { data: orders, error } = await supabaseClient
+    .from("orders")
+    .select("id, deposit_status, deposit_payment_intent_id, deposit_claim_amount, deposit_release_after")
+    .in("deposit_status", ["release_pending", "capture_pending"])
+    // Deposits wait for open disputes to be resolved
+    .eq("has_open_dispute", false)
+    .limit(100);
+
+  if (error) {
+    console.error("Failed to load deposits:", error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+
+  const results: { order_id: string; outcome: string }[] = [];
+
+  for (const order of orders ?? []) {
+    try {
+      if (order.deposit_status === "release_pending") {
+        // Still inside the lender's claim window
+        if (order.deposit_release_after && new Date(order.deposit_release_after) > new Date()) continue;
+
+        const intent = await stripe.paymentIntents.retrieve(order.deposit_payment_intent_id);
+        if (intent.status === "requires_capture") {
+          await stripe.paymentIntents.cancel(intent.id, undefined, {
+            idempotencyKey: `deposit-release-${order.id}`,
+          });
+        }
+
+        const { error: settleError } = await supabaseClient.rpc("settle_deposit", {
+          p_order_id: order.id,
+          p_captured_amount: 0,
+        });
+        if (settleError) throw new Error(`settle_deposit failed: ${settleError.message}`);
+        results.push({ order_id: order.id, outcome: "released" });
+      } else {
+        const intent = await stripe.paymentIntents.retrieve(order.deposit_payment_intent_id);
+        let captured = intent.amount_received / 100;
+
+        // Authorizations lapse after about 7 days, so long rentals can outlive the hold
+        if (intent.status !== "requires_capture" && intent.status !== "succeeded") {
+          const { error: failureError } = await supabaseClient.rpc("record_deposit_capture_failure", {
+            p_order_id: order.id,
+            p_failure_reason: `The hold on the borrower's card ended before the claim was charged (status: ${intent.status}).`,
+          });
+          if (failureError) throw new Error(`record_deposit_capture_failure failed: ${failureError.message}`);
+          results.push({ order_id: order.id, outcome: "claim failed" });
+          continue;
+        }
+
+        // Capturing less than the hold releases the remainder automatically
+        if (intent.status === "requires_capture") {
+          const capturedIntent = await stripe.paymentIntents.capture(
+            intent.id,
+            { amount_to_capture: Math.round(order.deposit_claim_amount * 100) },
+            { idempotencyKey: `deposit-capture-${order.id}` }
+          );
+          captured = capturedIntent.amount_received / 100;
+        }
+
+        const { error: settleError } = await supabaseClient.rpc("settle_deposit", {
+          p_order_id: order.id,
+          p_captured_amount: captured,
+        });
+        if (settleError) throw new Error(`settle_deposit failed: ${settleError.message}`);
+        results.push({ order_id: order.id, outcome: `captured ${captured}` });
+      }
+    } catch (err) {
+      // Leave the order queued; the next run retries it
+      console.error(`Failed to settle deposit for order ${order.id}:`, err.message);
+      results.push({ order_id: order.id, outcome: `error: ${err.message}` });
+    }
+  }
+
+  return jsonResponse({ processed: results.length, results }, 200);
+});
@@ -0,0 +1,172 @@
+import type Stripe from "https://esm.sh/stripe@18.5.0";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+export interface HandledEvent {
+  orderId: string | null;
+  applied: boolean;
+}
+
+const callRpc = async (
+  supabase: SupabaseClient,
+  fn: string,
+  args: Record<string, unknown>
+): Promise<boolean> => {
+  const { data, error } = await supabase.rpc(fn, args);
+  if (error) throw new Error(`${fn} failed: ${error.message}`);
+  return data === true;
+};
+
+// Orders are resolved from metadata first, then from the stored payment intent
+const findOrderId = async (
+  supabase: SupabaseClient,
+  metadata: Stripe.Metadata | null | undefined,
+  paymentIntentId: string | null
+): Promise<string | null> => {
+  if (metadata?.order_id) return metadata.order_id;
+  if (!paymentIntentId) return null;
+
+  const { data } = await supabase
+    .from("orders")
+    .select("id")
+    .eq("stripe_payment_intent_id", paymentIntentId)
+    .maybeSingle();
+
+  return data?.id ?? null;
+};
+
+const idOf = (value: string | { id: string } | null | undefined) =>
+  typeof value === "string" ? value : value?.id ?? null;
+
+// Deposit holds are separate manual-capture intents; their lifecycle is owned by settle-deposits
+const isDepositIntent = (metadata: Stripe.Metadata | null | undefined) =>
+  metadata?.kind === "deposit";
+
+// Places the deposit hold with the card saved during checkout. Safe to call from
+// both the session and the intent event: Stripe's idempotency key and the
+// 'pending' guard in record_deposit_hold make the second call a no-op.
+const placeDepositHold = async (
+  stripe: Stripe,
+  supabase: SupabaseClient,
+  orderId: string,
+  paymentIntentId: string | null
+) => {
+  const { data: order } = await supabase
+    .from("orders")
+    .select("deposit_amount, deposit_status, currency")
+    .eq("id", orderId)
+    .single();
+
+  if (!order || order.deposit_status !== "pending" || !paymentIntentId) return;
+
+  const rental = await stripe.paymentIntents.retrieve(paymentIntentId);
+
+  let hold: Stripe.PaymentIntent | null = null;
+  let failureReason: string | null = null;
+  try {
+    hold = await stripe.paymentIntents.create(
+      {
+        amount: Math.round(order.deposit_amount * 100),
+        currency: order.currency || "usd",
+        customer: idOf(rental.customer) ?? undefined,
+        payment_method: idOf(rental.payment_method) ?? undefined,
+        capture_method: "manual",
+        confirm: true,
+        off_session: true,
+        description: "Refundable security deposit",
+        metadata: { order_id: orderId, kind: "deposit" },
+      },
+      { idempotencyKey: `deposit-hold-${orderId}` }
+    );
+  } catch (error) {
+    console.error(`Deposit hold failed for order ${orderId}:`, error.message);
+    // Off-session holds cannot be authenticated, so cards that need SCA fail here
+    failureReason = error.code === "authentication_required"
+      ? "The borrower's bank asked for authentication, which is not possible after checkout."
+      : error.message;
+  }
+
+  if (hold && hold.status !== "requires_capture") {
+    failureReason = `The card did not authorize the hold (status: ${hold.status}).`;
+  }
+
+  await callRpc(supabase, "record_deposit_hold", {
+    p_order_id: orderId,
+    p_payment_intent_id: hold?.id ?? null,
+    p_held: hold?.status === "requires_capture",
+    p_failure_reason: failureReason,
+  });
+};
+
+export const handleStripeEvent = async (
+  stripe: Stripe,
+  supabase: SupabaseClient,
+  event: Stripe.Event
+): Promise<HandledEvent> => {
+  switch (event.type) {
+    case "checkout.session.completed": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      const paymentIntentId = idOf(session.payment_intent);
+      const orderId = await findOrderId(supabase, session.metadata, paymentIntentId);
+      if (!orderId) return { orderId: null, applied: false };
+
+      // Delayed payment methods complete the session before the money arrives
+      if (session.payment_status !== "paid") return { orderId, applied: false };
+
+      const applied = await callRpc(supabase, "mark_order_paid", {
+        p_order_id: orderId,
+        p_payment_intent_id: paymentIntentId,
+      });
+      await placeDepositHold(stripe, supabase, orderId, paymentIntentId);
+      return { orderId, applied };
+    }
+
+    case "payment_intent.succeeded": {
+      const intent = event.data.object as Stripe.PaymentIntent;
+      if (isDepositIntent(intent.metadata)) return { orderId: intent.metadata.order_id, applied: false };
+
+      const orderId = await findOrderId(supabase, intent.metadata, intent.id);
+      if (!orderId) return { orderId: null, applied: false };
+
+      const applied = await callRpc(supabase, "mark_order_paid", {
+        p_order_id: orderId,
+        p_payment_intent_id: intent.id,
+      });
+      await placeDepositHold(stripe, supabase, orderId, intent.id);
+      return { orderId, applied };
+    }
+
+    case "payment_intent.payment_failed": {
+      const intent = event.data.object as Stripe.PaymentIntent;
+      if (isDepositIntent(intent.metadata)) return { orderId: intent.metadata.order_id, applied: false };
+
+      const orderId = await findOrderId(supabase, intent.metadata, intent.id);
+      if (!orderId) return { orderId: null, applied: false };
+
+      const applied = await callRpc(supabase, "mark_order_payment_failed", {
+        p_order_id: orderId,
+        p_payment_intent_id: intent.id,
+        p_reason: intent.last_payment_error?.message ?? null,
+      });
+      return { orderId, applied };
+    }
+
+    case "charge.refunded": {
+      const charge = event.data.object as Stripe.Charge;
+      // Releasing or partially capturing a deposit hold refunds the deposit charge, not the rental
+      if (isDepositIntent(charge.metadata)) return { orderId: charge.metadata.order_id, applied: false };
+
+      const orderId = await findOrderId(supabase, charge.metadata, idOf(charge.payment_intent));
+      if (!orderId) return { orderId: null, applied: false };
+
+      const applied = await callRpc(supabase, "mark_order_refunded", {
+        p_order_id: orderId,
+        p_amount_refunded: charge.amount_refunded / 100,
+        p_fully_refunded: charge.refunded,
+      });
+      return { orderId, applied };
+    }
+
+    default:
+      return { orderId: null, applied: false };
+  }
+};
@@ -0,0 +1,97 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@18.5.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { handleStripeEvent } from "./handlers.ts";
+
+const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+  apiVersion: "2025-08-27.basil",
+});
+
+const cryptoProvider = Stripe.createSubtleCryptoProvider();
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const signature = req.headers.get("Stripe-Signature");
+  if (!signature) {
+    return jsonResponse({ error: "Missing Stripe-Signature header" }, 400);
+  }
+
+  // Signature verification needs the raw, unparsed body
+  const body = await req.text();
+
+  let event: Stripe.Event;
+  try {
+    event = await stripe.webhooks.constructEventAsync(
+      body,
+      signature,
+      Deno.env.get("STRIPE_WEBHOOK_SECRET") || "",
+      undefined,
+      cryptoProvider
+    );
+  } catch (error) {
+    console.error("Webhook signature verification failed:", error.message);
+    return jsonResponse({ error: "Invalid signature" }, 400);
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  // Stripe redelivers events; anything already processed is acknowledged and skipped
+  const { data: existing } = await supabaseClient
+    .from("stripe_events")
+    .select("processed_at")
+    .eq("id", event.id)
+    .maybeSingle();
+
+  if (existing?.processed_at) {
+    return jsonResponse({ received: true, duplicate: true }, 200);
+  }
+
+  if (!existing) {
+    const { error: insertError } = await supabaseClient
+      .from("stripe_events")
+      .insert({ id: event.id, type: event.type, payload: event });
+
+    // A concurrent delivery of the same event won the insert
+    if (insertError?.code === "23505") {
+      return jsonResponse({ received: true, duplicate: true }, 200);
+    }
+    if (insertError) {
+      console.error("Failed to log Stripe event:", insertError);
+      return jsonResponse({ error: "Failed to log event" }, 500);
+    }
+  }
+
+  try {
+    const result = await handleStripeEvent(stripe, supabaseClient, event);
+
+    await supabaseClient
+      .from("stripe_events")
+      .update({ order_id: result.orderId, processed_at: new Date().toISOString(), error: null })
+      .eq("id", event.id);
+
+    return jsonResponse({ received: true, applied: result.applied }, 200);
+  } catch (error) {
+    console.error(`Failed to handle ${event.type}:`, error);
+
+    await supabaseClient
+      .from("stripe_events")
+      .update({ error: error.message })
+      .eq("id", event.id);
+
+    // A non-2xx response makes Stripe retry the event later
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
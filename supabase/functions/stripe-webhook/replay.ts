@@ -0,0 +1,55 @@
+// Local fake for Stripe: signs the recorded event payloads in ./fixtures with
+// the webhook secret and posts them to a locally served stripe-webhook function.
+//
+//   supabase functions serve stripe-webhook --no-verify-jwt --env-file supabase/.env.local
+//   deno run --allow-read --allow-net --allow-env supabase/functions/stripe-webhook/replay.ts \
+//     --order <order uuid> [charge.refunded ...]
+//
+// With no fixture names every fixture is replayed in the order a real payment produces them.
+// Each fixture is sent twice to exercise the duplicate-delivery path.
+// Use an order without a deposit: deposit holds need a real test-mode payment intent.
+import Stripe from "https://esm.sh/stripe@18.5.0";
+import { parse } from "https://deno.land/std@0.190.0/flags/mod.ts";
+
+const DEFAULT_SEQUENCE = [
+  "payment_intent.payment_failed",
+  "checkout.session.completed",
+  "payment_intent.succeeded",
+  "charge.refunded.deposit",
+  "charge.refunded",
+];
+
+const args = parse(Deno.args, { string: ["order", "url"] });
+const orderId = args.order;
+const url = args.url ?? "http://localhost:54321/functions/v1/stripe-webhook";
+const secret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+
+if (!orderId || !secret) {
+  console.error("Usage: STRIPE_WEBHOOK_SECRET=whsec_... replay.ts --order <order uuid> [fixture...]");
+  Deno.exit(1);
+}
+
+const stripe = new Stripe("sk_test_replay", { apiVersion: "2025-08-27.basil" });
+const cryptoProvider = Stripe.createSubtleCryptoProvider();
+const fixtures = args._.length ? args._.map(String) : DEFAULT_SEQUENCE;
+
+for (const name of fixtures) {
+  const template = await Deno.readTextFile(new URL(`./fixtures/${name}.json`, import.meta.url));
+  const payload = template.replaceAll("{{ORDER_ID}}", orderId);
+
+  for (const attempt of ["delivery", "redelivery"]) {
+    const signature = await stripe.webhooks.generateTestHeaderStringAsync({
+      payload,
+      secret,
+      cryptoProvider,
+    });
+
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Stripe-Signature": signature },
+      body: payload,
+    });
+
+    console.log(`${name} (${attempt}): ${res.status} ${await res.text()}`);
+  }
+}
@@ -0,0 +1,224 @@
+-- Stripe webhook: payment event log and payment-driven order transitions
+
+-- Fully refunded orders get their own terminal state
+ALTER TYPE public.order_status ADD VALUE IF NOT EXISTS 'refunded';
+
+-- Track when an order was paid and how much has been refunded so far
+ALTER TABLE public.orders
+ADD COLUMN paid_at timestamp with time zone,
+ADD COLUMN refunded_amount numeric NOT NULL DEFAULT 0;
+
+-- Every Stripe event we receive, keyed by the Stripe event id so redeliveries are skipped
+CREATE TABLE IF NOT EXISTS public.stripe_events (
+  id text PRIMARY KEY,
+  type text NOT NULL,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  payload jsonb NOT NULL,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  processed_at timestamptz,
+  error text
+);
+
+-- No policies: only the webhook (service role) reads and writes this table
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_stripe_events_order ON public.stripe_events(order_id) WHERE order_id IS NOT NULL;
+CREATE INDEX idx_orders_payment_intent ON public.orders(stripe_payment_intent_id) WHERE stripe_payment_intent_id IS NOT NULL;
+
+-- Function to mark an order as paid and credit the seller's pending balance
+CREATE OR REPLACE FUNCTION public.mark_order_paid(
+  p_order_id uuid,
+  p_payment_intent_id text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  -- Already paid (or moved past payment): nothing to do
+  IF v_order.status <> 'accepted'::order_status THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.orders
+  SET status = 'paid'::order_status,
+      paid_at = now(),
+      stripe_payment_intent_id = COALESCE(p_payment_intent_id, stripe_payment_intent_id),
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  UPDATE public.profiles
+  SET pending_balance = COALESCE(pending_balance, 0) + v_order.final_amount
+  WHERE id = v_order.seller_id;
+
+  PERFORM public.create_notification(
+    v_order.buyer_id,
+    'payment'::notification_type,
+    'Payment confirmed',
+    'Your payment of $' || v_order.final_amount || ' was received. Arrange the handover with the owner.',
+    jsonb_build_object('order_id', v_order.id),
+    '/orders/' || v_order.id,
+    'View order',
+    'medium'
+  );
+
+  PERFORM public.create_notification(
+    v_order.seller_id,
+    'payment'::notification_type,
+    'Order paid',
+    'The borrower paid $' || v_order.final_amount || '. The funds are pending until the order completes.',
+    jsonb_build_object('order_id', v_order.id),
+    '/orders/' || v_order.id,
+    'View order',
+    'high'
+  );
+
+  RETURN true;
+END;
+$$;
+
+-- Function to record a failed payment attempt so the buyer can retry
+CREATE OR REPLACE FUNCTION public.mark_order_payment_failed(
+  p_order_id uuid,
+  p_payment_intent_id text,
+  p_reason text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_order.status <> 'accepted'::order_status THEN
+    RETURN false;
+  END IF;
+
+  -- Clearing the intent re-enables the "Proceed to Payment" action
+  UPDATE public.orders
+  SET stripe_payment_intent_id = NULL,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  PERFORM public.create_notification(
+    v_order.buyer_id,
+    'payment'::notification_type,
+    'Payment failed',
+    COALESCE(p_reason, 'Your payment could not be completed.') || ' Please try again.',
+    jsonb_build_object('order_id', v_order.id, 'payment_intent_id', p_payment_intent_id),
+    '/orders/' || v_order.id,
+    'Retry payment',
+    'high'
+  );
+
+  PERFORM public.create_notification(
+    v_order.seller_id,
+    'payment'::notification_type,
+    'Payment attempt failed',
+    'The borrower''s payment did not go through. We''ll let you know once it succeeds.',
+    jsonb_build_object('order_id', v_order.id),
+    '/orders/' || v_order.id,
+    'View order',
+    'low'
+  );
+
+  RETURN true;
+END;
+$$;
+
+-- Function to apply a (partial or full) refund reported by Stripe.
+-- p_amount_refunded is Stripe's cumulative refunded total for the charge,
+-- so replays of the same refund leave the order untouched.
+CREATE OR REPLACE FUNCTION public.mark_order_refunded(
+  p_order_id uuid,
+  p_amount_refunded numeric,
+  p_fully_refunded boolean
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_delta numeric;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  v_delta := p_amount_refunded - v_order.refunded_amount;
+  IF v_delta <= 0 THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.orders
+  SET refunded_amount = p_amount_refunded,
+      status = CASE WHEN p_fully_refunded THEN 'refunded'::order_status ELSE status END,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  UPDATE public.profiles
+  SET pending_balance = GREATEST(COALESCE(pending_balance, 0) - v_delta, 0)
+  WHERE id = v_order.seller_id;
+
+  PERFORM public.create_notification(
+    v_order.buyer_id,
+    'payment'::notification_type,
+    'Refund issued',
+    '$' || v_delta || ' has been refunded to your original payment method.',
+    jsonb_build_object('order_id', v_order.id, 'amount', v_delta),
+    '/orders/' || v_order.id,
+    'View order',
+    'medium'
+  );
+
+  PERFORM public.create_notification(
+    v_order.seller_id,
+    'payment'::notification_type,
+    'Order refunded',
+    '$' || v_delta || ' was refunded to the borrower and removed from your pending balance.',
+    jsonb_build_object('order_id', v_order.id, 'amount', v_delta),
+    '/orders/' || v_order.id,
+    'View order',
+    'medium'
+  );
+
+  RETURN true;
+END;
+$$;
+
+-- Payment transitions are driven by Stripe only, never from the browser
+REVOKE EXECUTE ON FUNCTION public.mark_order_paid(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_order_payment_failed(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_order_refunded(uuid, numeric, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_order_paid(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.mark_order_payment_failed(uuid, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.mark_order_refunded(uuid, numeric, boolean) TO service_role;
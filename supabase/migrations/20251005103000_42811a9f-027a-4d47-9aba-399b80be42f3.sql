@@ -0,0 +1,402 @@
+-- Security deposits: optional per-listing deposit held on the borrower's card
+
+CREATE TYPE public.deposit_status AS ENUM (
+  'none',
+  'pending',
+  'held',
+  'release_pending',
+  'capture_pending',
+  'released',
+  'captured',
+  'partially_captured',
+  'failed'
+);
+
+ALTER TABLE public.listings
+ADD COLUMN deposit_amount numeric NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0);
+
+-- Deposit lifecycle per order. The amount is snapshotted from the listing when the order is placed.
+ALTER TABLE public.orders
+ADD COLUMN deposit_amount numeric NOT NULL DEFAULT 0,
+ADD COLUMN deposit_status deposit_status NOT NULL DEFAULT 'none',
+ADD COLUMN deposit_payment_intent_id text,
+ADD COLUMN deposit_held_at timestamp with time zone,
+ADD COLUMN deposit_release_after timestamp with time zone,
+ADD COLUMN deposit_claim_amount numeric,
+ADD COLUMN deposit_claim_reason text,
+ADD COLUMN deposit_captured_amount numeric NOT NULL DEFAULT 0,
+ADD COLUMN deposit_settled_at timestamp with time zone,
+-- Why the hold could not be placed or the claim not charged, shown on the order
+ADD COLUMN deposit_failure_reason text;
+
+CREATE INDEX idx_orders_deposit_settlement ON public.orders(deposit_status, deposit_release_after)
+  WHERE deposit_status IN ('release_pending', 'capture_pending');
+
+-- Copy the listing's deposit onto new orders so buyers can't submit their own
+CREATE OR REPLACE FUNCTION public.set_order_deposit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(deposit_amount, 0) INTO NEW.deposit_amount
+  FROM public.listings
+  WHERE id = NEW.listing_id;
+
+  NEW.deposit_amount := COALESCE(NEW.deposit_amount, 0);
+  NEW.deposit_status := CASE WHEN NEW.deposit_amount > 0 THEN 'pending'::deposit_status ELSE 'none'::deposit_status END;
+  NEW.deposit_payment_intent_id := NULL;
+  NEW.deposit_captured_amount := 0;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_order_deposit
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_order_deposit();
+
+-- Queue the hold for release once the item is back (after a claim window),
+-- or straight away if the order is called off while the hold is still active.
+-- Orders called off before the hold was placed never get one.
+CREATE OR REPLACE FUNCTION public.queue_deposit_release()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deposit_status = 'pending'::deposit_status
+    AND NEW.status IN ('cancelled'::order_status, 'refunded'::order_status)
+    AND NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.deposit_status := 'released';
+    NEW.deposit_settled_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deposit_status <> 'held'::deposit_status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.return_scanned_at IS NOT NULL AND OLD.return_scanned_at IS NULL THEN
+    NEW.deposit_status := 'release_pending';
+    NEW.deposit_release_after := NEW.return_scanned_at + interval '24 hours';
+  ELSIF NEW.status IN ('cancelled'::order_status, 'refunded'::order_status)
+    AND NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.deposit_status := 'release_pending';
+    NEW.deposit_release_after := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_deposit_release
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_deposit_release();
+
+-- Function to record the outcome of placing the deposit hold (called by the Stripe webhook)
+CREATE OR REPLACE FUNCTION public.record_deposit_hold(
+  p_order_id uuid,
+  p_payment_intent_id text,
+  p_held boolean,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_order.deposit_status <> 'pending'::deposit_status THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.orders
+  SET deposit_status = CASE WHEN p_held THEN 'held'::deposit_status ELSE 'failed'::deposit_status END,
+      deposit_payment_intent_id = p_payment_intent_id,
+      deposit_held_at = CASE WHEN p_held THEN now() ELSE NULL END,
+      deposit_failure_reason = CASE WHEN p_held THEN NULL ELSE p_failure_reason END,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  IF p_held THEN
+    PERFORM public.create_notification(
+      v_order.buyer_id,
+      'payment'::notification_type,
+      'Deposit hold placed',
+      'A refundable hold of $' || v_order.deposit_amount || ' was placed on your card. It is released after the item is returned.',
+      jsonb_build_object('order_id', v_order.id),
+      '/orders/' || v_order.id,
+      'View order',
+      'low'
+    );
+  ELSE
+    PERFORM public.create_notification(
+      v_order.buyer_id,
+      'payment'::notification_type,
+      'Deposit hold failed',
+      'We could not place the $' || v_order.deposit_amount || ' deposit hold on your card. Contact the owner before pickup.',
+      jsonb_build_object('order_id', v_order.id),
+      '/orders/' || v_order.id,
+      'View order',
+      'high'
+    );
+
+    PERFORM public.create_notification(
+      v_order.seller_id,
+      'payment'::notification_type,
+      'Deposit not secured',
+      'The deposit hold for this order failed. You may want to agree on an alternative before handing over the item.',
+      jsonb_build_object('order_id', v_order.id),
+      '/orders/' || v_order.id,
+      'View order',
+      'high'
+    );
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Function for the lender to claim part or all of the deposit for damage
+CREATE OR REPLACE FUNCTION public.file_damage_claim(
+  p_order_id uuid,
+  p_amount numeric,
+  p_reason text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_order.seller_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the lender can file a damage claim';
+  END IF;
+
+  IF v_order.deposit_status NOT IN ('held'::deposit_status, 'release_pending'::deposit_status) THEN
+    RAISE EXCEPTION 'There is no active deposit hold on this order';
+  END IF;
+
+  IF v_order.deposit_status = 'release_pending'::deposit_status AND v_order.deposit_release_after <= now() THEN
+    RAISE EXCEPTION 'The claim window for this deposit has closed';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 OR p_amount > v_order.deposit_amount THEN
+    RAISE EXCEPTION 'Claim amount must be between 0 and %', v_order.deposit_amount;
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please describe the damage';
+  END IF;
+
+  UPDATE public.orders
+  SET deposit_status = 'capture_pending',
+      deposit_claim_amount = p_amount,
+      deposit_claim_reason = trim(p_reason),
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  PERFORM public.create_notification(
+    v_order.buyer_id,
+    'payment'::notification_type,
+    'Damage claim filed',
+    'The owner claimed $' || p_amount || ' of your $' || v_order.deposit_amount || ' deposit: ' || trim(p_reason),
+    jsonb_build_object('order_id', v_order.id, 'amount', p_amount),
+    '/orders/' || v_order.id,
+    'View order',
+    'high'
+  );
+END;
+$$;
+
+-- Function to record a settled deposit (called by the settle-deposits function after Stripe confirms)
+CREATE OR REPLACE FUNCTION public.settle_deposit(
+  p_order_id uuid,
+  p_captured_amount numeric
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_status deposit_status;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_order.deposit_status NOT IN ('release_pending'::deposit_status, 'capture_pending'::deposit_status) THEN
+    RETURN false;
+  END IF;
+
+  v_status := CASE
+    WHEN p_captured_amount <= 0 THEN 'released'::deposit_status
+    WHEN p_captured_amount >= v_order.deposit_amount THEN 'captured'::deposit_status
+    ELSE 'partially_captured'::deposit_status
+  END;
+
+  UPDATE public.orders
+  SET deposit_status = v_status,
+      deposit_captured_amount = GREATEST(p_captured_amount, 0),
+      deposit_settled_at = now(),
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  -- Captured deposit money goes to the lender
+  IF p_captured_amount > 0 THEN
+    UPDATE public.profiles
+    SET pending_balance = COALESCE(pending_balance, 0) + p_captured_amount
+    WHERE id = v_order.seller_id;
+  END IF;
+
+  PERFORM public.create_notification(
+    v_order.buyer_id,
+    'payment'::notification_type,
+    CASE WHEN v_status = 'released'::deposit_status THEN 'Deposit released' ELSE 'Deposit charged' END,
+    CASE WHEN v_status = 'released'::deposit_status
+      THEN 'The $' || v_order.deposit_amount || ' hold on your card has been released.'
+      ELSE '$' || p_captured_amount || ' of your deposit was charged for damage. The rest of the hold has been released.'
+    END,
+    jsonb_build_object('order_id', v_order.id, 'captured', p_captured_amount),
+    '/orders/' || v_order.id,
+    'View order',
+    'medium'
+  );
+
+  PERFORM public.create_notification(
+    v_order.seller_id,
+    'payment'::notification_type,
+    CASE WHEN v_status = 'released'::deposit_status THEN 'Deposit released' ELSE 'Damage claim paid' END,
+    CASE WHEN v_status = 'released'::deposit_status
+      THEN 'The borrower''s deposit hold has been released.'
+      ELSE '$' || p_captured_amount || ' from the deposit was added to your pending balance.'
+    END,
+    jsonb_build_object('order_id', v_order.id, 'captured', p_captured_amount),
+    '/orders/' || v_order.id,
+    'View order',
+    'low'
+  );
+
+  RETURN true;
+END;
+$$;
+
+-- Function to record a damage claim that could not be charged, usually because
+-- the authorization expired first (called by the settle-deposits function)
+CREATE OR REPLACE FUNCTION public.record_deposit_capture_failure(
+  p_order_id uuid,
+  p_failure_reason text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_order.deposit_status <> 'capture_pending'::deposit_status THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.orders
+  SET deposit_status = 'failed',
+      deposit_failure_reason = p_failure_reason,
+      deposit_settled_at = now(),
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  PERFORM public.create_notification(
+    v_order.seller_id,
+    'payment'::notification_type,
+    'Damage claim not charged',
+    'The $' || v_order.deposit_claim_amount || ' claim could not be charged from the deposit hold. '
+      || 'Report a problem on the order if you need help recovering the cost.',
+    jsonb_build_object('order_id', v_order.id, 'amount', v_order.deposit_claim_amount),
+    '/orders/' || v_order.id,
+    'View order',
+    'high'
+  );
+
+  PERFORM public.create_notification(
+    v_order.buyer_id,
+    'payment'::notification_type,
+    'Deposit hold ended',
+    'The hold on your card ended before the owner''s damage claim was charged. Nothing was charged from your deposit.',
+    jsonb_build_object('order_id', v_order.id),
+    '/orders/' || v_order.id,
+    'View order',
+    'medium'
+  );
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_deposit_hold(uuid, text, boolean, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.settle_deposit(uuid, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_deposit_capture_failure(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_deposit_hold(uuid, text, boolean, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.settle_deposit(uuid, numeric) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_deposit_capture_failure(uuid, text) TO service_role;
+
+-- Run the settle-deposits function every 15 minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'settle-deposits',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://xgdxmzijqbslplbttugp.supabase.co/functions/v1/settle-deposits',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,113 @@
+-- Bookings: rental periods for per_day and hourly listings
+
+CREATE EXTENSION IF NOT EXISTS btree_gist WITH SCHEMA extensions;
+
+ALTER TABLE public.orders
+ADD COLUMN starts_at timestamp with time zone,
+ADD COLUMN ends_at timestamp with time zone,
+ADD CONSTRAINT orders_booking_period_check CHECK (
+  (starts_at IS NULL AND ends_at IS NULL) OR (starts_at IS NOT NULL AND ends_at > starts_at)
+);
+
+-- A listing can only be booked once for any moment in time. Declined and
+-- called-off orders free their dates; completed ones free what is left of them.
+ALTER TABLE public.orders
+ADD CONSTRAINT orders_no_overlapping_bookings
+EXCLUDE USING gist (
+  listing_id WITH =,
+  tstzrange(starts_at, ends_at, '[)') WITH &&
+) WHERE (
+  starts_at IS NOT NULL
+  AND status NOT IN ('cancelled', 'rejected', 'refunded', 'completed')
+);
+
+-- Number of billable units in a booking: hours rounded up, or calendar days.
+-- Daily bookings run from midnight to midnight in the borrower's timezone, so
+-- a day with a DST change is 23 or 25 hours long and still counts as one.
+CREATE OR REPLACE FUNCTION public.booking_units(
+  p_price_type price_type,
+  p_starts_at timestamp with time zone,
+  p_ends_at timestamp with time zone
+)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT GREATEST(1, CASE
+    WHEN p_price_type = 'hourly' THEN CEIL(EXTRACT(EPOCH FROM (p_ends_at - p_starts_at)) / 3600)
+    ELSE ROUND(EXTRACT(EPOCH FROM (p_ends_at - p_starts_at)) / 86400)
+  END)::integer;
+$$;
+
+-- Price bookings from their duration so clients can't submit their own total
+CREATE OR REPLACE FUNCTION public.price_booking()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing public.listings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_listing
+  FROM public.listings
+  WHERE id = NEW.listing_id;
+
+  IF v_listing.price_type NOT IN ('per_day', 'hourly') THEN
+    IF NEW.starts_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Only daily and hourly listings can be booked for a period';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.starts_at IS NULL THEN
+    RAISE EXCEPTION 'Choose the dates you want to book';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.starts_at < now() - interval '1 day' THEN
+    RAISE EXCEPTION 'Bookings cannot start in the past';
+  END IF;
+
+  -- Whole calendar days only, allowing for the hour gained or lost to DST
+  IF v_listing.price_type = 'per_day'
+    AND abs(EXTRACT(EPOCH FROM (NEW.ends_at - NEW.starts_at)) / 3600
+      - 24 * public.booking_units('per_day', NEW.starts_at, NEW.ends_at)) > 1 THEN
+    RAISE EXCEPTION 'Daily bookings must cover whole days';
+  END IF;
+
+  NEW.quantity := 1;
+  NEW.original_price := v_listing.price;
+  NEW.final_amount := v_listing.price * public.booking_units(v_listing.price_type, NEW.starts_at, NEW.ends_at);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER price_booking
+  BEFORE INSERT OR UPDATE OF starts_at, ends_at ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.price_booking();
+
+CREATE INDEX idx_orders_listing_period ON public.orders(listing_id, starts_at)
+  WHERE starts_at IS NOT NULL;
+
+-- Function to list booked periods for a listing. Orders are private to their
+-- participants, so this only exposes the time ranges.
+CREATE OR REPLACE FUNCTION public.get_listing_availability(
+  p_listing_id uuid,
+  p_from timestamp with time zone DEFAULT now(),
+  p_to timestamp with time zone DEFAULT now() + interval '6 months'
+)
+RETURNS TABLE (starts_at timestamp with time zone, ends_at timestamp with time zone)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.starts_at, o.ends_at
+  FROM public.orders o
+  WHERE o.listing_id = p_listing_id
+    AND o.starts_at IS NOT NULL
+    AND o.status NOT IN ('cancelled', 'rejected', 'refunded', 'completed')
+    AND tstzrange(o.starts_at, o.ends_at, '[)') && tstzrange(p_from, p_to, '[)')
+  ORDER BY o.starts_at;
+$$;
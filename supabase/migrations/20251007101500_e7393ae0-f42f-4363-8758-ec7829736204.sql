@@ -0,0 +1,353 @@
+-- Order state machine: every status change goes through transition_order
+
+CREATE TYPE public.order_event AS ENUM (
+  'offer',
+  'counter',
+  'accept',
+  'decline',
+  'cancel',
+  'ship',
+  'complete'
+);
+
+-- Audit trail of every transition fired on an order
+CREATE TABLE IF NOT EXISTS public.order_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  event order_event NOT NULL,
+  from_status order_status,
+  to_status order_status NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.order_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view order events"
+ON public.order_events
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_events.order_id
+      AND (o.buyer_id = auth.uid() OR o.seller_id = auth.uid())
+  )
+);
+
+CREATE INDEX idx_order_events_order ON public.order_events(order_id, created_at);
+
+-- Orders and negotiations are only changed through transition_order from now on
+REVOKE UPDATE ON public.orders FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.order_negotiations FROM anon, authenticated;
+
+-- New orders always start pending at the listed price; offers are made afterwards
+CREATE OR REPLACE FUNCTION public.prepare_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing public.listings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_listing
+  FROM public.listings
+  WHERE id = NEW.listing_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Listing % not found', NEW.listing_id;
+  END IF;
+
+  IF v_listing.seller_id = NEW.buyer_id THEN
+    RAISE EXCEPTION 'You cannot order your own listing';
+  END IF;
+
+  NEW.seller_id := v_listing.seller_id;
+  NEW.status := 'pending'::order_status;
+  NEW.quantity := GREATEST(COALESCE(NEW.quantity, 1), 1);
+  NEW.original_price := v_listing.price;
+  NEW.negotiated_price := NULL;
+  NEW.final_amount := v_listing.price * NEW.quantity;
+
+  -- Payment, handover and deposit state is only ever written by the server
+  NEW.paid_at := NULL;
+  NEW.stripe_payment_intent_id := NULL;
+  NEW.refunded_amount := 0;
+  NEW.qr_code_data := NULL;
+  NEW.delivery_scanned_at := NULL;
+  NEW.delivery_scanned_by := NULL;
+  NEW.return_scanned_at := NULL;
+  NEW.return_scanned_by := NULL;
+  NEW.service_start_scan := NULL;
+  NEW.service_end_scan := NULL;
+  NEW.deposit_held_at := NULL;
+  NEW.deposit_release_after := NULL;
+  NEW.deposit_claim_amount := NULL;
+  NEW.deposit_claim_reason := NULL;
+  NEW.deposit_settled_at := NULL;
+  NEW.deposit_failure_reason := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_order
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_order();
+
+-- Function to fire an event on an order. Checks which party may fire it from
+-- the current status, applies it, records it in order_events and notifies
+-- the other party. Returns the new status.
+CREATE OR REPLACE FUNCTION public.transition_order(
+  p_order_id uuid,
+  p_event order_event,
+  p_payload jsonb DEFAULT '{}'::jsonb
+)
+RETURNS order_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_last public.order_negotiations%ROWTYPE;
+  v_actor uuid := auth.uid();
+  v_is_buyer boolean;
+  v_is_seller boolean;
+  v_other uuid;
+  v_price_type price_type;
+  v_units integer;
+  v_amount numeric;
+  v_message text := NULLIF(p_payload->>'message', '');
+  v_to order_status;
+  v_title text;
+  v_body text;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  v_is_buyer := v_actor = v_order.buyer_id;
+  v_is_seller := v_actor = v_order.seller_id;
+
+  IF NOT COALESCE(v_is_buyer OR v_is_seller, false) THEN
+    RAISE EXCEPTION 'Not a participant in order %', p_order_id;
+  END IF;
+
+  v_other := CASE WHEN v_is_buyer THEN v_order.seller_id ELSE v_order.buyer_id END;
+
+  -- The latest offer on the table, if any. Only the party who did not make it may answer it.
+  SELECT * INTO v_last
+  FROM public.order_negotiations
+  WHERE order_id = p_order_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF p_event IN ('offer', 'counter') THEN
+    v_amount := (p_payload->>'amount')::numeric;
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      RAISE EXCEPTION 'Offer amount must be greater than zero';
+    END IF;
+  END IF;
+
+  -- Offers are per unit: per item, per day or per hour depending on the listing
+  SELECT price_type INTO v_price_type
+  FROM public.listings
+  WHERE id = v_order.listing_id;
+
+  v_units := CASE
+    WHEN v_order.starts_at IS NOT NULL THEN public.booking_units(v_price_type, v_order.starts_at, v_order.ends_at)
+    ELSE COALESCE(v_order.quantity, 1)
+  END;
+
+  CASE p_event
+    WHEN 'offer' THEN
+      IF NOT v_is_buyer OR v_order.status <> 'pending' OR v_last.id IS NOT NULL THEN
+        RAISE EXCEPTION 'Only the buyer can make the opening offer on a pending order';
+      END IF;
+
+      v_to := 'negotiating';
+      UPDATE public.orders
+      SET status = v_to, negotiated_price = v_amount, final_amount = v_amount * v_units, updated_at = now()
+      WHERE id = p_order_id;
+
+      INSERT INTO public.order_negotiations (order_id, from_user_id, action, amount, message)
+      VALUES (p_order_id, v_actor, 'offer', v_amount, v_message);
+
+      v_title := 'New offer';
+      v_body := 'You received an offer of $' || v_amount || ' per unit.';
+
+    WHEN 'counter' THEN
+      IF v_order.status NOT IN ('pending', 'negotiating') OR v_last.id IS NULL OR v_last.from_user_id = v_actor THEN
+        RAISE EXCEPTION 'There is no offer for you to counter on order %', p_order_id;
+      END IF;
+
+      v_to := 'negotiating';
+      UPDATE public.orders
+      SET status = v_to, negotiated_price = v_amount, final_amount = v_amount * v_units, updated_at = now()
+      WHERE id = p_order_id;
+
+      INSERT INTO public.order_negotiations (order_id, from_user_id, action, amount, message)
+      VALUES (p_order_id, v_actor, 'counter', v_amount, v_message);
+
+      v_title := 'Counter offer';
+      v_body := 'You received a counter offer of $' || v_amount || ' per unit.';
+
+    WHEN 'accept' THEN
+      IF v_order.status = 'pending' AND v_last.id IS NULL THEN
+        IF NOT v_is_seller THEN
+          RAISE EXCEPTION 'Only the seller can accept an order';
+        END IF;
+
+        v_to := 'accepted';
+        UPDATE public.orders
+        SET status = v_to, updated_at = now()
+        WHERE id = p_order_id;
+      ELSIF v_order.status IN ('pending', 'negotiating') AND v_last.id IS NOT NULL AND v_last.from_user_id <> v_actor THEN
+        v_to := 'accepted';
+        UPDATE public.orders
+        SET status = v_to, negotiated_price = v_last.amount, final_amount = v_last.amount * v_units, updated_at = now()
+        WHERE id = p_order_id;
+
+        INSERT INTO public.order_negotiations (order_id, from_user_id, action, amount, message)
+        VALUES (p_order_id, v_actor, 'accept', v_last.amount, v_message);
+      ELSE
+        RAISE EXCEPTION 'There is nothing for you to accept on order %', p_order_id;
+      END IF;
+
+      v_title := 'Order accepted';
+      v_body := CASE WHEN v_is_seller
+        THEN 'Your order was accepted. You can now pay for it.'
+        ELSE 'The buyer accepted your offer and can now pay for the order.'
+      END;
+
+    WHEN 'decline' THEN
+      IF v_order.status = 'pending' AND v_last.id IS NULL THEN
+        IF NOT v_is_seller THEN
+          RAISE EXCEPTION 'Only the seller can decline an order';
+        END IF;
+      ELSIF v_order.status IN ('pending', 'negotiating') AND v_last.id IS NOT NULL AND v_last.from_user_id <> v_actor THEN
+        INSERT INTO public.order_negotiations (order_id, from_user_id, action, amount, message)
+        VALUES (p_order_id, v_actor, 'reject', v_last.amount, v_message);
+      ELSE
+        RAISE EXCEPTION 'There is nothing for you to decline on order %', p_order_id;
+      END IF;
+
+      v_to := 'rejected';
+      UPDATE public.orders
+      SET status = v_to, updated_at = now()
+      WHERE id = p_order_id;
+
+      v_title := CASE WHEN v_last.id IS NULL THEN 'Order declined' ELSE 'Offer declined' END;
+      v_body := CASE WHEN v_last.id IS NULL THEN 'Your order was declined.' ELSE 'Your offer was declined.' END
+        || COALESCE(' ' || v_message, '');
+
+    WHEN 'cancel' THEN
+      -- Buyers can back out until they pay; sellers only once they have accepted
+      IF NOT (
+        (v_is_buyer AND v_order.status IN ('pending', 'negotiating', 'accepted'))
+        OR (v_is_seller AND v_order.status = 'accepted')
+      ) THEN
+        RAISE EXCEPTION 'Order % can no longer be cancelled', p_order_id;
+      END IF;
+
+      v_to := 'cancelled';
+      UPDATE public.orders
+      SET status = v_to, updated_at = now()
+      WHERE id = p_order_id;
+
+      v_title := 'Order cancelled';
+      v_body := COALESCE('The order was cancelled: ' || v_message, 'The order was cancelled.');
+
+    WHEN 'ship' THEN
+      IF NOT v_is_seller OR v_order.status <> 'paid' THEN
+        RAISE EXCEPTION 'Only the seller can ship a paid order';
+      END IF;
+
+      v_to := 'shipped';
+      UPDATE public.orders
+      SET status = v_to, updated_at = now()
+      WHERE id = p_order_id;
+
+      v_title := 'Order shipped';
+      v_body := 'Your order is on its way.';
+
+    WHEN 'complete' THEN
+      IF NOT v_is_buyer OR v_order.status NOT IN ('paid', 'shipped') THEN
+        RAISE EXCEPTION 'Only the buyer can complete a paid order';
+      END IF;
+
+      v_to := 'completed';
+      UPDATE public.orders
+      SET status = v_to, updated_at = now()
+      WHERE id = p_order_id;
+
+      v_title := 'Order completed';
+      v_body := 'The buyer marked the order as completed.';
+  END CASE;
+
+  INSERT INTO public.order_events (order_id, actor_id, event, from_status, to_status, payload)
+  VALUES (p_order_id, v_actor, p_event, v_order.status, v_to, COALESCE(p_payload, '{}'::jsonb));
+
+  PERFORM public.create_notification(
+    v_other,
+    'order'::notification_type,
+    v_title,
+    v_body,
+    jsonb_build_object('order_id', p_order_id, 'event', p_event),
+    '/orders/' || p_order_id,
+    'View order',
+    'medium'
+  );
+
+  RETURN v_to;
+END;
+$$;
+
+-- Function for buyers to place an order and make the opening offer in one go,
+-- so an offer that is turned down never leaves a bare pending order behind.
+-- p_amount is per unit, like the offer payload. Returns the new order's id.
+CREATE OR REPLACE FUNCTION public.place_order_with_offer(
+  p_listing_id uuid,
+  p_quantity integer,
+  p_notes text,
+  p_amount numeric,
+  p_message text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- prepare_order fills in the seller, status and listed price
+  INSERT INTO public.orders (buyer_id, listing_id, quantity, notes)
+  VALUES (auth.uid(), p_listing_id, p_quantity, p_notes)
+  RETURNING id INTO v_order_id;
+
+  PERFORM public.transition_order(
+    v_order_id,
+    'offer',
+    jsonb_build_object('amount', p_amount, 'message', p_message)
+  );
+
+  RETURN v_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transition_order(uuid, order_event, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.transition_order(uuid, order_event, jsonb) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.place_order_with_offer(uuid, integer, text, numeric, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order_with_offer(uuid, integer, text, numeric, text) TO authenticated;
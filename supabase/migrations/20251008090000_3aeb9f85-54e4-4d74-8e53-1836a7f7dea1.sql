@@ -0,0 +1,236 @@
+-- Active rentals: the in_progress phase between handover and return
+
+-- Set by the pickup / service start scan, cleared by the return / service end scan
+ALTER TYPE public.order_status ADD VALUE IF NOT EXISTS 'in_progress' AFTER 'shipped';
+
+-- QR scans are recorded in the order audit trail alongside transition_order events
+ALTER TYPE public.order_event ADD VALUE IF NOT EXISTS 'hand_over';
+ALTER TYPE public.order_event ADD VALUE IF NOT EXISTS 'return';
+
+-- When the overdue-return detector flagged the order
+ALTER TABLE public.orders
+ADD COLUMN return_overdue_at timestamp with time zone;
+
+-- New orders never start flagged as overdue
+CREATE OR REPLACE FUNCTION public.prepare_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing public.listings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_listing
+  FROM public.listings
+  WHERE id = NEW.listing_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Listing % not found', NEW.listing_id;
+  END IF;
+
+  IF v_listing.seller_id = NEW.buyer_id THEN
+    RAISE EXCEPTION 'You cannot order your own listing';
+  END IF;
+
+  NEW.seller_id := v_listing.seller_id;
+  NEW.status := 'pending'::order_status;
+  NEW.quantity := GREATEST(COALESCE(NEW.quantity, 1), 1);
+  NEW.original_price := v_listing.price;
+  NEW.negotiated_price := NULL;
+  NEW.final_amount := v_listing.price * NEW.quantity;
+
+  -- Payment, handover and deposit state is only ever written by the server
+  NEW.paid_at := NULL;
+  NEW.stripe_payment_intent_id := NULL;
+  NEW.refunded_amount := 0;
+  NEW.qr_code_data := NULL;
+  NEW.delivery_scanned_at := NULL;
+  NEW.delivery_scanned_by := NULL;
+  NEW.return_scanned_at := NULL;
+  NEW.return_scanned_by := NULL;
+  NEW.service_start_scan := NULL;
+  NEW.service_end_scan := NULL;
+  NEW.deposit_held_at := NULL;
+  NEW.deposit_release_after := NULL;
+  NEW.deposit_claim_amount := NULL;
+  NEW.deposit_claim_reason := NULL;
+  NEW.deposit_settled_at := NULL;
+  NEW.deposit_failure_reason := NULL;
+  NEW.return_overdue_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+-- Function to verify QR scan. Handovers start the rental and returns finish it,
+-- each only from the phase before it.
+CREATE OR REPLACE FUNCTION public.verify_qr_scan(
+  p_order_id uuid,
+  p_qr_secret text,
+  p_scan_type text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_actor uuid := auth.uid();
+  v_other uuid;
+  v_event order_event;
+  v_to order_status;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_actor IS NULL OR v_actor NOT IN (v_order.buyer_id, v_order.seller_id) THEN
+    RAISE EXCEPTION 'Not a participant in order %', p_order_id;
+  END IF;
+
+  -- Verify secret and expiration
+  IF v_order.qr_code_data->>'secret' IS DISTINCT FROM p_qr_secret
+    OR (v_order.qr_code_data->>'expires_at')::timestamp with time zone <= now() THEN
+    RETURN false;
+  END IF;
+
+  IF p_scan_type IN ('delivery', 'service_start') THEN
+    IF v_order.status NOT IN ('paid', 'shipped') THEN
+      RAISE EXCEPTION 'Order % is not ready to be handed over', p_order_id;
+    END IF;
+    v_event := 'hand_over';
+    v_to := 'in_progress';
+  ELSIF p_scan_type IN ('return', 'service_end') THEN
+    IF v_order.status <> 'in_progress' THEN
+      RAISE EXCEPTION 'Order % is not in progress', p_order_id;
+    END IF;
+    v_event := 'return';
+    v_to := 'completed';
+  ELSE
+    RAISE EXCEPTION 'Unknown scan type %', p_scan_type;
+  END IF;
+
+  -- Update scan timestamp based on type
+  IF p_scan_type = 'delivery' THEN
+    UPDATE public.orders
+    SET delivery_scanned_at = now(),
+        delivery_scanned_by = v_actor,
+        status = v_to,
+        updated_at = now()
+    WHERE id = p_order_id;
+  ELSIF p_scan_type = 'return' THEN
+    UPDATE public.orders
+    SET return_scanned_at = now(),
+        return_scanned_by = v_actor,
+        status = v_to,
+        updated_at = now()
+    WHERE id = p_order_id;
+  ELSIF p_scan_type = 'service_start' THEN
+    UPDATE public.orders
+    SET service_start_scan = now(),
+        status = v_to,
+        updated_at = now()
+    WHERE id = p_order_id;
+  ELSE
+    UPDATE public.orders
+    SET service_end_scan = now(),
+        status = v_to,
+        updated_at = now()
+    WHERE id = p_order_id;
+  END IF;
+
+  INSERT INTO public.order_events (order_id, actor_id, event, from_status, to_status, payload)
+  VALUES (p_order_id, v_actor, v_event, v_order.status, v_to, jsonb_build_object('scan_type', p_scan_type));
+
+  v_other := CASE WHEN v_actor = v_order.buyer_id THEN v_order.seller_id ELSE v_order.buyer_id END;
+
+  PERFORM public.create_notification(
+    v_other,
+    'order'::notification_type,
+    CASE WHEN v_event = 'hand_over' THEN 'Rental started' ELSE 'Rental returned' END,
+    CASE WHEN v_event = 'hand_over'
+      THEN 'The handover was confirmed by QR scan.'
+      ELSE 'The return was confirmed by QR scan. The order is now complete.'
+    END,
+    jsonb_build_object('order_id', p_order_id, 'event', v_event),
+    '/orders/' || p_order_id,
+    'View order',
+    'medium'
+  );
+
+  RETURN true;
+END;
+$$;
+
+-- Function to flag active rentals that are past their end and not yet returned.
+-- Each order is flagged (and both parties notified) once.
+CREATE OR REPLACE FUNCTION public.flag_overdue_returns()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order record;
+  v_count integer := 0;
+BEGIN
+  FOR v_order IN
+    SELECT o.id, o.buyer_id, o.seller_id, o.ends_at, l.title
+    FROM public.orders o
+    JOIN public.listings l ON l.id = o.listing_id
+    WHERE o.status = 'in_progress'
+      AND o.ends_at < now() - interval '1 hour'
+      AND o.return_scanned_at IS NULL
+      AND o.return_overdue_at IS NULL
+    FOR UPDATE OF o SKIP LOCKED
+  LOOP
+    UPDATE public.orders
+    SET return_overdue_at = now()
+    WHERE id = v_order.id;
+
+    PERFORM public.create_notification(
+      v_order.buyer_id,
+      'order'::notification_type,
+      'Return overdue',
+      'Your rental of "' || v_order.title || '" was due back ' || to_char(v_order.ends_at, 'Mon DD, HH24:MI') || ' UTC. Please return it and scan the return code with the owner.',
+      jsonb_build_object('order_id', v_order.id),
+      '/orders/' || v_order.id,
+      'View order',
+      'high'
+    );
+
+    PERFORM public.create_notification(
+      v_order.seller_id,
+      'order'::notification_type,
+      'Return overdue',
+      '"' || v_order.title || '" has not been returned yet. It was due back ' || to_char(v_order.ends_at, 'Mon DD, HH24:MI') || ' UTC.',
+      jsonb_build_object('order_id', v_order.id),
+      '/orders/' || v_order.id,
+      'View order',
+      'high'
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.flag_overdue_returns() FROM PUBLIC, anon, authenticated;
+
+CREATE INDEX idx_orders_active_rentals ON public.orders(ends_at)
+  WHERE return_scanned_at IS NULL AND return_overdue_at IS NULL;
+
+-- Check for overdue returns every 30 minutes
+SELECT cron.schedule(
+  'flag-overdue-returns',
+  '*/30 * * * *',
+  $$ SELECT public.flag_overdue_returns(); $$
+);
@@ -0,0 +1,54 @@
+-- QR handoff: only the party handing the item over can generate the code
+
+-- Function to generate QR code data. The lender shows the code at pickup or
+-- service start; the borrower shows it at return or service end.
+CREATE OR REPLACE FUNCTION public.generate_order_qr_code(p_order_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_qr_data jsonb;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_order.status IN ('paid', 'shipped') THEN
+    IF auth.uid() IS DISTINCT FROM v_order.seller_id THEN
+      RAISE EXCEPTION 'Only the lender can show the pickup code';
+    END IF;
+  ELSIF v_order.status = 'in_progress' THEN
+    IF auth.uid() IS DISTINCT FROM v_order.buyer_id THEN
+      RAISE EXCEPTION 'Only the borrower can show the return code';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Order % has no handoff pending', p_order_id;
+  END IF;
+
+  v_qr_data := jsonb_build_object(
+    'order_id', p_order_id,
+    'generated_at', now(),
+    'expires_at', now() + interval '30 days',
+    'secret', encode(gen_random_bytes(32), 'hex')
+  );
+
+  UPDATE public.orders
+  SET qr_code_data = v_qr_data
+  WHERE id = p_order_id;
+
+  RETURN v_qr_data;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_order_qr_code(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_order_qr_code(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.verify_qr_scan(uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.verify_qr_scan(uuid, text, text) TO authenticated;
@@ -0,0 +1,247 @@
+-- Signed, single-use handoff tokens replacing the static 30-day QR secret
+
+-- Key used to sign handoff tokens
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'qr_signing_key') THEN
+    PERFORM vault.create_secret(encode(extensions.gen_random_bytes(32), 'hex'), 'qr_signing_key');
+  END IF;
+END;
+$$;
+
+-- One row per issued code. Codes expire after a couple of minutes and are consumed by the first valid scan.
+CREATE TABLE IF NOT EXISTS public.handoff_tokens (
+  nonce text PRIMARY KEY,
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  scan_type text NOT NULL CHECK (scan_type IN ('delivery', 'return', 'service_start', 'service_end')),
+  issued_by uuid NOT NULL REFERENCES auth.users(id),
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  consumed_at timestamptz,
+  consumed_by uuid REFERENCES auth.users(id)
+);
+
+-- No policies: tokens are only issued and checked by the functions below
+ALTER TABLE public.handoff_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_handoff_tokens_order ON public.handoff_tokens(order_id, scan_type);
+
+-- The old secrets were readable by both parties on the order row
+UPDATE public.orders SET qr_code_data = NULL WHERE qr_code_data IS NOT NULL;
+
+DROP FUNCTION IF EXISTS public.generate_order_qr_code(uuid);
+DROP FUNCTION IF EXISTS public.verify_qr_scan(uuid, text, text);
+
+-- HMAC over order id, scan type and nonce
+CREATE OR REPLACE FUNCTION public.sign_handoff_token(
+  p_order_id uuid,
+  p_scan_type text,
+  p_nonce text
+)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT encode(
+    extensions.hmac(
+      p_order_id::text || ':' || p_scan_type || ':' || p_nonce,
+      (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'qr_signing_key'),
+      'sha256'
+    ),
+    'hex'
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sign_handoff_token(uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Function to issue a handoff code for the current step. The lender shows the
+-- code at pickup or service start; the borrower shows it at return or service end.
+CREATE OR REPLACE FUNCTION public.generate_order_qr_code(
+  p_order_id uuid,
+  p_scan_type text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_nonce text := encode(extensions.gen_random_bytes(16), 'hex');
+  v_expires_at timestamptz := now() + interval '2 minutes';
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF p_scan_type IN ('delivery', 'service_start') THEN
+    IF v_order.status NOT IN ('paid', 'shipped') THEN
+      RAISE EXCEPTION 'Order % is not ready to be handed over', p_order_id;
+    END IF;
+    IF auth.uid() IS DISTINCT FROM v_order.seller_id THEN
+      RAISE EXCEPTION 'Only the lender can show the pickup code';
+    END IF;
+  ELSIF p_scan_type IN ('return', 'service_end') THEN
+    IF v_order.status <> 'in_progress' THEN
+      RAISE EXCEPTION 'Order % is not in progress', p_order_id;
+    END IF;
+    IF auth.uid() IS DISTINCT FROM v_order.buyer_id THEN
+      RAISE EXCEPTION 'Only the borrower can show the return code';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown scan type %', p_scan_type;
+  END IF;
+
+  -- Clean up this order's stale codes while we're here
+  DELETE FROM public.handoff_tokens
+  WHERE order_id = p_order_id
+    AND consumed_at IS NULL
+    AND expires_at < now();
+
+  INSERT INTO public.handoff_tokens (nonce, order_id, scan_type, issued_by, expires_at)
+  VALUES (v_nonce, p_order_id, p_scan_type, auth.uid(), v_expires_at);
+
+  RETURN jsonb_build_object(
+    'order_id', p_order_id,
+    'scan_type', p_scan_type,
+    'nonce', v_nonce,
+    'expires_at', v_expires_at,
+    'signature', public.sign_handoff_token(p_order_id, p_scan_type, v_nonce)
+  );
+END;
+$$;
+
+-- Function to verify QR scan. The scanner must be the other party on the
+-- order; the code must be correctly signed, unexpired and unused.
+CREATE OR REPLACE FUNCTION public.verify_qr_scan(
+  p_order_id uuid,
+  p_scan_type text,
+  p_nonce text,
+  p_signature text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_token public.handoff_tokens%ROWTYPE;
+  v_actor uuid := auth.uid();
+  v_other uuid;
+  v_event order_event;
+  v_to order_status;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_actor IS NULL OR v_actor NOT IN (v_order.buyer_id, v_order.seller_id) THEN
+    RAISE EXCEPTION 'Not a participant in order %', p_order_id;
+  END IF;
+
+  IF p_signature IS DISTINCT FROM public.sign_handoff_token(p_order_id, p_scan_type, p_nonce) THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO v_token
+  FROM public.handoff_tokens
+  WHERE nonce = p_nonce
+    AND order_id = p_order_id
+    AND scan_type = p_scan_type
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_token.consumed_at IS NOT NULL OR v_token.expires_at <= now() THEN
+    RETURN false;
+  END IF;
+
+  IF v_token.issued_by = v_actor THEN
+    RAISE EXCEPTION 'The other party has to scan your code';
+  END IF;
+
+  IF p_scan_type IN ('delivery', 'service_start') THEN
+    IF v_order.status NOT IN ('paid', 'shipped') THEN
+      RAISE EXCEPTION 'Order % is not ready to be handed over', p_order_id;
+    END IF;
+    v_event := 'hand_over';
+    v_to := 'in_progress';
+  ELSE
+    IF v_order.status <> 'in_progress' THEN
+      RAISE EXCEPTION 'Order % is not in progress', p_order_id;
+    END IF;
+    v_event := 'return';
+    v_to := 'completed';
+  END IF;
+
+  UPDATE public.handoff_tokens
+  SET consumed_at = now(),
+      consumed_by = v_actor
+  WHERE nonce = p_nonce;
+
+  -- Update scan timestamp based on type
+  IF p_scan_type = 'delivery' THEN
+    UPDATE public.orders
+    SET delivery_scanned_at = now(),
+        delivery_scanned_by = v_actor,
+        status = v_to,
+        updated_at = now()
+    WHERE id = p_order_id;
+  ELSIF p_scan_type = 'return' THEN
+    UPDATE public.orders
+    SET return_scanned_at = now(),
+        return_scanned_by = v_actor,
+        status = v_to,
+        updated_at = now()
+    WHERE id = p_order_id;
+  ELSIF p_scan_type = 'service_start' THEN
+    UPDATE public.orders
+    SET service_start_scan = now(),
+        status = v_to,
+        updated_at = now()
+    WHERE id = p_order_id;
+  ELSE
+    UPDATE public.orders
+    SET service_end_scan = now(),
+        status = v_to,
+        updated_at = now()
+    WHERE id = p_order_id;
+  END IF;
+
+  INSERT INTO public.order_events (order_id, actor_id, event, from_status, to_status, payload)
+  VALUES (p_order_id, v_actor, v_event, v_order.status, v_to, jsonb_build_object('scan_type', p_scan_type));
+
+  v_other := CASE WHEN v_actor = v_order.buyer_id THEN v_order.seller_id ELSE v_order.buyer_id END;
+
+  PERFORM public.create_notification(
+    v_other,
+    'order'::notification_type,
+    CASE WHEN v_event = 'hand_over' THEN 'Rental started' ELSE 'Rental returned' END,
+    CASE WHEN v_event = 'hand_over'
+      THEN 'The handover was confirmed by QR scan.'
+      ELSE 'The return was confirmed by QR scan. The order is now complete.'
+    END,
+    jsonb_build_object('order_id', p_order_id, 'event', v_event),
+    '/orders/' || p_order_id,
+    'View order',
+    'medium'
+  );
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_order_qr_code(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_order_qr_code(uuid, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.verify_qr_scan(uuid, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.verify_qr_scan(uuid, text, text, text) TO authenticated;
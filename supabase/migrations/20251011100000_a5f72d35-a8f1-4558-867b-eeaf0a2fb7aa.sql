@@ -0,0 +1,523 @@
+-- Disputes: problems reported on an order, resolved by moderators
+
+CREATE TYPE public.dispute_reason AS ENUM (
+  'damaged',
+  'not_returned',
+  'late_return',
+  'not_as_described',
+  'missing_parts',
+  'no_show',
+  'other'
+);
+
+CREATE TYPE public.dispute_status AS ENUM ('open', 'under_review', 'resolved', 'dismissed');
+
+CREATE TYPE public.dispute_outcome AS ENUM ('refund', 'partial_deposit_capture', 'dismissal');
+
+-- Disputes are logged in the order audit trail
+ALTER TYPE public.order_event ADD VALUE IF NOT EXISTS 'dispute';
+ALTER TYPE public.order_event ADD VALUE IF NOT EXISTS 'resolve_dispute';
+
+CREATE TABLE IF NOT EXISTS public.disputes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  opened_by uuid NOT NULL REFERENCES auth.users(id),
+  reason dispute_reason NOT NULL,
+  status dispute_status NOT NULL DEFAULT 'open',
+  lender_statement text,
+  borrower_statement text,
+  outcome dispute_outcome,
+  outcome_amount numeric,
+  resolution_note text,
+  at_fault_user_id uuid REFERENCES auth.users(id),
+  lender_trust_delta integer NOT NULL DEFAULT 0,
+  borrower_trust_delta integer NOT NULL DEFAULT 0,
+  refund_pending boolean NOT NULL DEFAULT false,
+  stripe_refund_id text,
+  resolved_by uuid REFERENCES auth.users(id),
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- At most one unresolved dispute per order
+CREATE UNIQUE INDEX idx_disputes_one_open_per_order ON public.disputes(order_id)
+  WHERE status IN ('open', 'under_review');
+CREATE INDEX idx_disputes_queue ON public.disputes(status, created_at);
+
+CREATE TABLE IF NOT EXISTS public.dispute_evidence (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispute_id uuid NOT NULL REFERENCES public.disputes(id) ON DELETE CASCADE,
+  uploaded_by uuid NOT NULL REFERENCES auth.users(id),
+  storage_path text NOT NULL,
+  caption text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_dispute_evidence_dispute ON public.dispute_evidence(dispute_id);
+
+-- Settlement of the deposit waits while a dispute is open
+ALTER TABLE public.orders
+ADD COLUMN has_open_dispute boolean NOT NULL DEFAULT false;
+
+-- New orders never start with a dispute open
+CREATE OR REPLACE FUNCTION public.prepare_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing public.listings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_listing
+  FROM public.listings
+  WHERE id = NEW.listing_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Listing % not found', NEW.listing_id;
+  END IF;
+
+  IF v_listing.seller_id = NEW.buyer_id THEN
+    RAISE EXCEPTION 'You cannot order your own listing';
+  END IF;
+
+  NEW.seller_id := v_listing.seller_id;
+  NEW.status := 'pending'::order_status;
+  NEW.quantity := GREATEST(COALESCE(NEW.quantity, 1), 1);
+  NEW.original_price := v_listing.price;
+  NEW.negotiated_price := NULL;
+  NEW.final_amount := v_listing.price * NEW.quantity;
+
+  -- Payment, handover and deposit state is only ever written by the server
+  NEW.paid_at := NULL;
+  NEW.stripe_payment_intent_id := NULL;
+  NEW.refunded_amount := 0;
+  NEW.qr_code_data := NULL;
+  NEW.delivery_scanned_at := NULL;
+  NEW.delivery_scanned_by := NULL;
+  NEW.return_scanned_at := NULL;
+  NEW.return_scanned_by := NULL;
+  NEW.service_start_scan := NULL;
+  NEW.service_end_scan := NULL;
+  NEW.deposit_held_at := NULL;
+  NEW.deposit_release_after := NULL;
+  NEW.deposit_claim_amount := NULL;
+  NEW.deposit_claim_reason := NULL;
+  NEW.deposit_settled_at := NULL;
+  NEW.deposit_failure_reason := NULL;
+  NEW.return_overdue_at := NULL;
+  NEW.has_open_dispute := false;
+  RETURN NEW;
+END;
+$$;
+
+-- Function to check if a user is a party to a dispute
+CREATE OR REPLACE FUNCTION public.is_dispute_participant(p_dispute_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.disputes d
+    JOIN public.orders o ON o.id = d.order_id
+    WHERE d.id = p_dispute_id
+      AND p_user_id IN (o.buyer_id, o.seller_id)
+  );
+$$;
+
+ALTER TABLE public.disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dispute_evidence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants and moderators can view disputes"
+ON public.disputes
+FOR SELECT
+USING (
+  public.is_dispute_participant(id, auth.uid())
+  OR public.has_role(auth.uid(), 'moderator')
+);
+
+CREATE POLICY "Participants and moderators can view evidence"
+ON public.dispute_evidence
+FOR SELECT
+USING (
+  public.is_dispute_participant(dispute_id, auth.uid())
+  OR public.has_role(auth.uid(), 'moderator')
+);
+
+CREATE POLICY "Participants can add evidence to unresolved disputes"
+ON public.dispute_evidence
+FOR INSERT
+WITH CHECK (
+  uploaded_by = auth.uid()
+  AND public.is_dispute_participant(dispute_id, auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.disputes d
+    WHERE d.id = dispute_id AND d.status IN ('open', 'under_review')
+  )
+);
+
+-- Private bucket for evidence photos, stored as <dispute_id>/<user_id>/<file>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('dispute-evidence', 'dispute-evidence', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Participants can upload dispute evidence"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'dispute-evidence'
+  AND auth.uid()::text = (storage.foldername(name))[2]
+  AND public.is_dispute_participant(((storage.foldername(name))[1])::uuid, auth.uid())
+);
+
+CREATE POLICY "Participants and moderators can view dispute evidence"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'dispute-evidence'
+  AND (
+    public.is_dispute_participant(((storage.foldername(name))[1])::uuid, auth.uid())
+    OR public.has_role(auth.uid(), 'moderator')
+  )
+);
+
+-- Function to open a dispute on an order. Either party can report a problem
+-- from payment until 14 days after the order completed.
+CREATE OR REPLACE FUNCTION public.open_dispute(
+  p_order_id uuid,
+  p_reason dispute_reason,
+  p_statement text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_actor uuid := auth.uid();
+  v_dispute_id uuid;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_actor IS NULL OR v_actor NOT IN (v_order.buyer_id, v_order.seller_id) THEN
+    RAISE EXCEPTION 'Not a participant in order %', p_order_id;
+  END IF;
+
+  IF NOT (
+    v_order.status IN ('paid', 'shipped', 'in_progress')
+    OR (
+      v_order.status = 'completed'
+      AND COALESCE(v_order.return_scanned_at, v_order.service_end_scan, v_order.updated_at) > now() - interval '14 days'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Problems can only be reported on paid orders, up to 14 days after completion';
+  END IF;
+
+  IF v_order.has_open_dispute THEN
+    RAISE EXCEPTION 'There is already an open dispute on this order';
+  END IF;
+
+  IF COALESCE(trim(p_statement), '') = '' THEN
+    RAISE EXCEPTION 'Describe what went wrong';
+  END IF;
+
+  INSERT INTO public.disputes (order_id, opened_by, reason, lender_statement, borrower_statement)
+  VALUES (
+    p_order_id,
+    v_actor,
+    p_reason,
+    CASE WHEN v_actor = v_order.seller_id THEN p_statement END,
+    CASE WHEN v_actor = v_order.buyer_id THEN p_statement END
+  )
+  RETURNING id INTO v_dispute_id;
+
+  UPDATE public.orders
+  SET has_open_dispute = true,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  INSERT INTO public.order_events (order_id, actor_id, event, from_status, to_status, payload)
+  VALUES (p_order_id, v_actor, 'dispute', v_order.status, v_order.status,
+    jsonb_build_object('dispute_id', v_dispute_id, 'reason', p_reason));
+
+  PERFORM public.create_notification(
+    CASE WHEN v_actor = v_order.buyer_id THEN v_order.seller_id ELSE v_order.buyer_id END,
+    'order'::notification_type,
+    'Problem reported',
+    'A problem was reported on your order. Add your side of the story and any photos.',
+    jsonb_build_object('order_id', p_order_id, 'dispute_id', v_dispute_id),
+    '/orders/' || p_order_id,
+    'Respond',
+    'high'
+  );
+
+  RETURN v_dispute_id;
+END;
+$$;
+
+-- Function for the lender or borrower to add or replace their statement
+CREATE OR REPLACE FUNCTION public.submit_dispute_statement(
+  p_dispute_id uuid,
+  p_statement text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute public.disputes%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_dispute
+  FROM public.disputes
+  WHERE id = p_dispute_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute % not found', p_dispute_id;
+  END IF;
+
+  IF v_dispute.status NOT IN ('open', 'under_review') THEN
+    RAISE EXCEPTION 'Dispute % is already closed', p_dispute_id;
+  END IF;
+
+  IF COALESCE(trim(p_statement), '') = '' THEN
+    RAISE EXCEPTION 'Describe your side of what happened';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = v_dispute.order_id;
+
+  IF auth.uid() = v_order.seller_id THEN
+    UPDATE public.disputes
+    SET lender_statement = trim(p_statement), updated_at = now()
+    WHERE id = p_dispute_id;
+  ELSIF auth.uid() = v_order.buyer_id THEN
+    UPDATE public.disputes
+    SET borrower_statement = trim(p_statement), updated_at = now()
+    WHERE id = p_dispute_id;
+  ELSE
+    RAISE EXCEPTION 'Not a participant in dispute %', p_dispute_id;
+  END IF;
+END;
+$$;
+
+-- Function for moderators to take a dispute off the queue
+CREATE OR REPLACE FUNCTION public.claim_dispute(p_dispute_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'moderator') THEN
+    RAISE EXCEPTION 'Only moderators can review disputes';
+  END IF;
+
+  UPDATE public.disputes
+  SET status = 'under_review', updated_at = now()
+  WHERE id = p_dispute_id AND status = 'open';
+END;
+$$;
+
+-- Function for moderators to resolve a dispute.
+--   refund: refund p_amount of the payment to the borrower (sent by process-dispute-refunds)
+--   partial_deposit_capture: charge p_amount of the deposit hold to the borrower (sent by settle-deposits)
+--   dismissal: close without action
+-- The party found at fault loses 10 trust points and the other party gains 2.
+CREATE OR REPLACE FUNCTION public.resolve_dispute(
+  p_dispute_id uuid,
+  p_outcome dispute_outcome,
+  p_amount numeric DEFAULT NULL,
+  p_note text DEFAULT NULL,
+  p_at_fault_user_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute public.disputes%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_lender_delta integer := 0;
+  v_borrower_delta integer := 0;
+  v_summary text;
+  v_refundable numeric;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'moderator') THEN
+    RAISE EXCEPTION 'Only moderators can resolve disputes';
+  END IF;
+
+  SELECT * INTO v_dispute
+  FROM public.disputes
+  WHERE id = p_dispute_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute % not found', p_dispute_id;
+  END IF;
+
+  IF v_dispute.status NOT IN ('open', 'under_review') THEN
+    RAISE EXCEPTION 'Dispute % is already closed', p_dispute_id;
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = v_dispute.order_id
+  FOR UPDATE;
+
+  IF p_at_fault_user_id IS NOT NULL AND p_at_fault_user_id NOT IN (v_order.buyer_id, v_order.seller_id) THEN
+    RAISE EXCEPTION 'The party at fault must be the lender or the borrower';
+  END IF;
+
+  IF p_outcome = 'refund' THEN
+    IF v_order.stripe_payment_intent_id IS NULL OR v_order.paid_at IS NULL THEN
+      RAISE EXCEPTION 'Order % was not paid through Stripe', v_order.id;
+    END IF;
+
+    -- Refunds from earlier disputes count as soon as they are decided, not once Stripe has sent them
+    v_refundable := v_order.final_amount - v_order.refunded_amount - COALESCE((
+      SELECT sum(outcome_amount)
+      FROM public.disputes
+      WHERE order_id = v_order.id
+        AND refund_pending
+    ), 0);
+
+    IF p_amount IS NULL OR p_amount <= 0 OR p_amount > v_refundable THEN
+      RAISE EXCEPTION 'Refund must be between 0 and $%', v_refundable;
+    END IF;
+    v_summary := 'A refund of $' || p_amount || ' was issued to the borrower.';
+  ELSIF p_outcome = 'partial_deposit_capture' THEN
+    IF v_order.deposit_status NOT IN ('held', 'release_pending') THEN
+      RAISE EXCEPTION 'There is no deposit hold left to charge on order %', v_order.id;
+    END IF;
+    IF p_amount IS NULL OR p_amount <= 0 OR p_amount > v_order.deposit_amount THEN
+      RAISE EXCEPTION 'Deposit charge must be between 0 and $%', v_order.deposit_amount;
+    END IF;
+
+    UPDATE public.orders
+    SET deposit_status = 'capture_pending',
+        deposit_claim_amount = p_amount,
+        deposit_claim_reason = COALESCE(p_note, 'Charged after dispute review'),
+        updated_at = now()
+    WHERE id = v_order.id;
+
+    v_summary := '$' || p_amount || ' of the deposit will be charged to the borrower.';
+  ELSE
+    v_summary := 'The dispute was dismissed.';
+  END IF;
+
+  IF p_at_fault_user_id = v_order.seller_id THEN
+    v_lender_delta := -10;
+    v_borrower_delta := 2;
+  ELSIF p_at_fault_user_id = v_order.buyer_id THEN
+    v_lender_delta := 2;
+    v_borrower_delta := -10;
+  END IF;
+
+  UPDATE public.disputes
+  SET status = CASE WHEN p_outcome = 'dismissal' THEN 'dismissed'::dispute_status ELSE 'resolved'::dispute_status END,
+      outcome = p_outcome,
+      outcome_amount = CASE WHEN p_outcome = 'dismissal' THEN NULL ELSE p_amount END,
+      resolution_note = p_note,
+      at_fault_user_id = p_at_fault_user_id,
+      lender_trust_delta = v_lender_delta,
+      borrower_trust_delta = v_borrower_delta,
+      refund_pending = p_outcome = 'refund',
+      resolved_by = auth.uid(),
+      resolved_at = now(),
+      updated_at = now()
+  WHERE id = p_dispute_id;
+
+  UPDATE public.orders
+  SET has_open_dispute = false,
+      updated_at = now()
+  WHERE id = v_order.id;
+
+  UPDATE public.profiles
+  SET trust_score = LEAST(100, GREATEST(0, trust_score + v_lender_delta))
+  WHERE id = v_order.seller_id AND v_lender_delta <> 0;
+
+  UPDATE public.profiles
+  SET trust_score = LEAST(100, GREATEST(0, trust_score + v_borrower_delta))
+  WHERE id = v_order.buyer_id AND v_borrower_delta <> 0;
+
+  INSERT INTO public.order_events (order_id, actor_id, event, from_status, to_status, payload)
+  VALUES (v_order.id, auth.uid(), 'resolve_dispute', v_order.status, v_order.status,
+    jsonb_build_object('dispute_id', p_dispute_id, 'outcome', p_outcome, 'amount', p_amount));
+
+  PERFORM public.create_notification(
+    v_order.buyer_id,
+    'order'::notification_type,
+    'Dispute resolved',
+    v_summary,
+    jsonb_build_object('order_id', v_order.id, 'dispute_id', p_dispute_id),
+    '/orders/' || v_order.id,
+    'View order',
+    'high'
+  );
+
+  PERFORM public.create_notification(
+    v_order.seller_id,
+    'order'::notification_type,
+    'Dispute resolved',
+    v_summary,
+    jsonb_build_object('order_id', v_order.id, 'dispute_id', p_dispute_id),
+    '/orders/' || v_order.id,
+    'View order',
+    'high'
+  );
+END;
+$$;
+
+-- Function to record that a dispute refund was sent to Stripe. The order itself
+-- is updated by the charge.refunded webhook.
+CREATE OR REPLACE FUNCTION public.record_dispute_refund(
+  p_dispute_id uuid,
+  p_refund_id text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.disputes
+  SET refund_pending = false,
+      stripe_refund_id = p_refund_id,
+      updated_at = now()
+  WHERE id = p_dispute_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_dispute_refund(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_dispute_refund(uuid, text) TO service_role;
+
+-- Send queued dispute refunds every 15 minutes
+SELECT cron.schedule(
+  'process-dispute-refunds',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://xgdxmzijqbslplbttugp.supabase.co/functions/v1/process-dispute-refunds',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,673 @@
+-- Moderator console: listing moderation, verification approval, category and
+-- badge management. Every mutation goes through the functions below and is
+-- written to the moderation audit log.
+
+-- Audit log of moderator actions
+CREATE TABLE IF NOT EXISTS public.moderation_actions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid NOT NULL REFERENCES auth.users(id),
+  action text NOT NULL,
+  target_type text NOT NULL CHECK (target_type IN ('listing', 'user', 'verification', 'category', 'badge', 'dispute')),
+  target_id uuid NOT NULL,
+  reason text,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view the audit log"
+  ON public.moderation_actions FOR SELECT
+  USING (public.has_role(auth.uid(), 'moderator'));
+
+CREATE INDEX idx_moderation_actions_created ON public.moderation_actions(created_at DESC);
+CREATE INDEX idx_moderation_actions_target ON public.moderation_actions(target_type, target_id);
+
+-- Listings taken down by a moderator
+ALTER TABLE public.listings
+  ADD COLUMN IF NOT EXISTS moderation_reason text,
+  ADD COLUMN IF NOT EXISTS moderated_by uuid REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS moderated_at timestamptz;
+
+-- Requests from users to get the verified badge
+CREATE TABLE IF NOT EXISTS public.verification_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  note text,
+  reviewed_by uuid REFERENCES auth.users(id),
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One pending request per user
+CREATE UNIQUE INDEX idx_verification_requests_pending
+  ON public.verification_requests(user_id)
+  WHERE status = 'pending';
+
+ALTER TABLE public.verification_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and moderators can view verification requests"
+  ON public.verification_requests FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'moderator'));
+
+-- Moderators can see every listing and order for lookups
+CREATE POLICY "Moderators can view all listings"
+  ON public.listings FOR SELECT
+  USING (public.has_role(auth.uid(), 'moderator'));
+
+CREATE POLICY "Moderators can view all orders"
+  ON public.orders FOR SELECT
+  USING (public.has_role(auth.uid(), 'moderator'));
+
+-- Categories and badges are only changed through the functions below
+REVOKE INSERT, UPDATE, DELETE ON public.categories FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.badges FROM anon, authenticated;
+
+-- Write an audit log entry for the current moderator
+CREATE OR REPLACE FUNCTION public.log_moderation_action(
+  p_action text,
+  p_target_type text,
+  p_target_id uuid,
+  p_reason text DEFAULT NULL,
+  p_details jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.moderation_actions (actor_id, action, target_type, target_id, reason, details)
+  VALUES (auth.uid(), p_action, p_target_type, p_target_id, NULLIF(trim(p_reason), ''), p_details);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_moderation_action(text, text, uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Sellers can still edit a listing a moderator took down, but not put it back up
+CREATE OR REPLACE FUNCTION public.guard_moderated_listing()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.moderated_at IS NOT NULL
+    AND NOT public.has_role(auth.uid(), 'moderator')
+    AND (
+      NEW.status IS DISTINCT FROM OLD.status
+      OR NEW.moderated_at IS DISTINCT FROM OLD.moderated_at
+      OR NEW.moderation_reason IS DISTINCT FROM OLD.moderation_reason
+    )
+  THEN
+    RAISE EXCEPTION 'This listing was taken down by a moderator: %', OLD.moderation_reason;
+  END IF;
+
+  IF OLD.moderated_at IS NULL
+    AND NEW.moderated_at IS NOT NULL
+    AND NOT public.has_role(auth.uid(), 'moderator')
+  THEN
+    RAISE EXCEPTION 'Only moderators can take down listings';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_moderated_listing
+  BEFORE UPDATE ON public.listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_moderated_listing();
+
+-- Users can edit their own profile, but only moderators can change the verified badge
+CREATE OR REPLACE FUNCTION public.guard_profile_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_verified IS DISTINCT FROM OLD.is_verified
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_role(auth.uid(), 'moderator')
+  THEN
+    RAISE EXCEPTION 'Verification can only be changed by a moderator';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_verification
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_profile_verification();
+
+-- Function for moderators to pause, delete or restore a listing
+CREATE OR REPLACE FUNCTION public.moderate_listing(
+  p_listing_id uuid,
+  p_action text,
+  p_reason text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing public.listings%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'moderator') THEN
+    RAISE EXCEPTION 'Only moderators can moderate listings';
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Give a reason for this action';
+  END IF;
+
+  SELECT * INTO v_listing
+  FROM public.listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Listing % not found', p_listing_id;
+  END IF;
+
+  IF p_action IN ('pause', 'delete') THEN
+    UPDATE public.listings
+    SET status = CASE WHEN p_action = 'pause' THEN 'paused' ELSE 'deleted' END::listing_status,
+        moderation_reason = trim(p_reason),
+        moderated_by = auth.uid(),
+        moderated_at = now(),
+        updated_at = now()
+    WHERE id = p_listing_id;
+  ELSIF p_action = 'restore' THEN
+    IF v_listing.moderated_at IS NULL THEN
+      RAISE EXCEPTION 'Listing % was not taken down by a moderator', p_listing_id;
+    END IF;
+
+    UPDATE public.listings
+    SET status = 'active',
+        moderation_reason = NULL,
+        moderated_by = NULL,
+        moderated_at = NULL,
+        updated_at = now()
+    WHERE id = p_listing_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown moderation action %', p_action;
+  END IF;
+
+  PERFORM public.log_moderation_action(
+    p_action || '_listing',
+    'listing',
+    p_listing_id,
+    p_reason,
+    jsonb_build_object('from_status', v_listing.status, 'title', v_listing.title)
+  );
+
+  PERFORM public.create_notification(
+    v_listing.seller_id,
+    'listing'::notification_type,
+    CASE p_action
+      WHEN 'pause' THEN 'Listing paused by a moderator'
+      WHEN 'delete' THEN 'Listing removed by a moderator'
+      ELSE 'Listing restored'
+    END,
+    CASE WHEN p_action = 'restore'
+      THEN '"' || v_listing.title || '" is live again.'
+      ELSE '"' || v_listing.title || '": ' || trim(p_reason)
+    END,
+    jsonb_build_object('listing_id', p_listing_id, 'action', p_action),
+    '/listing/' || p_listing_id,
+    'View listing',
+    CASE WHEN p_action = 'restore' THEN 'medium' ELSE 'high' END
+  );
+END;
+$$;
+
+-- Function for moderators to find users by name, email or id
+CREATE OR REPLACE FUNCTION public.search_users(p_query text)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  email text,
+  avatar_url text,
+  is_verified boolean,
+  trust_score integer,
+  created_at timestamptz,
+  roles app_role[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'moderator') THEN
+    RAISE EXCEPTION 'Only moderators can look up users';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.email,
+    p.avatar_url,
+    coalesce(p.is_verified, false),
+    p.trust_score,
+    p.created_at,
+    coalesce(
+      (SELECT array_agg(ur.role ORDER BY ur.role) FROM public.user_roles ur WHERE ur.user_id = p.id),
+      '{}'::app_role[]
+    )
+  FROM public.profiles p
+  WHERE p.id::text = trim(p_query)
+     OR p.name ILIKE '%' || trim(p_query) || '%'
+     OR p.email ILIKE '%' || trim(p_query) || '%'
+  ORDER BY p.name
+  LIMIT 25;
+END;
+$$;
+
+-- Function for users to ask for the verified badge
+CREATE OR REPLACE FUNCTION public.request_verification()
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_verified) THEN
+    RAISE EXCEPTION 'You are already verified';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.verification_requests WHERE user_id = auth.uid() AND status = 'pending') THEN
+    RAISE EXCEPTION 'You already have a pending verification request';
+  END IF;
+
+  INSERT INTO public.verification_requests (user_id)
+  VALUES (auth.uid())
+  RETURNING id INTO v_request_id;
+
+  RETURN v_request_id;
+END;
+$$;
+
+-- Function for moderators to approve or reject a verification request
+CREATE OR REPLACE FUNCTION public.review_verification_request(
+  p_request_id uuid,
+  p_approve boolean,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.verification_requests%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'moderator') THEN
+    RAISE EXCEPTION 'Only moderators can review verification requests';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM public.verification_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Verification request % not found', p_request_id;
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Verification request % was already reviewed', p_request_id;
+  END IF;
+
+  IF NOT p_approve AND coalesce(trim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'Give a reason for rejecting the request';
+  END IF;
+
+  UPDATE public.verification_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      note = NULLIF(trim(p_note), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = p_request_id;
+
+  IF p_approve THEN
+    UPDATE public.profiles
+    SET is_verified = true, updated_at = now()
+    WHERE id = v_request.user_id;
+  END IF;
+
+  PERFORM public.log_moderation_action(
+    CASE WHEN p_approve THEN 'approve_verification' ELSE 'reject_verification' END,
+    'verification',
+    p_request_id,
+    p_note,
+    jsonb_build_object('user_id', v_request.user_id)
+  );
+
+  PERFORM public.create_notification(
+    v_request.user_id,
+    'system'::notification_type,
+    CASE WHEN p_approve THEN 'You are verified' ELSE 'Verification declined' END,
+    CASE WHEN p_approve
+      THEN 'Your profile now shows the verified badge.'
+      ELSE trim(p_note)
+    END,
+    jsonb_build_object('verification_request_id', p_request_id),
+    '/profile',
+    'View profile',
+    'medium'
+  );
+END;
+$$;
+
+-- Function for moderators to set or revoke a user's verified badge directly
+CREATE OR REPLACE FUNCTION public.set_user_verified(
+  p_user_id uuid,
+  p_verified boolean,
+  p_reason text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'moderator') THEN
+    RAISE EXCEPTION 'Only moderators can change verification';
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Give a reason for this action';
+  END IF;
+
+  UPDATE public.profiles
+  SET is_verified = p_verified, updated_at = now()
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id;
+  END IF;
+
+  PERFORM public.log_moderation_action(
+    CASE WHEN p_verified THEN 'verify_user' ELSE 'unverify_user' END,
+    'user',
+    p_user_id,
+    p_reason
+  );
+END;
+$$;
+
+-- Function for moderators to create or update a category. Pass no id to create one.
+CREATE OR REPLACE FUNCTION public.upsert_category(
+  p_name text,
+  p_description text DEFAULT NULL,
+  p_icon text DEFAULT NULL,
+  p_parent_id uuid DEFAULT NULL,
+  p_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid := p_id;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'moderator') THEN
+    RAISE EXCEPTION 'Only moderators can manage categories';
+  END IF;
+
+  IF coalesce(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Category name is required';
+  END IF;
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.categories (name, description, icon, parent_id)
+    VALUES (trim(p_name), p_description, p_icon, p_parent_id)
+    RETURNING id INTO v_id;
+  ELSE
+    -- The new parent must not be the category itself or one of its descendants
+    IF p_parent_id IS NOT NULL AND EXISTS (
+      WITH RECURSIVE descendants AS (
+        SELECT id FROM public.categories WHERE id = v_id
+        UNION
+        SELECT c.id FROM public.categories c JOIN descendants d ON c.parent_id = d.id
+      )
+      SELECT 1 FROM descendants WHERE id = p_parent_id
+    ) THEN
+      RAISE EXCEPTION 'A category cannot be moved under itself';
+    END IF;
+
+    UPDATE public.categories
+    SET name = trim(p_name),
+        description = p_description,
+        icon = p_icon,
+        parent_id = p_parent_id
+    WHERE id = v_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Category % not found', v_id;
+    END IF;
+  END IF;
+
+  PERFORM public.log_moderation_action(
+    CASE WHEN p_id IS NULL THEN 'create_category' ELSE 'update_category' END,
+    'category',
+    v_id,
+    NULL,
+    jsonb_build_object('name', trim(p_name), 'parent_id', p_parent_id)
+  );
+
+  RETURN v_id;
+END;
+$$;
+
+-- Function for moderators to delete a category. Its subcategories and listings
+-- move up to its parent.
+CREATE OR REPLACE FUNCTION public.delete_category(p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_category public.categories%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'moderator') THEN
+    RAISE EXCEPTION 'Only moderators can manage categories';
+  END IF;
+
+  SELECT * INTO v_category
+  FROM public.categories
+  WHERE id = p_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Category % not found', p_id;
+  END IF;
+
+  UPDATE public.categories SET parent_id = v_category.parent_id WHERE parent_id = p_id;
+  UPDATE public.listings SET category_id = v_category.parent_id WHERE category_id = p_id;
+  DELETE FROM public.categories WHERE id = p_id;
+
+  PERFORM public.log_moderation_action(
+    'delete_category',
+    'category',
+    p_id,
+    NULL,
+    jsonb_build_object('name', v_category.name, 'parent_id', v_category.parent_id)
+  );
+END;
+$$;
+
+-- Function for moderators to create or update a badge definition. Pass no id to create one.
+CREATE OR REPLACE FUNCTION public.upsert_badge(
+  p_name text,
+  p_description text,
+  p_icon text,
+  p_category text,
+  p_rarity text,
+  p_requirement_type text,
+  p_requirement_value integer,
+  p_xp_reward integer,
+  p_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid := p_id;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'moderator') THEN
+    RAISE EXCEPTION 'Only moderators can manage badges';
+  END IF;
+
+  IF coalesce(trim(p_name), '') = '' OR coalesce(trim(p_requirement_type), '') = '' THEN
+    RAISE EXCEPTION 'Badge name and requirement type are required';
+  END IF;
+
+  IF p_requirement_value < 0 OR p_xp_reward < 0 THEN
+    RAISE EXCEPTION 'Requirement value and XP reward cannot be negative';
+  END IF;
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.badges (
+      name, description, icon, category, rarity, requirement_type, requirement_value, xp_reward
+    )
+    VALUES (
+      trim(p_name), p_description, p_icon, p_category, p_rarity, p_requirement_type, p_requirement_value, p_xp_reward
+    )
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE public.badges
+    SET name = trim(p_name),
+        description = p_description,
+        icon = p_icon,
+        category = p_category,
+        rarity = p_rarity,
+        requirement_type = p_requirement_type,
+        requirement_value = p_requirement_value,
+        xp_reward = p_xp_reward
+    WHERE id = v_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Badge % not found', v_id;
+    END IF;
+  END IF;
+
+  PERFORM public.log_moderation_action(
+    CASE WHEN p_id IS NULL THEN 'create_badge' ELSE 'update_badge' END,
+    'badge',
+    v_id,
+    NULL,
+    jsonb_build_object(
+      'name', trim(p_name),
+      'requirement_type', p_requirement_type,
+      'requirement_value', p_requirement_value,
+      'xp_reward', p_xp_reward
+    )
+  );
+
+  RETURN v_id;
+END;
+$$;
+
+-- Function for moderators to delete a badge definition. Users who earned it lose it.
+CREATE OR REPLACE FUNCTION public.delete_badge(p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_badge public.badges%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'moderator') THEN
+    RAISE EXCEPTION 'Only moderators can manage badges';
+  END IF;
+
+  DELETE FROM public.badges
+  WHERE id = p_id
+  RETURNING * INTO v_badge;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Badge % not found', p_id;
+  END IF;
+
+  PERFORM public.log_moderation_action(
+    'delete_badge',
+    'badge',
+    p_id,
+    NULL,
+    jsonb_build_object('name', v_badge.name)
+  );
+END;
+$$;
+
+-- Dispute reviews happen in claim_dispute and resolve_dispute; log them from here
+CREATE OR REPLACE FUNCTION public.log_dispute_moderation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND public.has_role(auth.uid(), 'moderator') THEN
+    PERFORM public.log_moderation_action(
+      CASE WHEN NEW.status = 'under_review' THEN 'claim_dispute' ELSE 'resolve_dispute' END,
+      'dispute',
+      NEW.id,
+      NEW.resolution_note,
+      jsonb_build_object(
+        'order_id', NEW.order_id,
+        'status', NEW.status,
+        'outcome', NEW.outcome,
+        'outcome_amount', NEW.outcome_amount,
+        'at_fault_user_id', NEW.at_fault_user_id
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_dispute_moderation
+  AFTER UPDATE OF status ON public.disputes
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.log_dispute_moderation();
+
+REVOKE EXECUTE ON FUNCTION public.moderate_listing(uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.moderate_listing(uuid, text, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.search_users(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_users(text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.request_verification() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_verification() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.review_verification_request(uuid, boolean, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_verification_request(uuid, boolean, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_user_verified(uuid, boolean, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_user_verified(uuid, boolean, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.upsert_category(text, text, text, uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.upsert_category(text, text, text, uuid, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.delete_category(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.delete_category(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.upsert_badge(text, text, text, text, text, text, integer, integer, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.upsert_badge(text, text, text, text, text, text, integer, integer, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.delete_badge(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.delete_badge(uuid) TO authenticated;
@@ -0,0 +1,904 @@
+-- Wallet ledger: every money movement is a balanced set of ledger entries.
+-- profiles.pending_balance and profiles.wallet_balance are derived from it.
+
+CREATE TYPE public.ledger_kind AS ENUM (
+  'charge',
+  'platform_fee',
+  'seller_credit',
+  'hold_release',
+  'refund',
+  'payout'
+);
+
+-- external: money outside the platform (cards, bank accounts)
+-- escrow: a buyer's payment before it is split between fee and seller
+-- platform_revenue: fees kept by BorrowPal
+-- seller_pending / seller_available: a seller's held and withdrawable funds
+-- payouts_in_transit: withdrawals sent to the payout provider but not yet confirmed
+CREATE TYPE public.ledger_account AS ENUM (
+  'external',
+  'escrow',
+  'platform_revenue',
+  'seller_pending',
+  'seller_available',
+  'payouts_in_transit'
+);
+
+CREATE TYPE public.payout_status AS ENUM ('requested', 'processing', 'paid', 'failed');
+
+CREATE TABLE IF NOT EXISTS public.ledger_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind ledger_kind NOT NULL,
+  order_id uuid REFERENCES public.orders(id) ON DELETE RESTRICT,
+  payout_id uuid,
+  description text NOT NULL,
+  idempotency_key text UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- A positive amount increases the account's balance, a negative amount decreases it.
+-- The entries of one transaction always sum to zero.
+CREATE TABLE IF NOT EXISTS public.ledger_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL REFERENCES public.ledger_transactions(id) ON DELETE RESTRICT,
+  account ledger_account NOT NULL,
+  user_id uuid REFERENCES auth.users(id),
+  amount numeric(12, 2) NOT NULL CHECK (amount <> 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((account IN ('seller_pending', 'seller_available')) = (user_id IS NOT NULL))
+);
+
+CREATE INDEX idx_ledger_entries_transaction ON public.ledger_entries(transaction_id);
+CREATE INDEX idx_ledger_entries_user ON public.ledger_entries(user_id, created_at DESC) WHERE user_id IS NOT NULL;
+CREATE INDEX idx_ledger_transactions_order ON public.ledger_transactions(order_id) WHERE order_id IS NOT NULL;
+
+ALTER TABLE public.ledger_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own ledger entries"
+  ON public.ledger_entries FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view transactions on their entries"
+  ON public.ledger_transactions FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.ledger_entries e
+    WHERE e.transaction_id = ledger_transactions.id AND e.user_id = auth.uid()
+  ));
+
+-- Connected payout account per seller, created through the payout provider
+CREATE TABLE IF NOT EXISTS public.payout_accounts (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  provider_account_id text NOT NULL,
+  payouts_enabled boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.payout_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their payout account"
+  ON public.payout_accounts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS public.payouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id),
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'usd',
+  status payout_status NOT NULL DEFAULT 'requested',
+  provider text,
+  provider_payout_id text,
+  failure_reason text,
+  requested_at timestamptz NOT NULL DEFAULT now(),
+  processed_at timestamptz
+);
+
+CREATE INDEX idx_payouts_user ON public.payouts(user_id, requested_at DESC);
+CREATE INDEX idx_payouts_queue ON public.payouts(requested_at) WHERE status = 'requested';
+
+ALTER TABLE public.payouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their payouts"
+  ON public.payouts FOR SELECT
+  USING (auth.uid() = user_id);
+
+ALTER TABLE public.ledger_transactions
+  ADD CONSTRAINT ledger_transactions_payout_id_fkey
+  FOREIGN KEY (payout_id) REFERENCES public.payouts(id) ON DELETE RESTRICT;
+
+-- Share of each payment kept by the platform
+CREATE OR REPLACE FUNCTION public.platform_fee_rate()
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 0.10::numeric;
+$$;
+
+-- How long a seller's earnings stay pending after the return scan
+CREATE OR REPLACE FUNCTION public.wallet_hold_period()
+RETURNS interval
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT interval '3 days';
+$$;
+
+-- Keep the cached profile balances in step with the ledger
+CREATE OR REPLACE FUNCTION public.apply_ledger_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.ledger_sync', 'on', true);
+
+  IF NEW.account = 'seller_pending' THEN
+    UPDATE public.profiles
+    SET pending_balance = COALESCE(pending_balance, 0) + NEW.amount
+    WHERE id = NEW.user_id;
+  ELSIF NEW.account = 'seller_available' THEN
+    UPDATE public.profiles
+    SET wallet_balance = COALESCE(wallet_balance, 0) + NEW.amount
+    WHERE id = NEW.user_id;
+  END IF;
+
+  PERFORM set_config('app.ledger_sync', 'off', true);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_ledger_entry
+  AFTER INSERT ON public.ledger_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_ledger_entry();
+
+-- Balances can only change through the ledger
+CREATE OR REPLACE FUNCTION public.guard_profile_balances()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.wallet_balance IS DISTINCT FROM OLD.wallet_balance
+      OR NEW.pending_balance IS DISTINCT FROM OLD.pending_balance)
+    AND current_setting('app.ledger_sync', true) IS DISTINCT FROM 'on'
+  THEN
+    RAISE EXCEPTION 'Wallet balances can only change through the ledger';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_balances
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_profile_balances();
+
+-- Ledger rows are never changed once written
+REVOKE INSERT, UPDATE, DELETE ON public.ledger_transactions FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.ledger_entries FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.payouts FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.payout_accounts FROM anon, authenticated;
+
+-- Write one balanced ledger transaction. p_entries is an array of
+-- {account, user_id, amount}; zero amounts are skipped. Returns NULL when a
+-- transaction with the same idempotency key was already written.
+CREATE OR REPLACE FUNCTION public.post_ledger_transaction(
+  p_kind ledger_kind,
+  p_description text,
+  p_entries jsonb,
+  p_order_id uuid DEFAULT NULL,
+  p_payout_id uuid DEFAULT NULL,
+  p_idempotency_key text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction_id uuid;
+  v_total numeric;
+BEGIN
+  SELECT COALESCE(SUM((entry->>'amount')::numeric), 0) INTO v_total
+  FROM jsonb_array_elements(p_entries) AS entry;
+
+  IF v_total <> 0 THEN
+    RAISE EXCEPTION 'Ledger transaction % does not balance (off by %)', p_kind, v_total;
+  END IF;
+
+  INSERT INTO public.ledger_transactions (kind, order_id, payout_id, description, idempotency_key)
+  VALUES (p_kind, p_order_id, p_payout_id, p_description, p_idempotency_key)
+  ON CONFLICT (idempotency_key) DO NOTHING
+  RETURNING id INTO v_transaction_id;
+
+  IF v_transaction_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.ledger_entries (transaction_id, account, user_id, amount)
+  SELECT
+    v_transaction_id,
+    (entry->>'account')::ledger_account,
+    NULLIF(entry->>'user_id', '')::uuid,
+    (entry->>'amount')::numeric
+  FROM jsonb_array_elements(p_entries) AS entry
+  WHERE (entry->>'amount')::numeric <> 0;
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+-- Balance of one ledger account, optionally limited to one order's transactions
+CREATE OR REPLACE FUNCTION public.ledger_balance(
+  p_account ledger_account,
+  p_user_id uuid DEFAULT NULL,
+  p_order_id uuid DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(e.amount), 0)
+  FROM public.ledger_entries e
+  JOIN public.ledger_transactions t ON t.id = e.transaction_id
+  WHERE e.account = p_account
+    AND (p_user_id IS NULL OR e.user_id = p_user_id)
+    AND (p_order_id IS NULL OR t.order_id = p_order_id);
+$$;
+
+-- Record a buyer's payment: charge into escrow, then split it into the platform
+-- fee and the seller's pending credit
+CREATE OR REPLACE FUNCTION public.post_order_payment(
+  p_order_id uuid,
+  p_fee_rate numeric DEFAULT public.platform_fee_rate()
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_fee numeric;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+
+  v_fee := round(v_order.final_amount * p_fee_rate, 2);
+
+  PERFORM public.post_ledger_transaction(
+    'charge',
+    'Payment for order',
+    jsonb_build_array(
+      jsonb_build_object('account', 'external', 'amount', -v_order.final_amount),
+      jsonb_build_object('account', 'escrow', 'amount', v_order.final_amount)
+    ),
+    p_order_id,
+    NULL,
+    'charge:' || p_order_id
+  );
+
+  PERFORM public.post_ledger_transaction(
+    'platform_fee',
+    'Platform fee',
+    jsonb_build_array(
+      jsonb_build_object('account', 'escrow', 'amount', -v_fee),
+      jsonb_build_object('account', 'platform_revenue', 'amount', v_fee)
+    ),
+    p_order_id,
+    NULL,
+    'platform_fee:' || p_order_id
+  );
+
+  PERFORM public.post_ledger_transaction(
+    'seller_credit',
+    'Earnings from order',
+    jsonb_build_array(
+      jsonb_build_object('account', 'escrow', 'amount', -(v_order.final_amount - v_fee)),
+      jsonb_build_object('account', 'seller_pending', 'user_id', v_order.seller_id, 'amount', v_order.final_amount - v_fee)
+    ),
+    p_order_id,
+    NULL,
+    'seller_credit:' || p_order_id
+  );
+END;
+$$;
+
+-- Record a refund to the buyer. The platform gives back its share of the fee and
+-- the seller's share comes out of the order's pending funds first, then out of
+-- the seller's available balance.
+CREATE OR REPLACE FUNCTION public.post_order_refund(
+  p_order_id uuid,
+  p_amount numeric,
+  p_idempotency_key text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_fee_paid numeric;
+  v_fee_share numeric;
+  v_from_pending numeric;
+  v_from_available numeric;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+
+  SELECT COALESCE(SUM(e.amount), 0) INTO v_fee_paid
+  FROM public.ledger_entries e
+  JOIN public.ledger_transactions t ON t.id = e.transaction_id
+  WHERE t.order_id = p_order_id
+    AND t.kind = 'platform_fee'
+    AND e.account = 'platform_revenue';
+
+  -- Same share of the refund as of the original payment, never more than is left
+  v_fee_share := CASE WHEN v_order.final_amount > 0
+    THEN LEAST(
+      round(p_amount * v_fee_paid / v_order.final_amount, 2),
+      public.ledger_balance('platform_revenue', NULL, p_order_id)
+    )
+    ELSE 0
+  END;
+  v_from_pending := LEAST(
+    p_amount - v_fee_share,
+    GREATEST(public.ledger_balance('seller_pending', v_order.seller_id, p_order_id), 0)
+  );
+  v_from_available := p_amount - v_fee_share - v_from_pending;
+
+  PERFORM public.post_ledger_transaction(
+    'refund',
+    'Refund to borrower',
+    jsonb_build_array(
+      jsonb_build_object('account', 'platform_revenue', 'amount', -v_fee_share),
+      jsonb_build_object('account', 'seller_pending', 'user_id', v_order.seller_id, 'amount', -v_from_pending),
+      jsonb_build_object('account', 'seller_available', 'user_id', v_order.seller_id, 'amount', -v_from_available),
+      jsonb_build_object('account', 'external', 'amount', p_amount)
+    ),
+    p_order_id,
+    NULL,
+    p_idempotency_key
+  );
+END;
+$$;
+
+-- Move an order's pending funds to the seller's available balance
+CREATE OR REPLACE FUNCTION public.post_hold_release(p_order_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_pending numeric;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  v_pending := public.ledger_balance('seller_pending', v_order.seller_id, p_order_id);
+  IF v_pending <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM public.post_ledger_transaction(
+    'hold_release',
+    'Funds available',
+    jsonb_build_array(
+      jsonb_build_object('account', 'seller_pending', 'user_id', v_order.seller_id, 'amount', -v_pending),
+      jsonb_build_object('account', 'seller_available', 'user_id', v_order.seller_id, 'amount', v_pending)
+    ),
+    p_order_id
+  );
+
+  RETURN v_pending;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_ledger_transaction(ledger_kind, text, jsonb, uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ledger_balance(ledger_account, uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_order_payment(uuid, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_order_refund(uuid, numeric, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_hold_release(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function to mark an order as paid and credit the seller through the ledger
+CREATE OR REPLACE FUNCTION public.mark_order_paid(
+  p_order_id uuid,
+  p_payment_intent_id text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  -- Already paid (or moved past payment): nothing to do
+  IF v_order.status <> 'accepted'::order_status THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.orders
+  SET status = 'paid'::order_status,
+      paid_at = now(),
+      stripe_payment_intent_id = COALESCE(p_payment_intent_id, stripe_payment_intent_id),
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  PERFORM public.post_order_payment(p_order_id);
+
+  PERFORM public.create_notification(
+    v_order.buyer_id,
+    'payment'::notification_type,
+    'Payment confirmed',
+    'Your payment of $' || v_order.final_amount || ' was received. Arrange the handover with the owner.',
+    jsonb_build_object('order_id', v_order.id),
+    '/orders/' || v_order.id,
+    'View order',
+    'medium'
+  );
+
+  PERFORM public.create_notification(
+    v_order.seller_id,
+    'payment'::notification_type,
+    'Order paid',
+    'The borrower paid $' || v_order.final_amount || '. Your earnings are pending until the item is returned.',
+    jsonb_build_object('order_id', v_order.id),
+    '/wallet',
+    'View wallet',
+    'high'
+  );
+
+  RETURN true;
+END;
+$$;
+
+-- Function to apply a (partial or full) refund reported by Stripe.
+-- p_amount_refunded is Stripe's cumulative refunded total for the charge,
+-- so replays of the same refund leave the order untouched.
+CREATE OR REPLACE FUNCTION public.mark_order_refunded(
+  p_order_id uuid,
+  p_amount_refunded numeric,
+  p_fully_refunded boolean
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_delta numeric;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  v_delta := p_amount_refunded - v_order.refunded_amount;
+  IF v_delta <= 0 THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.orders
+  SET refunded_amount = p_amount_refunded,
+      status = CASE WHEN p_fully_refunded THEN 'refunded'::order_status ELSE status END,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  PERFORM public.post_order_refund(p_order_id, v_delta, 'refund:' || p_order_id || ':' || p_amount_refunded);
+
+  PERFORM public.create_notification(
+    v_order.buyer_id,
+    'payment'::notification_type,
+    'Refund issued',
+    '$' || v_delta || ' has been refunded to your original payment method.',
+    jsonb_build_object('order_id', v_order.id, 'amount', v_delta),
+    '/orders/' || v_order.id,
+    'View order',
+    'medium'
+  );
+
+  PERFORM public.create_notification(
+    v_order.seller_id,
+    'payment'::notification_type,
+    'Order refunded',
+    '$' || v_delta || ' was refunded to the borrower and deducted from your earnings.',
+    jsonb_build_object('order_id', v_order.id, 'amount', v_delta),
+    '/wallet',
+    'View wallet',
+    'medium'
+  );
+
+  RETURN true;
+END;
+$$;
+
+-- Function to record a settled deposit (called by the settle-deposits function after Stripe confirms)
+CREATE OR REPLACE FUNCTION public.settle_deposit(
+  p_order_id uuid,
+  p_captured_amount numeric
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_status deposit_status;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_order.deposit_status NOT IN ('release_pending'::deposit_status, 'capture_pending'::deposit_status) THEN
+    RETURN false;
+  END IF;
+
+  v_status := CASE
+    WHEN p_captured_amount <= 0 THEN 'released'::deposit_status
+    WHEN p_captured_amount >= v_order.deposit_amount THEN 'captured'::deposit_status
+    ELSE 'partially_captured'::deposit_status
+  END;
+
+  UPDATE public.orders
+  SET deposit_status = v_status,
+      deposit_captured_amount = GREATEST(p_captured_amount, 0),
+      deposit_settled_at = now(),
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  -- Captured deposit money goes to the lender, without a platform fee
+  IF p_captured_amount > 0 THEN
+    PERFORM public.post_ledger_transaction(
+      'charge',
+      'Deposit charged for damage',
+      jsonb_build_array(
+        jsonb_build_object('account', 'external', 'amount', -p_captured_amount),
+        jsonb_build_object('account', 'escrow', 'amount', p_captured_amount)
+      ),
+      p_order_id,
+      NULL,
+      'deposit_charge:' || p_order_id
+    );
+
+    PERFORM public.post_ledger_transaction(
+      'seller_credit',
+      'Damage claim paid',
+      jsonb_build_array(
+        jsonb_build_object('account', 'escrow', 'amount', -p_captured_amount),
+        jsonb_build_object('account', 'seller_pending', 'user_id', v_order.seller_id, 'amount', p_captured_amount)
+      ),
+      p_order_id,
+      NULL,
+      'deposit_credit:' || p_order_id
+    );
+  END IF;
+
+  PERFORM public.create_notification(
+    v_order.buyer_id,
+    'payment'::notification_type,
+    CASE WHEN v_status = 'released'::deposit_status THEN 'Deposit released' ELSE 'Deposit charged' END,
+    CASE WHEN v_status = 'released'::deposit_status
+      THEN 'The $' || v_order.deposit_amount || ' hold on your card has been released.'
+      ELSE '$' || p_captured_amount || ' of your deposit was charged for damage. The rest of the hold has been released.'
+    END,
+    jsonb_build_object('order_id', v_order.id, 'captured', p_captured_amount),
+    '/orders/' || v_order.id,
+    'View order',
+    'medium'
+  );
+
+  PERFORM public.create_notification(
+    v_order.seller_id,
+    'payment'::notification_type,
+    CASE WHEN v_status = 'released'::deposit_status THEN 'Deposit released' ELSE 'Damage claim paid' END,
+    CASE WHEN v_status = 'released'::deposit_status
+      THEN 'The borrower''s deposit hold has been released.'
+      ELSE '$' || p_captured_amount || ' from the deposit was added to your pending balance.'
+    END,
+    jsonb_build_object('order_id', v_order.id, 'captured', p_captured_amount),
+    '/orders/' || v_order.id,
+    'View order',
+    'low'
+  );
+
+  RETURN true;
+END;
+$$;
+
+-- Release pending earnings once the item has been back for the holding period,
+-- with no open dispute and no deposit decision outstanding. Runs from pg_cron.
+CREATE OR REPLACE FUNCTION public.release_held_funds()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order record;
+  v_released numeric;
+  v_count integer := 0;
+BEGIN
+  FOR v_order IN
+    SELECT o.id, o.seller_id
+    FROM public.orders o
+    WHERE o.status = 'completed'
+      AND COALESCE(o.return_scanned_at, o.service_end_scan, o.updated_at) < now() - public.wallet_hold_period()
+      AND NOT o.has_open_dispute
+      AND o.deposit_status NOT IN ('held', 'release_pending', 'capture_pending')
+      AND public.ledger_balance('seller_pending', o.seller_id, o.id) > 0
+  LOOP
+    v_released := public.post_hold_release(v_order.id);
+
+    IF v_released > 0 THEN
+      v_count := v_count + 1;
+
+      PERFORM public.create_notification(
+        v_order.seller_id,
+        'payment'::notification_type,
+        'Funds available',
+        '$' || v_released || ' from a completed order is now available to withdraw.',
+        jsonb_build_object('order_id', v_order.id, 'amount', v_released),
+        '/wallet',
+        'View wallet',
+        'medium'
+      );
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_held_funds() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_held_funds() TO service_role;
+
+SELECT cron.schedule(
+  'release-held-funds',
+  '0 * * * *',
+  $$ SELECT public.release_held_funds(); $$
+);
+
+-- Function for sellers to withdraw part of their available balance. The money
+-- leaves the wallet straight away and is sent by the process-payouts function.
+CREATE OR REPLACE FUNCTION public.request_payout(p_amount numeric)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_account public.payout_accounts%ROWTYPE;
+  v_available numeric;
+  v_payout_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  SELECT * INTO v_account FROM public.payout_accounts WHERE user_id = auth.uid();
+  IF NOT FOUND OR NOT v_account.payouts_enabled THEN
+    RAISE EXCEPTION 'Set up your payout account first';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount < 1 OR p_amount <> round(p_amount, 2) THEN
+    RAISE EXCEPTION 'Payouts must be at least $1';
+  END IF;
+
+  -- Serialise payout requests per user
+  PERFORM 1 FROM public.profiles WHERE id = auth.uid() FOR UPDATE;
+
+  v_available := public.ledger_balance('seller_available', auth.uid());
+  IF p_amount > v_available THEN
+    RAISE EXCEPTION 'You can withdraw up to $%', GREATEST(v_available, 0);
+  END IF;
+
+  INSERT INTO public.payouts (user_id, amount, provider)
+  VALUES (auth.uid(), p_amount, v_account.provider)
+  RETURNING id INTO v_payout_id;
+
+  PERFORM public.post_ledger_transaction(
+    'payout',
+    'Withdrawal',
+    jsonb_build_array(
+      jsonb_build_object('account', 'seller_available', 'user_id', auth.uid(), 'amount', -p_amount),
+      jsonb_build_object('account', 'payouts_in_transit', 'amount', p_amount)
+    ),
+    NULL,
+    v_payout_id,
+    'payout:' || v_payout_id
+  );
+
+  RETURN v_payout_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_payout(numeric) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_payout(numeric) TO authenticated;
+
+-- Function to record the provider's answer for a payout (called by process-payouts).
+-- A failed payout goes back to the seller's available balance.
+CREATE OR REPLACE FUNCTION public.record_payout_result(
+  p_payout_id uuid,
+  p_succeeded boolean,
+  p_provider_payout_id text DEFAULT NULL,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payout public.payouts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_payout
+  FROM public.payouts
+  WHERE id = p_payout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout % not found', p_payout_id;
+  END IF;
+
+  IF v_payout.status NOT IN ('requested', 'processing') THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.payouts
+  SET status = CASE WHEN p_succeeded THEN 'paid' ELSE 'failed' END::payout_status,
+      provider_payout_id = COALESCE(p_provider_payout_id, provider_payout_id),
+      failure_reason = p_failure_reason,
+      processed_at = now()
+  WHERE id = p_payout_id;
+
+  IF p_succeeded THEN
+    PERFORM public.post_ledger_transaction(
+      'payout',
+      'Withdrawal sent',
+      jsonb_build_array(
+        jsonb_build_object('account', 'payouts_in_transit', 'amount', -v_payout.amount),
+        jsonb_build_object('account', 'external', 'amount', v_payout.amount)
+      ),
+      NULL,
+      p_payout_id,
+      'payout_sent:' || p_payout_id
+    );
+  ELSE
+    PERFORM public.post_ledger_transaction(
+      'payout',
+      'Withdrawal failed, returned to wallet',
+      jsonb_build_array(
+        jsonb_build_object('account', 'payouts_in_transit', 'amount', -v_payout.amount),
+        jsonb_build_object('account', 'seller_available', 'user_id', v_payout.user_id, 'amount', v_payout.amount)
+      ),
+      NULL,
+      p_payout_id,
+      'payout_failed:' || p_payout_id
+    );
+  END IF;
+
+  PERFORM public.create_notification(
+    v_payout.user_id,
+    'payment'::notification_type,
+    CASE WHEN p_succeeded THEN 'Payout sent' ELSE 'Payout failed' END,
+    CASE WHEN p_succeeded
+      THEN '$' || v_payout.amount || ' is on its way to your bank account.'
+      ELSE 'Your $' || v_payout.amount || ' payout could not be sent and is back in your wallet. '
+        || COALESCE(p_failure_reason, '')
+    END,
+    jsonb_build_object('payout_id', p_payout_id, 'amount', v_payout.amount),
+    '/wallet',
+    'View wallet',
+    CASE WHEN p_succeeded THEN 'medium' ELSE 'high' END
+  );
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payout_result(uuid, boolean, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payout_result(uuid, boolean, text, text) TO service_role;
+
+-- Send requested payouts every 15 minutes
+SELECT cron.schedule(
+  'process-payouts',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://xgdxmzijqbslplbttugp.supabase.co/functions/v1/process-payouts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- Backfill the ledger from existing orders. Orders paid before this migration
+-- were credited in full, so they carry no platform fee.
+DO $$
+DECLARE
+  v_order record;
+BEGIN
+  FOR v_order IN
+    SELECT id, refunded_amount, deposit_captured_amount, seller_id
+    FROM public.orders
+    WHERE paid_at IS NOT NULL
+    ORDER BY paid_at
+  LOOP
+    PERFORM public.post_order_payment(v_order.id, 0);
+
+    IF v_order.refunded_amount > 0 THEN
+      PERFORM public.post_order_refund(v_order.id, v_order.refunded_amount, 'refund:' || v_order.id || ':' || v_order.refunded_amount);
+    END IF;
+
+    IF v_order.deposit_captured_amount > 0 THEN
+      PERFORM public.post_ledger_transaction(
+        'charge',
+        'Deposit charged for damage',
+        jsonb_build_array(
+          jsonb_build_object('account', 'external', 'amount', -v_order.deposit_captured_amount),
+          jsonb_build_object('account', 'escrow', 'amount', v_order.deposit_captured_amount)
+        ),
+        v_order.id,
+        NULL,
+        'deposit_charge:' || v_order.id
+      );
+      PERFORM public.post_ledger_transaction(
+        'seller_credit',
+        'Damage claim paid',
+        jsonb_build_array(
+          jsonb_build_object('account', 'escrow', 'amount', -v_order.deposit_captured_amount),
+          jsonb_build_object('account', 'seller_pending', 'user_id', v_order.seller_id, 'amount', v_order.deposit_captured_amount)
+        ),
+        v_order.id,
+        NULL,
+        'deposit_credit:' || v_order.id
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Recompute the cached balances from the ledger
+SELECT set_config('app.ledger_sync', 'on', true);
+
+UPDATE public.profiles p
+SET pending_balance = public.ledger_balance('seller_pending', p.id),
+    wallet_balance = public.ledger_balance('seller_available', p.id);
+
+SELECT set_config('app.ledger_sync', 'off', true);
+
+-- Completed orders past the holding period become available right away
+SELECT public.release_held_funds();
@@ -0,0 +1,522 @@
+-- Service bookings: providers publish time slots, borrowers request an
+-- appointment inside one, and the provider confirms or declines it. A
+-- confirmed appointment is backed by a regular order, so payment, QR
+-- handoff, disputes and the wallet work unchanged. The final bill is worked
+-- out from the service start and end scans.
+
+CREATE TYPE public.service_order_status AS ENUM (
+  'requested',
+  'confirmed',
+  'declined',
+  'cancelled',
+  'in_progress',
+  'completed'
+);
+
+-- Windows in which a provider takes appointments for one of their services
+CREATE TABLE public.service_slots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_id uuid NOT NULL REFERENCES public.listings(id) ON DELETE CASCADE,
+  provider_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  starts_at timestamp with time zone NOT NULL,
+  ends_at timestamp with time zone NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT service_slots_period_check CHECK (ends_at > starts_at),
+  CONSTRAINT service_slots_no_overlap EXCLUDE USING gist (
+    service_id WITH =,
+    tstzrange(starts_at, ends_at, '[)') WITH &&
+  )
+);
+
+ALTER TABLE public.service_slots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view service slots"
+ON public.service_slots
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Providers can add slots to their services"
+ON public.service_slots
+FOR INSERT
+WITH CHECK (
+  provider_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.listings l
+    WHERE l.id = service_slots.service_id
+      AND l.seller_id = auth.uid()
+      AND l.type = 'service'
+      AND l.price_type = 'hourly'
+  )
+);
+
+CREATE POLICY "Providers can remove their slots"
+ON public.service_slots
+FOR DELETE
+USING (provider_id = auth.uid());
+
+CREATE INDEX idx_service_slots_service ON public.service_slots(service_id, starts_at);
+
+-- An appointment requested by a borrower. Amounts are in the order currency.
+CREATE TABLE public.service_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_id uuid NOT NULL,
+  provider_id uuid NOT NULL,
+  buyer_id uuid NOT NULL,
+  slot_id uuid REFERENCES public.service_slots(id) ON DELETE SET NULL,
+  order_id uuid UNIQUE REFERENCES public.orders(id) ON DELETE SET NULL,
+  status service_order_status NOT NULL DEFAULT 'requested',
+  starts_at timestamp with time zone NOT NULL,
+  ends_at timestamp with time zone NOT NULL,
+  hourly_rate numeric NOT NULL,
+  estimated_amount numeric NOT NULL,
+  billed_hours integer,
+  final_amount numeric,
+  refund_amount numeric NOT NULL DEFAULT 0,
+  refund_pending boolean NOT NULL DEFAULT false,
+  stripe_refund_id text,
+  notes text,
+  decline_reason text,
+  confirmed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT service_orders_service_id_fkey FOREIGN KEY (service_id) REFERENCES public.listings(id) ON DELETE CASCADE,
+  CONSTRAINT service_orders_provider_id_fkey FOREIGN KEY (provider_id) REFERENCES public.profiles(id) ON DELETE CASCADE,
+  CONSTRAINT service_orders_buyer_id_fkey FOREIGN KEY (buyer_id) REFERENCES public.profiles(id) ON DELETE CASCADE,
+  CONSTRAINT service_orders_period_check CHECK (ends_at > starts_at),
+  -- A provider can't be in two confirmed appointments for the same service at once
+  CONSTRAINT service_orders_no_overlap EXCLUDE USING gist (
+    service_id WITH =,
+    tstzrange(starts_at, ends_at, '[)') WITH &&
+  ) WHERE (status IN ('confirmed', 'in_progress'))
+);
+
+ALTER TABLE public.service_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view service orders"
+ON public.service_orders
+FOR SELECT
+USING (auth.uid() = buyer_id OR auth.uid() = provider_id);
+
+-- Service orders are only changed through the functions below
+REVOKE INSERT, UPDATE, DELETE ON public.service_orders FROM anon, authenticated;
+
+CREATE INDEX idx_service_orders_buyer ON public.service_orders(buyer_id, created_at DESC);
+CREATE INDEX idx_service_orders_provider ON public.service_orders(provider_id, created_at DESC);
+CREATE INDEX idx_service_orders_refund_pending ON public.service_orders(id) WHERE refund_pending;
+
+-- Hourly services are booked by appointment; their orders are created when
+-- the provider confirms one, never directly by the borrower
+CREATE OR REPLACE FUNCTION public.guard_service_order_insert()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.service_booking', true) IS DISTINCT FROM 'on' AND EXISTS (
+    SELECT 1 FROM public.listings
+    WHERE id = NEW.listing_id
+      AND type = 'service'
+      AND price_type = 'hourly'
+  ) THEN
+    RAISE EXCEPTION 'Book this service from one of the provider''s time slots';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_service_order_insert
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_service_order_insert();
+
+-- Function to request an appointment inside one of the provider's slots
+CREATE OR REPLACE FUNCTION public.book_service(
+  p_slot_id uuid,
+  p_starts_at timestamp with time zone,
+  p_ends_at timestamp with time zone,
+  p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot public.service_slots%ROWTYPE;
+  v_listing public.listings%ROWTYPE;
+  v_buyer uuid := auth.uid();
+  v_hours integer;
+  v_id uuid;
+BEGIN
+  IF v_buyer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_slot
+  FROM public.service_slots
+  WHERE id = p_slot_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Time slot % not found', p_slot_id;
+  END IF;
+
+  SELECT * INTO v_listing
+  FROM public.listings
+  WHERE id = v_slot.service_id;
+
+  IF v_listing.status <> 'active' THEN
+    RAISE EXCEPTION 'This service is not available right now';
+  END IF;
+
+  IF v_listing.seller_id = v_buyer THEN
+    RAISE EXCEPTION 'You cannot book your own service';
+  END IF;
+
+  IF p_ends_at <= p_starts_at OR p_starts_at < v_slot.starts_at OR p_ends_at > v_slot.ends_at THEN
+    RAISE EXCEPTION 'The appointment has to fit inside the provider''s time slot';
+  END IF;
+
+  IF p_starts_at < now() THEN
+    RAISE EXCEPTION 'Appointments cannot start in the past';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.get_listing_availability(v_listing.id, p_starts_at, p_ends_at)
+  ) THEN
+    RAISE EXCEPTION 'That time is already booked';
+  END IF;
+
+  v_hours := public.booking_units('hourly', p_starts_at, p_ends_at);
+
+  INSERT INTO public.service_orders (
+    service_id, provider_id, buyer_id, slot_id, starts_at, ends_at,
+    hourly_rate, estimated_amount, notes
+  )
+  VALUES (
+    v_listing.id, v_listing.seller_id, v_buyer, v_slot.id, p_starts_at, p_ends_at,
+    v_listing.price, v_listing.price * v_hours, NULLIF(p_notes, '')
+  )
+  RETURNING id INTO v_id;
+
+  PERFORM public.create_notification(
+    v_listing.seller_id,
+    'order'::notification_type,
+    'New booking request',
+    'Someone wants to book ' || v_listing.title || ' on '
+      || to_char(p_starts_at, 'Mon DD "at" HH24:MI') || ' for ' || v_hours || ' hour(s).',
+    jsonb_build_object('service_order_id', v_id),
+    '/orders',
+    'Review request',
+    'high'
+  );
+
+  RETURN v_id;
+END;
+$$;
+
+-- Function for the provider to confirm a requested appointment. Creates the
+-- backing order, already accepted, so the borrower can pay for it.
+CREATE OR REPLACE FUNCTION public.confirm_service_order(p_service_order_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking public.service_orders%ROWTYPE;
+  v_title text;
+  v_order_id uuid;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.service_orders
+  WHERE id = p_service_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % not found', p_service_order_id;
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM v_booking.provider_id THEN
+    RAISE EXCEPTION 'Only the provider can confirm a booking';
+  END IF;
+
+  IF v_booking.status <> 'requested' THEN
+    RAISE EXCEPTION 'Booking % is no longer awaiting confirmation', p_service_order_id;
+  END IF;
+
+  IF v_booking.starts_at < now() THEN
+    RAISE EXCEPTION 'This appointment has already started';
+  END IF;
+
+  PERFORM set_config('app.service_booking', 'on', true);
+
+  -- prepare_order and price_booking fill in the seller, status and price
+  INSERT INTO public.orders (buyer_id, seller_id, listing_id, quantity, notes, starts_at, ends_at)
+  VALUES (
+    v_booking.buyer_id, v_booking.provider_id, v_booking.service_id, 1,
+    v_booking.notes, v_booking.starts_at, v_booking.ends_at
+  )
+  RETURNING id INTO v_order_id;
+
+  PERFORM set_config('app.service_booking', 'off', true);
+
+  UPDATE public.orders
+  SET status = 'accepted',
+      updated_at = now()
+  WHERE id = v_order_id;
+
+  INSERT INTO public.order_events (order_id, actor_id, event, from_status, to_status, payload)
+  VALUES (v_order_id, auth.uid(), 'accept', 'pending', 'accepted', jsonb_build_object('service_order_id', v_booking.id));
+
+  UPDATE public.service_orders
+  SET status = 'confirmed',
+      order_id = v_order_id,
+      confirmed_at = now(),
+      updated_at = now()
+  WHERE id = p_service_order_id;
+
+  SELECT title INTO v_title
+  FROM public.listings
+  WHERE id = v_booking.service_id;
+
+  PERFORM public.create_notification(
+    v_booking.buyer_id,
+    'order'::notification_type,
+    'Booking confirmed',
+    v_title || ' is confirmed for ' || to_char(v_booking.starts_at, 'Mon DD "at" HH24:MI')
+      || '. Pay now to secure your appointment.',
+    jsonb_build_object('service_order_id', v_booking.id, 'order_id', v_order_id),
+    '/orders/' || v_order_id,
+    'Pay now',
+    'high'
+  );
+
+  RETURN v_order_id;
+END;
+$$;
+
+-- Function for the provider to decline a requested appointment
+CREATE OR REPLACE FUNCTION public.decline_service_order(
+  p_service_order_id uuid,
+  p_reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking public.service_orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.service_orders
+  WHERE id = p_service_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % not found', p_service_order_id;
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM v_booking.provider_id THEN
+    RAISE EXCEPTION 'Only the provider can decline a booking';
+  END IF;
+
+  IF v_booking.status <> 'requested' THEN
+    RAISE EXCEPTION 'Booking % is no longer awaiting confirmation', p_service_order_id;
+  END IF;
+
+  UPDATE public.service_orders
+  SET status = 'declined',
+      decline_reason = NULLIF(p_reason, ''),
+      updated_at = now()
+  WHERE id = p_service_order_id;
+
+  PERFORM public.create_notification(
+    v_booking.buyer_id,
+    'order'::notification_type,
+    'Booking declined',
+    COALESCE('Your booking request was declined: ' || NULLIF(p_reason, ''), 'Your booking request was declined.'),
+    jsonb_build_object('service_order_id', v_booking.id),
+    '/orders',
+    'View orders',
+    'medium'
+  );
+END;
+$$;
+
+-- Function for the borrower to withdraw a request the provider hasn't answered.
+-- Confirmed appointments are cancelled through their order.
+CREATE OR REPLACE FUNCTION public.cancel_service_order(p_service_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking public.service_orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.service_orders
+  WHERE id = p_service_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % not found', p_service_order_id;
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM v_booking.buyer_id THEN
+    RAISE EXCEPTION 'Only the borrower can withdraw a booking request';
+  END IF;
+
+  IF v_booking.status <> 'requested' THEN
+    RAISE EXCEPTION 'Booking % is no longer awaiting confirmation', p_service_order_id;
+  END IF;
+
+  UPDATE public.service_orders
+  SET status = 'cancelled',
+      updated_at = now()
+  WHERE id = p_service_order_id;
+
+  PERFORM public.create_notification(
+    v_booking.provider_id,
+    'order'::notification_type,
+    'Booking request withdrawn',
+    'The borrower withdrew their booking request for ' || to_char(v_booking.starts_at, 'Mon DD "at" HH24:MI') || '.',
+    jsonb_build_object('service_order_id', v_booking.id),
+    '/orders',
+    'View orders',
+    'low'
+  );
+END;
+$$;
+
+-- Follow the backing order through handoff, completion and cancellation.
+-- On completion the appointment is billed per started hour between the
+-- service start and end scans, capped at the booked hours that were paid
+-- for; the unused hours are refunded by process-service-refunds.
+CREATE OR REPLACE FUNCTION public.sync_service_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking public.service_orders%ROWTYPE;
+  v_booked_hours integer;
+  v_billed_hours integer;
+  v_final numeric;
+  v_refund numeric;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.service_orders
+  WHERE order_id = NEW.id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'in_progress' AND v_booking.status = 'confirmed' THEN
+    UPDATE public.service_orders
+    SET status = 'in_progress',
+        updated_at = now()
+    WHERE id = v_booking.id;
+
+  ELSIF NEW.status = 'completed' AND v_booking.status IN ('confirmed', 'in_progress') THEN
+    v_booked_hours := public.booking_units('hourly', v_booking.starts_at, v_booking.ends_at);
+    v_billed_hours := CASE
+      WHEN NEW.service_start_scan IS NOT NULL AND NEW.service_end_scan > NEW.service_start_scan
+        THEN LEAST(v_booked_hours, public.booking_units('hourly', NEW.service_start_scan, NEW.service_end_scan))
+      ELSE v_booked_hours
+    END;
+    v_final := LEAST(NEW.final_amount, v_booking.hourly_rate * v_billed_hours);
+    v_refund := GREATEST(NEW.final_amount - v_final, 0);
+
+    UPDATE public.service_orders
+    SET status = 'completed',
+        billed_hours = v_billed_hours,
+        final_amount = v_final,
+        refund_amount = v_refund,
+        refund_pending = v_refund > 0 AND NEW.stripe_payment_intent_id IS NOT NULL,
+        updated_at = now()
+    WHERE id = v_booking.id;
+
+    PERFORM public.create_notification(
+      v_booking.buyer_id,
+      'payment'::notification_type,
+      'Service billed',
+      'You were billed for ' || v_billed_hours || ' hour(s): $' || v_final || '.'
+        || CASE WHEN v_refund > 0 THEN ' The unused $' || v_refund || ' will be refunded.' ELSE '' END,
+      jsonb_build_object('service_order_id', v_booking.id, 'order_id', NEW.id, 'billed_hours', v_billed_hours),
+      '/orders/' || NEW.id,
+      'View order',
+      'medium'
+    );
+
+  ELSIF NEW.status IN ('cancelled', 'rejected', 'refunded') AND v_booking.status IN ('confirmed', 'in_progress') THEN
+    UPDATE public.service_orders
+    SET status = 'cancelled',
+        updated_at = now()
+    WHERE id = v_booking.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_service_order
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.sync_service_order();
+
+-- Function to record that an unused-hours refund was sent to Stripe. The order
+-- itself is updated by the charge.refunded webhook.
+CREATE OR REPLACE FUNCTION public.record_service_refund(
+  p_service_order_id uuid,
+  p_refund_id text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.service_orders
+  SET refund_pending = false,
+      stripe_refund_id = p_refund_id,
+      updated_at = now()
+  WHERE id = p_service_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.guard_service_order_insert() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_service_order() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.book_service(uuid, timestamp with time zone, timestamp with time zone, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.book_service(uuid, timestamp with time zone, timestamp with time zone, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.confirm_service_order(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.confirm_service_order(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.decline_service_order(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.decline_service_order(uuid, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.cancel_service_order(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_service_order(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_service_refund(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_service_refund(uuid, text) TO service_role;
+
+-- Send unused-hours refunds every 15 minutes
+SELECT cron.schedule(
+  'process-service-refunds',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://xgdxmzijqbslplbttugp.supabase.co/functions/v1/process-service-refunds',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,246 @@
+-- Referral attribution: the ?ref= code travels in the signup metadata, a
+-- pending referral is recorded when the account is created, and it completes
+-- (with XP and referral badges) after the referred user's first completed order.
+
+-- Each account can only ever be referred once
+ALTER TABLE public.referrals
+ADD CONSTRAINT referrals_referred_id_key UNIQUE (referred_id),
+ADD COLUMN rejection_reason text,
+ADD CONSTRAINT referrals_status_check CHECK (status IN ('pending', 'completed', 'rejected'));
+
+-- XP both sides get when a referral completes
+CREATE OR REPLACE FUNCTION public.referral_xp_reward()
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 100;
+$$;
+
+-- Canonical form of an email for duplicate-account checks: lowercased, without
+-- +tags, and without dots for Gmail where they are ignored
+CREATE OR REPLACE FUNCTION public.normalize_email(p_email text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_local text := split_part(lower(p_email), '@', 1);
+  v_domain text := split_part(lower(p_email), '@', 2);
+BEGIN
+  v_local := split_part(v_local, '+', 1);
+  IF v_domain IN ('gmail.com', 'googlemail.com') THEN
+    v_local := replace(v_local, '.', '');
+    v_domain := 'gmail.com';
+  END IF;
+  RETURN v_local || '@' || v_domain;
+END;
+$$;
+
+-- Records the referral when an account is created with a referral code.
+-- Suspicious signups are kept as rejected so they can't be retried.
+CREATE OR REPLACE FUNCTION public.record_referral_signup()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code text := upper(NULLIF(trim(NEW.raw_user_meta_data->>'referral_code'), ''));
+  v_referrer_id uuid;
+  v_referrer_email text;
+  v_reason text;
+BEGIN
+  IF v_code IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT p.id, u.email INTO v_referrer_id, v_referrer_email
+  FROM public.profiles p
+  JOIN auth.users u ON u.id = p.id
+  WHERE p.referral_code = v_code;
+
+  IF v_referrer_id IS NULL OR v_referrer_id = NEW.id THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.normalize_email(NEW.email) = public.normalize_email(v_referrer_email) THEN
+    v_reason := 'self_referral';
+  ELSIF EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id <> NEW.id
+      AND public.normalize_email(email) = public.normalize_email(NEW.email)
+  ) THEN
+    v_reason := 'duplicate_account';
+  ELSIF (
+    SELECT count(*) FROM public.referrals
+    WHERE referrer_id = v_referrer_id
+      AND created_at > now() - interval '1 day'
+  ) >= 20 THEN
+    v_reason := 'too_many_signups';
+  END IF;
+
+  INSERT INTO public.referrals (referrer_id, referred_id, referral_code, status, rejection_reason)
+  VALUES (
+    v_referrer_id, NEW.id, v_code,
+    CASE WHEN v_reason IS NULL THEN 'pending' ELSE 'rejected' END,
+    v_reason
+  )
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  -- Never block a signup over its referral
+  RAISE WARNING 'Could not record referral for %: %', NEW.id, SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_referral_signup
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_referral_signup();
+
+-- Function to grant every referrals_made badge the user has reached
+CREATE OR REPLACE FUNCTION public.evaluate_referral_badges(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+  v_badge public.badges%ROWTYPE;
+BEGIN
+  SELECT count(*) INTO v_count
+  FROM public.referrals
+  WHERE referrer_id = p_user_id
+    AND status = 'completed';
+
+  FOR v_badge IN
+    SELECT b.* FROM public.badges b
+    WHERE b.requirement_type = 'referrals_made'
+      AND b.requirement_value <= v_count
+      AND NOT EXISTS (
+        SELECT 1 FROM public.user_badges ub
+        WHERE ub.user_id = p_user_id AND ub.badge_id = b.id
+      )
+    ORDER BY b.requirement_value
+  LOOP
+    INSERT INTO public.user_badges (user_id, badge_id)
+    VALUES (p_user_id, v_badge.id)
+    ON CONFLICT DO NOTHING;
+
+    IF v_badge.xp_reward > 0 THEN
+      PERFORM public.award_xp(p_user_id, v_badge.xp_reward);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Function to complete a pending referral once the referred user has finished
+-- an order. Orders with the referrer themselves don't count, and neither do
+-- accounts sharing the referrer's phone number.
+CREATE OR REPLACE FUNCTION public.complete_referral(p_referred_id uuid, p_order_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_referral public.referrals%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_reward integer := public.referral_xp_reward();
+BEGIN
+  SELECT * INTO v_referral
+  FROM public.referrals
+  WHERE referred_id = p_referred_id
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id;
+
+  IF v_referral.referrer_id IN (v_order.buyer_id, v_order.seller_id) THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.profiles referrer
+    JOIN public.profiles referred ON referred.id = p_referred_id
+    WHERE referrer.id = v_referral.referrer_id
+      AND NULLIF(referrer.phone, '') IS NOT NULL
+      AND referrer.phone = referred.phone
+  ) THEN
+    UPDATE public.referrals
+    SET status = 'rejected',
+        rejection_reason = 'shared_phone'
+    WHERE id = v_referral.id;
+    RETURN false;
+  END IF;
+
+  UPDATE public.referrals
+  SET status = 'completed',
+      xp_awarded = v_reward,
+      completed_at = now()
+  WHERE id = v_referral.id;
+
+  PERFORM public.award_xp(v_referral.referrer_id, v_reward);
+  PERFORM public.award_xp(p_referred_id, v_reward);
+  PERFORM public.evaluate_referral_badges(v_referral.referrer_id);
+
+  PERFORM public.create_notification(
+    v_referral.referrer_id,
+    'system'::notification_type,
+    'Referral completed',
+    'Someone you invited just finished their first order. You earned ' || v_reward || ' XP.',
+    jsonb_build_object('referral_id', v_referral.id, 'xp', v_reward),
+    '/gamification',
+    'View rewards',
+    'medium'
+  );
+
+  PERFORM public.create_notification(
+    p_referred_id,
+    'system'::notification_type,
+    'Welcome bonus unlocked',
+    'You finished your first order and earned ' || v_reward || ' XP for joining through a friend.',
+    jsonb_build_object('referral_id', v_referral.id, 'xp', v_reward),
+    '/gamification',
+    'View rewards',
+    'low'
+  );
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_referrals_on_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.complete_referral(NEW.buyer_id, NEW.id);
+  PERFORM public.complete_referral(NEW.seller_id, NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER complete_referrals_on_order
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.complete_referrals_on_order();
+
+REVOKE EXECUTE ON FUNCTION public.record_referral_signup() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_referrals_on_order() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.evaluate_referral_badges(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_referral(uuid, uuid) FROM PUBLIC, anon, authenticated;
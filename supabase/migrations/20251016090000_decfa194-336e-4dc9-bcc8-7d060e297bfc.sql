@@ -0,0 +1,370 @@
+-- Badge rules engine: every badge requirement_type is backed by a metric
+-- definition, evaluated per user. Reaching a badge's requirement_value grants
+-- the badge, its XP reward, an achievement and a notification. New metrics are
+-- rows in badge_metrics, not code.
+
+-- How to compute one requirement_type for a user:
+--   SELECT <aggregate>(<value_column>) FROM public.<source_table>
+--   WHERE <user_column> = user AND <filters>
+-- filters is an object of column => value (or array of values, or null for IS NULL).
+CREATE TABLE public.badge_metrics (
+  requirement_type text PRIMARY KEY,
+  description text NOT NULL,
+  source_table text NOT NULL,
+  user_column text NOT NULL,
+  aggregate text NOT NULL DEFAULT 'count' CHECK (aggregate IN ('count', 'sum', 'max')),
+  value_column text,
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(filters) = 'object'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT badge_metrics_value_column_check CHECK (aggregate = 'count' OR value_column IS NOT NULL)
+);
+
+ALTER TABLE public.badge_metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view badge metrics"
+  ON public.badge_metrics FOR SELECT
+  TO authenticated
+  USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON public.badge_metrics FROM anon, authenticated;
+
+INSERT INTO public.badge_metrics (requirement_type, description, source_table, user_column, aggregate, value_column, filters) VALUES
+  ('loans_repaid', 'Rentals returned on time as the borrower', 'orders', 'buyer_id', 'count', NULL,
+    '{"status": "completed", "return_overdue_at": null}'),
+  ('items_lent', 'Completed orders as the lender', 'orders', 'seller_id', 'count', NULL,
+    '{"status": "completed"}'),
+  ('listings_created', 'Listings published', 'listings', 'seller_id', 'count', NULL,
+    '{"status": ["active", "paused", "sold"]}'),
+  ('referrals_made', 'Friends who joined and completed an order', 'referrals', 'referrer_id', 'count', NULL,
+    '{"status": "completed"}'),
+  ('streak_days', 'Consecutive days active', 'profiles', 'id', 'max', 'streak_days', '{}')
+ON CONFLICT (requirement_type) DO NOTHING;
+
+-- Existing custom badges may use types without a metric; only new ones are checked
+ALTER TABLE public.badges
+ADD CONSTRAINT badges_requirement_type_fkey
+FOREIGN KEY (requirement_type) REFERENCES public.badge_metrics(requirement_type)
+ON UPDATE CASCADE
+NOT VALID;
+
+CREATE INDEX idx_badges_requirement ON public.badges(requirement_type, requirement_value);
+
+-- Function to compute a metric for a user
+CREATE OR REPLACE FUNCTION public.badge_metric_value(p_user_id uuid, p_requirement_type text)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_metric public.badge_metrics%ROWTYPE;
+  v_filter record;
+  v_sql text;
+  v_value integer;
+BEGIN
+  SELECT * INTO v_metric
+  FROM public.badge_metrics
+  WHERE requirement_type = p_requirement_type;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown badge requirement type %', p_requirement_type;
+  END IF;
+
+  v_sql := format(
+    'SELECT COALESCE(%s, 0)::integer FROM public.%I WHERE %I = $1',
+    CASE v_metric.aggregate
+      WHEN 'count' THEN 'count(*)'
+      ELSE format('%s(%I)', v_metric.aggregate, v_metric.value_column)
+    END,
+    v_metric.source_table,
+    v_metric.user_column
+  );
+
+  FOR v_filter IN SELECT key, value FROM jsonb_each(v_metric.filters) LOOP
+    v_sql := v_sql || CASE jsonb_typeof(v_filter.value)
+      WHEN 'null' THEN format(' AND %I IS NULL', v_filter.key)
+      WHEN 'array' THEN format(
+        ' AND %I::text = ANY (%L::text[])',
+        v_filter.key,
+        ARRAY(SELECT jsonb_array_elements_text(v_filter.value))
+      )
+      ELSE format(' AND %I::text = %L', v_filter.key, v_filter.value #>> '{}')
+    END;
+  END LOOP;
+
+  EXECUTE v_sql INTO v_value USING p_user_id;
+  RETURN v_value;
+END;
+$$;
+
+-- Function to grant every badge a user has reached. Pass a requirement type
+-- to only check that metric. Returns the number of badges granted.
+CREATE OR REPLACE FUNCTION public.evaluate_badges(
+  p_user_id uuid,
+  p_requirement_type text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_metric public.badge_metrics%ROWTYPE;
+  v_badge public.badges%ROWTYPE;
+  v_value integer;
+  v_granted integer := 0;
+BEGIN
+  FOR v_metric IN
+    SELECT m.* FROM public.badge_metrics m
+    WHERE (p_requirement_type IS NULL OR m.requirement_type = p_requirement_type)
+      -- Skip the query when there is nothing left to earn
+      AND EXISTS (
+        SELECT 1 FROM public.badges b
+        WHERE b.requirement_type = m.requirement_type
+          AND NOT EXISTS (
+            SELECT 1 FROM public.user_badges ub
+            WHERE ub.user_id = p_user_id AND ub.badge_id = b.id
+          )
+      )
+  LOOP
+    v_value := public.badge_metric_value(p_user_id, v_metric.requirement_type);
+
+    FOR v_badge IN
+      SELECT b.* FROM public.badges b
+      WHERE b.requirement_type = v_metric.requirement_type
+        AND b.requirement_value <= v_value
+        AND NOT EXISTS (
+          SELECT 1 FROM public.user_badges ub
+          WHERE ub.user_id = p_user_id AND ub.badge_id = b.id
+        )
+      ORDER BY b.requirement_value
+    LOOP
+      INSERT INTO public.user_badges (user_id, badge_id)
+      VALUES (p_user_id, v_badge.id)
+      ON CONFLICT DO NOTHING;
+
+      IF NOT FOUND THEN
+        CONTINUE;
+      END IF;
+
+      INSERT INTO public.achievements (user_id, achievement_type, achievement_value, metadata)
+      VALUES (
+        p_user_id,
+        'badge_unlocked',
+        v_value,
+        jsonb_build_object(
+          'badge_id', v_badge.id,
+          'badge_name', v_badge.name,
+          'requirement_type', v_badge.requirement_type,
+          'requirement_value', v_badge.requirement_value,
+          'xp_reward', v_badge.xp_reward
+        )
+      );
+
+      IF v_badge.xp_reward > 0 THEN
+        PERFORM public.award_xp(p_user_id, v_badge.xp_reward);
+      END IF;
+
+      PERFORM public.create_notification(
+        p_user_id,
+        'system'::notification_type,
+        'Badge unlocked: ' || v_badge.name,
+        v_badge.description || CASE WHEN v_badge.xp_reward > 0 THEN ' +' || v_badge.xp_reward || ' XP' ELSE '' END,
+        jsonb_build_object('kind', 'badge_unlocked', 'badge_id', v_badge.id),
+        '/gamification',
+        'View badges',
+        'medium'
+      );
+
+      v_granted := v_granted + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_granted;
+END;
+$$;
+
+-- Referral badges now go through the engine
+CREATE OR REPLACE FUNCTION public.evaluate_referral_badges(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.evaluate_badges(p_user_id, 'referrals_made');
+END;
+$$;
+
+-- Function to evaluate every user, for metrics without a trigger and for
+-- badges added after users already qualified. Run daily by pg_cron.
+CREATE OR REPLACE FUNCTION public.evaluate_all_badges()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_granted integer := 0;
+BEGIN
+  FOR v_user_id IN SELECT id FROM public.profiles LOOP
+    BEGIN
+      v_granted := v_granted + public.evaluate_badges(v_user_id);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Badge evaluation failed for %: %', v_user_id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_granted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.evaluate_badges_on_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.evaluate_badges(NEW.buyer_id);
+  PERFORM public.evaluate_badges(NEW.seller_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER evaluate_badges_on_order
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.evaluate_badges_on_order();
+
+CREATE OR REPLACE FUNCTION public.evaluate_badges_on_listing()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.evaluate_badges(NEW.seller_id, 'listings_created');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER evaluate_badges_on_listing
+  AFTER INSERT ON public.listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.evaluate_badges_on_listing();
+
+CREATE OR REPLACE FUNCTION public.evaluate_badges_on_streak()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.evaluate_badges(NEW.id, 'streak_days');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER evaluate_badges_on_streak
+  AFTER UPDATE OF streak_days ON public.profiles
+  FOR EACH ROW
+  WHEN (NEW.streak_days > OLD.streak_days)
+  EXECUTE FUNCTION public.evaluate_badges_on_streak();
+
+-- Metric changes are audited too. Metrics are keyed by requirement_type, not
+-- a uuid, so those entries have no target_id.
+ALTER TABLE public.moderation_actions
+  ALTER COLUMN target_id DROP NOT NULL;
+
+ALTER TABLE public.moderation_actions
+  DROP CONSTRAINT IF EXISTS moderation_actions_target_type_check;
+
+ALTER TABLE public.moderation_actions
+  ADD CONSTRAINT moderation_actions_target_type_check
+  CHECK (target_type IN ('listing', 'user', 'verification', 'category', 'badge', 'dispute', 'badge_metric'));
+
+-- Function for admins to define or change a badge metric. The definition is
+-- test-run before it is saved, so a broken one never reaches the engine.
+CREATE OR REPLACE FUNCTION public.upsert_badge_metric(
+  p_requirement_type text,
+  p_description text,
+  p_source_table text,
+  p_user_column text,
+  p_aggregate text DEFAULT 'count',
+  p_value_column text DEFAULT NULL,
+  p_filters jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type text := lower(trim(p_requirement_type));
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage badge metrics';
+  END IF;
+
+  IF v_type !~ '^[a-z][a-z0-9_]*$' THEN
+    RAISE EXCEPTION 'Requirement types use lowercase letters, digits and underscores';
+  END IF;
+
+  IF to_regclass(format('public.%I', p_source_table)) IS NULL THEN
+    RAISE EXCEPTION 'Table % does not exist', p_source_table;
+  END IF;
+
+  INSERT INTO public.badge_metrics (
+    requirement_type, description, source_table, user_column, aggregate, value_column, filters
+  )
+  VALUES (
+    v_type, p_description, p_source_table, p_user_column, p_aggregate, NULLIF(p_value_column, ''), COALESCE(p_filters, '{}'::jsonb)
+  )
+  ON CONFLICT (requirement_type) DO UPDATE
+  SET description = EXCLUDED.description,
+      source_table = EXCLUDED.source_table,
+      user_column = EXCLUDED.user_column,
+      aggregate = EXCLUDED.aggregate,
+      value_column = EXCLUDED.value_column,
+      filters = EXCLUDED.filters;
+
+  PERFORM public.badge_metric_value(auth.uid(), v_type);
+
+  PERFORM public.log_moderation_action(
+    'upsert_badge_metric',
+    'badge_metric',
+    NULL,
+    NULL,
+    jsonb_build_object(
+      'requirement_type', v_type,
+      'source_table', p_source_table,
+      'user_column', p_user_column,
+      'aggregate', p_aggregate,
+      'value_column', p_value_column,
+      'filters', p_filters
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.badge_metric_value(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.evaluate_badges(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.evaluate_all_badges() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.evaluate_badges_on_order() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.evaluate_badges_on_listing() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.evaluate_badges_on_streak() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.upsert_badge_metric(text, text, text, text, text, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.upsert_badge_metric(text, text, text, text, text, text, jsonb) TO authenticated;
+
+-- Catch up every user once, then daily
+SELECT public.evaluate_all_badges();
+
+SELECT cron.schedule(
+  'evaluate-badges',
+  '30 3 * * *',
+  $$ SELECT public.evaluate_all_badges(); $$
+);
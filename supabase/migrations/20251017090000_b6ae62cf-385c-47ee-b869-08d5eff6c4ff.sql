@@ -0,0 +1,411 @@
+-- Daily activity streaks: meaningful actions are recorded server-side per day
+-- in the user's own timezone, missed days can be bridged with streak freezes
+-- earned through XP, and milestones are announced as notifications.
+
+ALTER TABLE public.profiles
+ADD COLUMN timezone text NOT NULL DEFAULT 'UTC',
+ADD COLUMN longest_streak integer NOT NULL DEFAULT 0,
+ADD COLUMN streak_freezes integer NOT NULL DEFAULT 0,
+ADD CONSTRAINT profiles_streak_freezes_check CHECK (streak_freezes >= 0);
+
+UPDATE public.profiles SET longest_streak = streak_days;
+
+-- One row per user per local day they were active (or kept their streak with a freeze)
+CREATE TABLE public.activity_days (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  activity_date date NOT NULL,
+  actions jsonb NOT NULL DEFAULT '{}'::jsonb,
+  action_count integer NOT NULL DEFAULT 0,
+  freeze_used boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, activity_date)
+);
+
+ALTER TABLE public.activity_days ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own activity"
+ON public.activity_days
+FOR SELECT
+USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.activity_days FROM anon, authenticated;
+
+-- XP needed for each streak freeze, and how many can be saved up
+CREATE OR REPLACE FUNCTION public.streak_freeze_xp()
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 500;
+$$;
+
+CREATE OR REPLACE FUNCTION public.max_streak_freezes()
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 3;
+$$;
+
+-- Streak lengths that get a notification
+CREATE OR REPLACE FUNCTION public.streak_milestones()
+RETURNS integer[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY[3, 7, 14, 30, 60, 90, 180, 365];
+$$;
+
+-- The current date in a timezone, falling back to UTC for names Postgres does
+-- not recognize so a bad value can never break activity recording
+CREATE OR REPLACE FUNCTION public.local_today(p_timezone text)
+RETURNS date
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  RETURN (now() AT TIME ZONE p_timezone)::date;
+EXCEPTION
+  WHEN invalid_parameter_value THEN
+    RETURN (now() AT TIME ZONE 'UTC')::date;
+END;
+$$;
+
+-- Streak fields and the timezone they are counted in only change through the
+-- activity recorder
+CREATE OR REPLACE FUNCTION public.guard_profile_streak()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.streak_days IS DISTINCT FROM OLD.streak_days
+      OR NEW.last_activity_date IS DISTINCT FROM OLD.last_activity_date
+      OR NEW.longest_streak IS DISTINCT FROM OLD.longest_streak
+      OR NEW.streak_freezes IS DISTINCT FROM OLD.streak_freezes
+      OR NEW.timezone IS DISTINCT FROM OLD.timezone)
+    AND current_setting('app.streak_sync', true) IS DISTINCT FROM 'on'
+  THEN
+    RAISE EXCEPTION 'Streaks and their timezone can only change through recorded activity';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_streak
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_profile_streak();
+
+-- Function to spend streak freezes on the days missed before p_today. Only
+-- bridges the gap when there are enough freezes for all of it; returns how
+-- many were used.
+CREATE OR REPLACE FUNCTION public.apply_streak_freezes(p_user_id uuid, p_today date)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_missed integer;
+BEGIN
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF v_profile.last_activity_date IS NULL OR v_profile.streak_days = 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_missed := p_today - v_profile.last_activity_date - 1;
+  IF v_missed < 1 OR v_missed > v_profile.streak_freezes THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.activity_days (user_id, activity_date, freeze_used)
+  SELECT p_user_id, d::date, true
+  FROM generate_series(v_profile.last_activity_date + 1, p_today - 1, interval '1 day') AS d
+  ON CONFLICT (user_id, activity_date) DO UPDATE SET freeze_used = true, updated_at = now();
+
+  PERFORM set_config('app.streak_sync', 'on', true);
+  UPDATE public.profiles
+  SET streak_freezes = streak_freezes - v_missed,
+      last_activity_date = p_today - 1
+  WHERE id = p_user_id;
+
+  PERFORM public.create_notification(
+    p_user_id,
+    'system'::notification_type,
+    'Streak freeze used',
+    CASE WHEN v_missed = 1
+      THEN 'You missed a day, so a streak freeze kept your ' || v_profile.streak_days || '-day streak alive.'
+      ELSE 'You missed ' || v_missed || ' days, so ' || v_missed || ' streak freezes kept your '
+        || v_profile.streak_days || '-day streak alive.'
+    END,
+    jsonb_build_object('kind', 'streak_freeze_used', 'freezes_used', v_missed),
+    '/gamification',
+    'View streak',
+    'low'
+  );
+
+  RETURN v_missed;
+END;
+$$;
+
+-- Function to record a meaningful action for the user's current local day and
+-- extend their streak the first time they're active that day
+CREATE OR REPLACE FUNCTION public.record_activity(p_user_id uuid, p_action text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_today date;
+  v_streak integer;
+BEGIN
+  IF p_action NOT IN ('login', 'listing_created', 'message_sent', 'order_completed') THEN
+    RAISE EXCEPTION 'Unknown activity %', p_action;
+  END IF;
+
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_today := public.local_today(v_profile.timezone);
+
+  INSERT INTO public.activity_days (user_id, activity_date, actions, action_count)
+  VALUES (p_user_id, v_today, jsonb_build_object(p_action, 1), 1)
+  ON CONFLICT (user_id, activity_date) DO UPDATE
+  SET actions = activity_days.actions || jsonb_build_object(
+        p_action, COALESCE((activity_days.actions->>p_action)::integer, 0) + 1
+      ),
+      action_count = activity_days.action_count + 1,
+      updated_at = now();
+
+  -- Already counted today (or later, after moving to an earlier timezone)
+  IF v_profile.last_activity_date >= v_today THEN
+    RETURN;
+  END IF;
+
+  IF public.apply_streak_freezes(p_user_id, v_today) > 0 THEN
+    SELECT * INTO v_profile FROM public.profiles WHERE id = p_user_id;
+  END IF;
+
+  v_streak := CASE
+    WHEN v_profile.last_activity_date = v_today - 1 THEN v_profile.streak_days + 1
+    ELSE 1
+  END;
+
+  PERFORM set_config('app.streak_sync', 'on', true);
+  UPDATE public.profiles
+  SET streak_days = v_streak,
+      longest_streak = GREATEST(longest_streak, v_streak),
+      last_activity_date = v_today
+  WHERE id = p_user_id;
+
+  IF v_streak = ANY (public.streak_milestones()) THEN
+    PERFORM public.create_notification(
+      p_user_id,
+      'system'::notification_type,
+      v_streak || '-day streak!',
+      'You''ve been active ' || v_streak || ' days in a row. Keep it going!',
+      jsonb_build_object('kind', 'streak_milestone', 'streak_days', v_streak),
+      '/gamification',
+      'View streak',
+      CASE WHEN v_streak >= 90 THEN 'high' ELSE 'medium' END
+    );
+  END IF;
+END;
+$$;
+
+-- Function for the app to record a login, keeping the user's timezone current
+-- so day boundaries follow where they are
+CREATE OR REPLACE FUNCTION public.record_login_activity(p_timezone text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_timezone IS NOT NULL
+    AND EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone)
+  THEN
+    PERFORM set_config('app.streak_sync', 'on', true);
+    UPDATE public.profiles
+    SET timezone = p_timezone
+    WHERE id = auth.uid()
+      AND timezone IS DISTINCT FROM p_timezone;
+  END IF;
+
+  PERFORM public.record_activity(auth.uid(), 'login');
+END;
+$$;
+
+-- Function to end streaks whose owners missed a whole day and had no freezes
+-- left for it. Runs hourly so every timezone is settled soon after midnight.
+CREATE OR REPLACE FUNCTION public.settle_streaks()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_today date;
+  v_count integer := 0;
+BEGIN
+  PERFORM set_config('app.streak_sync', 'on', true);
+
+  FOR v_profile IN
+    SELECT * FROM public.profiles
+    WHERE streak_days > 0
+      AND last_activity_date < public.local_today(timezone) - 1
+  LOOP
+    v_today := public.local_today(v_profile.timezone);
+
+    IF public.apply_streak_freezes(v_profile.id, v_today) = 0 THEN
+      UPDATE public.profiles
+      SET streak_days = 0
+      WHERE id = v_profile.id;
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Earn a streak freeze for every streak_freeze_xp() XP, up to the cap
+CREATE OR REPLACE FUNCTION public.grant_streak_freezes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_xp integer := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.xp END;
+  v_earned integer;
+  v_granted integer;
+BEGIN
+  v_earned := NEW.xp / public.streak_freeze_xp() - v_old_xp / public.streak_freeze_xp();
+  IF v_earned <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM set_config('app.streak_sync', 'on', true);
+  UPDATE public.profiles
+  SET streak_freezes = LEAST(streak_freezes + v_earned, public.max_streak_freezes())
+  WHERE id = NEW.user_id
+    AND streak_freezes < public.max_streak_freezes()
+  RETURNING streak_freezes INTO v_granted;
+
+  IF v_granted IS NOT NULL THEN
+    PERFORM public.create_notification(
+      NEW.user_id,
+      'system'::notification_type,
+      'Streak freeze earned',
+      'Your XP earned you a streak freeze. It''s used automatically if you miss a day (' || v_granted
+        || ' of ' || public.max_streak_freezes() || ' saved).',
+      jsonb_build_object('kind', 'streak_freeze_earned', 'streak_freezes', v_granted),
+      '/gamification',
+      'View streak',
+      'low'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER grant_streak_freezes
+  AFTER INSERT OR UPDATE OF xp ON public.user_levels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.grant_streak_freezes();
+
+-- Meaningful actions that count toward the streak
+CREATE OR REPLACE FUNCTION public.record_listing_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.record_activity(NEW.seller_id, 'listing_created');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_listing_activity
+  AFTER INSERT ON public.listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_listing_activity();
+
+CREATE OR REPLACE FUNCTION public.record_message_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.record_activity(NEW.from_user_id, 'message_sent');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_message_activity
+  AFTER INSERT ON public.chat_messages
+  FOR EACH ROW
+  WHEN (NOT COALESCE(NEW.is_system_message, false))
+  EXECUTE FUNCTION public.record_message_activity();
+
+CREATE OR REPLACE FUNCTION public.record_order_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.record_activity(NEW.buyer_id, 'order_completed');
+  PERFORM public.record_activity(NEW.seller_id, 'order_completed');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_order_activity
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.record_order_activity();
+
+REVOKE EXECUTE ON FUNCTION public.guard_profile_streak() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_streak_freezes(uuid, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_activity(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.settle_streaks() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.grant_streak_freezes() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_listing_activity() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_message_activity() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_order_activity() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_login_activity(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_login_activity(text) TO authenticated;
+
+SELECT cron.schedule(
+  'settle-streaks',
+  '5 * * * *',
+  $$ SELECT public.settle_streaks(); $$
+);
@@ -0,0 +1,370 @@
+-- XP only comes from server-side events now. Every grant is logged in
+-- xp_events against the entity that caused it, an idempotency key stops the
+-- same event paying out twice, and each event type has a daily cap.
+
+-- How much XP each event is worth and how much of it a user can earn per day
+CREATE TABLE public.xp_event_rules (
+  event_type text PRIMARY KEY,
+  description text NOT NULL,
+  xp integer NOT NULL CHECK (xp >= 0),
+  daily_cap integer CHECK (daily_cap > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.xp_event_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view XP rules"
+  ON public.xp_event_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON public.xp_event_rules FROM anon, authenticated;
+
+-- Badge rewards vary per badge, so their xp here is only a fallback
+INSERT INTO public.xp_event_rules (event_type, description, xp, daily_cap) VALUES
+  ('order_completed', 'Completed an order', 50, 200),
+  ('on_time_return', 'Returned a rental on time', 25, 100),
+  ('review_left', 'Reviewed an order', 20, 60),
+  ('referral_completed', 'Referral completed', public.referral_xp_reward(), 5 * public.referral_xp_reward()),
+  ('badge_unlocked', 'Unlocked a badge', 0, NULL);
+
+CREATE TABLE public.xp_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  event_type text NOT NULL REFERENCES public.xp_event_rules(event_type),
+  source_type text NOT NULL,
+  source_id uuid NOT NULL,
+  idempotency_key text NOT NULL UNIQUE,
+  requested_xp integer NOT NULL,
+  -- Less than requested_xp once the daily cap is reached
+  xp integer NOT NULL CHECK (xp >= 0),
+  event_date date NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX xp_events_user_id_created_at_idx ON public.xp_events (user_id, created_at DESC);
+CREATE INDEX xp_events_cap_idx ON public.xp_events (user_id, event_type, event_date);
+
+ALTER TABLE public.xp_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own XP events"
+  ON public.xp_events FOR SELECT
+  USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.xp_events FROM anon, authenticated;
+
+-- Function to grant the XP for one event. p_xp overrides the rule's amount
+-- (badge rewards). Replaying an idempotency key is a no-op. Returns the XP
+-- actually awarded after the daily cap.
+CREATE OR REPLACE FUNCTION public.record_xp_event(
+  p_user_id uuid,
+  p_event_type text,
+  p_source_type text,
+  p_source_id uuid,
+  p_idempotency_key text,
+  p_xp integer DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule public.xp_event_rules%ROWTYPE;
+  v_today date;
+  v_requested integer;
+  v_earned_today integer;
+  v_xp integer;
+BEGIN
+  SELECT * INTO v_rule
+  FROM public.xp_event_rules
+  WHERE event_type = p_event_type;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown XP event %', p_event_type;
+  END IF;
+
+  v_requested := COALESCE(p_xp, v_rule.xp);
+  IF v_requested <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- Serialize grants per user so concurrent events can't both fit under the cap
+  PERFORM 1 FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+
+  SELECT public.local_today(timezone) INTO v_today
+  FROM public.profiles
+  WHERE id = p_user_id;
+
+  IF v_today IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.xp_events WHERE idempotency_key = p_idempotency_key) THEN
+    RETURN 0;
+  END IF;
+
+  v_xp := v_requested;
+  IF v_rule.daily_cap IS NOT NULL THEN
+    SELECT COALESCE(sum(xp), 0) INTO v_earned_today
+    FROM public.xp_events
+    WHERE user_id = p_user_id
+      AND event_type = p_event_type
+      AND event_date = v_today;
+
+    v_xp := GREATEST(LEAST(v_requested, v_rule.daily_cap - v_earned_today), 0);
+  END IF;
+
+  INSERT INTO public.xp_events (
+    user_id, event_type, source_type, source_id, idempotency_key, requested_xp, xp, event_date
+  )
+  VALUES (
+    p_user_id, p_event_type, p_source_type, p_source_id, p_idempotency_key, v_requested, v_xp, v_today
+  );
+
+  IF v_xp > 0 THEN
+    PERFORM public.award_xp(p_user_id, v_xp);
+  END IF;
+
+  RETURN v_xp;
+END;
+$$;
+
+-- Completing an order pays both sides; returning a rental before it went
+-- overdue pays the borrower on top
+CREATE OR REPLACE FUNCTION public.award_order_xp()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.record_xp_event(
+    NEW.buyer_id, 'order_completed', 'order', NEW.id, 'order_completed:' || NEW.id || ':' || NEW.buyer_id
+  );
+  PERFORM public.record_xp_event(
+    NEW.seller_id, 'order_completed', 'order', NEW.id, 'order_completed:' || NEW.id || ':' || NEW.seller_id
+  );
+
+  IF NEW.return_scanned_at IS NOT NULL AND NEW.return_overdue_at IS NULL THEN
+    PERFORM public.record_xp_event(
+      NEW.buyer_id, 'on_time_return', 'order', NEW.id, 'on_time_return:' || NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER award_order_xp
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.award_order_xp();
+
+-- One review reward per reviewer per order, even if a review is deleted and rewritten
+CREATE OR REPLACE FUNCTION public.award_review_xp()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.record_xp_event(
+    NEW.reviewer_id, 'review_left', 'review', NEW.id, 'review_left:' || NEW.order_id || ':' || NEW.reviewer_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER award_review_xp
+  AFTER INSERT ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.award_review_xp();
+
+-- Referral rewards are logged as XP events
+CREATE OR REPLACE FUNCTION public.complete_referral(p_referred_id uuid, p_order_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_referral public.referrals%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_reward integer := public.referral_xp_reward();
+  v_referrer_xp integer;
+  v_referred_xp integer;
+BEGIN
+  SELECT * INTO v_referral
+  FROM public.referrals
+  WHERE referred_id = p_referred_id
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id;
+
+  IF v_referral.referrer_id IN (v_order.buyer_id, v_order.seller_id) THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.profiles referrer
+    JOIN public.profiles referred ON referred.id = p_referred_id
+    WHERE referrer.id = v_referral.referrer_id
+      AND NULLIF(referrer.phone, '') IS NOT NULL
+      AND referrer.phone = referred.phone
+  ) THEN
+    UPDATE public.referrals
+    SET status = 'rejected',
+        rejection_reason = 'shared_phone'
+    WHERE id = v_referral.id;
+    RETURN false;
+  END IF;
+
+  v_referrer_xp := public.record_xp_event(
+    v_referral.referrer_id, 'referral_completed', 'referral', v_referral.id,
+    'referral_completed:' || v_referral.id || ':' || v_referral.referrer_id, v_reward
+  );
+  v_referred_xp := public.record_xp_event(
+    p_referred_id, 'referral_completed', 'referral', v_referral.id,
+    'referral_completed:' || v_referral.id || ':' || p_referred_id, v_reward
+  );
+
+  UPDATE public.referrals
+  SET status = 'completed',
+      xp_awarded = v_referrer_xp,
+      completed_at = now()
+  WHERE id = v_referral.id;
+
+  PERFORM public.evaluate_referral_badges(v_referral.referrer_id);
+
+  PERFORM public.create_notification(
+    v_referral.referrer_id,
+    'system'::notification_type,
+    'Referral completed',
+    'Someone you invited just finished their first order. You earned ' || v_referrer_xp || ' XP.',
+    jsonb_build_object('referral_id', v_referral.id, 'xp', v_referrer_xp),
+    '/gamification',
+    'View rewards',
+    'medium'
+  );
+
+  PERFORM public.create_notification(
+    p_referred_id,
+    'system'::notification_type,
+    'Welcome bonus unlocked',
+    'You finished your first order and earned ' || v_referred_xp || ' XP for joining through a friend.',
+    jsonb_build_object('referral_id', v_referral.id, 'xp', v_referred_xp),
+    '/gamification',
+    'View rewards',
+    'low'
+  );
+
+  RETURN true;
+END;
+$$;
+
+-- Badge rewards are logged as XP events
+CREATE OR REPLACE FUNCTION public.evaluate_badges(
+  p_user_id uuid,
+  p_requirement_type text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_metric public.badge_metrics%ROWTYPE;
+  v_badge public.badges%ROWTYPE;
+  v_value integer;
+  v_granted integer := 0;
+BEGIN
+  FOR v_metric IN
+    SELECT m.* FROM public.badge_metrics m
+    WHERE (p_requirement_type IS NULL OR m.requirement_type = p_requirement_type)
+      -- Skip the query when there is nothing left to earn
+      AND EXISTS (
+        SELECT 1 FROM public.badges b
+        WHERE b.requirement_type = m.requirement_type
+          AND NOT EXISTS (
+            SELECT 1 FROM public.user_badges ub
+            WHERE ub.user_id = p_user_id AND ub.badge_id = b.id
+          )
+      )
+  LOOP
+    v_value := public.badge_metric_value(p_user_id, v_metric.requirement_type);
+
+    FOR v_badge IN
+      SELECT b.* FROM public.badges b
+      WHERE b.requirement_type = v_metric.requirement_type
+        AND b.requirement_value <= v_value
+        AND NOT EXISTS (
+          SELECT 1 FROM public.user_badges ub
+          WHERE ub.user_id = p_user_id AND ub.badge_id = b.id
+        )
+      ORDER BY b.requirement_value
+    LOOP
+      INSERT INTO public.user_badges (user_id, badge_id)
+      VALUES (p_user_id, v_badge.id)
+      ON CONFLICT DO NOTHING;
+
+      IF NOT FOUND THEN
+        CONTINUE;
+      END IF;
+
+      INSERT INTO public.achievements (user_id, achievement_type, achievement_value, metadata)
+      VALUES (
+        p_user_id,
+        'badge_unlocked',
+        v_value,
+        jsonb_build_object(
+          'badge_id', v_badge.id,
+          'badge_name', v_badge.name,
+          'requirement_type', v_badge.requirement_type,
+          'requirement_value', v_badge.requirement_value,
+          'xp_reward', v_badge.xp_reward
+        )
+      );
+
+      PERFORM public.record_xp_event(
+        p_user_id, 'badge_unlocked', 'badge', v_badge.id,
+        'badge_unlocked:' || v_badge.id || ':' || p_user_id, v_badge.xp_reward
+      );
+
+      PERFORM public.create_notification(
+        p_user_id,
+        'system'::notification_type,
+        'Badge unlocked: ' || v_badge.name,
+        v_badge.description || CASE WHEN v_badge.xp_reward > 0 THEN ' +' || v_badge.xp_reward || ' XP' ELSE '' END,
+        jsonb_build_object('kind', 'badge_unlocked', 'badge_id', v_badge.id),
+        '/gamification',
+        'View badges',
+        'medium'
+      );
+
+      v_granted := v_granted + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_granted;
+END;
+$$;
+
+-- Clients can no longer grant XP
+REVOKE EXECUTE ON FUNCTION public.award_xp(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_xp_event(uuid, text, text, uuid, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.award_order_xp() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.award_review_xp() FROM PUBLIC, anon, authenticated;
+
+-- XP and levels only change through award_xp
+DROP POLICY "Users can update their own level" ON public.user_levels;
+REVOKE INSERT, UPDATE, DELETE ON public.user_levels FROM anon, authenticated;
@@ -0,0 +1,153 @@
+-- Levels are defined once in level_definitions: the XP each level starts at,
+-- its title and the cosmetic perks it unlocks. award_xp and the app both read
+-- it, so the progress bar always matches the server.
+
+-- perks maps a profiles column to the value it unlocks, e.g. {"profile_frame": "gold"}
+CREATE TABLE public.level_definitions (
+  level integer PRIMARY KEY CHECK (level >= 1),
+  min_xp integer NOT NULL UNIQUE CHECK (min_xp >= 0),
+  title text NOT NULL,
+  perks jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(perks) = 'object'),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.level_definitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view level definitions"
+  ON public.level_definitions FOR SELECT
+  USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON public.level_definitions FROM anon, authenticated;
+
+-- Same thresholds as the old FLOOR(POWER(xp / 100, 0.7)) + 1 curve
+INSERT INTO public.level_definitions (level, min_xp, title, perks) VALUES
+  (1, 0, 'Rookie', '{}'),
+  (2, 100, 'Reliable Borrower', '{"profile_color": "sky"}'),
+  (3, 270, 'Trusted User', '{"profile_frame": "bronze"}'),
+  (4, 481, 'Trusted User', '{"profile_color": "emerald"}'),
+  (5, 725, 'Connector', '{"profile_frame": "silver"}'),
+  (6, 997, 'Connector', '{"profile_color": "violet"}'),
+  (7, 1294, 'Elite Borrowpal', '{"profile_frame": "gold"}'),
+  (8, 1612, 'Elite Borrowpal', '{"profile_color": "amber"}'),
+  (9, 1951, 'Elite Borrowpal', '{"profile_color": "rose"}'),
+  (10, 2308, 'Ambassador', '{"profile_frame": "platinum"}'),
+  (11, 2683, 'Ambassador', '{}'),
+  (12, 3074, 'Ambassador', '{"profile_color": "indigo"}'),
+  (13, 3481, 'Ambassador', '{}'),
+  (14, 3903, 'Ambassador', '{"profile_color": "teal"}'),
+  (15, 4339, 'Ambassador', '{"profile_frame": "diamond"}'),
+  (16, 4788, 'Ambassador', '{}'),
+  (17, 5251, 'Ambassador', '{}'),
+  (18, 5726, 'Ambassador', '{}'),
+  (19, 6213, 'Ambassador', '{}'),
+  (20, 6712, 'Ambassador', '{}');
+
+-- Function to add XP and move the user up to the level it reaches, with a
+-- notification listing the perks that unlocked on the way
+CREATE OR REPLACE FUNCTION public.award_xp(p_user_id uuid, p_xp integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current_xp integer;
+  v_current_level integer;
+  v_new_level integer;
+  v_new_title text;
+  v_unlocked text;
+BEGIN
+  INSERT INTO public.user_levels (user_id, xp, level)
+  VALUES (p_user_id, p_xp, 1)
+  ON CONFLICT (user_id)
+  DO UPDATE SET
+    xp = user_levels.xp + p_xp,
+    updated_at = now()
+  RETURNING xp, level INTO v_current_xp, v_current_level;
+
+  SELECT level, title INTO v_new_level, v_new_title
+  FROM public.level_definitions
+  WHERE min_xp <= v_current_xp
+  ORDER BY level DESC
+  LIMIT 1;
+
+  IF v_new_level IS NULL OR v_new_level <= v_current_level THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.user_levels
+  SET level = v_new_level, title = v_new_title, updated_at = now()
+  WHERE user_id = p_user_id;
+
+  SELECT string_agg(p.value || ' ' || replace(p.key, '_', ' '), ', ' ORDER BY d.level)
+  INTO v_unlocked
+  FROM public.level_definitions d
+  CROSS JOIN LATERAL jsonb_each_text(d.perks) p
+  WHERE d.level > v_current_level
+    AND d.level <= v_new_level;
+
+  PERFORM public.create_notification(
+    p_user_id,
+    'system'::notification_type,
+    'Level ' || v_new_level || ' reached!',
+    'You''re now a ' || v_new_title || '.'
+      || CASE WHEN v_unlocked IS NOT NULL THEN ' Unlocked: ' || v_unlocked || '.' ELSE '' END,
+    jsonb_build_object('kind', 'level_up', 'level', v_new_level),
+    '/gamification',
+    'View perks',
+    'medium'
+  );
+END;
+$$;
+
+-- Whether the user's level has unlocked p_value for the p_perk profile column
+CREATE OR REPLACE FUNCTION public.has_level_perk(p_user_id uuid, p_perk text, p_value text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.level_definitions d
+    JOIN public.user_levels ul ON ul.user_id = p_user_id
+    WHERE d.level <= ul.level
+      AND d.perks->>p_perk = p_value
+  );
+$$;
+
+-- Cosmetics can only be set to perks the user has unlocked
+CREATE OR REPLACE FUNCTION public.guard_profile_perks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.profile_frame IS DISTINCT FROM OLD.profile_frame
+    AND NEW.profile_frame IS NOT NULL
+    AND NOT public.has_level_perk(NEW.id, 'profile_frame', NEW.profile_frame)
+  THEN
+    RAISE EXCEPTION 'The % profile frame is not unlocked yet', NEW.profile_frame;
+  END IF;
+
+  IF NEW.profile_color IS DISTINCT FROM OLD.profile_color
+    AND NEW.profile_color IS NOT NULL
+    AND NOT public.has_level_perk(NEW.id, 'profile_color', NEW.profile_color)
+  THEN
+    RAISE EXCEPTION 'The % profile color is not unlocked yet', NEW.profile_color;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_perks
+  BEFORE UPDATE OF profile_frame, profile_color ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_profile_perks();
+
+REVOKE EXECUTE ON FUNCTION public.award_xp(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.has_level_perk(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.guard_profile_perks() FROM PUBLIC, anon, authenticated;
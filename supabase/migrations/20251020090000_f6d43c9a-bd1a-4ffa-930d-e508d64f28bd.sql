@@ -0,0 +1,393 @@
+-- Leaderboards and seasons. Scores for XP, completed lends and referrals are
+-- precomputed per period into a materialized view refreshed every 15 minutes,
+-- and read through get_leaderboard, which can narrow them to the caller's
+-- neighborhood. Seasons are time-boxed XP races whose top finishers win a
+-- prize badge. Anyone can opt out of appearing on the boards.
+
+ALTER TABLE public.profiles
+ADD COLUMN leaderboard_opt_out boolean NOT NULL DEFAULT false;
+
+CREATE TABLE public.seasons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  starts_at timestamp with time zone NOT NULL,
+  ends_at timestamp with time zone NOT NULL,
+  prize_places integer NOT NULL DEFAULT 3 CHECK (prize_places > 0),
+  prize_badge_id uuid REFERENCES public.badges(id) ON DELETE SET NULL,
+  finalized_at timestamp with time zone,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT seasons_period_check CHECK (ends_at > starts_at),
+  -- One season at a time, so "the current season" is unambiguous
+  CONSTRAINT seasons_no_overlap EXCLUDE USING gist (
+    tstzrange(starts_at, ends_at, '[)') WITH &&
+  )
+);
+
+ALTER TABLE public.seasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view seasons"
+ON public.seasons
+FOR SELECT
+USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON public.seasons FROM anon, authenticated;
+
+-- Final standings, written when a season ends
+CREATE TABLE public.season_results (
+  season_id uuid NOT NULL REFERENCES public.seasons(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  rank integer NOT NULL,
+  xp integer NOT NULL,
+  podium boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (season_id, user_id)
+);
+
+CREATE INDEX season_results_season_id_rank_idx ON public.season_results (season_id, rank);
+
+ALTER TABLE public.season_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view season results"
+ON public.season_results
+FOR SELECT
+USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON public.season_results FROM anon, authenticated;
+
+-- A user's neighborhood is the city of their most recent listing
+CREATE OR REPLACE FUNCTION public.user_neighborhood(p_user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NULLIF(trim(concat_ws(', ', location->>'city', location->>'state')), '')
+  FROM public.listings
+  WHERE seller_id = p_user_id
+    AND NULLIF(trim(location->>'city'), '') IS NOT NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+$$;
+
+-- One row per period, metric and user with a positive score. The season
+-- period only exists while a season is running and only ranks XP.
+CREATE MATERIALIZED VIEW public.leaderboard_entries AS
+WITH periods AS (
+  SELECT 'week'::text AS period, date_trunc('week', now()) AS starts_at
+  UNION ALL
+  SELECT 'month', date_trunc('month', now())
+  UNION ALL
+  SELECT 'season', s.starts_at
+  FROM public.seasons s
+  WHERE now() >= s.starts_at AND now() < s.ends_at
+),
+scores AS (
+  SELECT p.period, 'xp'::text AS metric, e.user_id, sum(e.xp)::integer AS score
+  FROM periods p
+  JOIN public.xp_events e ON e.created_at >= p.starts_at
+  GROUP BY p.period, e.user_id
+
+  UNION ALL
+
+  -- All-time XP includes what was earned before the event log existed
+  SELECT 'all_time', 'xp', ul.user_id, ul.xp
+  FROM public.user_levels ul
+
+  UNION ALL
+
+  SELECT p.period, 'lends', o.seller_id, count(DISTINCT o.id)::integer
+  FROM periods p
+  JOIN public.order_events oe ON oe.to_status = 'completed' AND oe.created_at >= p.starts_at
+  JOIN public.orders o ON o.id = oe.order_id
+  WHERE p.period <> 'season'
+  GROUP BY p.period, o.seller_id
+
+  UNION ALL
+
+  SELECT 'all_time', 'lends', o.seller_id, count(*)::integer
+  FROM public.orders o
+  WHERE o.status = 'completed'
+  GROUP BY o.seller_id
+
+  UNION ALL
+
+  SELECT p.period, 'referrals', r.referrer_id, count(*)::integer
+  FROM (SELECT period, starts_at FROM periods WHERE period <> 'season'
+        UNION ALL SELECT 'all_time', '-infinity'::timestamptz) p
+  JOIN public.referrals r ON r.status = 'completed' AND r.completed_at >= p.starts_at
+  GROUP BY p.period, r.referrer_id
+)
+SELECT
+  s.period,
+  s.metric,
+  s.user_id,
+  public.user_neighborhood(s.user_id) AS neighborhood,
+  s.score,
+  now() AS refreshed_at
+FROM scores s
+JOIN public.profiles pr ON pr.id = s.user_id
+WHERE s.score > 0
+  AND NOT pr.leaderboard_opt_out;
+
+CREATE UNIQUE INDEX leaderboard_entries_key ON public.leaderboard_entries (period, metric, user_id);
+CREATE INDEX leaderboard_entries_neighborhood_idx ON public.leaderboard_entries (period, metric, neighborhood);
+
+-- Only readable through get_leaderboard
+REVOKE ALL ON public.leaderboard_entries FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_leaderboards()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.leaderboard_entries;
+END;
+$$;
+
+-- Function to read a leaderboard. Ranks are computed at read time so
+-- opting out takes effect before the next refresh. The caller's own row is
+-- always included, even outside the top p_limit.
+CREATE OR REPLACE FUNCTION public.get_leaderboard(
+  p_metric text,
+  p_period text,
+  p_neighborhood boolean DEFAULT false,
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  rank integer,
+  user_id uuid,
+  name text,
+  avatar_url text,
+  profile_frame text,
+  profile_color text,
+  level integer,
+  neighborhood text,
+  score integer,
+  refreshed_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH scope AS (
+    SELECT CASE WHEN p_neighborhood THEN public.user_neighborhood(auth.uid()) END AS neighborhood
+  ),
+  ranked AS (
+    SELECT
+      rank() OVER (ORDER BY e.score DESC)::integer AS rank,
+      e.user_id,
+      e.neighborhood,
+      e.score,
+      e.refreshed_at
+    FROM public.leaderboard_entries e
+    JOIN public.profiles p ON p.id = e.user_id
+    CROSS JOIN scope
+    WHERE e.metric = p_metric
+      AND e.period = p_period
+      AND NOT p.leaderboard_opt_out
+      AND (NOT p_neighborhood OR e.neighborhood = scope.neighborhood)
+  )
+  SELECT
+    r.rank,
+    r.user_id,
+    p.name,
+    p.avatar_url,
+    p.profile_frame,
+    p.profile_color,
+    COALESCE(ul.level, 1),
+    r.neighborhood,
+    r.score,
+    r.refreshed_at
+  FROM ranked r
+  JOIN public.profiles p ON p.id = r.user_id
+  LEFT JOIN public.user_levels ul ON ul.user_id = r.user_id
+  WHERE r.rank <= LEAST(GREATEST(p_limit, 1), 100)
+     OR r.user_id = auth.uid()
+  ORDER BY r.rank, p.name;
+$$;
+
+-- Season changes are audited alongside the other moderator actions
+ALTER TABLE public.moderation_actions
+  DROP CONSTRAINT IF EXISTS moderation_actions_target_type_check;
+
+ALTER TABLE public.moderation_actions
+  ADD CONSTRAINT moderation_actions_target_type_check
+  CHECK (target_type IN ('listing', 'user', 'verification', 'category', 'badge', 'dispute', 'badge_metric', 'season'));
+
+-- Function for admins to schedule a season. Each season gets its own prize
+-- badge, backed by a badge metric counting podium finishes in that season.
+CREATE OR REPLACE FUNCTION public.create_season(
+  p_name text,
+  p_starts_at timestamp with time zone,
+  p_ends_at timestamp with time zone,
+  p_description text DEFAULT NULL,
+  p_prize_places integer DEFAULT 3,
+  p_prize_xp integer DEFAULT 500
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_season_id uuid := gen_random_uuid();
+  v_metric text := 'season_' || replace(v_season_id::text, '-', '_');
+  v_badge_id uuid;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can create seasons';
+  END IF;
+
+  IF NULLIF(trim(p_name), '') IS NULL THEN
+    RAISE EXCEPTION 'A season needs a name';
+  END IF;
+
+  IF p_ends_at <= p_starts_at OR p_ends_at <= now() THEN
+    RAISE EXCEPTION 'A season must end after it starts, and in the future';
+  END IF;
+
+  IF p_prize_places < 1 OR p_prize_xp < 0 THEN
+    RAISE EXCEPTION 'Invalid season prize';
+  END IF;
+
+  INSERT INTO public.seasons (id, name, description, starts_at, ends_at, prize_places, created_by)
+  VALUES (v_season_id, trim(p_name), NULLIF(trim(p_description), ''), p_starts_at, p_ends_at, p_prize_places, auth.uid());
+
+  INSERT INTO public.badge_metrics (requirement_type, description, source_table, user_column, aggregate, filters)
+  VALUES (
+    v_metric,
+    'Top ' || p_prize_places || ' finishes in ' || trim(p_name),
+    'season_results',
+    'user_id',
+    'count',
+    jsonb_build_object('season_id', v_season_id, 'podium', true)
+  );
+
+  INSERT INTO public.badges (name, description, icon, category, requirement_type, requirement_value, xp_reward, rarity)
+  VALUES (
+    trim(p_name) || ' Champion',
+    'Finished in the top ' || p_prize_places || ' of ' || trim(p_name),
+    'crown',
+    'season',
+    v_metric,
+    1,
+    p_prize_xp,
+    'legendary'
+  )
+  RETURNING id INTO v_badge_id;
+
+  UPDATE public.seasons
+  SET prize_badge_id = v_badge_id
+  WHERE id = v_season_id;
+
+  PERFORM public.log_moderation_action(
+    'create_season',
+    'season',
+    v_season_id,
+    NULL,
+    jsonb_build_object('name', trim(p_name), 'starts_at', p_starts_at, 'ends_at', p_ends_at, 'prize_badge_id', v_badge_id)
+  );
+
+  RETURN v_season_id;
+END;
+$$;
+
+-- Function to close seasons that have ended: store the standings, then the
+-- badge engine hands the prize badge to the podium
+CREATE OR REPLACE FUNCTION public.finalize_seasons()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_season public.seasons%ROWTYPE;
+  v_result public.season_results%ROWTYPE;
+  v_metric text;
+  v_count integer := 0;
+BEGIN
+  FOR v_season IN
+    SELECT * FROM public.seasons
+    WHERE ends_at <= now()
+      AND finalized_at IS NULL
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    INSERT INTO public.season_results (season_id, user_id, rank, xp, podium)
+    SELECT
+      v_season.id,
+      ranked.user_id,
+      ranked.rank,
+      ranked.xp,
+      ranked.rank <= v_season.prize_places
+    FROM (
+      SELECT e.user_id, sum(e.xp)::integer AS xp, rank() OVER (ORDER BY sum(e.xp) DESC)::integer AS rank
+      FROM public.xp_events e
+      JOIN public.profiles p ON p.id = e.user_id
+      WHERE e.created_at >= v_season.starts_at
+        AND e.created_at < v_season.ends_at
+        AND NOT p.leaderboard_opt_out
+      GROUP BY e.user_id
+      HAVING sum(e.xp) > 0
+    ) ranked;
+
+    UPDATE public.seasons
+    SET finalized_at = now()
+    WHERE id = v_season.id;
+
+    SELECT requirement_type INTO v_metric
+    FROM public.badges
+    WHERE id = v_season.prize_badge_id;
+
+    FOR v_result IN
+      SELECT * FROM public.season_results
+      WHERE season_id = v_season.id
+    LOOP
+      IF v_result.podium AND v_metric IS NOT NULL THEN
+        PERFORM public.evaluate_badges(v_result.user_id, v_metric);
+      END IF;
+
+      PERFORM public.create_notification(
+        v_result.user_id,
+        'system'::notification_type,
+        v_season.name || ' has ended',
+        'You finished #' || v_result.rank || ' with ' || v_result.xp || ' XP.'
+          || CASE WHEN v_result.podium THEN ' You won the season prize!' ELSE '' END,
+        jsonb_build_object('kind', 'season_result', 'season_id', v_season.id, 'rank', v_result.rank),
+        '/gamification',
+        'View leaderboard',
+        CASE WHEN v_result.podium THEN 'high' ELSE 'low' END
+      );
+    END LOOP;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.user_neighborhood(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_leaderboards() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finalize_seasons() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_leaderboard(text, text, boolean, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_leaderboard(text, text, boolean, integer) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_season(text, timestamp with time zone, timestamp with time zone, text, integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_season(text, timestamp with time zone, timestamp with time zone, text, integer, integer) TO authenticated;
+
+SELECT cron.schedule(
+  'refresh-leaderboards',
+  '*/15 * * * *',
+  $$ SELECT public.refresh_leaderboards(); $$
+);
+
+SELECT cron.schedule(
+  'finalize-seasons',
+  '10 * * * *',
+  $$ SELECT public.finalize_seasons(); $$
+);
@@ -0,0 +1,376 @@
+-- Trust scores are computed from what the marketplace already records:
+-- review ratings, completed versus cancelled orders, on-time returns,
+-- verification, dispute outcomes and account age. Each recompute stores the
+-- breakdown so users can see where their score comes from. Listings can
+-- require a minimum trust score from borrowers.
+
+CREATE TABLE public.trust_scores (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  score integer NOT NULL,
+  -- [{ key, label, points, detail }]
+  breakdown jsonb NOT NULL DEFAULT '[]'::jsonb,
+  computed_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.trust_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own trust score breakdown"
+ON public.trust_scores
+FOR SELECT
+USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.trust_scores FROM anon, authenticated;
+
+ALTER TABLE public.listings
+ADD COLUMN min_trust_score integer CHECK (min_trust_score BETWEEN 0 AND 100);
+
+-- trust_score is derived. Direct writes (including the fixed adjustments
+-- resolve_dispute used to make) are ignored; disputes now count through
+-- their stored trust deltas.
+CREATE OR REPLACE FUNCTION public.guard_profile_trust_score()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.trust_score IS DISTINCT FROM OLD.trust_score
+    AND current_setting('app.trust_sync', true) IS DISTINCT FROM 'on'
+  THEN
+    NEW.trust_score := OLD.trust_score;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_trust_score
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_profile_trust_score();
+
+-- Function to recompute a user's trust score. Everyone starts at 50; each
+-- signal moves the score within its own range and the total is kept in 0-100.
+CREATE OR REPLACE FUNCTION public.compute_trust_score(p_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_review_count integer;
+  v_review_avg numeric;
+  v_completed integer;
+  v_cancelled integer;
+  v_on_time integer;
+  v_late integer;
+  v_dispute_delta integer;
+  v_dispute_count integer;
+  v_age_days integer;
+  v_points jsonb := '[]'::jsonb;
+  v_reviews integer := 0;
+  v_orders integer := 0;
+  v_returns integer := 0;
+  v_verification integer;
+  v_disputes integer;
+  v_age integer;
+  v_score integer;
+BEGIN
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Reviews: -15 to +15 around a 3-star average, at full weight from five reviews
+  SELECT count(*), avg(rating) INTO v_review_count, v_review_avg
+  FROM public.reviews
+  WHERE reviewed_user_id = p_user_id;
+
+  IF v_review_count > 0 THEN
+    v_reviews := round((v_review_avg - 3) / 2 * 15 * LEAST(v_review_count, 5) / 5.0);
+  END IF;
+
+  -- Orders: completions against orders this user cancelled, -10 to +10
+  SELECT count(*) INTO v_completed
+  FROM public.orders
+  WHERE p_user_id IN (buyer_id, seller_id)
+    AND status = 'completed';
+
+  SELECT count(DISTINCT order_id) INTO v_cancelled
+  FROM public.order_events
+  WHERE actor_id = p_user_id
+    AND to_status = 'cancelled';
+
+  IF v_completed + v_cancelled > 0 THEN
+    v_orders := GREATEST(-10, LEAST(10,
+      round(10.0 * (v_completed - 2 * v_cancelled) / GREATEST(v_completed + v_cancelled, 5))
+    ));
+  END IF;
+
+  -- Returns: completed rentals handed back before they went overdue, -10 to +10
+  SELECT
+    count(*) FILTER (WHERE status = 'completed' AND return_scanned_at IS NOT NULL AND return_overdue_at IS NULL),
+    count(*) FILTER (WHERE return_overdue_at IS NOT NULL)
+  INTO v_on_time, v_late
+  FROM public.orders
+  WHERE buyer_id = p_user_id;
+
+  IF v_on_time + v_late > 0 THEN
+    v_returns := GREATEST(-10, LEAST(10,
+      round(10.0 * (v_on_time - 3 * v_late) / GREATEST(v_on_time + v_late, 5))
+    ));
+  END IF;
+
+  v_verification := CASE WHEN v_profile.is_verified THEN 10 ELSE 0 END;
+
+  -- Disputes: the trust deltas moderators assigned when resolving them
+  SELECT
+    COALESCE(sum(CASE WHEN o.seller_id = p_user_id THEN d.lender_trust_delta ELSE d.borrower_trust_delta END), 0),
+    count(*)
+  INTO v_dispute_delta, v_dispute_count
+  FROM public.disputes d
+  JOIN public.orders o ON o.id = d.order_id
+  WHERE p_user_id IN (o.buyer_id, o.seller_id)
+    AND d.status IN ('resolved', 'dismissed');
+
+  v_disputes := GREATEST(-30, LEAST(10, v_dispute_delta));
+
+  -- Account age: a point a month, up to 10
+  v_age_days := GREATEST(0, (now()::date - COALESCE(v_profile.created_at, now())::date));
+  v_age := LEAST(v_age_days / 30, 10);
+
+  v_score := GREATEST(0, LEAST(100,
+    50 + v_reviews + v_orders + v_returns + v_verification + v_disputes + v_age
+  ));
+
+  v_points := jsonb_build_array(
+    jsonb_build_object('key', 'base', 'label', 'Starting score', 'points', 50,
+      'detail', 'Every member starts here'),
+    jsonb_build_object('key', 'reviews', 'label', 'Reviews', 'points', v_reviews,
+      'detail', CASE WHEN v_review_count = 0 THEN 'No reviews yet'
+        ELSE round(v_review_avg, 1) || ' average from ' || v_review_count || ' review' || CASE WHEN v_review_count = 1 THEN '' ELSE 's' END END),
+    jsonb_build_object('key', 'orders', 'label', 'Completed orders', 'points', v_orders,
+      'detail', v_completed || ' completed, ' || v_cancelled || ' cancelled by you'),
+    jsonb_build_object('key', 'returns', 'label', 'On-time returns', 'points', v_returns,
+      'detail', v_on_time || ' on time, ' || v_late || ' late'),
+    jsonb_build_object('key', 'verification', 'label', 'Verification', 'points', v_verification,
+      'detail', CASE WHEN v_profile.is_verified THEN 'Verified member' ELSE 'Not verified yet' END),
+    jsonb_build_object('key', 'disputes', 'label', 'Disputes', 'points', v_disputes,
+      'detail', CASE WHEN v_dispute_count = 0 THEN 'No resolved disputes'
+        ELSE v_dispute_count || ' resolved dispute' || CASE WHEN v_dispute_count = 1 THEN '' ELSE 's' END END),
+    jsonb_build_object('key', 'account_age', 'label', 'Account age', 'points', v_age,
+      'detail', CASE WHEN v_age_days < 30 THEN 'Less than a month' ELSE (v_age_days / 30) || ' months' END)
+  );
+
+  INSERT INTO public.trust_scores (user_id, score, breakdown, computed_at)
+  VALUES (p_user_id, v_score, v_points, now())
+  ON CONFLICT (user_id) DO UPDATE
+  SET score = EXCLUDED.score,
+      breakdown = EXCLUDED.breakdown,
+      computed_at = EXCLUDED.computed_at;
+
+  PERFORM set_config('app.trust_sync', 'on', true);
+  UPDATE public.profiles
+  SET trust_score = v_score
+  WHERE id = p_user_id
+    AND trust_score IS DISTINCT FROM v_score;
+  PERFORM set_config('app.trust_sync', 'off', true);
+
+  RETURN v_score;
+END;
+$$;
+
+-- Function to recompute everyone, for account age and as a catch-up
+CREATE OR REPLACE FUNCTION public.compute_all_trust_scores()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_count integer := 0;
+BEGIN
+  FOR v_user_id IN SELECT id FROM public.profiles LOOP
+    PERFORM public.compute_trust_score(v_user_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.recompute_trust_on_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.compute_trust_score(OLD.reviewed_user_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.compute_trust_score(NEW.reviewed_user_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER recompute_trust_on_review
+  AFTER INSERT OR UPDATE OF rating OR DELETE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.recompute_trust_on_review();
+
+CREATE OR REPLACE FUNCTION public.recompute_trust_on_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.compute_trust_score(NEW.buyer_id);
+  PERFORM public.compute_trust_score(NEW.seller_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER recompute_trust_on_order
+  AFTER UPDATE OF status, return_scanned_at, return_overdue_at ON public.orders
+  FOR EACH ROW
+  WHEN (
+    (NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('completed', 'cancelled'))
+    OR NEW.return_scanned_at IS DISTINCT FROM OLD.return_scanned_at
+    OR NEW.return_overdue_at IS DISTINCT FROM OLD.return_overdue_at
+  )
+  EXECUTE FUNCTION public.recompute_trust_on_order();
+
+CREATE OR REPLACE FUNCTION public.recompute_trust_on_dispute()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = NEW.order_id;
+
+  PERFORM public.compute_trust_score(v_order.buyer_id);
+  PERFORM public.compute_trust_score(v_order.seller_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER recompute_trust_on_dispute
+  AFTER UPDATE OF status ON public.disputes
+  FOR EACH ROW
+  WHEN (NEW.status IN ('resolved', 'dismissed') AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.recompute_trust_on_dispute();
+
+CREATE OR REPLACE FUNCTION public.recompute_trust_on_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.compute_trust_score(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER recompute_trust_on_verification
+  AFTER UPDATE OF is_verified ON public.profiles
+  FOR EACH ROW
+  WHEN (NEW.is_verified IS DISTINCT FROM OLD.is_verified)
+  EXECUTE FUNCTION public.recompute_trust_on_verification();
+
+-- Borrowers below a listing's minimum trust score can't order or book it
+CREATE OR REPLACE FUNCTION public.assert_min_trust_score(p_listing_id uuid, p_buyer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_required integer;
+  v_score integer;
+BEGIN
+  SELECT min_trust_score INTO v_required
+  FROM public.listings
+  WHERE id = p_listing_id;
+
+  IF v_required IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT trust_score INTO v_score
+  FROM public.profiles
+  WHERE id = p_buyer_id;
+
+  IF COALESCE(v_score, 0) < v_required THEN
+    RAISE EXCEPTION 'This listing requires a trust score of at least % (yours is %)', v_required, COALESCE(v_score, 0);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_min_trust_score_on_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_min_trust_score(NEW.listing_id, NEW.buyer_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_min_trust_score_on_order
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_min_trust_score_on_order();
+
+CREATE OR REPLACE FUNCTION public.enforce_min_trust_score_on_booking()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_min_trust_score(NEW.service_id, NEW.buyer_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_min_trust_score_on_booking
+  BEFORE INSERT ON public.service_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_min_trust_score_on_booking();
+
+REVOKE EXECUTE ON FUNCTION public.guard_profile_trust_score() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.compute_trust_score(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.compute_all_trust_scores() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recompute_trust_on_review() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recompute_trust_on_order() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recompute_trust_on_dispute() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recompute_trust_on_verification() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.assert_min_trust_score(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enforce_min_trust_score_on_order() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enforce_min_trust_score_on_booking() FROM PUBLIC, anon, authenticated;
+
+SELECT public.compute_all_trust_scores();
+
+SELECT cron.schedule(
+  'compute-trust-scores',
+  '45 3 * * *',
+  $$ SELECT public.compute_all_trust_scores(); $$
+);
@@ -0,0 +1,233 @@
+-- Identity verification: ID document and selfie uploads, phone OTP and email
+-- confirmation checked before a request reaches the moderator queue
+
+-- Private bucket for identity documents, stored as <user_id>/<file>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('verification-documents', 'verification-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their verification documents"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'verification-documents'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Owners and moderators can view verification documents"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'verification-documents'
+  AND (
+    auth.uid()::text = (storage.foldername(name))[1]
+    OR public.has_role(auth.uid(), 'moderator')
+  )
+);
+
+-- What the user submitted, captured when the request is made
+ALTER TABLE public.verification_requests
+  ADD COLUMN IF NOT EXISTS id_document_path text,
+  ADD COLUMN IF NOT EXISTS selfie_path text,
+  ADD COLUMN IF NOT EXISTS phone text,
+  ADD COLUMN IF NOT EXISTS phone_verified_at timestamptz,
+  ADD COLUMN IF NOT EXISTS email_confirmed_at timestamptz;
+
+-- One outstanding phone code per user. Codes are written by the send-phone-otp
+-- edge function as a hash of "<user_id>:<code>" and are never readable by clients.
+CREATE TABLE IF NOT EXISTS public.phone_verifications (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  phone text NOT NULL,
+  code_hash text NOT NULL,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  verified_at timestamptz
+);
+
+ALTER TABLE public.phone_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Every code texted, so send-phone-otp can limit how often one number is
+-- texted across all accounts
+CREATE TABLE IF NOT EXISTS public.phone_otp_sends (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone text NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  sent_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_phone_otp_sends_phone ON public.phone_otp_sends(phone, sent_at DESC);
+
+ALTER TABLE public.phone_otp_sends ENABLE ROW LEVEL SECURITY;
+
+-- The profile phone is the verified number and only changes through
+-- confirm_phone_verification
+CREATE OR REPLACE FUNCTION public.guard_profile_phone()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.phone IS DISTINCT FROM OLD.phone
+    AND current_setting('app.phone_sync', true) IS DISTINCT FROM 'on'
+  THEN
+    RAISE EXCEPTION 'Verify a new phone number to change it';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_phone
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_profile_phone();
+
+-- Wrong guesses allowed per code before a new one must be sent
+CREATE OR REPLACE FUNCTION public.max_phone_code_attempts()
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$ SELECT 5 $$;
+
+-- Phone verification status for the signed-in user, without the code hash
+CREATE OR REPLACE FUNCTION public.get_phone_verification()
+RETURNS TABLE (phone text, sent_at timestamptz, expires_at timestamptz, verified_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT pv.phone, pv.sent_at, pv.expires_at, pv.verified_at
+  FROM public.phone_verifications pv
+  WHERE pv.user_id = auth.uid();
+$$;
+
+-- Function for users to confirm the code texted to them. Returns false for a
+-- wrong code; raises once the code has expired or run out of attempts.
+CREATE OR REPLACE FUNCTION public.confirm_phone_verification(p_code text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.phone_verifications%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  SELECT * INTO v_row
+  FROM public.phone_verifications
+  WHERE user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Send a code to your phone first';
+  END IF;
+
+  IF v_row.verified_at IS NOT NULL THEN
+    RETURN true;
+  END IF;
+
+  IF v_row.expires_at < now() THEN
+    RAISE EXCEPTION 'This code has expired. Send a new one.';
+  END IF;
+
+  IF v_row.attempts >= public.max_phone_code_attempts() THEN
+    RAISE EXCEPTION 'Too many wrong codes. Send a new one.';
+  END IF;
+
+  IF v_row.code_hash <> encode(extensions.digest(auth.uid()::text || ':' || p_code, 'sha256'), 'hex') THEN
+    UPDATE public.phone_verifications
+    SET attempts = attempts + 1
+    WHERE user_id = auth.uid();
+    RETURN false;
+  END IF;
+
+  UPDATE public.phone_verifications
+  SET verified_at = now()
+  WHERE user_id = auth.uid();
+
+  PERFORM set_config('app.phone_sync', 'on', true);
+  UPDATE public.profiles
+  SET phone = v_row.phone
+  WHERE id = auth.uid();
+
+  RETURN true;
+END;
+$$;
+
+-- request_verification now takes the uploaded documents and requires a
+-- confirmed email and phone
+DROP FUNCTION IF EXISTS public.request_verification();
+
+CREATE OR REPLACE FUNCTION public.request_verification(
+  p_id_document_path text,
+  p_selfie_path text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request_id uuid;
+  v_email_confirmed_at timestamptz;
+  v_phone public.phone_verifications%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_verified) THEN
+    RAISE EXCEPTION 'You are already verified';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.verification_requests WHERE user_id = auth.uid() AND status = 'pending') THEN
+    RAISE EXCEPTION 'You already have a pending verification request';
+  END IF;
+
+  SELECT email_confirmed_at INTO v_email_confirmed_at
+  FROM auth.users
+  WHERE id = auth.uid();
+
+  IF v_email_confirmed_at IS NULL THEN
+    RAISE EXCEPTION 'Confirm your email address first';
+  END IF;
+
+  SELECT * INTO v_phone
+  FROM public.phone_verifications
+  WHERE user_id = auth.uid() AND verified_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Confirm your phone number first';
+  END IF;
+
+  -- Both documents must be the caller's own uploads
+  IF (SELECT count(*) FROM storage.objects
+      WHERE bucket_id = 'verification-documents'
+        AND name IN (p_id_document_path, p_selfie_path)
+        AND (storage.foldername(name))[1] = auth.uid()::text) < 2 THEN
+    RAISE EXCEPTION 'Upload an ID document and a selfie';
+  END IF;
+
+  INSERT INTO public.verification_requests (
+    user_id, id_document_path, selfie_path, phone, phone_verified_at, email_confirmed_at
+  )
+  VALUES (
+    auth.uid(), p_id_document_path, p_selfie_path, v_phone.phone, v_phone.verified_at, v_email_confirmed_at
+  )
+  RETURNING id INTO v_request_id;
+
+  RETURN v_request_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.guard_profile_phone() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_phone_verification() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_phone_verification() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.confirm_phone_verification(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.confirm_phone_verification(text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.request_verification(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_verification(text, text) TO authenticated;
@@ -0,0 +1,626 @@
+-- Two-sided reviews on completed orders. Buyer and seller each review the
+-- other once; reviews stay hidden until both are in or the review window
+-- closes. Sub-ratings, a seller reply and rating aggregates on profiles and
+-- listings come with them.
+
+-- Days after completion that an order can be reviewed. Hidden reviews are revealed once it closes.
+CREATE OR REPLACE FUNCTION public.review_window_days()
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$ SELECT 14 $$;
+
+-- When the order was completed, which the review window runs from
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS completed_at timestamp with time zone;
+
+UPDATE public.orders o
+SET completed_at = COALESCE(
+  (SELECT max(e.created_at) FROM public.order_events e WHERE e.order_id = o.id AND e.to_status = 'completed'),
+  o.updated_at,
+  now()
+)
+WHERE o.status = 'completed'
+  AND o.completed_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.stamp_order_completed_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.completed_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_order_completed_at
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.stamp_order_completed_at();
+
+-- New orders never start completed
+CREATE OR REPLACE FUNCTION public.prepare_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing public.listings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_listing
+  FROM public.listings
+  WHERE id = NEW.listing_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Listing % not found', NEW.listing_id;
+  END IF;
+
+  IF v_listing.seller_id = NEW.buyer_id THEN
+    RAISE EXCEPTION 'You cannot order your own listing';
+  END IF;
+
+  NEW.seller_id := v_listing.seller_id;
+  NEW.status := 'pending'::order_status;
+  NEW.quantity := GREATEST(COALESCE(NEW.quantity, 1), 1);
+  NEW.original_price := v_listing.price;
+  NEW.negotiated_price := NULL;
+  NEW.final_amount := v_listing.price * NEW.quantity;
+
+  -- Payment, handover and deposit state is only ever written by the server
+  NEW.paid_at := NULL;
+  NEW.stripe_payment_intent_id := NULL;
+  NEW.refunded_amount := 0;
+  NEW.qr_code_data := NULL;
+  NEW.delivery_scanned_at := NULL;
+  NEW.delivery_scanned_by := NULL;
+  NEW.return_scanned_at := NULL;
+  NEW.return_scanned_by := NULL;
+  NEW.service_start_scan := NULL;
+  NEW.service_end_scan := NULL;
+  NEW.deposit_held_at := NULL;
+  NEW.deposit_release_after := NULL;
+  NEW.deposit_claim_amount := NULL;
+  NEW.deposit_claim_reason := NULL;
+  NEW.deposit_settled_at := NULL;
+  NEW.deposit_failure_reason := NULL;
+  NEW.return_overdue_at := NULL;
+  NEW.has_open_dispute := false;
+  NEW.completed_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+-- One review per party per order instead of one per order
+ALTER TABLE public.reviews DROP CONSTRAINT IF EXISTS reviews_order_id_key;
+
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS reviewer_role text CHECK (reviewer_role IN ('buyer', 'seller')),
+  ADD COLUMN IF NOT EXISTS communication_rating smallint CHECK (communication_rating BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS condition_rating smallint CHECK (condition_rating BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS punctuality_rating smallint CHECK (punctuality_rating BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS revealed_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS reply text,
+  ADD COLUMN IF NOT EXISTS replied_at timestamp with time zone;
+
+-- Reviews written before this were public straight away
+UPDATE public.reviews r
+SET revealed_at = COALESCE(r.created_at, now()),
+    reviewer_role = CASE WHEN o.seller_id = r.reviewer_id THEN 'seller' ELSE 'buyer' END
+FROM public.orders o
+WHERE o.id = r.order_id
+  AND r.revealed_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reviews_order_reviewer
+  ON public.reviews(order_id, reviewer_id);
+
+CREATE INDEX IF NOT EXISTS idx_reviews_reviewed_user
+  ON public.reviews(reviewed_user_id, created_at DESC);
+
+-- Reviews are written through submit_review and reply_to_review only. Until
+-- revealed, a review is visible to its author alone.
+DO $$
+DECLARE
+  v_policy record;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = 'reviews'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.reviews', v_policy.policyname);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Revealed reviews are public; authors see their own"
+ON public.reviews
+FOR SELECT
+USING (revealed_at IS NOT NULL OR auth.uid() = reviewer_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.reviews FROM anon, authenticated;
+
+-- Rating aggregates over revealed reviews. Listings only count what buyers
+-- said about the seller.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS rating_average numeric(3,2),
+  ADD COLUMN IF NOT EXISTS rating_count integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.listings
+  ADD COLUMN IF NOT EXISTS rating_average numeric(3,2),
+  ADD COLUMN IF NOT EXISTS rating_count integer NOT NULL DEFAULT 0;
+
+-- rating_average and rating_count are derived; direct writes are ignored
+CREATE OR REPLACE FUNCTION public.guard_rating_aggregates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.rating_sync', true) IS DISTINCT FROM 'on' THEN
+    NEW.rating_average := OLD.rating_average;
+    NEW.rating_count := OLD.rating_count;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_rating_aggregates
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_rating_aggregates();
+
+CREATE TRIGGER guard_listing_rating_aggregates
+  BEFORE UPDATE ON public.listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_rating_aggregates();
+
+-- Function to recompute the stored aggregates for a reviewed user and listing
+CREATE OR REPLACE FUNCTION public.refresh_rating_aggregates(p_user_id uuid, p_listing_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.rating_sync', 'on', true);
+
+  UPDATE public.profiles p
+  SET (rating_average, rating_count) = (
+    SELECT round(avg(r.rating), 2), count(*)
+    FROM public.reviews r
+    WHERE r.reviewed_user_id = p_user_id
+      AND r.revealed_at IS NOT NULL
+  )
+  WHERE p.id = p_user_id;
+
+  UPDATE public.listings l
+  SET (rating_average, rating_count) = (
+    SELECT round(avg(r.rating), 2), count(*)
+    FROM public.reviews r
+    WHERE r.listing_id = p_listing_id
+      AND r.reviewer_role = 'buyer'
+      AND r.revealed_at IS NOT NULL
+  )
+  WHERE l.id = p_listing_id;
+
+  PERFORM set_config('app.rating_sync', 'off', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_rating_aggregates_on_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_rating_aggregates(OLD.reviewed_user_id, OLD.listing_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.refresh_rating_aggregates(NEW.reviewed_user_id, NEW.listing_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_rating_aggregates_on_review
+  AFTER UPDATE OF rating, revealed_at OR DELETE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_rating_aggregates_on_review();
+
+-- Backfill from the reviews revealed above
+DO $$
+DECLARE
+  v_pair record;
+BEGIN
+  FOR v_pair IN SELECT DISTINCT reviewed_user_id, listing_id FROM public.reviews LOOP
+    PERFORM public.refresh_rating_aggregates(v_pair.reviewed_user_id, v_pair.listing_id);
+  END LOOP;
+END;
+$$;
+
+-- Hidden ratings must not move the trust score before they are revealed
+CREATE OR REPLACE FUNCTION public.compute_trust_score(p_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_review_count integer;
+  v_review_avg numeric;
+  v_completed integer;
+  v_cancelled integer;
+  v_on_time integer;
+  v_late integer;
+  v_dispute_delta integer;
+  v_dispute_count integer;
+  v_age_days integer;
+  v_points jsonb := '[]'::jsonb;
+  v_reviews integer := 0;
+  v_orders integer := 0;
+  v_returns integer := 0;
+  v_verification integer;
+  v_disputes integer;
+  v_age integer;
+  v_score integer;
+BEGIN
+  SELECT * INTO v_profile
+  FROM public.profiles
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Reviews: -15 to +15 around a 3-star average, at full weight from five revealed reviews
+  SELECT count(*), avg(rating) INTO v_review_count, v_review_avg
+  FROM public.reviews
+  WHERE reviewed_user_id = p_user_id
+    AND revealed_at IS NOT NULL;
+
+  IF v_review_count > 0 THEN
+    v_reviews := round((v_review_avg - 3) / 2 * 15 * LEAST(v_review_count, 5) / 5.0);
+  END IF;
+
+  -- Orders: completions against orders this user cancelled, -10 to +10
+  SELECT count(*) INTO v_completed
+  FROM public.orders
+  WHERE p_user_id IN (buyer_id, seller_id)
+    AND status = 'completed';
+
+  SELECT count(DISTINCT order_id) INTO v_cancelled
+  FROM public.order_events
+  WHERE actor_id = p_user_id
+    AND to_status = 'cancelled';
+
+  IF v_completed + v_cancelled > 0 THEN
+    v_orders := GREATEST(-10, LEAST(10,
+      round(10.0 * (v_completed - 2 * v_cancelled) / GREATEST(v_completed + v_cancelled, 5))
+    ));
+  END IF;
+
+  -- Returns: completed rentals handed back before they went overdue, -10 to +10
+  SELECT
+    count(*) FILTER (WHERE status = 'completed' AND return_scanned_at IS NOT NULL AND return_overdue_at IS NULL),
+    count(*) FILTER (WHERE return_overdue_at IS NOT NULL)
+  INTO v_on_time, v_late
+  FROM public.orders
+  WHERE buyer_id = p_user_id;
+
+  IF v_on_time + v_late > 0 THEN
+    v_returns := GREATEST(-10, LEAST(10,
+      round(10.0 * (v_on_time - 3 * v_late) / GREATEST(v_on_time + v_late, 5))
+    ));
+  END IF;
+
+  v_verification := CASE WHEN v_profile.is_verified THEN 10 ELSE 0 END;
+
+  -- Disputes: the trust deltas moderators assigned when resolving them
+  SELECT
+    COALESCE(sum(CASE WHEN o.seller_id = p_user_id THEN d.lender_trust_delta ELSE d.borrower_trust_delta END), 0),
+    count(*)
+  INTO v_dispute_delta, v_dispute_count
+  FROM public.disputes d
+  JOIN public.orders o ON o.id = d.order_id
+  WHERE p_user_id IN (o.buyer_id, o.seller_id)
+    AND d.status IN ('resolved', 'dismissed');
+
+  v_disputes := GREATEST(-30, LEAST(10, v_dispute_delta));
+
+  -- Account age: a point a month, up to 10
+  v_age_days := GREATEST(0, (now()::date - COALESCE(v_profile.created_at, now())::date));
+  v_age := LEAST(v_age_days / 30, 10);
+
+  v_score := GREATEST(0, LEAST(100,
+    50 + v_reviews + v_orders + v_returns + v_verification + v_disputes + v_age
+  ));
+
+  v_points := jsonb_build_array(
+    jsonb_build_object('key', 'base', 'label', 'Starting score', 'points', 50,
+      'detail', 'Every member starts here'),
+    jsonb_build_object('key', 'reviews', 'label', 'Reviews', 'points', v_reviews,
+      'detail', CASE WHEN v_review_count = 0 THEN 'No reviews yet'
+        ELSE round(v_review_avg, 1) || ' average from ' || v_review_count || ' review' || CASE WHEN v_review_count = 1 THEN '' ELSE 's' END END),
+    jsonb_build_object('key', 'orders', 'label', 'Completed orders', 'points', v_orders,
+      'detail', v_completed || ' completed, ' || v_cancelled || ' cancelled by you'),
+    jsonb_build_object('key', 'returns', 'label', 'On-time returns', 'points', v_returns,
+      'detail', v_on_time || ' on time, ' || v_late || ' late'),
+    jsonb_build_object('key', 'verification', 'label', 'Verification', 'points', v_verification,
+      'detail', CASE WHEN v_profile.is_verified THEN 'Verified member' ELSE 'Not verified yet' END),
+    jsonb_build_object('key', 'disputes', 'label', 'Disputes', 'points', v_disputes,
+      'detail', CASE WHEN v_dispute_count = 0 THEN 'No resolved disputes'
+        ELSE v_dispute_count || ' resolved dispute' || CASE WHEN v_dispute_count = 1 THEN '' ELSE 's' END END),
+    jsonb_build_object('key', 'account_age', 'label', 'Account age', 'points', v_age,
+      'detail', CASE WHEN v_age_days < 30 THEN 'Less than a month' ELSE (v_age_days / 30) || ' months' END)
+  );
+
+  INSERT INTO public.trust_scores (user_id, score, breakdown, computed_at)
+  VALUES (p_user_id, v_score, v_points, now())
+  ON CONFLICT (user_id) DO UPDATE
+  SET score = EXCLUDED.score,
+      breakdown = EXCLUDED.breakdown,
+      computed_at = EXCLUDED.computed_at;
+
+  PERFORM set_config('app.trust_sync', 'on', true);
+  UPDATE public.profiles
+  SET trust_score = v_score
+  WHERE id = p_user_id
+    AND trust_score IS DISTINCT FROM v_score;
+  PERFORM set_config('app.trust_sync', 'off', true);
+
+  RETURN v_score;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS recompute_trust_on_review ON public.reviews;
+
+CREATE TRIGGER recompute_trust_on_review
+  AFTER UPDATE OF rating, revealed_at OR DELETE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.recompute_trust_on_review();
+
+-- Ask both parties for a review when an order completes
+CREATE OR REPLACE FUNCTION public.prompt_order_reviews()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  FOREACH v_user_id IN ARRAY ARRAY[NEW.buyer_id, NEW.seller_id] LOOP
+    PERFORM public.create_notification(
+      v_user_id,
+      'order'::notification_type,
+      'How did it go?',
+      'Leave a review within ' || public.review_window_days() || ' days. Neither of you sees the other''s review until both are in.',
+      jsonb_build_object('kind', 'review_prompt', 'order_id', NEW.id),
+      '/orders/' || NEW.id,
+      'Leave a review',
+      'low'
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prompt_order_reviews
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.prompt_order_reviews();
+
+-- Function for either party to review the other on a completed order. Both
+-- reviews are revealed as soon as the second one comes in.
+CREATE OR REPLACE FUNCTION public.submit_review(
+  p_order_id uuid,
+  p_rating integer,
+  p_comment text DEFAULT NULL,
+  p_communication_rating integer DEFAULT NULL,
+  p_condition_rating integer DEFAULT NULL,
+  p_punctuality_rating integer DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_role text;
+  v_other uuid;
+  v_review_id uuid;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF auth.uid() = v_order.buyer_id THEN
+    v_role := 'buyer';
+    v_other := v_order.seller_id;
+  ELSIF auth.uid() = v_order.seller_id THEN
+    v_role := 'seller';
+    v_other := v_order.buyer_id;
+  ELSE
+    RAISE EXCEPTION 'Not a participant in order %', p_order_id;
+  END IF;
+
+  IF v_order.status <> 'completed' THEN
+    RAISE EXCEPTION 'Orders can be reviewed once they are completed';
+  END IF;
+
+  IF v_order.completed_at < now() - make_interval(days => public.review_window_days()) THEN
+    RAISE EXCEPTION 'The review period for this order has ended';
+  END IF;
+
+  IF p_rating IS NULL OR p_rating NOT BETWEEN 1 AND 5 THEN
+    RAISE EXCEPTION 'Rating must be between 1 and 5 stars';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.reviews WHERE order_id = p_order_id AND reviewer_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You already reviewed this order';
+  END IF;
+
+  INSERT INTO public.reviews (
+    order_id, listing_id, reviewer_id, reviewed_user_id, reviewer_role, rating, comment,
+    communication_rating, condition_rating, punctuality_rating
+  )
+  VALUES (
+    p_order_id, v_order.listing_id, auth.uid(), v_other, v_role, p_rating, NULLIF(trim(p_comment), ''),
+    p_communication_rating, p_condition_rating, p_punctuality_rating
+  )
+  RETURNING id INTO v_review_id;
+
+  IF EXISTS (SELECT 1 FROM public.reviews WHERE order_id = p_order_id AND reviewer_id = v_other) THEN
+    UPDATE public.reviews
+    SET revealed_at = now()
+    WHERE order_id = p_order_id
+      AND revealed_at IS NULL;
+
+    PERFORM public.create_notification(
+      v_other,
+      'order'::notification_type,
+      'Reviews published',
+      'You both reviewed this order, so both reviews are now visible.',
+      jsonb_build_object('kind', 'reviews_revealed', 'order_id', p_order_id),
+      '/orders/' || p_order_id,
+      'See reviews',
+      'low'
+    );
+  ELSE
+    PERFORM public.create_notification(
+      v_other,
+      'order'::notification_type,
+      'You have a new review',
+      'Leave your own review to see it. Otherwise it is published when the review period ends.',
+      jsonb_build_object('kind', 'review_received', 'order_id', p_order_id),
+      '/orders/' || p_order_id,
+      'Leave a review',
+      'medium'
+    );
+  END IF;
+
+  RETURN v_review_id;
+END;
+$$;
+
+-- Function to publish reviews whose window has closed without the other side
+-- reviewing. Run hourly by pg_cron.
+CREATE OR REPLACE FUNCTION public.reveal_due_reviews()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_review record;
+  v_count integer := 0;
+BEGIN
+  FOR v_review IN
+    UPDATE public.reviews r
+    SET revealed_at = now()
+    FROM public.orders o
+    WHERE o.id = r.order_id
+      AND r.revealed_at IS NULL
+      AND o.completed_at <= now() - make_interval(days => public.review_window_days())
+    RETURNING r.order_id, r.reviewed_user_id
+  LOOP
+    PERFORM public.create_notification(
+      v_review.reviewed_user_id,
+      'order'::notification_type,
+      'A review was published',
+      'The review period ended and the review you received is now visible.',
+      jsonb_build_object('kind', 'reviews_revealed', 'order_id', v_review.order_id),
+      '/orders/' || v_review.order_id,
+      'See review',
+      'low'
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Function for sellers to answer a buyer's review once it is public. One reply per review.
+CREATE OR REPLACE FUNCTION public.reply_to_review(p_review_id uuid, p_reply text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_review public.reviews%ROWTYPE;
+  v_reply text := NULLIF(trim(p_reply), '');
+BEGIN
+  SELECT * INTO v_review
+  FROM public.reviews
+  WHERE id = p_review_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_review.reviewed_user_id IS DISTINCT FROM auth.uid() OR v_review.reviewer_role <> 'buyer' THEN
+    RAISE EXCEPTION 'Only the seller can reply to this review';
+  END IF;
+
+  IF v_review.revealed_at IS NULL THEN
+    RAISE EXCEPTION 'You can reply once the review is published';
+  END IF;
+
+  IF v_review.reply IS NOT NULL THEN
+    RAISE EXCEPTION 'You already replied to this review';
+  END IF;
+
+  IF v_reply IS NULL OR length(v_reply) > 1000 THEN
+    RAISE EXCEPTION 'Replies must be between 1 and 1000 characters';
+  END IF;
+
+  UPDATE public.reviews
+  SET reply = v_reply,
+      replied_at = now()
+  WHERE id = p_review_id;
+
+  PERFORM public.create_notification(
+    v_review.reviewer_id,
+    'order'::notification_type,
+    'The seller replied to your review',
+    left(v_reply, 140),
+    jsonb_build_object('kind', 'review_reply', 'review_id', p_review_id, 'order_id', v_review.order_id),
+    '/orders/' || v_review.order_id,
+    'View order',
+    'low'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.stamp_order_completed_at() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.guard_rating_aggregates() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_rating_aggregates(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_rating_aggregates_on_review() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.prompt_order_reviews() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reveal_due_reviews() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.submit_review(uuid, integer, text, integer, integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_review(uuid, integer, text, integer, integer, integer) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.reply_to_review(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reply_to_review(uuid, text) TO authenticated;
+
+SELECT cron.schedule(
+  'reveal-due-reviews',
+  '20 * * * *',
+  $$ SELECT public.reveal_due_reviews(); $$
+);
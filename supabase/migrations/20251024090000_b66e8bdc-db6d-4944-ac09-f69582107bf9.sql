@@ -0,0 +1,47 @@
+-- Realtime chat: new messages and read receipts are pushed to the client
+-- through Supabase Realtime, and read_at is set when a thread is viewed
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'chat_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_messages;
+  END IF;
+END;
+$$;
+
+-- Unread counts are looked up on every page through the sidebar
+CREATE INDEX IF NOT EXISTS idx_chat_messages_unread
+  ON public.chat_messages(to_user_id, from_user_id)
+  WHERE read_at IS NULL;
+
+-- Function for the recipient to mark everything another user sent them as
+-- read. Returns how many messages were marked.
+CREATE OR REPLACE FUNCTION public.mark_messages_read(p_other_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  UPDATE public.chat_messages
+  SET read_at = now()
+  WHERE to_user_id = auth.uid()
+    AND from_user_id = p_other_user_id
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_messages_read(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_messages_read(uuid) TO authenticated;
@@ -0,0 +1,434 @@
+-- Conversations: messages are grouped by the two participants and what they
+-- are about (an order, a listing, or nothing), instead of by user pair.
+-- Each participant can archive or mute a conversation for themselves.
+
+CREATE TABLE public.conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Participants are stored lowest id first so each pair and subject has one row
+  user_a uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  user_b uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  listing_id uuid REFERENCES public.listings(id) ON DELETE SET NULL,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  -- 'order:<id>', 'listing:<id>' or 'direct'; kept when the subject is deleted
+  subject_key text NOT NULL,
+  last_message_at timestamp with time zone,
+  last_message_text text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (user_a < user_b),
+  UNIQUE (user_a, user_b, subject_key)
+);
+
+CREATE TABLE public.conversation_participants (
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  archived_at timestamp with time zone,
+  muted_at timestamp with time zone,
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE INDEX idx_conversation_participants_user
+  ON public.conversation_participants(user_id);
+
+ALTER TABLE public.chat_messages
+ADD COLUMN IF NOT EXISTS conversation_id uuid REFERENCES public.conversations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_conversation
+  ON public.chat_messages(conversation_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.conversation_subject_key(p_listing_id uuid, p_order_id uuid)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_order_id IS NOT NULL THEN 'order:' || p_order_id
+    WHEN p_listing_id IS NOT NULL THEN 'listing:' || p_listing_id
+    ELSE 'direct'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(p_conversation_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.conversations c
+    WHERE c.id = p_conversation_id
+      AND p_user_id IN (c.user_a, c.user_b)
+  );
+$$;
+
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_participants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their conversations"
+ON public.conversations
+FOR SELECT
+USING (auth.uid() IN (user_a, user_b));
+
+CREATE POLICY "Users can view their own conversation settings"
+ON public.conversation_participants
+FOR SELECT
+USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.conversations FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.conversation_participants FROM anon, authenticated;
+
+-- Group existing messages into conversations
+WITH keyed AS (
+  SELECT
+    m.*,
+    LEAST(m.from_user_id, m.to_user_id) AS a,
+    GREATEST(m.from_user_id, m.to_user_id) AS b,
+    public.conversation_subject_key(m.listing_id, m.order_id) AS subject_key
+  FROM public.chat_messages m
+  WHERE m.from_user_id <> m.to_user_id
+)
+INSERT INTO public.conversations (
+  user_a, user_b, listing_id, order_id, subject_key, last_message_at, last_message_text, created_at
+)
+SELECT
+  a,
+  b,
+  (array_agg(listing_id ORDER BY created_at DESC))[1],
+  (array_agg(order_id ORDER BY created_at DESC))[1],
+  subject_key,
+  max(created_at),
+  left((array_agg(message_text ORDER BY created_at DESC))[1], 200),
+  COALESCE(min(created_at), now())
+FROM keyed
+GROUP BY a, b, subject_key
+ON CONFLICT (user_a, user_b, subject_key) DO NOTHING;
+
+UPDATE public.chat_messages m
+SET conversation_id = c.id
+FROM public.conversations c
+WHERE m.conversation_id IS NULL
+  AND c.user_a = LEAST(m.from_user_id, m.to_user_id)
+  AND c.user_b = GREATEST(m.from_user_id, m.to_user_id)
+  AND c.subject_key = public.conversation_subject_key(m.listing_id, m.order_id);
+
+INSERT INTO public.conversation_participants (conversation_id, user_id)
+SELECT id, user_a FROM public.conversations
+UNION ALL
+SELECT id, user_b FROM public.conversations
+ON CONFLICT DO NOTHING;
+
+-- Function to find or create the conversation between two users about a
+-- subject. An order also sets the listing.
+CREATE OR REPLACE FUNCTION public.ensure_conversation(
+  p_user_id uuid,
+  p_other_user_id uuid,
+  p_listing_id uuid DEFAULT NULL,
+  p_order_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation_id uuid;
+  v_listing_id uuid := p_listing_id;
+BEGIN
+  IF p_user_id IS NULL OR p_other_user_id IS NULL OR p_user_id = p_other_user_id THEN
+    RAISE EXCEPTION 'A conversation needs two different users';
+  END IF;
+
+  IF p_order_id IS NOT NULL THEN
+    SELECT listing_id INTO v_listing_id
+    FROM public.orders
+    WHERE id = p_order_id;
+  END IF;
+
+  INSERT INTO public.conversations (user_a, user_b, listing_id, order_id, subject_key)
+  VALUES (
+    LEAST(p_user_id, p_other_user_id),
+    GREATEST(p_user_id, p_other_user_id),
+    v_listing_id,
+    p_order_id,
+    public.conversation_subject_key(v_listing_id, p_order_id)
+  )
+  ON CONFLICT (user_a, user_b, subject_key) DO NOTHING
+  RETURNING id INTO v_conversation_id;
+
+  IF v_conversation_id IS NULL THEN
+    SELECT id INTO v_conversation_id
+    FROM public.conversations
+    WHERE user_a = LEAST(p_user_id, p_other_user_id)
+      AND user_b = GREATEST(p_user_id, p_other_user_id)
+      AND subject_key = public.conversation_subject_key(v_listing_id, p_order_id);
+  END IF;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  VALUES (v_conversation_id, p_user_id), (v_conversation_id, p_other_user_id)
+  ON CONFLICT DO NOTHING;
+
+  RETURN v_conversation_id;
+END;
+$$;
+
+-- Function for the "Message seller" and "Message buyer" entry points. With an
+-- order the other party is the other side of it; with a listing it is the
+-- seller. Returns the conversation id.
+CREATE OR REPLACE FUNCTION public.start_conversation(
+  p_listing_id uuid DEFAULT NULL,
+  p_order_id uuid DEFAULT NULL,
+  p_other_user_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_other uuid := p_other_user_id;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF p_order_id IS NOT NULL THEN
+    SELECT * INTO v_order
+    FROM public.orders
+    WHERE id = p_order_id;
+
+    IF NOT FOUND OR auth.uid() NOT IN (v_order.buyer_id, v_order.seller_id) THEN
+      RAISE EXCEPTION 'Not a participant in order %', p_order_id;
+    END IF;
+
+    v_other := CASE WHEN auth.uid() = v_order.buyer_id THEN v_order.seller_id ELSE v_order.buyer_id END;
+  ELSIF p_listing_id IS NOT NULL AND v_other IS NULL THEN
+    SELECT seller_id INTO v_other
+    FROM public.listings
+    WHERE id = p_listing_id;
+
+    IF v_other IS NULL THEN
+      RAISE EXCEPTION 'Listing % not found', p_listing_id;
+    END IF;
+  END IF;
+
+  IF v_other IS NULL THEN
+    RAISE EXCEPTION 'Choose who to message';
+  END IF;
+
+  IF v_other = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot message yourself';
+  END IF;
+
+  RETURN public.ensure_conversation(auth.uid(), v_other, p_listing_id, p_order_id);
+END;
+$$;
+
+-- Messages are filed under a conversation. Without one, the conversation is
+-- found from the users and subject; with one, the recipient and subject come
+-- from it.
+CREATE OR REPLACE FUNCTION public.prepare_chat_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation public.conversations%ROWTYPE;
+BEGIN
+  IF NEW.conversation_id IS NULL THEN
+    NEW.conversation_id := public.ensure_conversation(NEW.from_user_id, NEW.to_user_id, NEW.listing_id, NEW.order_id);
+  END IF;
+
+  SELECT * INTO v_conversation
+  FROM public.conversations
+  WHERE id = NEW.conversation_id;
+
+  IF NOT FOUND OR NEW.from_user_id NOT IN (v_conversation.user_a, v_conversation.user_b) THEN
+    RAISE EXCEPTION 'Not a participant in this conversation';
+  END IF;
+
+  NEW.to_user_id := CASE WHEN NEW.from_user_id = v_conversation.user_a THEN v_conversation.user_b ELSE v_conversation.user_a END;
+  NEW.listing_id := v_conversation.listing_id;
+  NEW.order_id := v_conversation.order_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_chat_message
+  BEFORE INSERT ON public.chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_chat_message();
+
+-- New messages move the conversation to the top and bring it back out of the
+-- recipient's archive
+CREATE OR REPLACE FUNCTION public.touch_conversation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversations
+  SET last_message_at = COALESCE(NEW.created_at, now()),
+      last_message_text = left(NEW.message_text, 200)
+  WHERE id = NEW.conversation_id;
+
+  UPDATE public.conversation_participants
+  SET archived_at = NULL
+  WHERE conversation_id = NEW.conversation_id
+    AND user_id = NEW.to_user_id
+    AND archived_at IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_conversation
+  AFTER INSERT ON public.chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_conversation();
+
+-- Function for a participant to archive or mute a conversation for
+-- themselves. NULL leaves a setting as it is.
+CREATE OR REPLACE FUNCTION public.update_conversation_settings(
+  p_conversation_id uuid,
+  p_archived boolean DEFAULT NULL,
+  p_muted boolean DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversation_participants
+  SET archived_at = CASE
+        WHEN p_archived IS NULL THEN archived_at
+        WHEN p_archived THEN COALESCE(archived_at, now())
+      END,
+      muted_at = CASE
+        WHEN p_muted IS NULL THEN muted_at
+        WHEN p_muted THEN COALESCE(muted_at, now())
+      END
+  WHERE conversation_id = p_conversation_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation % not found', p_conversation_id;
+  END IF;
+END;
+$$;
+
+-- Read receipts are per conversation now
+DROP FUNCTION IF EXISTS public.mark_messages_read(uuid);
+
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_conversation_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.chat_messages
+  SET read_at = now()
+  WHERE conversation_id = p_conversation_id
+    AND to_user_id = auth.uid()
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Unread messages for the sidebar badge, leaving out muted conversations
+CREATE OR REPLACE FUNCTION public.get_unread_message_count()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM public.chat_messages m
+  JOIN public.conversation_participants p
+    ON p.conversation_id = m.conversation_id AND p.user_id = m.to_user_id
+  WHERE m.to_user_id = auth.uid()
+    AND m.read_at IS NULL
+    AND p.muted_at IS NULL;
+$$;
+
+-- The signed-in user's conversations, newest first, a page at a time. Pass
+-- the last_message_at of the final row as p_before to get the next page.
+CREATE OR REPLACE FUNCTION public.list_conversations(
+  p_archived boolean DEFAULT false,
+  p_limit integer DEFAULT 30,
+  p_before timestamp with time zone DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  other_user_id uuid,
+  other_user_name text,
+  other_user_avatar_url text,
+  listing_id uuid,
+  listing_title text,
+  order_id uuid,
+  last_message_at timestamp with time zone,
+  last_message_text text,
+  unread_count integer,
+  archived boolean,
+  muted boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    o.id,
+    o.name,
+    o.avatar_url,
+    c.listing_id,
+    l.title,
+    c.order_id,
+    COALESCE(c.last_message_at, c.created_at),
+    c.last_message_text,
+    (
+      SELECT count(*)::integer
+      FROM public.chat_messages m
+      WHERE m.conversation_id = c.id
+        AND m.to_user_id = auth.uid()
+        AND m.read_at IS NULL
+    ),
+    p.archived_at IS NOT NULL,
+    p.muted_at IS NOT NULL
+  FROM public.conversation_participants p
+  JOIN public.conversations c ON c.id = p.conversation_id
+  JOIN public.profiles o ON o.id = CASE WHEN c.user_a = auth.uid() THEN c.user_b ELSE c.user_a END
+  LEFT JOIN public.listings l ON l.id = c.listing_id
+  WHERE p.user_id = auth.uid()
+    AND (p.archived_at IS NOT NULL) = p_archived
+    AND (p_before IS NULL OR COALESCE(c.last_message_at, c.created_at) < p_before)
+  ORDER BY COALESCE(c.last_message_at, c.created_at) DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_conversation_participant(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_conversation_participant(uuid, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.ensure_conversation(uuid, uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.prepare_chat_message() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.touch_conversation() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.start_conversation(uuid, uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_conversation(uuid, uuid, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.update_conversation_settings(uuid, boolean, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_conversation_settings(uuid, boolean, boolean) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_conversation_read(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_conversation_read(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_unread_message_count() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_unread_message_count() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.list_conversations(boolean, integer, timestamp with time zone) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_conversations(boolean, integer, timestamp with time zone) TO authenticated;
@@ -0,0 +1,104 @@
+-- Chat attachments: photos are uploaded to a private bucket scoped to the
+-- conversation and referenced from chat_messages.attachments by path.
+-- Each photo has a small "-thumb" JPEG next to it for the thread view.
+
+-- Private bucket for chat photos, stored as <conversation_id>/<user_id>/<file>.
+-- The client compresses photos before upload; the limits here back that up.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('chat-attachments', 'chat-attachments', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Participants can upload chat attachments"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'chat-attachments'
+  AND auth.uid()::text = (storage.foldername(name))[2]
+  AND public.is_conversation_participant(((storage.foldername(name))[1])::uuid, auth.uid())
+);
+
+CREATE POLICY "Participants can view chat attachments"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'chat-attachments'
+  AND public.is_conversation_participant(((storage.foldername(name))[1])::uuid, auth.uid())
+);
+
+CREATE OR REPLACE FUNCTION public.max_chat_attachments()
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 6;
+$$;
+
+-- Messages can only reference photos the sender uploaded to this
+-- conversation, and may be photos without text
+CREATE OR REPLACE FUNCTION public.prepare_chat_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation public.conversations%ROWTYPE;
+  v_path text;
+BEGIN
+  IF NEW.conversation_id IS NULL THEN
+    NEW.conversation_id := public.ensure_conversation(NEW.from_user_id, NEW.to_user_id, NEW.listing_id, NEW.order_id);
+  END IF;
+
+  SELECT * INTO v_conversation
+  FROM public.conversations
+  WHERE id = NEW.conversation_id;
+
+  IF NOT FOUND OR NEW.from_user_id NOT IN (v_conversation.user_a, v_conversation.user_b) THEN
+    RAISE EXCEPTION 'Not a participant in this conversation';
+  END IF;
+
+  IF COALESCE(cardinality(NEW.attachments), 0) > public.max_chat_attachments() THEN
+    RAISE EXCEPTION 'A message can have at most % photos', public.max_chat_attachments();
+  END IF;
+
+  FOREACH v_path IN ARRAY COALESCE(NEW.attachments, '{}'::text[]) LOOP
+    IF v_path NOT LIKE NEW.conversation_id || '/' || NEW.from_user_id || '/%' THEN
+      RAISE EXCEPTION 'Attachment % does not belong to this conversation', v_path;
+    END IF;
+  END LOOP;
+
+  IF btrim(NEW.message_text) = '' AND COALESCE(cardinality(NEW.attachments), 0) = 0 THEN
+    RAISE EXCEPTION 'Message is empty';
+  END IF;
+
+  NEW.to_user_id := CASE WHEN NEW.from_user_id = v_conversation.user_a THEN v_conversation.user_b ELSE v_conversation.user_a END;
+  NEW.listing_id := v_conversation.listing_id;
+  NEW.order_id := v_conversation.order_id;
+  RETURN NEW;
+END;
+$$;
+
+-- Photo-only messages show as "Sent a photo" in the conversation list
+CREATE OR REPLACE FUNCTION public.touch_conversation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversations
+  SET last_message_at = COALESCE(NEW.created_at, now()),
+      last_message_text = CASE
+        WHEN btrim(NEW.message_text) = '' AND COALESCE(cardinality(NEW.attachments), 0) > 0
+          THEN CASE WHEN cardinality(NEW.attachments) = 1 THEN 'Sent a photo' ELSE 'Sent ' || cardinality(NEW.attachments) || ' photos' END
+        ELSE left(NEW.message_text, 200)
+      END
+  WHERE id = NEW.conversation_id;
+
+  UPDATE public.conversation_participants
+  SET archived_at = NULL
+  WHERE conversation_id = NEW.conversation_id
+    AND user_id = NEW.to_user_id
+    AND archived_at IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
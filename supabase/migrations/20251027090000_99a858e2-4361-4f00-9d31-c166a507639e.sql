@@ -0,0 +1,163 @@
+-- System messages: order milestones (accepted, paid, handed over, returned,
+-- disputed) are posted into the order's conversation by the server.
+-- Clients cannot insert messages flagged as system messages.
+
+CREATE OR REPLACE FUNCTION public.prepare_chat_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation public.conversations%ROWTYPE;
+  v_path text;
+BEGIN
+  IF NEW.conversation_id IS NULL THEN
+    NEW.conversation_id := public.ensure_conversation(NEW.from_user_id, NEW.to_user_id, NEW.listing_id, NEW.order_id);
+  END IF;
+
+  SELECT * INTO v_conversation
+  FROM public.conversations
+  WHERE id = NEW.conversation_id;
+
+  IF NOT FOUND OR NEW.from_user_id NOT IN (v_conversation.user_a, v_conversation.user_b) THEN
+    RAISE EXCEPTION 'Not a participant in this conversation';
+  END IF;
+
+  IF COALESCE(cardinality(NEW.attachments), 0) > public.max_chat_attachments() THEN
+    RAISE EXCEPTION 'A message can have at most % photos', public.max_chat_attachments();
+  END IF;
+
+  FOREACH v_path IN ARRAY COALESCE(NEW.attachments, '{}'::text[]) LOOP
+    IF v_path NOT LIKE NEW.conversation_id || '/' || NEW.from_user_id || '/%' THEN
+      RAISE EXCEPTION 'Attachment % does not belong to this conversation', v_path;
+    END IF;
+  END LOOP;
+
+  -- System entries are only written by post_order_system_message
+  IF COALESCE(NEW.is_system_message, false)
+     AND current_setting('app.system_message', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'System messages can only be created by the server';
+  END IF;
+
+  IF btrim(NEW.message_text) = '' AND COALESCE(cardinality(NEW.attachments), 0) = 0 THEN
+    RAISE EXCEPTION 'Message is empty';
+  END IF;
+
+  NEW.to_user_id := CASE WHEN NEW.from_user_id = v_conversation.user_a THEN v_conversation.user_b ELSE v_conversation.user_a END;
+  NEW.listing_id := v_conversation.listing_id;
+  NEW.order_id := v_conversation.order_id;
+  RETURN NEW;
+END;
+$$;
+
+-- Posts a system entry into the conversation for an order, on behalf of the
+-- party that caused it (the lender when no participant did)
+CREATE OR REPLACE FUNCTION public.post_order_system_message(p_order_id uuid, p_actor_id uuid, p_text text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_from uuid;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id;
+
+  IF NOT FOUND OR v_order.buyer_id = v_order.seller_id THEN
+    RETURN;
+  END IF;
+
+  v_from := CASE WHEN p_actor_id = v_order.buyer_id THEN v_order.buyer_id ELSE v_order.seller_id END;
+
+  PERFORM set_config('app.system_message', 'on', true);
+
+  INSERT INTO public.chat_messages (from_user_id, to_user_id, listing_id, order_id, message_text, is_system_message)
+  VALUES (
+    v_from,
+    CASE WHEN v_from = v_order.buyer_id THEN v_order.seller_id ELSE v_order.buyer_id END,
+    v_order.listing_id,
+    v_order.id,
+    p_text,
+    true
+  );
+
+  PERFORM set_config('app.system_message', 'off', true);
+END;
+$$;
+
+-- Transitions recorded in the order audit trail
+CREATE OR REPLACE FUNCTION public.post_order_event_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.post_order_system_message(
+    NEW.order_id,
+    NEW.actor_id,
+    CASE NEW.event
+      WHEN 'accept' THEN 'Order accepted. The borrower can now pay.'
+      WHEN 'hand_over' THEN 'Handover confirmed by QR scan. The rental has started.'
+      WHEN 'return' THEN 'Return confirmed by QR scan. The order is complete.'
+      WHEN 'complete' THEN 'The order was marked as complete.'
+      WHEN 'dispute' THEN 'A problem was reported on this order. A moderator will review it.'
+    END
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER post_order_event_message
+  AFTER INSERT ON public.order_events
+  FOR EACH ROW
+  WHEN (NEW.event IN ('accept', 'hand_over', 'return', 'complete', 'dispute'))
+  EXECUTE FUNCTION public.post_order_event_message();
+
+-- Payments are confirmed outside transition_order, so they are picked up
+-- from the status change
+CREATE OR REPLACE FUNCTION public.post_order_paid_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.post_order_system_message(NEW.id, NEW.buyer_id, 'Payment received. Arrange the handover with the QR code.');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER post_order_paid_message
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'paid' AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.post_order_paid_message();
+
+-- Recipients can update their messages to mark them read, but not turn them
+-- into system messages
+CREATE OR REPLACE FUNCTION public.guard_system_message_flag()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.is_system_message := OLD.is_system_message;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_system_message_flag
+  BEFORE UPDATE OF is_system_message ON public.chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_system_message_flag();
+
+REVOKE EXECUTE ON FUNCTION public.post_order_system_message(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_order_event_message() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_order_paid_message() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.guard_system_message_flag() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,538 @@
+-- Abuse controls in messaging: users can block each other, report messages
+-- to moderators, and contact details are masked in chat until an order is paid
+
+-- Block lists. Blocking works both ways: neither user can message the other or
+-- place an order with them.
+CREATE TABLE public.user_blocks (
+  blocker_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  blocked_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX idx_user_blocks_blocked ON public.user_blocks(blocked_id);
+
+ALTER TABLE public.user_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view who they blocked"
+ON public.user_blocks
+FOR SELECT
+USING (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can block others"
+ON public.user_blocks
+FOR INSERT
+WITH CHECK (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can unblock others"
+ON public.user_blocks
+FOR DELETE
+USING (auth.uid() = blocker_id);
+
+CREATE OR REPLACE FUNCTION public.is_blocked_between(p_user_id uuid, p_other_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_blocks b
+    WHERE (b.blocker_id = p_user_id AND b.blocked_id = p_other_user_id)
+       OR (b.blocker_id = p_other_user_id AND b.blocked_id = p_user_id)
+  );
+$$;
+
+-- Restrictive, so they apply on top of the existing insert policies. to_user_id
+-- is already resolved from the conversation when the check runs.
+CREATE POLICY "Blocked users cannot message each other"
+ON public.chat_messages
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (NOT public.is_blocked_between(from_user_id, to_user_id));
+
+CREATE POLICY "Blocked users cannot order from each other"
+ON public.orders
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (NOT public.is_blocked_between(buyer_id, seller_id));
+
+-- Bookings and confirmed service orders are written by SECURITY DEFINER
+-- functions, which skip RLS, so both tables also check in a trigger. The
+-- orders trigger is named to run after prepare_order has set the seller.
+CREATE OR REPLACE FUNCTION public.prevent_blocked_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_blocked_between(NEW.buyer_id, NEW.seller_id) THEN
+    RAISE EXCEPTION 'You cannot order from this user';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_blocked_order
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_blocked_order();
+
+CREATE OR REPLACE FUNCTION public.prevent_blocked_booking()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_blocked_between(NEW.buyer_id, NEW.provider_id) THEN
+    RAISE EXCEPTION 'You cannot book this provider';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_blocked_booking
+  BEFORE INSERT ON public.service_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_blocked_booking();
+
+CREATE OR REPLACE FUNCTION public.book_service(
+  p_slot_id uuid,
+  p_starts_at timestamp with time zone,
+  p_ends_at timestamp with time zone,
+  p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot public.service_slots%ROWTYPE;
+  v_listing public.listings%ROWTYPE;
+  v_buyer uuid := auth.uid();
+  v_hours integer;
+  v_id uuid;
+BEGIN
+  IF v_buyer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_slot
+  FROM public.service_slots
+  WHERE id = p_slot_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Time slot % not found', p_slot_id;
+  END IF;
+
+  SELECT * INTO v_listing
+  FROM public.listings
+  WHERE id = v_slot.service_id;
+
+  IF v_listing.status <> 'active' THEN
+    RAISE EXCEPTION 'This service is not available right now';
+  END IF;
+
+  IF v_listing.seller_id = v_buyer THEN
+    RAISE EXCEPTION 'You cannot book your own service';
+  END IF;
+
+  IF public.is_blocked_between(v_buyer, v_listing.seller_id) THEN
+    RAISE EXCEPTION 'You cannot book this provider';
+  END IF;
+
+  IF p_ends_at <= p_starts_at OR p_starts_at < v_slot.starts_at OR p_ends_at > v_slot.ends_at THEN
+    RAISE EXCEPTION 'The appointment has to fit inside the provider''s time slot';
+  END IF;
+
+  IF p_starts_at < now() THEN
+    RAISE EXCEPTION 'Appointments cannot start in the past';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.get_listing_availability(v_listing.id, p_starts_at, p_ends_at)
+  ) THEN
+    RAISE EXCEPTION 'That time is already booked';
+  END IF;
+
+  v_hours := public.booking_units('hourly', p_starts_at, p_ends_at);
+
+  INSERT INTO public.service_orders (
+    service_id, provider_id, buyer_id, slot_id, starts_at, ends_at,
+    hourly_rate, estimated_amount, notes
+  )
+  VALUES (
+    v_listing.id, v_listing.seller_id, v_buyer, v_slot.id, p_starts_at, p_ends_at,
+    v_listing.price, v_listing.price * v_hours, NULLIF(p_notes, '')
+  )
+  RETURNING id INTO v_id;
+
+  PERFORM public.create_notification(
+    v_listing.seller_id,
+    'order'::notification_type,
+    'New booking request',
+    'Someone wants to book ' || v_listing.title || ' on '
+      || to_char(p_starts_at, 'Mon DD "at" HH24:MI') || ' for ' || v_hours || ' hour(s).',
+    jsonb_build_object('service_order_id', v_id),
+    '/orders',
+    'Review request',
+    'high'
+  );
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.start_conversation(
+  p_listing_id uuid DEFAULT NULL,
+  p_order_id uuid DEFAULT NULL,
+  p_other_user_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_other uuid := p_other_user_id;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF p_order_id IS NOT NULL THEN
+    SELECT * INTO v_order
+    FROM public.orders
+    WHERE id = p_order_id;
+
+    IF NOT FOUND OR auth.uid() NOT IN (v_order.buyer_id, v_order.seller_id) THEN
+      RAISE EXCEPTION 'Not a participant in order %', p_order_id;
+    END IF;
+
+    v_other := CASE WHEN auth.uid() = v_order.buyer_id THEN v_order.seller_id ELSE v_order.buyer_id END;
+  ELSIF p_listing_id IS NOT NULL AND v_other IS NULL THEN
+    SELECT seller_id INTO v_other
+    FROM public.listings
+    WHERE id = p_listing_id;
+
+    IF v_other IS NULL THEN
+      RAISE EXCEPTION 'Listing % not found', p_listing_id;
+    END IF;
+  END IF;
+
+  IF v_other IS NULL THEN
+    RAISE EXCEPTION 'Choose who to message';
+  END IF;
+
+  IF v_other = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot message yourself';
+  END IF;
+
+  IF public.is_blocked_between(auth.uid(), v_other) THEN
+    RAISE EXCEPTION 'You cannot message this user';
+  END IF;
+
+  RETURN public.ensure_conversation(auth.uid(), v_other, p_listing_id, p_order_id);
+END;
+$$;
+
+-- Message reports for the moderator queue. The message is copied so
+-- moderators can review it without access to the conversation.
+CREATE TYPE public.message_report_reason AS ENUM (
+  'harassment',
+  'spam',
+  'scam',
+  'off_platform_payment',
+  'inappropriate',
+  'other'
+);
+
+CREATE TYPE public.message_report_status AS ENUM ('open', 'actioned', 'dismissed');
+
+CREATE TABLE public.message_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid REFERENCES public.chat_messages(id) ON DELETE SET NULL,
+  conversation_id uuid REFERENCES public.conversations(id) ON DELETE SET NULL,
+  reporter_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reported_user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason message_report_reason NOT NULL,
+  details text,
+  message_text text NOT NULL,
+  attachments text[],
+  status message_report_status NOT NULL DEFAULT 'open',
+  resolution_note text,
+  reviewed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (message_id, reporter_id)
+);
+
+CREATE INDEX idx_message_reports_status ON public.message_reports(status, created_at);
+
+ALTER TABLE public.message_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reporters and moderators can view message reports"
+ON public.message_reports
+FOR SELECT
+USING (
+  auth.uid() = reporter_id
+  OR public.has_role(auth.uid(), 'moderator')
+);
+
+-- Reports are only created and reviewed through the functions below
+REVOKE INSERT, UPDATE, DELETE ON public.message_reports FROM anon, authenticated;
+
+CREATE POLICY "Moderators can view reported chat attachments"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'chat-attachments'
+  AND public.has_role(auth.uid(), 'moderator')
+  AND EXISTS (
+    SELECT 1 FROM public.message_reports r
+    WHERE replace(name, '-thumb.jpg', '.jpg') = ANY (r.attachments)
+  )
+);
+
+-- Message reports are audited alongside the other moderator actions
+ALTER TABLE public.moderation_actions
+  DROP CONSTRAINT IF EXISTS moderation_actions_target_type_check;
+
+ALTER TABLE public.moderation_actions
+  ADD CONSTRAINT moderation_actions_target_type_check
+  CHECK (target_type IN ('listing', 'user', 'verification', 'category', 'badge', 'dispute', 'badge_metric', 'season', 'message'));
+
+-- Function for the recipient of a message to report it
+CREATE OR REPLACE FUNCTION public.report_message(
+  p_message_id uuid,
+  p_reason message_report_reason,
+  p_details text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message public.chat_messages%ROWTYPE;
+  v_report_id uuid;
+BEGIN
+  SELECT * INTO v_message
+  FROM public.chat_messages
+  WHERE id = p_message_id;
+
+  IF NOT FOUND OR v_message.to_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only report messages sent to you';
+  END IF;
+
+  IF COALESCE(v_message.is_system_message, false) THEN
+    RAISE EXCEPTION 'System messages cannot be reported';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.message_reports
+    WHERE message_id = p_message_id AND reporter_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You already reported this message';
+  END IF;
+
+  INSERT INTO public.message_reports (
+    message_id, conversation_id, reporter_id, reported_user_id, reason, details, message_text, attachments
+  )
+  VALUES (
+    v_message.id,
+    v_message.conversation_id,
+    auth.uid(),
+    v_message.from_user_id,
+    p_reason,
+    NULLIF(trim(p_details), ''),
+    v_message.message_text,
+    v_message.attachments
+  )
+  RETURNING id INTO v_report_id;
+
+  RETURN v_report_id;
+END;
+$$;
+
+-- Function for moderators to close a report, either after acting on it (for
+-- example suspending the user) or dismissing it
+CREATE OR REPLACE FUNCTION public.review_message_report(
+  p_report_id uuid,
+  p_actioned boolean,
+  p_note text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report public.message_reports%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'moderator') THEN
+    RAISE EXCEPTION 'Only moderators can review message reports';
+  END IF;
+
+  IF NULLIF(trim(p_note), '') IS NULL THEN
+    RAISE EXCEPTION 'A note is required';
+  END IF;
+
+  SELECT * INTO v_report
+  FROM public.message_reports
+  WHERE id = p_report_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report % not found', p_report_id;
+  END IF;
+
+  IF v_report.status <> 'open' THEN
+    RAISE EXCEPTION 'Report % was already reviewed', p_report_id;
+  END IF;
+
+  UPDATE public.message_reports
+  SET status = CASE WHEN p_actioned THEN 'actioned' ELSE 'dismissed' END::message_report_status,
+      resolution_note = trim(p_note),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = p_report_id;
+
+  PERFORM public.log_moderation_action(
+    CASE WHEN p_actioned THEN 'action_message_report' ELSE 'dismiss_message_report' END,
+    'message',
+    v_report.id,
+    p_note,
+    jsonb_build_object('reported_user_id', v_report.reported_user_id, 'reason', v_report.reason)
+  );
+
+  PERFORM public.create_notification(
+    v_report.reporter_id,
+    'system'::notification_type,
+    'Your report was reviewed',
+    CASE WHEN p_actioned
+      THEN 'Thanks for letting us know. A moderator took action on the message you reported.'
+      ELSE 'A moderator reviewed the message you reported and found no violation.'
+    END,
+    jsonb_build_object('kind', 'message_report_reviewed', 'report_id', v_report.id),
+    NULL,
+    NULL,
+    'low'
+  );
+END;
+$$;
+
+-- Contact details masking. Turn off to let users share contact details
+-- before paying.
+CREATE OR REPLACE FUNCTION public.redact_contact_details_before_payment()
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT true;
+$$;
+
+-- Replaces email addresses, phone numbers and payment handles with [hidden]
+CREATE OR REPLACE FUNCTION public.redact_contact_details(p_text text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_text text := p_text;
+BEGIN
+  v_text := regexp_replace(v_text, '[[:alnum:]._%+-]+@[[:alnum:].-]+\.[[:alpha:]]{2,}', '[hidden]', 'g');
+  v_text := regexp_replace(v_text, '(paypal\.me|venmo\.com|cash\.app|revolut\.me)/\S+', '[hidden]', 'gi');
+  v_text := regexp_replace(v_text, '\$[[:alpha:]][[:alnum:]_]{2,}', '[hidden]', 'g');
+
+  -- @handles only count as payment handles next to a payment app name
+  IF v_text ~* '(venmo|paypal|cash ?app|zelle|revolut)' THEN
+    v_text := regexp_replace(v_text, '(^|\s)@[[:alnum:]_.-]{3,}', '\1[hidden]', 'g');
+  END IF;
+
+  v_text := regexp_replace(v_text, '(\+\d{1,3}[\s.-]?)?\(?\d{2,4}\)?[\s.-]?\d{3,4}[\s.-]?\d{3,5}', '[hidden]', 'g');
+  RETURN v_text;
+END;
+$$;
+
+ALTER TABLE public.chat_messages
+ADD COLUMN IF NOT EXISTS contact_redacted boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.prepare_chat_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation public.conversations%ROWTYPE;
+  v_path text;
+  v_redacted text;
+BEGIN
+  IF NEW.conversation_id IS NULL THEN
+    NEW.conversation_id := public.ensure_conversation(NEW.from_user_id, NEW.to_user_id, NEW.listing_id, NEW.order_id);
+  END IF;
+
+  SELECT * INTO v_conversation
+  FROM public.conversations
+  WHERE id = NEW.conversation_id;
+
+  IF NOT FOUND OR NEW.from_user_id NOT IN (v_conversation.user_a, v_conversation.user_b) THEN
+    RAISE EXCEPTION 'Not a participant in this conversation';
+  END IF;
+
+  IF COALESCE(cardinality(NEW.attachments), 0) > public.max_chat_attachments() THEN
+    RAISE EXCEPTION 'A message can have at most % photos', public.max_chat_attachments();
+  END IF;
+
+  FOREACH v_path IN ARRAY COALESCE(NEW.attachments, '{}'::text[]) LOOP
+    IF v_path NOT LIKE NEW.conversation_id || '/' || NEW.from_user_id || '/%' THEN
+      RAISE EXCEPTION 'Attachment % does not belong to this conversation', v_path;
+    END IF;
+  END LOOP;
+
+  -- System entries are only written by post_order_system_message
+  IF COALESCE(NEW.is_system_message, false)
+     AND current_setting('app.system_message', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'System messages can only be created by the server';
+  END IF;
+
+  IF btrim(NEW.message_text) = '' AND COALESCE(cardinality(NEW.attachments), 0) = 0 THEN
+    RAISE EXCEPTION 'Message is empty';
+  END IF;
+
+  -- Contact details stay hidden until the order is paid, so deals are not
+  -- taken off the platform
+  IF NOT COALESCE(NEW.is_system_message, false)
+     AND public.redact_contact_details_before_payment()
+     AND NOT EXISTS (
+       SELECT 1 FROM public.orders o
+       WHERE o.id = v_conversation.order_id AND o.paid_at IS NOT NULL
+     ) THEN
+    v_redacted := public.redact_contact_details(NEW.message_text);
+    NEW.contact_redacted := v_redacted IS DISTINCT FROM NEW.message_text;
+    NEW.message_text := v_redacted;
+  ELSE
+    NEW.contact_redacted := false;
+  END IF;
+
+  NEW.to_user_id := CASE WHEN NEW.from_user_id = v_conversation.user_a THEN v_conversation.user_b ELSE v_conversation.user_a END;
+  NEW.listing_id := v_conversation.listing_id;
+  NEW.order_id := v_conversation.order_id;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_blocked_between(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_blocked_between(uuid, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.report_message(uuid, message_report_reason, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.report_message(uuid, message_report_reason, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.review_message_report(uuid, boolean, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_message_report(uuid, boolean, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.prevent_blocked_order() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.prevent_blocked_booking() FROM PUBLIC, anon, authenticated;